@@ -0,0 +1,122 @@
+import { parseArgs } from 'node:util';
+import { performance } from 'node:perf_hooks';
+import { UTCTimestamp } from '../types';
+import {
+    AnalysisPipeline, DEFAULT_CONFIG, analyseCandles, detectBalancedRanges, detectDealingRanges, detectFVG,
+    detectKeyLevels, detectLiquidity, detectOrderBlocks, detectStructure, htfLevels, intervalToMs
+} from '../core';
+import { SyntheticProvider } from '../services/syntheticProvider';
+
+// --- DETECTOR BENCHMARK ---
+// Times each detector, the whole pipeline and the per-candle incremental
+// update over a synthetic series. The series is deterministic, so runs on
+// different machines or revisions compare like for like. Exits non-zero when a
+// push gets costlier as the history grows.
+
+const USAGE = `Usage: npm run bench -- [options]
+
+  --bars <n>           chart candles (default 100000)
+  --timeframe <tf>     chart timeframe (default 5m)
+  --symbol <symbol>    synthetic symbol (default SYN-GOLD)`;
+
+const fail = (message: string): never => {
+    console.error(`bench: ${message}`);
+    process.exit(1);
+};
+
+// Runs `fn` once and prints how long it took
+const time = <T>(label: string, fn: () => T): T => {
+    const start = performance.now();
+    const result = fn();
+    console.log(`${label.padEnd(16)} ${(performance.now() - start).toFixed(0).padStart(8)} ms`);
+    return result;
+};
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+
+// How much the last tenth of the series may cost over the second. The first
+// tenth is left out: it includes the JIT warming up.
+const GROWTH_LIMIT = 2;
+
+const main = async () => {
+    const { values } = parseArgs({
+        options: {
+            bars: { type: 'string', default: '100000' },
+            timeframe: { type: 'string', default: '5m' },
+            symbol: { type: 'string', default: 'SYN-GOLD' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+    if (values.help) {
+        console.log(USAGE);
+        process.exit(0);
+    }
+    const bars = Number(values.bars);
+    if (!Number.isInteger(bars) || bars < 1) fail(`invalid bar count: ${values.bars}`);
+    const timeframe = values.timeframe;
+    let step = 0;
+    try { step = intervalToMs(timeframe) / 1000; }
+    catch (e: any) { fail(e.message); }
+
+    const config = DEFAULT_CONFIG;
+    const provider = new SyntheticProvider();
+    const endTime = Math.floor(Date.UTC(2026, 5, 1) / 1000) as UTCTimestamp;
+    const chart = await provider.getCandles(values.symbol, timeframe, { endTime, limit: bars });
+    const startTime = chart[0].time;
+    const higher = await Promise.all(config.timeframeStack
+        .filter(tf => intervalToMs(tf) > step * 1000)
+        .sort((a, b) => intervalToMs(a) - intervalToMs(b))
+        .map(async tf => ({ timeframe: tf, candles: await provider.getCandles(values.symbol, tf, { startTime, endTime, limit: bars }) })));
+    const daily = timeframe === '1d' ? [] : await provider.getCandles(values.symbol, '1d', { endTime: (startTime as number) - 1 as UTCTimestamp, limit: 60 });
+    console.log(`${values.symbol} ${timeframe}: ${chart.length} candles, ${higher.map(h => `${h.candles.length} ${h.timeframe}`).join(', ') || 'no higher timeframes'}\n`);
+
+    const structure = time('structure', () => detectStructure(chart, config.swingLength, config.internalLength));
+    const obs = config.obTimeframes.includes(timeframe) ? time('order blocks', () => detectOrderBlocks(chart, structure, config)) : [];
+    const fvgs = time('fvg', () => detectFVG(chart, config.sessions));
+    const bprs = time('bpr', () => detectBalancedRanges(chart, fvgs));
+    const pools = time('liquidity', () => detectLiquidity(chart, structure, config.liquidityTolerance));
+    const keyLevels = time('key levels', () => detectKeyLevels(chart, daily, config.sessions));
+    time('dealing ranges', () => detectDealingRanges(structure));
+    time('htf structure', () => htfLevels(higher, config.swingLength, config.internalLength));
+    // Entries are only scored inside the pipeline, against the zones as they stand at each candle
+    const analysis = time('analyseCandles', () => analyseCandles(chart, timeframe, config, higher, daily));
+    console.log(`\n${structure.length} structure points, ${obs.length} OBs, ${fvgs.length} FVGs, ${bprs.length} BPRs, ${pools.length} pools, ${keyLevels.length} key levels, ${analysis.entries.length} signals\n`);
+
+    // As the app runs it: each chart candle pushed once it has closed, after
+    // the higher-timeframe candles that closed by then
+    const pipeline = new AnalysisPipeline(timeframe, config, higher.map(h => h.timeframe), daily);
+    const cursors = higher.map(() => 0);
+    const latency: number[] = [];
+    const open: number[] = [];
+    for (const c of chart) {
+        const closed = (c.time as number) + step;
+        const start = performance.now();
+        higher.forEach((h, k) => {
+            const htfStep = intervalToMs(h.timeframe) / 1000;
+            while (cursors[k] < h.candles.length && (h.candles[cursors[k]].time as number) + htfStep <= closed) pipeline.pushHigher(h.timeframe, h.candles[cursors[k]++]);
+        });
+        pipeline.push(c);
+        latency.push(performance.now() - start);
+        open.push(pipeline.openZones);
+    }
+    // Each tenth separately: a push should not get slower as the history grows
+    const tenth = Math.max(1, Math.floor(latency.length / 10));
+    const report = (label: string, from: number, to: number) => {
+        const samples = latency.slice(from, to);
+        const sorted = [...samples].sort((a, b) => a - b);
+        const mean = samples.reduce((sum, t) => sum + t, 0) / samples.length;
+        const p99 = percentile(sorted, 0.99);
+        console.log(`${label.padEnd(16)} mean ${(mean * 1000).toFixed(0).padStart(5)} µs   p99 ${(p99 * 1000).toFixed(0).padStart(5)} µs   max ${sorted[sorted.length - 1].toFixed(1).padStart(6)} ms   open zones ≤ ${Math.max(...open.slice(from, to))}`);
+        return { mean, p99, open: Math.max(...open.slice(from, to)) };
+    };
+    console.log('per-candle push');
+    report('  all', 0, latency.length);
+    const tenths = Array.from({ length: 10 }, (_, k) => report(`  tenth ${k + 1}`, k * tenth, k === 9 ? latency.length : (k + 1) * tenth));
+    if (latency.length < 20) return;
+    const [second, last] = [tenths[1], tenths[9]];
+    const grew = (['mean', 'p99', 'open'] as const).filter(k => last[k] > second[k] * GROWTH_LIMIT);
+    if (grew.length > 0) fail(`the last tenth is over ${GROWTH_LIMIT}x the second in ${grew.join(', ')}`);
+    console.log(`\nwithin ${GROWTH_LIMIT}x of the second tenth to the end`);
+};
+
+main().catch(e => fail(e?.message ?? String(e)));
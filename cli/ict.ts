@@ -0,0 +1,149 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { BacktestStats, CandleData, DetectorConfig, EntrySignal, ExecutionConfig } from '../types';
+import { DEFAULT_CONFIG, DEFAULT_EXECUTION, analyseCandles, intervalFromMs, intervalToMs, parseStrategyJson, performBacktest } from '../core';
+import { FileProvider, detectIntervalMs } from '../services/fileProvider';
+
+// --- ICT BACKTEST CLI ---
+// Runs the detector pipeline and the backtester over a CSV/JSON candle file.
+// Higher timeframes of the stack and the daily levels are resampled from the
+// file, and when the file is finer than --timeframe its own bars resolve
+// same-candle SL/TP conflicts.
+
+const USAGE = `Usage: npm run ict -- <candles.csv|json> [options]
+
+  --timeframe <tf>     chart timeframe, e.g. 15m (default: the file's interval)
+  --config <file>      JSON detector settings merged over the defaults
+  --strategy <file>    strategy JSON as exported from the STRATEGY panel
+  --execution <file>   JSON execution settings merged over the defaults
+  --from <date>        first candle to trade (ISO date or unix seconds)
+  --to <date>          last candle to trade
+  --format <json|csv>  stdout format (default json)
+  --stats <file>       write the stats instead of printing them (.json or .csv)
+  --trades <file>      write the trade list instead of printing it (.json or .csv)`;
+
+const fail = (message: string): never => {
+    console.error(`ict: ${message}`);
+    process.exit(1);
+};
+
+const readJson = (file: string) => {
+    try { return JSON.parse(readFileSync(file, 'utf8')); }
+    catch (e: any) { return fail(`cannot read ${file}: ${e.message}`); }
+};
+
+const toTime = (value: string) => {
+    const t = /^\d+$/.test(value) ? Number(value) : Date.parse(value) / 1000;
+    return isNaN(t) ? fail(`invalid date: ${value}`) : t;
+};
+
+const iso = (t?: number) => t === undefined ? '' : new Date(t * 1000).toISOString();
+
+const csvCell = (value: unknown) => {
+    const s = value === undefined ? '' : String(value);
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const toCsv = (header: string[], rows: unknown[][]) =>
+    [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+const TRADE_COLUMNS = ['time', 'type', 'price', 'sl', 'tp', 'score', 'result', 'exitReason', 'exitTime', 'exitPrice', 'quantity', 'grossPnL', 'fees', 'pnl', 'confluences'];
+
+const tradesCsv = (trades: EntrySignal[]) => toCsv(TRADE_COLUMNS, trades.map(t => [
+    iso(t.time as number), t.type, t.price, t.sl, t.tp, t.score, t.backtestResult, t.backtestExitReason, iso(t.backtestExitTime as number | undefined),
+    t.backtestExitPrice, t.backtestQuantity, t.backtestGrossPnL, t.backtestFees, t.backtestPnL, t.confluences.join('; ')
+]));
+
+// One row; the equity curve only goes into JSON
+const statsCsv = (stats: BacktestStats) => {
+    const { equityCurve, ...flat } = stats;
+    return toCsv(Object.keys(flat), [Object.values(flat)]);
+};
+
+const output = (file: string | undefined, format: string, json: unknown, csv: string) => {
+    const text = (file ? /\.csv$/i.test(file) : format === 'csv') ? csv : JSON.stringify(json, null, 2) + '\n';
+    if (file) writeFileSync(file, text);
+    else process.stdout.write(text);
+};
+
+const main = async () => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            timeframe: { type: 'string' },
+            config: { type: 'string' },
+            strategy: { type: 'string' },
+            execution: { type: 'string' },
+            from: { type: 'string' },
+            to: { type: 'string' },
+            format: { type: 'string', default: 'json' },
+            stats: { type: 'string' },
+            trades: { type: 'string' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+    if (values.help || positionals.length !== 1) {
+        console.log(USAGE);
+        process.exit(values.help ? 0 : 1);
+    }
+    if (values.format !== 'json' && values.format !== 'csv') fail(`unknown format: ${values.format}`);
+
+    const file = positionals[0];
+    const provider = new FileProvider();
+    let symbol: string;
+    try { symbol = provider.load(basename(file), readFileSync(file, 'utf8')).symbol; }
+    catch (e: any) { return fail(e.message); }
+
+    const base = await provider.getCandles(symbol, '1m');
+    const baseMs = detectIntervalMs(base);
+    const timeframe = values.timeframe ?? intervalFromMs(baseMs) ?? fail('cannot infer the timeframe, pass --timeframe');
+    try { if (intervalToMs(timeframe) < baseMs) fail(`${file} is coarser than ${timeframe}`); }
+    catch (e: any) { fail(e.message); }
+
+    const config: DetectorConfig = { ...DEFAULT_CONFIG, ...(values.config ? readJson(values.config) : {}) };
+    if (values.strategy) {
+        try { config.strategy = parseStrategyJson(readFileSync(values.strategy, 'utf8')); }
+        catch (e: any) { fail(`${values.strategy}: ${e.message}`); }
+    }
+    const execution: ExecutionConfig = { ...DEFAULT_EXECUTION, ...(values.execution ? readJson(values.execution) : {}) };
+
+    const candles = await provider.getCandles(symbol, timeframe);
+    const higher = await Promise.all(config.timeframeStack
+        .filter(tf => intervalToMs(tf) > intervalToMs(timeframe))
+        .sort((a, b) => intervalToMs(a) - intervalToMs(b))
+        .map(async tf => ({ timeframe: tf, candles: await provider.getCandles(symbol, tf) })));
+    const daily = timeframe === '1d' ? [] : await provider.getCandles(symbol, '1d');
+    const { entries } = analyseCandles(candles, timeframe, config, higher, daily);
+
+    // The file's own bars grouped under the chart candle they fall in
+    let ltfBars: Map<number, CandleData[]> | undefined;
+    if (intervalToMs(timeframe) > baseMs) {
+        const step = intervalToMs(timeframe) / 1000;
+        ltfBars = new Map();
+        for (const c of base) {
+            const bucket = Math.floor((c.time as number) / step) * step;
+            if (!ltfBars.has(bucket)) ltfBars.set(bucket, []);
+            ltfBars.get(bucket)!.push(c);
+        }
+    }
+
+    const from = values.from ? toTime(values.from) : -Infinity;
+    const to = values.to ? toTime(values.to) : Infinity;
+    const signals = entries.filter(s => (s.time as number) >= from && (s.time as number) <= to);
+    const { stats, results } = performBacktest(candles, signals, execution, ltfBars);
+    // Signals that never filled stay PENDING and are not trades
+    const trades = results.filter(t => t.backtestResult !== 'PENDING');
+
+    console.error(`${symbol} ${timeframe}: ${candles.length} candles, ${signals.length} signals, ${stats.totalTrades} trades, net ${stats.netPnL.toFixed(2)}`);
+    if (values.stats || values.trades) {
+        if (values.stats) output(values.stats, values.format, stats, statsCsv(stats));
+        if (values.trades) output(values.trades, values.format, trades, tradesCsv(trades));
+    } else if (values.format === 'csv') {
+        process.stdout.write(statsCsv(stats) + '\n' + tradesCsv(trades));
+    } else {
+        output(undefined, 'json', { symbol, timeframe, stats, trades }, '');
+    }
+};
+
+main().catch(e => fail(e?.message ?? String(e)));
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EXECUTION, performBacktest } from '..';
+import { EntrySignal, ExecutionConfig } from '../types';
+import { at, bars } from './fixtures';
+
+// No spread, slippage or fees: fills at the signal price and the exact levels
+const FREE: ExecutionConfig = { ...DEFAULT_EXECUTION, feeRate: 0, spread: 0, slippageTicks: 0 };
+
+const signal = (index: number, type: EntrySignal['type'], price: number, sl: number, tp: number): EntrySignal => ({
+    time: at(index), type, price, sl, tp,
+    score: 5, confluences: [], winProbability: 50, tradingStyle: 'DAY_TRADE', po3Phase: 'NONE'
+});
+
+const candles = bars([
+    [99.5, 100.2, 99.5, 100],
+    [100, 101, 99.5, 100.5],
+    [100.5, 102.5, 100.2, 102.3],   // through 102
+    [102.3, 102.4, 101.8, 102],
+    [102, 104.2, 101.9, 104]        // through 104
+]);
+
+// The second candle reaches both 98.5 and 102.5
+const conflicted = candles.map((c, i) => i === 1 ? { ...c, high: 102.5, low: 98.5 } : c);
+
+describe('performBacktest', () => {
+    it('risks riskPercent of the balance between entry and stop', () => {
+        const { stats, results } = performBacktest(candles, [signal(0, 'LONG', 100, 99, 102)], FREE);
+        expect(results[0]).toMatchObject({
+            backtestResult: 'WIN', backtestExitReason: 'TP', backtestExitTime: at(2), backtestExitPrice: 102,
+            backtestQuantity: 1000, backtestPnL: 2000, backtestGrossPnL: 2000, backtestFees: 0
+        });
+        expect(stats).toMatchObject({ totalTrades: 1, wins: 1, losses: 0, netPnL: 2000, endingBalance: 102000, equityCurve: [100000, 102000] });
+    });
+
+    it('sizes each trade from the balance after the trades closed before it', () => {
+        const { stats, results } = performBacktest(candles, [signal(0, 'LONG', 100, 99, 102), signal(3, 'LONG', 102, 101, 104)], FREE);
+        expect(results[1]).toMatchObject({ backtestQuantity: 1020, backtestPnL: 2040 });
+        expect(stats.endingBalance).toBe(104040);
+    });
+
+    it('settles a candle through both levels by sameBarResolution', () => {
+        const long = [signal(0, 'LONG', 100, 99, 102)];
+        expect(performBacktest(conflicted, long, FREE).results[0]).toMatchObject({ backtestResult: 'LOSS', backtestExitReason: 'SL', backtestPnL: -1000 });
+        expect(performBacktest(conflicted, long, { ...FREE, sameBarResolution: 'TARGET_FIRST' }).results[0]).toMatchObject({ backtestResult: 'WIN', backtestExitTime: at(1) });
+
+        const lower = { ...FREE, sameBarResolution: 'LOWER_TIMEFRAME' as const };
+        const missing = performBacktest(conflicted, long, lower);
+        expect(missing.conflicts).toEqual([at(1)]);
+        expect(missing.stats.sameBarConflicts).toBe(1);
+        const ltf = new Map([[at(1) as number, bars([[100, 102.5, 100, 102.2], [102.2, 102.3, 98.5, 99]], at(1), 300)]]);
+        const resolved = performBacktest(conflicted, long, lower, ltf);
+        expect(resolved.conflicts).toEqual([]);
+        expect(resolved.results[0]).toMatchObject({ backtestResult: 'WIN', backtestExitReason: 'TP' });
+    });
+
+    it('leaves a signal that never reaches either level PENDING and out of the stats', () => {
+        const { stats, results } = performBacktest(candles, [signal(0, 'LONG', 100, 99, 102), signal(2, 'SHORT', 102.3, 105, 96)], FREE);
+        expect(results[1].backtestResult).toBe('PENDING');
+        expect(results[1].backtestPnL).toBeUndefined();
+        expect(stats.totalTrades).toBe(1);
+    });
+
+    it('charges the spread and slippage on entry and fees on both sides', () => {
+        const exec = { ...FREE, spread: 0.02, slippageTicks: 1, feeRate: 0.001 };
+        const { stats, results } = performBacktest(candles, [signal(0, 'LONG', 100, 99, 102)], exec);
+        // Bought at the ask plus a tick, sold at the target
+        const quantity = 1000 / 1.02;
+        const fees = 0.001 * quantity * (100.02 + 102);
+        expect(results[0].backtestQuantity).toBeCloseTo(quantity);
+        expect(results[0].backtestFees).toBeCloseTo(fees);
+        expect(results[0].backtestPnL).toBeCloseTo(quantity * 1.98 - fees);
+        expect(stats.grossPnL).toBeCloseTo(quantity * 2);
+        expect(stats.executionCost).toBeCloseTo(quantity * 0.02);
+    });
+
+    it('exits at the close after maxBarsInTrade candles', () => {
+        const { results, stats } = performBacktest(candles, [signal(0, 'LONG', 100, 99, 110)], { ...FREE, maxBarsInTrade: 2 });
+        expect(results[0]).toMatchObject({ backtestExitReason: 'TIME', backtestExitTime: at(2), backtestExitPrice: 102.3 });
+        expect(stats.timeExits).toBe(1);
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisPipeline, DEFAULT_CONFIG, detectEntries } from '..';
+import { at, waves } from './fixtures';
+
+const candles = waves(600);
+const signals = detectEntries(candles, '15m');
+const { strategy } = DEFAULT_CONFIG;
+
+describe('detectEntries', () => {
+    it('signals on candle times, in order, once the 100 candles of history are in', () => {
+        expect(signals.length).toBeGreaterThan(0);
+        const times = signals.map(s => s.time as number);
+        expect(times).toEqual([...times].sort((a, b) => a - b));
+        expect(times.every(t => t >= at(100) && candles.some(c => c.time === t))).toBe(true);
+    });
+
+    it('enters at the close with the stop and a 2R target on the right sides', () => {
+        for (const s of signals) {
+            const candle = candles.find(c => c.time === s.time)!;
+            expect(s.price).toBe(candle.close);
+            const dir = s.type === 'LONG' ? 1 : -1;
+            expect((s.price - s.sl) * dir).toBeGreaterThan(0);
+            expect(s.tp).toBeCloseTo(s.price + 2 * (s.price - s.sl));
+        }
+    });
+
+    it('only signals at the minimum score, and not again within the cooldown', () => {
+        expect(signals.every(s => s.score >= strategy.minScore)).toBe(true);
+        signals.slice(1).forEach((s, k) => expect((s.time as number) - (signals[k].time as number)).toBeGreaterThanOrEqual(strategy.cooldownMinutes * 60));
+    });
+
+    it('does not look ahead: a shorter series gives the same signals up to its end', () => {
+        const cut = 400;
+        expect(detectEntries(candles.slice(0, cut), '15m')).toEqual(signals.filter(s => (s.time as number) < at(cut)));
+    });
+
+    it('gives what the pipeline emits candle by candle', () => {
+        const pipeline = new AnalysisPipeline('15m');
+        const emitted = candles.flatMap(c => pipeline.push(c) ?? []);
+        expect(emitted).toEqual(signals);
+    });
+
+    it('does not signal below the minimum score', () => {
+        expect(detectEntries(candles, '15m', { ...DEFAULT_CONFIG, strategy: { ...strategy, minScore: 100 } })).toEqual([]);
+    });
+});
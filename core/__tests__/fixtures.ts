@@ -0,0 +1,59 @@
+import { CandleData, StructurePoint, UTCTimestamp } from '../types';
+
+// --- FIXTURES ---
+// Hand-written candle series for the detector tests. Times are 15m candles
+// from Monday 2026-01-05 00:00 UTC unless a test says otherwise.
+
+export const T0 = Date.UTC(2026, 0, 5) / 1000;
+export const STEP = 900;
+
+export const at = (index: number, start: number = T0, step: number = STEP) => (start + index * step) as UTCTimestamp;
+
+// Candles from [open, high, low, close] rows, one `step` apart
+export const bars = (rows: [number, number, number, number][], start: number = T0, step: number = STEP): CandleData[] =>
+    rows.map(([open, high, low, close], i) => ({ time: at(i, start, step), open, high, low, close }));
+
+// Candles closing at each of `closes`, each opening halfway from the previous
+// close so a turn leaves a single highest high / lowest low, with `wick`
+// above and below the body
+export const path = (first: number, closes: number[], wick: number = 0.2, start: number = T0): CandleData[] => {
+    let previous = first;
+    return bars(closes.map(close => {
+        const open = (previous + close) / 2;
+        previous = close;
+        return [open, Math.max(open, close) + wick, Math.min(open, close) - wick, close];
+    }), start);
+};
+
+// A long deterministic series of overlapping swings with seeded noise, for
+// the tests that need the 100 candles of history the entry scoring waits for
+export const waves = (count: number, seed: number = 7): CandleData[] => {
+    let state = seed;
+    const noise = () => {
+        state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+        return state / 4294967296 - 0.5;
+    };
+    const closes = Array.from({ length: count }, (_, i) => 100 + 4 * Math.sin(i / 9) + 2 * Math.sin(i / 31) + noise() * 1.5);
+    let open = 100;
+    return closes.map((close, i) => {
+        const candle: CandleData = { time: at(i), open, high: Math.max(open, close) + Math.abs(noise()), low: Math.min(open, close) - Math.abs(noise()), close, volume: 100 + 50 * noise() };
+        open = close;
+        return candle;
+    });
+};
+
+// A swing pivot as detectStructure reports it, confirmed at candle `confirmed`
+export const pivot = (index: number, price: number, direction: 'Bullish' | 'Bearish', confirmed: number): StructurePoint => ({
+    time: at(index), price, direction, level: 'Swing',
+    type: direction === 'Bearish' ? 'HH' : 'LL',
+    confirmedTime: at(confirmed)
+});
+
+// A steady climb of `count` candles, each opening at the last close and rising
+// 0.1 with a small wick below, so each one leaves a bullish gap that price
+// never comes back to
+export const trend = (count: number, from: number = 100, start: number = T0): CandleData[] =>
+    bars(Array.from({ length: count }, (_, i) => {
+        const open = from + i * 0.1;
+        return [open, open + 0.1, open - 0.02, open + 0.1];
+    }), start);
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SESSIONS, FVG_MAX_AGE, FvgProcessor, detectBalancedRanges, detectFVG, fvgStateAt } from '..';
+import { at, bars, trend } from './fixtures';
+
+// A bullish gap from 101 (first high) to 103 (third low), retraced in steps,
+// filled and closed through, rejected from below (inversion) and finally
+// closed back above
+const gapLifecycle = bars([
+    [100, 101, 99.5, 100.8],
+    [100.8, 104, 100.6, 103.8],
+    [103.8, 104.5, 103, 104.2],
+    [104.2, 104.4, 102.5, 103.5],   // 25% into the gap
+    [103.5, 103.6, 101.8, 102.2],   // through the CE at 102
+    [102.2, 102.4, 100.5, 100.7],   // filled, closed below it
+    [100.7, 101.2, 100.2, 100.6],   // back up into it and rejected: inversion
+    [100.6, 100.8, 99.9, 100.1],
+    [100.1, 103.3, 100, 103.2]      // closed back above: the IFVG is done
+]);
+
+// A bearish gap 103-105, then a bullish one 103.5-104.5 inside it two candles later
+const opposingGaps = bars([
+    [106, 106.5, 105, 105.2],
+    [105.2, 105.3, 102.5, 102.8],
+    [102.8, 103, 102, 102.4],
+    [102.4, 103.5, 102.2, 103.3],
+    [103.3, 106, 102.9, 105.8],
+    [105.8, 106.2, 104.5, 106],
+    [106, 106.1, 103, 103.2]        // closes below the range
+]);
+
+describe('detectFVG', () => {
+    const partial = (candles: number) => detectFVG(gapLifecycle.slice(0, candles), DEFAULT_SESSIONS)[0];
+
+    it('finds a gap between the first and third candle, confirmed by the third', () => {
+        expect(partial(3)).toEqual({
+            id: `fvg-bull-${at(1)}`, time: at(1), confirmedTime: at(2),
+            priceHigh: 103, priceLow: 101, direction: 'Bullish',
+            mitigated: false, isSilverBullet: false, fillState: 'UNTOUCHED', fillPercent: 0
+        });
+    });
+
+    it('tracks how far price retraced into the gap', () => {
+        expect(partial(4)).toMatchObject({ fillState: 'PARTIAL', fillPercent: 25 });
+        expect(partial(5)).toMatchObject({ fillState: 'CE', ceTime: at(4) });
+        expect(partial(5).fillPercent).toBeCloseTo(60);
+        expect(partial(6)).toMatchObject({ fillState: 'FILLED', fillPercent: 100, filledTime: at(5), mitigated: true, mitigatedTime: at(5) });
+    });
+
+    it('inverts a gap closed through and rejected from the other side, until a close back through it', () => {
+        expect(partial(7)).toMatchObject({ direction: 'Bearish', inversionTime: at(6), mitigated: false, mitigatedTime: undefined });
+        expect(partial(9)).toMatchObject({ direction: 'Bearish', mitigated: true, mitigatedTime: at(8) });
+    });
+
+    it('gives the state as it was at an earlier candle', () => {
+        const fvg = partial(9);
+        expect(fvgStateAt(fvg, at(2))).toBeNull();
+        expect(fvgStateAt(fvg, at(4))).toMatchObject({ direction: 'Bullish', inversionTime: undefined });
+        expect(fvgStateAt(fvg, at(6))).toBeNull();
+        expect(fvgStateAt(fvg, at(7))).toMatchObject({ direction: 'Bearish' });
+        expect(fvgStateAt(fvg, at(8))).toBeNull();
+    });
+
+    it('retires a gap still waiting FVG_MAX_AGE candles after it formed, so a trend keeps a bounded set', () => {
+        const candles = trend(4 * FVG_MAX_AGE);
+        const processor = new FvgProcessor(DEFAULT_SESSIONS);
+        const sizes = candles.map(c => {
+            processor.push(c);
+            return processor.active.length;
+        });
+        // Every candle confirms a gap, and none is ever filled
+        expect(processor.fvgs).toHaveLength(candles.length - 2);
+        expect(Math.max(...sizes)).toBe(FVG_MAX_AGE + 1);
+        expect(sizes[sizes.length - 1]).toBe(FVG_MAX_AGE + 1);
+        expect(processor.fvgs[0]).toMatchObject({ time: at(1), fillState: 'UNTOUCHED', mitigated: true, mitigatedTime: at(FVG_MAX_AGE + 3) });
+        expect(fvgStateAt(processor.fvgs[0], at(FVG_MAX_AGE + 2))).not.toBeNull();
+        expect(fvgStateAt(processor.fvgs[0], at(FVG_MAX_AGE + 3))).toBeNull();
+    });
+
+    it('finds bearish gaps', () => {
+        expect(detectFVG(opposingGaps.slice(0, 3), DEFAULT_SESSIONS)).toMatchObject([{ direction: 'Bearish', priceHigh: 105, priceLow: 103, time: at(1) }]);
+    });
+});
+
+describe('detectBalancedRanges', () => {
+    it('takes the overlap of opposite gaps and the later one\'s direction, until a close through its far side', () => {
+        const fvgs = detectFVG(opposingGaps, DEFAULT_SESSIONS);
+        expect(fvgs.map(f => f.id)).toEqual([`fvg-bear-${at(1)}`, `fvg-bull-${at(4)}`]);
+        expect(detectBalancedRanges(opposingGaps, fvgs)).toEqual([{
+            id: `bpr-${at(1)}-${at(4)}`, time: at(4), confirmedTime: at(5),
+            priceHigh: 104.5, priceLow: 103.5, direction: 'Bullish',
+            mitigated: true, mitigatedTime: at(6)
+        }]);
+    });
+
+    it('retires a range not closed through FVG_MAX_AGE candles after it formed', () => {
+        const candles = [...opposingGaps.slice(0, 6), ...trend(FVG_MAX_AGE + 10, 106, at(6))];
+        expect(detectBalancedRanges(candles, detectFVG(candles, DEFAULT_SESSIONS))).toMatchObject([{
+            id: `bpr-${at(1)}-${at(4)}`, mitigated: true, mitigatedTime: at(FVG_MAX_AGE + 6)
+        }]);
+    });
+
+    it('does not pair gaps further apart than maxCandles', () => {
+        expect(detectBalancedRanges(opposingGaps, detectFVG(opposingGaps, DEFAULT_SESSIONS), 2)).toEqual([]);
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DAY, DEFAULT_SESSIONS, detectKeyLevels } from '..';
+import { CandleData, KeyLevel, UTCTimestamp } from '../types';
+
+// Hourly candles from Monday 2026-01-26 00:00 UTC (Sunday 19:00 in New York)
+// to past the start of daylight saving on Sunday 2026-03-08, with the high of
+// each equal to its index, so a range's high is its last candle
+const START = Date.UTC(2026, 0, 26) / 1000;
+const hourly: CandleData[] = Array.from({ length: 45 * 24 }, (_, i) => ({ time: (START + i * 3600) as UTCTimestamp, open: i - 0.25, high: i, low: i - 0.5, close: i - 0.25 }));
+const indexAt = (t: number) => (t - START) / 3600;
+
+// New York midnight: 05:00 UTC in winter, 04:00 UTC from 2026-03-08
+const nyMidnight = (month: number, day: number) => Date.UTC(2026, month, day, month > 2 || (month === 2 && day > 8) ? 4 : 5) / 1000;
+
+const levels = detectKeyLevels(hourly, [], DEFAULT_SESSIONS);
+const of = (kind: KeyLevel['kind'], time: number) => levels.find(l => l.kind === kind && l.time === time);
+
+describe('detectKeyLevels', () => {
+    it('starts each day at New York midnight, across the daylight saving change', () => {
+        expect(of('PDH', nyMidnight(0, 27))).toMatchObject({ price: indexAt(nyMidnight(0, 27) - 3600), endTime: nyMidnight(0, 28) });
+        expect(of('PDH', nyMidnight(2, 8))).toMatchObject({ endTime: nyMidnight(2, 9) });
+        // Sunday 8 March is 23 hours long in New York
+        expect(of('PDH', nyMidnight(2, 9))).toMatchObject({ price: indexAt(nyMidnight(2, 9) - 3600), endTime: nyMidnight(2, 10) });
+        expect(nyMidnight(2, 9) - nyMidnight(2, 8)).toBe(DAY - 3600);
+        const low = of('PDL', nyMidnight(2, 9))!;
+        expect(low.price).toBe(indexAt(nyMidnight(2, 8)) - 0.5);
+    });
+
+    it('starts weeks on Monday and months on the 1st at New York midnight', () => {
+        expect(of('PWH', nyMidnight(1, 2))).toMatchObject({ price: indexAt(nyMidnight(1, 2) - 3600), endTime: nyMidnight(1, 9) });
+        // The first week is the five Sunday evening hours before Monday the 26th
+        expect(levels.filter(l => l.kind === 'PWH').map(l => l.time)).toEqual([nyMidnight(0, 26), ...[2, 9, 16, 23].map(d => nyMidnight(1, d)), nyMidnight(2, 2), nyMidnight(2, 9)]);
+        expect(of('PMH', nyMidnight(1, 1))).toMatchObject({ price: indexAt(nyMidnight(1, 1) - 3600), endTime: nyMidnight(2, 1) });
+    });
+
+    it('counts each UTC daily candle before the chart for the New York day it mostly covers', () => {
+        const daily: CandleData[] = Array.from({ length: 5 }, (_, k) => {
+            const day = 21 + k;
+            return { time: (Date.UTC(2026, 0, day) / 1000) as UTCTimestamp, open: 1000, high: 1000 + day, low: 900 - day, close: 1000 };
+        });
+        const withDaily = detectKeyLevels(hourly, daily, DEFAULT_SESSIONS);
+        // The chart opens on Sunday evening in New York, during the UTC day of the 26th
+        expect(withDaily.find(l => l.kind === 'PDH' && l.time === nyMidnight(0, 25))).toMatchObject({ price: 1024 });
+        expect(withDaily.find(l => l.kind === 'PDH' && l.time === nyMidnight(0, 26))).toMatchObject({ price: 1025 });
+        expect(withDaily.find(l => l.kind === 'PDL' && l.time === nyMidnight(0, 26))).toMatchObject({ price: Math.min(900 - 25, -0.5) });
+    });
+});
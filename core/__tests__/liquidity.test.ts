@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { LiquidityProcessor, SWEEP_LOOKBACK, detectLiquidity } from '..';
+import { at, bars, pivot } from './fixtures';
+
+// A range of 100-101 candles: highs at 101 (candle 2) and 100.95 (6), a low at
+// 100 (3). Candle 9 wicks above the highs and closes back inside; candle 10
+// closes below the low.
+const candles = bars(Array.from({ length: 16 }, (_, i): [number, number, number, number] =>
+    i === 6 ? [100.5, 100.95, 100.05, 100.5]
+        : i === 9 ? [100.5, 101.3, 100.4, 100.8]
+            : i === 10 ? [100.8, 100.9, 99.5, 99.7]
+                : [100.5, i === 2 ? 101 : 100.9, i === 3 ? 100 : 100.1, 100.5]));
+const pivots = [pivot(2, 101, 'Bearish', 4), pivot(3, 100, 'Bullish', 5), pivot(6, 100.95, 'Bearish', 8)];
+
+describe('detectLiquidity', () => {
+    it('pools equal highs within the tolerance at the outermost pivot', () => {
+        const [bsl] = detectLiquidity(candles.slice(0, 9), pivots, 0.1);
+        expect(bsl).toEqual({
+            id: `liq-bsl-${at(2)}`, type: 'BSL', price: 101,
+            time: at(2), lastTime: at(6), confirmedTime: at(8), touches: 2
+        });
+    });
+
+    it('keeps pivots further apart than the tolerance in separate pools', () => {
+        const pools = detectLiquidity(candles.slice(0, 9), pivots, 0.01);
+        expect(pools.map(p => [p.type, p.price, p.touches])).toEqual([['BSL', 101, 1], ['SSL', 100, 1], ['BSL', 100.95, 1]]);
+    });
+
+    it('marks a wick through that closes back inside as a sweep and a close through as taken', () => {
+        const pools = detectLiquidity(candles, pivots, 0.1);
+        expect(pools.map(p => [p.type, p.sweptTime, p.takenTime])).toEqual([['BSL', at(9), undefined], ['SSL', undefined, at(10)]]);
+    });
+});
+
+describe('LiquidityProcessor', () => {
+    it('lists a sweep for SWEEP_LOOKBACK candles after it', () => {
+        const processor = new LiquidityProcessor(0.1);
+        const byConfirm = (i: number) => pivots.filter(p => p.confirmedTime === at(i));
+        candles.forEach((c, i) => {
+            processor.push(c, byConfirm(i));
+            const swept = processor.recentSweeps.map(p => p.id);
+            expect(swept).toEqual(i >= 9 && i <= 9 + SWEEP_LOOKBACK ? [`liq-bsl-${at(2)}`] : []);
+            expect(processor.active).toHaveLength(i < 4 ? 0 : i < 5 ? 1 : i < 9 ? 2 : i < 10 ? 1 : 0);
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, detectOrderBlocks, obStateAt } from '..';
+import { StructurePoint } from '../types';
+import { at, bars } from './fixtures';
+
+// Two down candles (100.1-101.2), then a large up candle closing above them.
+// Price later wicks and then closes below the block (it becomes a breaker)
+// and then closes back above it (mitigated).
+const displacement = bars([
+    [100, 100.6, 99.8, 100.5],
+    [100.5, 101.1, 100.3, 101],
+    [101, 101.2, 100.4, 100.6],
+    [100.6, 100.7, 100.1, 100.2],
+    [100.2, 102.6, 100.1, 102.5],   // the displacement
+    [102.5, 102.9, 102, 102.8],
+    [102.8, 102.9, 100, 100.8],     // wicks below the block
+    [100.8, 100.9, 99.5, 99.8],     // closes below it
+    [99.8, 100.5, 99.6, 100.3],
+    [100.3, 101.5, 100.2, 101.4]    // closes back above it
+]);
+
+// A down candle between two ordinary up candles, then a break of structure
+const brokenStructure = bars([
+    [100, 101.6, 99.9, 101.5],
+    [101.5, 101.6, 100, 100.1],
+    [100.1, 101.7, 100, 101.6],
+    [101.6, 102.2, 101.3, 102]
+]);
+const bos: StructurePoint = { time: at(3), price: 101.6, type: 'BOS', direction: 'Bullish', level: 'Internal', originTime: at(0) };
+
+describe('detectOrderBlocks', () => {
+    it('takes the opposite-close run before a displacement as the block', () => {
+        const [ob] = detectOrderBlocks(displacement.slice(0, 5), [], DEFAULT_CONFIG);
+        expect(ob).toEqual({
+            id: `ob-bull-${at(2)}`, time: at(2), confirmedTime: at(4),
+            priceHigh: 101.2, priceLow: 100.1, direction: 'Bullish',
+            mitigated: false, subtype: 'Standard', candles: 2, displacement: true,
+            relativeVolume: undefined, bosTime: undefined
+        });
+    });
+
+    it('flips a block closed through into a breaker, then mitigates it on a close back through', () => {
+        const obs = detectOrderBlocks(displacement, [], DEFAULT_CONFIG);
+        expect(obs).toHaveLength(1);
+        expect(obs[0]).toMatchObject({ subtype: 'Breaker', direction: 'Bearish', breakerTime: at(7), mitigated: true, mitigatedTime: at(9) });
+    });
+
+    it('gives the state as it was at an earlier candle', () => {
+        const [ob] = detectOrderBlocks(displacement, [], DEFAULT_CONFIG);
+        expect(obStateAt(ob, at(4))).toBeNull();
+        expect(obStateAt(ob, at(6))).toMatchObject({ subtype: 'Standard', direction: 'Bullish' });
+        expect(obStateAt(ob, at(8))).toMatchObject({ subtype: 'Breaker', direction: 'Bearish' });
+        expect(obStateAt(ob, at(9))).toBeNull();
+    });
+
+    it('invalidates on wicks with WICK and on the mean with MEAN', () => {
+        const wick = detectOrderBlocks(displacement, [], { ...DEFAULT_CONFIG, obMitigation: 'WICK' });
+        expect(wick[0]).toMatchObject({ breakerTime: at(6), mitigatedTime: at(9) });
+        const mean = detectOrderBlocks(displacement, [], { ...DEFAULT_CONFIG, obMitigation: 'MEAN' });
+        expect(mean[0]).toMatchObject({ breakerTime: at(7), mitigatedTime: at(9) });
+    });
+
+    it('confirms a block without displacement when the move breaks structure', () => {
+        expect(detectOrderBlocks(brokenStructure, [], DEFAULT_CONFIG)).toEqual([]);
+        expect(detectOrderBlocks(brokenStructure, [bos], DEFAULT_CONFIG)).toMatchObject([{
+            id: `ob-bull-${at(1)}`, time: at(1), confirmedTime: at(3),
+            priceHigh: 101.6, priceLow: 100, direction: 'Bullish',
+            subtype: 'Standard', candles: 1, displacement: false, bosTime: at(3)
+        }]);
+    });
+
+    it('skips displacements below the relative volume threshold', () => {
+        const quiet = displacement.map(c => ({ ...c, volume: 100 }));
+        expect(detectOrderBlocks(quiet, [], { ...DEFAULT_CONFIG, obVolumeThreshold: 1.5 })).toEqual([]);
+        const heavy = quiet.map((c, i) => i === 4 ? { ...c, volume: 300 } : c);
+        expect(detectOrderBlocks(heavy, [], { ...DEFAULT_CONFIG, obVolumeThreshold: 1.5 })).toMatchObject([{ time: at(2), relativeVolume: 3 }]);
+    });
+});
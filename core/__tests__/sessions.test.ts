@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SESSIONS, opensSession, sessionAt, sessionEndAt, zoneMinutes, zoneOffset } from '..';
+import { SessionConfig } from '../types';
+
+// New York springs forward at 02:00 on Sunday 2026-03-08 (07:00 UTC) and falls
+// back at 02:00 on Sunday 2026-11-01 (06:00 UTC)
+const utc = (month: number, day: number, hour: number, minute: number = 0) => Date.UTC(2026, month, day, hour, minute) / 1000;
+const NY = DEFAULT_SESSIONS.timezone;
+const HOUR = 3600;
+
+// The default sessions with Asia running on past midnight to 03:00, into London Open
+const lateAsia: SessionConfig = {
+    ...DEFAULT_SESSIONS,
+    sessions: DEFAULT_SESSIONS.sessions.map(s => s.id === 'ASIA' ? { ...s, end: '03:00' } : s)
+};
+
+describe('zoneOffset', () => {
+    it('changes at the instant daylight saving starts and ends', () => {
+        expect(zoneOffset(utc(2, 8, 6, 59), NY)).toBe(-5 * HOUR);
+        expect(zoneOffset(utc(2, 8, 7), NY)).toBe(-4 * HOUR);
+        expect(zoneOffset(utc(10, 1, 5, 59), NY)).toBe(-4 * HOUR);
+        expect(zoneOffset(utc(10, 1, 6), NY)).toBe(-5 * HOUR);
+    });
+
+    it('gives the local clock either side of the changes', () => {
+        expect(zoneMinutes(utc(2, 8, 6, 45), NY)).toBe(60 + 45);
+        expect(zoneMinutes(utc(2, 8, 7), NY)).toBe(3 * 60);
+        // 01:00-02:00 happens twice in November
+        expect(zoneMinutes(utc(10, 1, 5, 30), NY)).toBe(60 + 30);
+        expect(zoneMinutes(utc(10, 1, 6, 30), NY)).toBe(60 + 30);
+    });
+});
+
+describe('sessionAt', () => {
+    it('moves the killzones with New York time', () => {
+        // 07:00 New York: 12:00 UTC in winter, 11:00 UTC in summer
+        expect(sessionAt(utc(2, 6, 12), DEFAULT_SESSIONS)?.id).toBe('NY_AM');
+        expect(sessionAt(utc(2, 6, 11), DEFAULT_SESSIONS)).toBeNull();
+        expect(sessionAt(utc(2, 9, 11), DEFAULT_SESSIONS)?.id).toBe('NY_AM');
+        expect(sessionAt(utc(2, 9, 10, 45), DEFAULT_SESSIONS)).toBeNull();
+        expect(sessionAt(utc(10, 2, 12), DEFAULT_SESSIONS)?.id).toBe('NY_AM');
+        expect(sessionAt(utc(10, 2, 11), DEFAULT_SESSIONS)).toBeNull();
+        expect(opensSession(utc(2, 9, 11), DEFAULT_SESSIONS, 'NY_AM')).toBe(true);
+        expect(opensSession(utc(2, 6, 11), DEFAULT_SESSIONS, 'NY_AM')).toBe(false);
+    });
+
+    it('runs a session ending at or after midnight up to its end', () => {
+        // Asia 20:00-00:00 New York: 01:00-05:00 UTC in January
+        expect(sessionAt(utc(0, 6, 4, 45), DEFAULT_SESSIONS)?.id).toBe('ASIA');
+        expect(sessionAt(utc(0, 6, 5), DEFAULT_SESSIONS)).toBeNull();
+        // Where it overlaps London Open the first listed wins, until it ends
+        expect(sessionAt(utc(0, 6, 7, 45), lateAsia)?.id).toBe('ASIA');
+        expect(sessionAt(utc(0, 6, 8), lateAsia)?.id).toBe('LONDON_OPEN');
+    });
+});
+
+describe('sessionEndAt', () => {
+    it('ends a session at its end clock, midnight included', () => {
+        expect(sessionEndAt(utc(0, 6, 2), DEFAULT_SESSIONS)).toBe(utc(0, 6, 5));
+        expect(sessionEndAt(utc(0, 6, 12, 15), DEFAULT_SESSIONS)).toBe(utc(0, 6, 15));
+        expect(sessionEndAt(utc(0, 6, 2), lateAsia)).toBe(utc(0, 6, 8));
+    });
+
+    it('ends a session running past midnight at its local end across both changes', () => {
+        // 22:00 Saturday to 03:00 Sunday New York is four hours in March and six in November
+        expect(sessionEndAt(utc(2, 8, 3), lateAsia)).toBe(utc(2, 8, 7));
+        expect(sessionEndAt(utc(10, 1, 2), lateAsia)).toBe(utc(10, 1, 8));
+    });
+
+    it('runs outside every session to the next New York midnight, a 23 or 25 hour day away', () => {
+        // 00:30 New York on each Sunday
+        expect(sessionEndAt(utc(2, 8, 5, 30), DEFAULT_SESSIONS)).toBe(utc(2, 9, 4));
+        expect(sessionEndAt(utc(2, 8, 5, 30), DEFAULT_SESSIONS) - utc(2, 8, 5, 30)).toBe(23 * HOUR - 30 * 60);
+        expect(sessionEndAt(utc(10, 1, 4, 30), DEFAULT_SESSIONS)).toBe(utc(10, 2, 5));
+        expect(sessionEndAt(utc(10, 1, 4, 30), DEFAULT_SESSIONS) - utc(10, 1, 4, 30)).toBe(25 * HOUR - 30 * 60);
+    });
+});
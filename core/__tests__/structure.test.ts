@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { StructureProcessor, detectStructure, getStructureTrend } from '..';
+import { at, path } from './fixtures';
+
+// Up from 100 to a top at 103 (candle 2), a low at 100 (5), a higher high at
+// 105 (10), a higher low at 102 (13), a top at 108 (18), then a sell-off
+// through the higher low
+const candles = path(100, [101, 102, 103, 102, 101, 100, 101, 102, 103, 104, 105, 104, 103, 102, 103, 104, 106, 107, 108, 106, 104, 102, 100, 99, 98]);
+
+describe('detectStructure', () => {
+    const points = detectStructure(candles, 2, 1);
+    const swing = points.filter(p => p.level === 'Swing');
+
+    it('confirms swing pivots swingLength candles later and labels them against the previous one', () => {
+        expect(swing.filter(p => p.confirmedTime !== undefined)).toEqual([
+            { time: at(10), price: 105.2, type: 'HH', direction: 'Bearish', level: 'Swing', confirmedTime: at(12) },
+            { time: at(13), price: 101.8, type: 'HL', direction: 'Bullish', level: 'Swing', confirmedTime: at(15) },
+            { time: at(18), price: 108.2, type: 'HH', direction: 'Bearish', level: 'Swing', confirmedTime: at(20) }
+        ]);
+    });
+
+    it('breaks structure on a close beyond the last unbroken pivot, CHoCH against the trend', () => {
+        expect(swing.filter(p => p.confirmedTime === undefined)).toEqual([
+            { time: at(9), price: 103.2, type: 'BOS', direction: 'Bullish', level: 'Swing', originTime: at(2) },
+            { time: at(16), price: 105.2, type: 'BOS', direction: 'Bullish', level: 'Swing', originTime: at(10) },
+            { time: at(22), price: 101.8, type: 'CHoCH', direction: 'Bearish', level: 'Swing', originTime: at(13) }
+        ]);
+    });
+
+    it('lists points in the order they were discovered', () => {
+        const discovered = points.map(p => (p.confirmedTime ?? p.time) as number);
+        expect(discovered).toEqual([...discovered].sort((a, b) => a - b));
+    });
+
+    it('takes the trend from the latest break', () => {
+        expect(getStructureTrend(points)).toBe('Bearish');
+        expect(getStructureTrend(points.filter(p => (p.time as number) < at(22)))).toBe('Bullish');
+        expect(getStructureTrend([])).toBe('NONE');
+    });
+});
+
+describe('StructureProcessor', () => {
+    it('returns the points each candle added, the same as the batch run', () => {
+        const processor = new StructureProcessor(2, 1);
+        const added = candles.flatMap(c => processor.push(c));
+        expect(added).toEqual(detectStructure(candles, 2, 1));
+        expect(processor.points).toEqual(added);
+    });
+});
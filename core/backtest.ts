@@ -0,0 +1,155 @@
+import { BacktestStats, CandleData, EntrySignal, ExecutionConfig, UTCTimestamp } from './types';
+
+// --- BACKTEST ---
+// Replays entry signals through an execution model with spread, slippage, fees
+// and compounding position size.
+
+export const DEFAULT_EXECUTION: ExecutionConfig = {
+    startingBalance: 100000,
+    riskPercent: 1,
+    feeRate: 0.001,
+    spread: 0.01,
+    slippageTicks: 1,
+    tickSize: 0.01,
+    sameBarResolution: 'STOP_FIRST',
+    maxBarsInTrade: 0
+};
+
+interface TradeOutcome {
+    signalIndex: number;
+    entryIndex: number;
+    exitIndex: number;
+    entryFill: number;
+    exitFill: number;
+    idealExit: number; // exit level before spread/slippage, for the gross figure
+    reason: 'TP' | 'SL' | 'TIME';
+}
+
+// Walks one trade candle by candle. Prices on the chart are treated as mid:
+// a long is closed against the bid (mid - spread/2), a short against the ask.
+// Stops are stop-market orders (adverse slippage, filled at the open on a gap
+// through); targets are resting limits (filled at the level, or better on a gap).
+const simulateTrade = (data: CandleData[], signal: EntrySignal, entryIndex: number, exec: ExecutionConfig, ltfBars?: Map<number, CandleData[]>): { outcome: Omit<TradeOutcome, 'signalIndex'> | null, conflict: boolean } => {
+    const dir = signal.type === 'LONG' ? 1 : -1;
+    const half = exec.spread / 2;
+    const slip = exec.slippageTicks * exec.tickSize;
+    const entryFill = signal.price + dir * (half + slip);
+    if ((entryFill - signal.sl) * dir <= 0) return { outcome: null, conflict: false }; // costs alone would stop it out
+
+    const check = (c: CandleData) => {
+        const hitSL = dir === 1 ? c.low - half <= signal.sl : c.high + half >= signal.sl;
+        const hitTP = dir === 1 ? c.high - half >= signal.tp : c.low + half <= signal.tp;
+        return { hitSL, hitTP };
+    };
+    const stopFill = (c: CandleData) => (dir === 1 ? Math.min(signal.sl, c.open - half) : Math.max(signal.sl, c.open + half)) - dir * slip;
+    const targetFill = (c: CandleData) => dir === 1 ? Math.max(signal.tp, c.open - half) : Math.min(signal.tp, c.open + half);
+
+    let conflict = false;
+    for (let i = entryIndex + 1; i < data.length; i++) {
+        const candle = data[i];
+        let { hitSL, hitTP } = check(candle);
+        let fillCandle = candle;
+
+        if (hitSL && hitTP) {
+            if (exec.sameBarResolution === 'TARGET_FIRST') hitSL = false;
+            else if (exec.sameBarResolution === 'LOWER_TIMEFRAME') {
+                const ltf = ltfBars?.get(candle.time as number);
+                if (!ltf || ltf.length === 0) conflict = true;
+                else {
+                    // First lower-timeframe candle to touch either level decides; if one LTF candle touches both, the stop wins
+                    for (const sub of ltf) {
+                        const r = check(sub);
+                        if (r.hitSL || r.hitTP) { hitSL = r.hitSL; hitTP = !r.hitSL; fillCandle = sub; break; }
+                    }
+                }
+            }
+        }
+
+        if (hitSL) return { outcome: { entryIndex, exitIndex: i, entryFill, exitFill: stopFill(fillCandle), idealExit: signal.sl, reason: 'SL' }, conflict };
+        if (hitTP) return { outcome: { entryIndex, exitIndex: i, entryFill, exitFill: targetFill(fillCandle), idealExit: signal.tp, reason: 'TP' }, conflict };
+        if (exec.maxBarsInTrade > 0 && i - entryIndex >= exec.maxBarsInTrade) {
+            return { outcome: { entryIndex, exitIndex: i, entryFill, exitFill: candle.close - dir * (half + slip), idealExit: candle.close, reason: 'TIME' }, conflict };
+        }
+    }
+    return { outcome: null, conflict };
+};
+
+// Simulates every signal with the execution model. Trades are sized from the
+// running balance at entry (only trades closed by then count), so results
+// compound. `ltfBars` maps a candle time to its lower-timeframe candles and is
+// only used for same-candle SL/TP conflicts; candle times that needed it but
+// were missing come back in `conflicts` so the caller can fetch them and re-run.
+export const performBacktest = (data: CandleData[], signals: EntrySignal[], exec: ExecutionConfig = DEFAULT_EXECUTION, ltfBars?: Map<number, CandleData[]>): { stats: BacktestStats, results: EntrySignal[], conflicts: UTCTimestamp[] } => {
+    const indexByTime = new Map<number, number>();
+    data.forEach((d, i) => indexByTime.set(d.time as number, i));
+
+    const outcomes: TradeOutcome[] = [];
+    const conflicts: UTCTimestamp[] = [];
+    signals.forEach((signal, signalIndex) => {
+        const entryIndex = indexByTime.get(signal.time as number);
+        if (entryIndex === undefined) return;
+        const { outcome, conflict } = simulateTrade(data, signal, entryIndex, exec, ltfBars);
+        if (outcome) {
+            outcomes.push({ ...outcome, signalIndex });
+            if (conflict) conflicts.push(data[outcome.exitIndex].time);
+        }
+    });
+
+    let wins = 0, losses = 0, timeExits = 0;
+    let grossPnL = 0, netPnL = 0, totalFees = 0, executionCost = 0, grossProfit = 0, grossLoss = 0;
+    let balance = exec.startingBalance;
+    let peakBalance = exec.startingBalance;
+    let maxDrawdown = 0;
+    const equityCurve: number[] = [exec.startingBalance];
+    const results: EntrySignal[] = signals.map(s => ({ ...s, backtestResult: 'PENDING' as const, backtestPnL: undefined }));
+
+    const open: (TradeOutcome & { net: number })[] = [];
+    const settle = (upToIndex: number) => {
+        open.sort((a, b) => a.exitIndex - b.exitIndex);
+        while (open.length && open[0].exitIndex <= upToIndex) {
+            const t = open.shift()!;
+            balance += t.net;
+            equityCurve.push(balance);
+            peakBalance = Math.max(peakBalance, balance);
+            maxDrawdown = Math.max(maxDrawdown, peakBalance - balance);
+        }
+    };
+
+    for (const t of outcomes) {
+        settle(t.entryIndex);
+        const signal = signals[t.signalIndex];
+        const dir = signal.type === 'LONG' ? 1 : -1;
+        const quantity = (balance * exec.riskPercent / 100) / Math.abs(t.entryFill - signal.sl);
+        const gross = quantity * dir * (t.idealExit - signal.price);
+        const fees = exec.feeRate * quantity * (t.entryFill + t.exitFill);
+        const net = quantity * dir * (t.exitFill - t.entryFill) - fees;
+
+        grossPnL += gross; netPnL += net; totalFees += fees; executionCost += gross - fees - net;
+        if (net > 0) { wins++; grossProfit += net; } else { losses++; grossLoss -= net; }
+        if (t.reason === 'TIME') timeExits++;
+        open.push({ ...t, net });
+
+        results[t.signalIndex] = {
+            ...results[t.signalIndex],
+            backtestResult: net > 0 ? 'WIN' : 'LOSS',
+            backtestPnL: net,
+            backtestGrossPnL: gross,
+            backtestFees: fees,
+            backtestQuantity: quantity,
+            backtestExitReason: t.reason,
+            backtestExitTime: data[t.exitIndex].time,
+            backtestExitPrice: t.exitFill
+        };
+    }
+    settle(Infinity);
+
+    const totalTrades = wins + losses;
+    const winRate = totalTrades > 0 ? (wins / totalTrades) * 100 : 0;
+    const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 999 : 0;
+
+    return {
+        stats: { totalTrades, wins, losses, winRate, netPnL, grossPnL, totalFees, executionCost, timeExits, sameBarConflicts: conflicts.length, startingBalance: exec.startingBalance, endingBalance: balance, profitFactor, maxDrawdown, equityCurve },
+        results,
+        conflicts
+    };
+};
@@ -0,0 +1,62 @@
+import { DealingRange, StructurePoint } from './types';
+
+// --- DEALING RANGE ---
+// The current leg from the latest confirmed swing high and low, and its fibs:
+// the Optimal Trade Entry (62-79% retracement), equilibrium and the
+// extensions beyond the leg's end that serve as targets.
+
+export const OTE_LEVELS = [0.62, 0.705, 0.79];
+export const EQ_LEVEL = 0.5;
+export const EXTENSION_LEVELS = [-0.27, -0.62];
+
+// A range each time a new swing high or low is confirmed, in that order. Fed
+// each candle with the structure points StructureProcessor found on it.
+export class DealingRangeProcessor {
+    readonly ranges: DealingRange[] = [];
+    private high?: StructurePoint;
+    private low?: StructurePoint;
+
+    // The range as known after the last push
+    get current(): DealingRange | null {
+        return this.ranges[this.ranges.length - 1] ?? null;
+    }
+
+    push(points: StructurePoint[]) {
+        for (const s of points) {
+            if (s.confirmedTime === undefined) continue;
+            if (s.direction === 'Bearish') this.high = s; else this.low = s;
+            const { high, low } = this;
+            if (!high || !low || high.price <= low.price) continue;
+            this.ranges.push({
+                high: high.price, highTime: high.time,
+                low: low.price, lowTime: low.time,
+                direction: (low.time as number) < (high.time as number) ? 'Bullish' : 'Bearish',
+                confirmedTime: s.confirmedTime
+            });
+        }
+    }
+}
+
+export const detectDealingRanges = (structure: StructurePoint[]): DealingRange[] => {
+    const processor = new DealingRangeProcessor();
+    processor.push(structure);
+    return processor.ranges;
+};
+
+// The range as known at unix time `t`
+export const dealingRangeAt = (ranges: DealingRange[], t: number): DealingRange | null => {
+    for (let i = ranges.length - 1; i >= 0; i--) if ((ranges[i].confirmedTime as number) <= t) return ranges[i];
+    return null;
+};
+
+// Price of a fib level measured from the leg's end (0) back to its start (1).
+// `side` overrides the leg direction, e.g. to place targets for a trade against it.
+export const rangeLevel = (range: DealingRange, level: number, side: 'Bullish' | 'Bearish' = range.direction) =>
+    side === 'Bullish' ? range.high - (range.high - range.low) * level : range.low + (range.high - range.low) * level;
+
+// Whether `price` sits in the 62-79% retracement of a leg in direction `side`
+export const inOte = (range: DealingRange, price: number, side: 'Bullish' | 'Bearish') => {
+    if (range.direction !== side) return false;
+    const a = rangeLevel(range, OTE_LEVELS[0]), b = rangeLevel(range, OTE_LEVELS[OTE_LEVELS.length - 1]);
+    return price <= Math.max(a, b) && price >= Math.min(a, b);
+};
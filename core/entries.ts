@@ -0,0 +1,270 @@
+import { BalancedPriceRange, CandleData, ConditionId, DealingRange, DetectorConfig, EntrySignal, FVG, KeyLevel, LiquidityPool, OrderBlock, PremiumDiscount, SessionDef, StructurePoint, Trend } from './types';
+import { getStructureTrend } from './structure';
+import { SWEEP_LOOKBACK } from './liquidity';
+import { fvgStateAt, isBprOpenAt } from './fvg';
+import { OB_LABELS, obStateAt } from './orderBlocks';
+import { DRAW_TARGETS, keyLevelsAt } from './keyLevels';
+import { inOte, rangeLevel } from './dealingRange';
+import { DEFAULT_SESSIONS, sessionAt } from './sessions';
+import { DEFAULT_STRATEGY } from './strategy';
+import { intervalToMs } from './time';
+
+// --- ENTRY SIGNALS ---
+// Scores candles against a strategy using the zones, pools and levels found by
+// the other detectors and the structure of the higher timeframes.
+
+export const DEFAULT_CONFIG: DetectorConfig = { swingLength: 5, internalLength: 3, obThreshold: 1.2, obVolumeThreshold: 0, fvgExtend: 10, liquidityTolerance: 0.1, obTimeframes: ['5m', '15m', '1h'], obRetain: 10, obMitigation: 'CLOSE', timeframeStack: ['1d', '4h', '1h', '15m', '5m'], sessions: DEFAULT_SESSIONS, strategy: DEFAULT_STRATEGY };
+
+// Asia and the New York lunch range build the position; the other killzones run it
+export const determinePO3 = (candle: CandleData, session: SessionDef | null): 'ACCUMULATION' | 'MANIPULATION' | 'DISTRIBUTION' | 'NONE' => {
+    if (!session) return 'NONE';
+    if (session.id === 'ASIA' || session.id === 'NY_LUNCH') return 'ACCUMULATION';
+    const body = Math.abs(candle.close - candle.open);
+    const range = candle.high - candle.low;
+    if (body > range * 0.6) return 'DISTRIBUTION';
+    return 'MANIPULATION';
+};
+
+// A level of the timeframe stack above the chart, as EntryProcessor sees it
+export interface HtfLevel {
+    timeframe: string;
+    step: number;                 // seconds per candle
+    structure: StructurePoint[];
+}
+
+// Within 5% of the middle of the range counts as equilibrium
+export const premiumDiscount = (price: number, high: number, low: number): PremiumDiscount => {
+    const mid = (high + low) / 2;
+    if (Math.abs(price - mid) <= (high - low) * 0.05) return 'EQUILIBRIUM';
+    return price > mid ? 'PREMIUM' : 'DISCOUNT';
+};
+
+// Trend and premium/discount of a higher timeframe as known at unix time
+// `knownBy`: only structure from HTF candles that had closed by then counts.
+// The range is the latest confirmed swing high and swing low.
+export const htfBiasAt = (level: HtfLevel, knownBy: number, price: number): { trend: Trend, zone: PremiumDiscount | null, high?: number, low?: number } => {
+    const cutoff = knownBy - level.step;
+    let known = 0;
+    let high: number | undefined, low: number | undefined;
+    // Points are in the order they were discovered: BOS at its candle, pivots at confirmation
+    for (const s of level.structure) {
+        if (((s.confirmedTime ?? s.time) as number) > cutoff) break;
+        known++;
+        if (s.confirmedTime !== undefined) { if (s.direction === 'Bearish') high = s.price; else low = s.price; }
+    }
+    const trend = getStructureTrend(level.structure.slice(0, known));
+    return { trend, zone: high !== undefined && low !== undefined && high > low ? premiumDiscount(price, high, low) : null, high, low };
+};
+
+// The zones, pools and levels EntryProcessor checks a candle against: at least
+// every one that may be live at it, in the order the detectors found them.
+// Each is checked for its state at the candle, so extra ones do no harm.
+export interface EntryZones {
+    obs: OrderBlock[];
+    fvgs: FVG[];
+    bprs: BalancedPriceRange[];
+    pools: LiquidityPool[];       // resting pools
+    sweeps: LiquidityPool[];      // pools swept in the last SWEEP_LOOKBACK candles
+    keyLevels: KeyLevel[];
+    range: DealingRange | null;   // the dealing range as known at the candle
+}
+
+// htfBiasAt for a time that only moves forward, reading each structure point once
+class HtfBiasCursor {
+    private known = 0;
+    private high?: number;
+    private low?: number;
+    private swingTrend: Trend = 'NONE';
+    private internalTrend: Trend = 'NONE';
+
+    constructor(private readonly level: HtfLevel) {}
+
+    at(knownBy: number, price: number): ReturnType<typeof htfBiasAt> {
+        const cutoff = knownBy - this.level.step;
+        const { structure } = this.level;
+        for (; this.known < structure.length; this.known++) {
+            const s = structure[this.known];
+            if (((s.confirmedTime ?? s.time) as number) > cutoff) break;
+            if (s.confirmedTime !== undefined) { if (s.direction === 'Bearish') this.high = s.price; else this.low = s.price; }
+            else if (s.level === 'Swing') this.swingTrend = s.direction;
+            else this.internalTrend = s.direction;
+        }
+        const { high, low } = this;
+        const trend = this.swingTrend !== 'NONE' ? this.swingTrend : this.internalTrend;
+        return { trend, zone: high !== undefined && low !== undefined && high > low ? premiumDiscount(price, high, low) : null, high, low };
+    }
+}
+
+// Scores closed candles one at a time against `config.strategy` and emits a
+// signal where the strategy triggers. Each condition reports its hits for the
+// trade direction (HTF conditions one per level, negative when against); the
+// score is the weighted sum. Nothing after the candle is looked at.
+export class EntryProcessor {
+    readonly signals: EntrySignal[] = [];
+    private readonly data: CandleData[] = [];
+    private readonly indexByTime = new Map<number, number>();
+    private readonly cursors: HtfBiasCursor[];
+    private lastSignalTime = -Infinity;
+
+    constructor(private readonly htf: HtfLevel[], private readonly timeframe: string, private readonly config: DetectorConfig = DEFAULT_CONFIG) {
+        this.cursors = htf.map(level => new HtfBiasCursor(level));
+    }
+
+    // The signal on this candle, if any
+    push(candle: CandleData, zones: EntryZones): EntrySignal | undefined {
+        const { data, indexByTime, htf, config } = this;
+        data.push(candle);
+        const i = data.length - 1;
+        const t = candle.time as number;
+        indexByTime.set(t, i);
+        const { swingLength, fvgExtend, strategy } = config;
+        const cooldown = strategy.cooldownMinutes * 60;
+        const isScalping = ['1m', '3m', '5m'].includes(this.timeframe);
+        const chartStep = intervalToMs(this.timeframe) / 1000;
+        const smaLength = strategy.direction.type === 'SMA' ? strategy.direction.length : 0;
+        const biases = this.cursors.map(c => c.at(t + chartStep, candle.close));
+        if (i < Math.max(100, smaLength)) return undefined;
+        // FVGs only count for `fvgExtend` candles after they form (or invert)
+        const findFvg = (direction: 'Bullish' | 'Bearish', touches: (f: FVG) => boolean) => {
+            for (const f of zones.fvgs) {
+                if (!touches(f)) continue;
+                const state = fvgStateAt(f, t);
+                if (!state || state.direction !== direction) continue;
+                if (fvgExtend > 0 && i - (indexByTime.get((state.inversionTime ?? state.confirmedTime) as number) ?? i) > fvgExtend) continue;
+                return state;
+            }
+            return undefined;
+        };
+        const recentSweep = (type: LiquidityPool['type']) =>
+            zones.sweeps.find(p => p.type === type && (p.sweptTime as number) <= t && i - (indexByTime.get(p.sweptTime as number) ?? -Infinity) <= SWEEP_LOOKBACK);
+        // Pools confirmed by `t` that nothing has run yet
+        const restingPools = (type: LiquidityPool['type']) =>
+            zones.pools.filter(p => p.type === type && (p.confirmedTime as number) <= t && !((p.sweptTime ?? Infinity) <= t) && !((p.takenTime ?? Infinity) <= t));
+
+        let isBullish: boolean;
+        if (strategy.direction.type === 'SMA') {
+            const avg = data.slice(i - smaLength, i).reduce((a, b) => a + b.close, 0) / smaLength;
+            isBullish = candle.close > avg;
+        } else {
+            const trend = biases.length > 0 ? biases[0].trend : 'NONE';
+            if (trend === 'NONE') return undefined;
+            isBullish = trend === 'Bullish';
+        }
+        const side = isBullish ? 'Bullish' : 'Bearish';
+        const want: Trend = side;
+
+        // Price first: obStateAt copies blocks that flip later
+        let ob: OrderBlock | undefined;
+        for (const o of zones.obs) {
+            if (!(isBullish ? candle.low <= o.priceHigh && candle.low >= o.priceLow : candle.high >= o.priceLow && candle.high <= o.priceHigh)) continue;
+            const state = obStateAt(o, t);
+            if (state && state.direction === side) { ob = state; break; }
+        }
+        const fvg = findFvg(side, f => isBullish ? candle.low <= f.priceHigh && candle.low >= f.priceLow : candle.high >= f.priceLow && candle.high <= f.priceHigh);
+        const bpr = zones.bprs.find(b => isBprOpenAt(b, t) && b.direction === side
+            && (isBullish ? candle.low <= b.priceHigh && candle.low >= b.priceLow : candle.high >= b.priceLow && candle.high <= b.priceHigh));
+        const levelsNow = keyLevelsAt(zones.keyLevels, t);
+        // Draw on liquidity: the nearest untaken previous day/week/month high above a long (low below a short)
+        const drawOnLiquidity = levelsNow
+            .filter(l => DRAW_TARGETS[isBullish ? 'LONG' : 'SHORT'].includes(l.kind) && (isBullish ? l.price > candle.close : l.price < candle.close))
+            .sort((a, b) => Math.abs(a.price - candle.close) - Math.abs(b.price - candle.close))[0];
+        const session = sessionAt(t, config.sessions);
+        const { range } = zones;
+
+        // Hits and confluence labels of one condition for this candle and direction
+        const evaluate = (id: ConditionId): { hits: number, labels: string[] } => {
+            const one = (hit: unknown, label: string) => hit ? { hits: 1, labels: [label] } : { hits: 0, labels: [] };
+            switch (id) {
+                case 'OB_RETEST': return one(ob, `Retest ${side} ${ob ? OB_LABELS[ob.subtype] : 'OB'}`);
+                case 'FVG': return one(fvg, fvg?.inversionTime !== undefined ? `${side} IFVG` : isBullish ? 'Discount FVG' : 'Premium FVG');
+                case 'SILVER_BULLET': return one(fvg?.isSilverBullet, 'Silver Bullet Zone');
+                case 'CE_REACTION': {
+                    // Wick through the 50% and close back on the right side: the gap is being defended at its CE
+                    const ce = fvg && (fvg.priceHigh + fvg.priceLow) / 2;
+                    return one(ce !== undefined && (isBullish ? candle.low <= ce && candle.close > ce : candle.high >= ce && candle.close < ce), `${side} CE Reaction`);
+                }
+                case 'BPR': return one(bpr, `${side} BPR`);
+                case 'HTF_STRUCTURE':
+                case 'HTF_ZONE': {
+                    // One hit per higher level that agrees (buying its discount / selling its premium), minus one per level against
+                    let hits = 0;
+                    const labels: string[] = [];
+                    htf.forEach((level, k) => {
+                        const bias = biases[k];
+                        if (id === 'HTF_STRUCTURE') {
+                            if (bias.trend === want) { hits++; labels.push(`${level.timeframe} ${want} Structure`); }
+                            else if (bias.trend !== 'NONE') { hits--; labels.push(`Against ${level.timeframe} ${bias.trend} Structure`); }
+                        } else {
+                            if (bias.zone === (isBullish ? 'DISCOUNT' : 'PREMIUM')) { hits++; labels.push(`${level.timeframe} ${isBullish ? 'Discount' : 'Premium'}`); }
+                            else if (bias.zone === (isBullish ? 'PREMIUM' : 'DISCOUNT')) { hits--; labels.push(`${isBullish ? 'Long' : 'Short'} in ${level.timeframe} ${isBullish ? 'Premium' : 'Discount'}`); }
+                        }
+                    });
+                    return { hits, labels };
+                }
+                case 'SWEEP': {
+                    // Stops run on one side, then price reverses: a sell-side sweep backs longs, buy-side shorts
+                    const sweep = recentSweep(isBullish ? 'SSL' : 'BSL');
+                    return one(sweep, sweep ? `${sweep.type} Sweep${sweep.touches > 1 ? (sweep.type === 'BSL' ? ' (EQH)' : ' (EQL)') : ''}` : '');
+                }
+                case 'DRAW_ON_LIQUIDITY': return one(drawOnLiquidity, `Draw on Liquidity: ${drawOnLiquidity?.label}`);
+                case 'MIDNIGHT_OPEN': {
+                    // Buy below the midnight open, sell above it
+                    const midnightOpen = levelsNow.find(l => l.kind === 'MIDNIGHT_OPEN');
+                    return one(midnightOpen && (isBullish ? candle.close < midnightOpen.price : candle.close > midnightOpen.price), isBullish ? 'Below Midnight Open' : 'Above Midnight Open');
+                }
+                case 'KILLZONE': return one(session && session.id !== 'NY_LUNCH', `${session?.name} Killzone`);
+                case 'OTE': return one(range && inOte(range, isBullish ? candle.low : candle.high, side), `${side} OTE`);
+            }
+        };
+
+        let score = 0;
+        let missingRequired = false;
+        const confluences: string[] = [];
+        for (const condition of strategy.conditions) {
+            const { hits, labels } = evaluate(condition.id);
+            if (condition.required && hits <= 0) missingRequired = true;
+            score += condition.weight * hits;
+            if (condition.weight !== 0) confluences.push(...labels);
+        }
+        const zone = strategy.entryZones.map(z => z === 'OB_RETEST' ? ob : z === 'FVG' ? fvg : bpr).find(z => z !== undefined);
+        if (!zone || missingRequired || score < strategy.minScore || t - this.lastSignalTime <= cooldown) return undefined;
+
+        // Stop beyond the recent swing, the entry zone or whichever is further
+        const { stop } = strategy;
+        const window = data.slice(i - (stop.lookback ?? swingLength), i + 1);
+        const swing = isBullish ? Math.min(...window.map(c => c.low)) : Math.max(...window.map(c => c.high));
+        const edge = isBullish ? zone.priceLow : zone.priceHigh;
+        const level = stop.type === 'SWING' ? swing : stop.type === 'ZONE' ? edge : isBullish ? Math.min(swing, edge) : Math.max(swing, edge);
+        const sl = isBullish ? level - candle.close * stop.buffer : level + candle.close * stop.buffer;
+        const risk = Math.abs(candle.close - sl);
+        if (risk <= 0 || (isBullish ? sl >= candle.close : sl <= candle.close)) return undefined;
+
+        // First target rule that finds a target at least its minR away
+        const ahead = (price: number, minR: number) => (isBullish ? price - candle.close : candle.close - price) >= Math.max(minR * risk, Number.EPSILON);
+        const nearest = (prices: number[]) => prices.sort((a, b) => Math.abs(a - candle.close) - Math.abs(b - candle.close))[0] as number | undefined;
+        let tp: number | undefined;
+        for (const rule of strategy.targets) {
+            if (rule.type === 'FIXED_R') tp = candle.close + (isBullish ? risk : -risk) * rule.r;
+            else if (rule.type === 'LIQUIDITY') tp = nearest(restingPools(isBullish ? 'BSL' : 'SSL').map(p => p.price).filter(p => ahead(p, rule.minR)));
+            else if (rule.type === 'DEALING_RANGE') tp = range ? [rangeLevel(range, rule.level, side)].find(p => ahead(p, rule.minR)) : undefined;
+            else tp = nearest(levelsNow.filter(l => rule.kinds.includes(l.kind)).map(l => l.price).filter(p => ahead(p, rule.minR)));
+            if (tp !== undefined) break;
+        }
+        if (tp === undefined) return undefined;
+
+        const { base, perPoint, max } = strategy.winProbability;
+        const signal: EntrySignal = {
+            time: candle.time,
+            type: isBullish ? 'LONG' : 'SHORT',
+            price: candle.close,
+            score, confluences, sl, tp,
+            winProbability: Math.max(0, Math.min(max, score * perPoint + base)),
+            tradingStyle: isScalping ? 'SCALP' : 'DAY_TRADE',
+            po3Phase: determinePO3(candle, session),
+            drawOnLiquidity: drawOnLiquidity && { label: drawOnLiquidity.label, price: drawOnLiquidity.price }
+        };
+        this.signals.push(signal);
+        this.lastSignalTime = t;
+        return signal;
+    }
+}
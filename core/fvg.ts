@@ -0,0 +1,236 @@
+import { BalancedPriceRange, CandleData, FVG, SessionConfig } from './types';
+import { flipDirection } from './structure';
+import { isSilverBulletAt } from './sessions';
+
+// --- FAIR VALUE GAPS ---
+// Three-candle gaps with their fill, CE and inversion lifecycle, and the
+// balanced price ranges where opposite gaps overlap.
+
+// Candles a gap or BPR is followed for after it forms (an inversion after it
+// inverts). In a trend they can wait indefinitely for a fill, an inversion or a
+// close back through; past this they are retired as mitigated, so what a push
+// walks stays bounded.
+export const FVG_MAX_AGE = 500;
+
+// A gap being walked by FvgProcessor: `bull` is the direction it formed in
+interface TrackedGap {
+    fvg: FVG;
+    bull: boolean;
+    deepest: number;
+    closedThrough: boolean;
+    since: number;          // index of the candle that confirmed or inverted it
+}
+
+// Consumes closed candles one at a time. Each gap's lifecycle fields are kept
+// up to date as of the last candle pushed.
+export class FvgProcessor {
+    readonly fvgs: FVG[] = [];
+    private readonly tracked: TrackedGap[] = [];
+    private readonly open: FVG[] = [];
+    private c1?: CandleData;
+    private c2?: CandleData;
+    private index = -1;
+
+    constructor(private readonly sessions: SessionConfig) {}
+
+    // Gaps whose lifecycle can still change: open, filled and waiting for an
+    // inversion, or inverted, within FVG_MAX_AGE candles. Mitigated gaps are kept in `fvgs` (with their
+    // mitigation time) so callers can tell which gaps were open at any earlier candle.
+    get active(): FVG[] {
+        return this.open;
+    }
+
+    // The gaps this candle confirmed
+    push(c3: CandleData): FVG[] {
+        // A gap is only walked from the candle after the one that confirms it
+        const index = ++this.index;
+        let kept = 0;
+        for (const g of this.tracked) {
+            if (index - g.since > FVG_MAX_AGE) {
+                if (!g.fvg.mitigated) {
+                    g.fvg.mitigated = true;
+                    g.fvg.mitigatedTime = c3.time;
+                }
+                continue;
+            }
+            if (!stepFvgLifecycle(g, c3, index)) continue;
+            this.tracked[kept] = g;
+            this.open[kept++] = g.fvg;
+        }
+        this.tracked.length = this.open.length = kept;
+        const { c1, c2 } = this;
+        this.c1 = c2;
+        this.c2 = c3;
+        if (!c1 || !c2) return [];
+
+        const added: FVG[] = [];
+        const isSilverBullet = isSilverBulletAt(c2.time as number, this.sessions);
+        if (c1.high < c3.low) {
+            added.push({
+                id: `fvg-bull-${c2.time}`,
+                time: c2.time,
+                confirmedTime: c3.time,
+                priceHigh: c3.low,
+                priceLow: c1.high,
+                direction: 'Bullish',
+                mitigated: false,
+                isSilverBullet,
+                fillState: 'UNTOUCHED',
+                fillPercent: 0
+            });
+        }
+        if (c1.low > c3.high) {
+            added.push({
+                id: `fvg-bear-${c2.time}`,
+                time: c2.time,
+                confirmedTime: c3.time,
+                priceHigh: c1.low,
+                priceLow: c3.high,
+                direction: 'Bearish',
+                mitigated: false,
+                isSilverBullet,
+                fillState: 'UNTOUCHED',
+                fillPercent: 0
+            });
+        }
+        for (const fvg of added) {
+            const bull = fvg.direction === 'Bullish';
+            this.fvgs.push(fvg);
+            this.tracked.push({ fvg, bull, deepest: bull ? fvg.priceHigh : fvg.priceLow, closedThrough: false, since: index });
+            this.open.push(fvg);
+        }
+        return added;
+    }
+}
+
+export const detectFVG = (data: CandleData[], sessions: SessionConfig): FVG[] => {
+    const processor = new FvgProcessor(sessions);
+    data.forEach(candle => processor.push(candle));
+    return processor.fvgs;
+};
+
+// Direction the gap formed in, before any inversion
+export const fvgOrigin = (fvg: FVG) => fvg.inversionTime !== undefined ? flipDirection(fvg.direction) : fvg.direction;
+
+// One candle after a gap: how deep price retraced into it, when it hit the CE
+// (50%) and when it traded through the far edge. A filled gap that closed
+// beyond the far edge and then rejects from that side becomes an inversion FVG
+// of the opposite direction, which lives until a close back through it.
+// Returns false once nothing can change any more.
+const stepFvgLifecycle = (gap: TrackedGap, c: CandleData, index: number): boolean => {
+    const { fvg, bull } = gap;
+    if (fvg.filledTime === undefined) {
+        const ce = (fvg.priceHigh + fvg.priceLow) / 2;
+        gap.deepest = bull ? Math.min(gap.deepest, c.low) : Math.max(gap.deepest, c.high);
+        if (fvg.ceTime === undefined && (bull ? c.low <= ce : c.high >= ce)) fvg.ceTime = c.time;
+        if (bull ? c.low < fvg.priceLow : c.high > fvg.priceHigh) {
+            fvg.filledTime = c.time;
+            fvg.mitigated = true;
+            fvg.mitigatedTime = c.time;
+            if (bull ? c.close < fvg.priceLow : c.close > fvg.priceHigh) gap.closedThrough = true;
+        }
+        const size = fvg.priceHigh - fvg.priceLow;
+        fvg.fillPercent = fvg.filledTime !== undefined ? 100 : size > 0 ? Math.max(0, Math.min(100, (bull ? fvg.priceHigh - gap.deepest : gap.deepest - fvg.priceLow) / size * 100)) : 0;
+        fvg.fillState = fvg.filledTime !== undefined ? 'FILLED' : fvg.ceTime !== undefined ? 'CE' : fvg.fillPercent > 0 ? 'PARTIAL' : 'UNTOUCHED';
+        return true;
+    }
+    if (fvg.inversionTime === undefined) {
+        // Back above a filled bullish gap (below a bearish one): it simply failed
+        if (bull ? c.close > fvg.priceHigh : c.close < fvg.priceLow) return false;
+        if (gap.closedThrough && (bull ? c.high >= fvg.priceLow && c.close < fvg.priceLow : c.low <= fvg.priceHigh && c.close > fvg.priceHigh)) {
+            fvg.inversionTime = c.time;
+            gap.since = index;
+            fvg.direction = flipDirection(fvg.direction);
+            fvg.mitigated = false;
+            fvg.mitigatedTime = undefined;
+        } else if (bull ? c.close < fvg.priceLow : c.close > fvg.priceHigh) gap.closedThrough = true;
+        return true;
+    }
+    if (!(bull ? c.close > fvg.priceHigh : c.close < fvg.priceLow)) return true;
+    fvg.mitigated = true;
+    fvg.mitigatedTime = c.time;
+    return false;
+};
+
+// Balanced price ranges: where a gap overlaps an opposite gap that formed no more
+// than `maxCandles` earlier. Lives until a close through its far side, at most
+// FVG_MAX_AGE candles. Fed each candle with the gaps FvgProcessor confirmed on it.
+export class BprProcessor {
+    readonly ranges: BalancedPriceRange[] = [];
+    private readonly open: BalancedPriceRange[] = [];
+    private readonly openSince: number[] = [];
+    // Gaps that can still pair with a later one, by the index of their middle candle
+    private recent: { fvg: FVG, index: number }[] = [];
+    private index = -1;
+
+    constructor(private readonly maxCandles: number = 20) {}
+
+    get active(): BalancedPriceRange[] {
+        return this.open;
+    }
+
+    // The ranges this candle confirmed
+    push(candle: CandleData, confirmed: FVG[]): BalancedPriceRange[] {
+        this.index++;
+        let kept = 0;
+        this.open.forEach((bpr, k) => {
+            if (this.index - this.openSince[k] <= FVG_MAX_AGE && !(bpr.direction === 'Bullish' ? candle.close < bpr.priceLow : candle.close > bpr.priceHigh)) {
+                this.openSince[kept] = this.openSince[k];
+                this.open[kept++] = bpr;
+                return;
+            }
+            bpr.mitigated = true;
+            bpr.mitigatedTime = candle.time;
+        });
+        this.open.length = this.openSince.length = kept;
+
+        const added: BalancedPriceRange[] = [];
+        // A gap confirmed on this candle formed on the one before
+        const laterIndex = this.index - 1;
+        for (const later of confirmed) {
+            for (let i = this.recent.length - 1; i >= 0; i--) {
+                const earlier = this.recent[i];
+                if (laterIndex - earlier.index > this.maxCandles) break;
+                if (fvgOrigin(earlier.fvg) === fvgOrigin(later)) continue;
+                const priceHigh = Math.min(earlier.fvg.priceHigh, later.priceHigh);
+                const priceLow = Math.max(earlier.fvg.priceLow, later.priceLow);
+                if (priceHigh <= priceLow) continue;
+                added.push({ id: `bpr-${earlier.fvg.time}-${later.time}`, time: later.time, confirmedTime: later.confirmedTime, priceHigh, priceLow, direction: fvgOrigin(later), mitigated: false });
+                break;
+            }
+            this.recent.push({ fvg: later, index: laterIndex });
+        }
+        while (this.recent.length > 0 && laterIndex - this.recent[0].index > this.maxCandles) this.recent.shift();
+        for (const bpr of added) {
+            this.ranges.push(bpr);
+            this.open.push(bpr);
+            this.openSince.push(this.index);
+        }
+        return added;
+    }
+}
+
+export const detectBalancedRanges = (data: CandleData[], fvgs: FVG[], maxCandles: number = 20): BalancedPriceRange[] => {
+    const byConfirm = new Map<number, FVG[]>();
+    fvgs.forEach(f => {
+        const list = byConfirm.get(f.confirmedTime as number) ?? [];
+        list.push(f);
+        byConfirm.set(f.confirmedTime as number, list);
+    });
+    const processor = new BprProcessor(maxCandles);
+    data.forEach(candle => processor.push(candle, byConfirm.get(candle.time as number) ?? []));
+    return processor.ranges;
+};
+
+// Like obStateAt for gaps: the gap as it was at `time` (before any later
+// inversion), or null if not yet confirmed, filled, or not yet inverted.
+export const fvgStateAt = (fvg: FVG, time: number): FVG | null => {
+    if (time <= (fvg.confirmedTime as number)) return null;
+    if (fvg.inversionTime === undefined) return fvg.mitigatedTime === undefined || time < (fvg.mitigatedTime as number) ? fvg : null;
+    if (time < (fvg.filledTime as number)) return { ...fvg, direction: fvgOrigin(fvg), inversionTime: undefined, mitigated: false, mitigatedTime: undefined };
+    if (time <= (fvg.inversionTime as number) || (fvg.mitigatedTime !== undefined && time >= (fvg.mitigatedTime as number))) return null;
+    return fvg;
+};
+
+export const isBprOpenAt = (bpr: BalancedPriceRange, time: number) =>
+    time > (bpr.confirmedTime as number) && (bpr.mitigatedTime === undefined || time < (bpr.mitigatedTime as number));
@@ -0,0 +1,26 @@
+// --- ICT ANALYSIS LIBRARY ---
+// The detectors, entry scoring and backtester with no dependency on the DOM,
+// the chart or storage, so they run the same in the browser, in Node scripts
+// and in the CLI (cli/ict.ts). Candle times are unix seconds.
+//
+// core/ is its own package (core/package.json) and imports nothing from
+// outside this directory; the analysis types are in core/types.ts and the
+// app's types.ts re-exports them.
+//
+// The detectors are processors that take one closed candle at a time and
+// update their zones; the detect* functions run them over a whole series.
+
+export * from './types';
+export * from './time';
+export * from './sessions';
+export * from './strategy';
+export * from './structure';
+export * from './fvg';
+export * from './orderBlocks';
+export * from './liquidity';
+export * from './volume';
+export * from './keyLevels';
+export * from './dealingRange';
+export * from './entries';
+export * from './backtest';
+export * from './pipeline';
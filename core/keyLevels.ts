@@ -0,0 +1,150 @@
+import { CandleData, KeyLevel, KeyLevelKind, SessionConfig, UTCTimestamp } from './types';
+import { opensSession, zoneMinutes, zoneOffset } from './sessions';
+
+// --- KEY LEVELS ---
+// Previous day/week/month ranges and the midnight and session opens, each with
+// the period it applies to and when price first traded through it.
+
+export const DAY = 86_400;
+
+// Days, weeks and months run from New York midnight, like the midnight open,
+// whatever timezone the sessions are set in
+const NEW_YORK = 'America/New_York';
+
+// New York wall-clock time at `t`, in seconds as if New York were UTC
+const nyClock = (t: number) => t + zoneOffset(t, NEW_YORK);
+// Back to unix time. The first guess can be off by the daylight saving change;
+// the second is exact for any time outside the skipped or repeated hour.
+const fromNyClock = (clock: number) => clock - zoneOffset(clock - zoneOffset(clock, NEW_YORK), NEW_YORK);
+
+const nyDayStart = (t: number) => fromNyClock(Math.floor(nyClock(t) / DAY) * DAY);
+const nyMonthStart = (t: number, offset: number = 0) => { const d = new Date(nyClock(t) * 1000); return fromNyClock(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + offset, 1) / 1000); };
+const nyDaysLater = (start: number, days: number) => fromNyClock(nyClock(start) + days * DAY);
+
+// Day, week (from Monday) and month boundaries in New York time
+const KEY_PERIODS: { prefix: 'PD' | 'PW' | 'PM', start: (t: number) => number, next: (start: number) => number }[] = [
+    { prefix: 'PD', start: nyDayStart, next: start => nyDaysLater(start, 1) },
+    { prefix: 'PW', start: t => nyDaysLater(nyDayStart(t), -((new Date(nyClock(t) * 1000).getUTCDay() + 6) % 7)), next: start => nyDaysLater(start, 7) },
+    { prefix: 'PM', start: t => nyMonthStart(t), next: start => nyMonthStart(start, 1) }
+];
+
+// Daily candles from the data source are usually UTC days, which end at 19:00
+// or 20:00 in New York: each counts for the New York day it mostly covers
+const dailyTime = (d: CandleData) => (d.time as number) + DAY / 2;
+
+// Opens are the first candle at a wall-clock time, so a chart coarser than the
+// time (the 8:30 open on 1h) has none. The midnight and 8:30 opens are always
+// New York time; the session opens follow the configured sessions.
+const KEY_OPENS: { kind: KeyLevelKind, label: string, at: (t: number, sessions: SessionConfig) => boolean }[] = [
+    { kind: 'MIDNIGHT_OPEN', label: 'Midnight Open', at: t => zoneMinutes(t, 'America/New_York') === 0 },
+    { kind: 'NY_0830_OPEN', label: '08:30 Open', at: t => zoneMinutes(t, 'America/New_York') === 8 * 60 + 30 },
+    { kind: 'ASIA_OPEN', label: 'Asia Open', at: (t, sessions) => opensSession(t, sessions, 'ASIA') },
+    { kind: 'LONDON_OPEN', label: 'London Open', at: (t, sessions) => opensSession(t, sessions, 'LONDON_OPEN') },
+    { kind: 'NY_OPEN', label: 'NY Open', at: (t, sessions) => opensSession(t, sessions, 'NY_AM') }
+];
+
+const LEVEL_SIDES: ['H' | 'L' | 'EQ', (high: number, low: number) => number, (c: CandleData, price: number) => boolean][] = [
+    ['H', high => high, (c, price) => c.high > price],
+    ['L', (_, low) => low, (c, price) => c.low < price],
+    ['EQ', (high, low) => (high + low) / 2, (c, price) => c.high >= price && c.low <= price]
+];
+
+// Previous day/week/month levels first, then the opens, each in the order they started
+const levelRank = (l: KeyLevel) => {
+    const rank = KEY_PERIODS.findIndex(p => l.kind.startsWith(p.prefix));
+    return rank < 0 ? KEY_PERIODS.length : rank;
+};
+
+// Range of the period a KEY_PERIODS entry is in, and the levels from the one before it
+interface PeriodState {
+    start: number;
+    high: number;
+    low: number;
+    levels: KeyLevel[];
+}
+
+// Previous day/week/month high, low and EQ for every period on the chart, and the
+// midnight, 8:30 and session opens. `daily` fills in the periods before the first
+// chart candle; after that the chart candles themselves are grouped, so a level
+// never depends on a candle after the period it applies to. Consumes closed
+// candles one at a time.
+export class KeyLevelProcessor {
+    private readonly started: KeyLevel[] = [];
+    private inForce: KeyLevel[] = [];
+    private readonly periods: (PeriodState | null)[] = KEY_PERIODS.map(() => null);
+    private readonly lastOpen = new Map<KeyLevelKind, KeyLevel>();
+    private firstOnChart: number[] = [];
+
+    constructor(private readonly daily: CandleData[], private readonly sessions: SessionConfig) {}
+
+    // Every level so far, grouped by kind of period with the opens last
+    get levels(): KeyLevel[] {
+        return [...this.started].sort((a, b) => levelRank(a) - levelRank(b));
+    }
+
+    // Levels in force as of the last candle, as keyLevelsAt gives them
+    get active(): KeyLevel[] {
+        return this.inForce;
+    }
+
+    // The levels this candle started
+    push(candle: CandleData): KeyLevel[] {
+        const added: KeyLevel[] = [];
+        const t = candle.time as number;
+        if (this.firstOnChart.length === 0) {
+            this.firstOnChart = KEY_PERIODS.map(p => p.start(t));
+            for (const d of this.daily) if ((d.time as number) + DAY <= t) this.addToPeriods(d, added, dailyTime(d));
+        }
+        this.addToPeriods(candle, added);
+
+        // Each open holds until the next one of its kind, at most a day
+        for (const open of KEY_OPENS) {
+            if (!open.at(t, this.sessions)) continue;
+            const prev = this.lastOpen.get(open.kind);
+            if (prev && prev.endTime > t) prev.endTime = candle.time;
+            const level: KeyLevel = { id: `${open.kind}-${t}`, kind: open.kind, label: open.label, price: candle.open, time: candle.time, endTime: (t + DAY) as UTCTimestamp };
+            this.lastOpen.set(open.kind, level);
+            added.push(level);
+        }
+
+        this.started.push(...added);
+        this.inForce = keyLevelsAt(added.length ? [...this.inForce, ...added].sort((a, b) => levelRank(a) - levelRank(b)) : this.inForce, t);
+        return added;
+    }
+
+    // Groups a candle into its day, week and month by `t`. The first candle of a
+    // period starts the levels of the one before it; every candle may take them.
+    private addToPeriods(c: CandleData, added: KeyLevel[], t: number = c.time as number) {
+        KEY_PERIODS.forEach((period, p) => {
+            const start = period.start(t);
+            let cur = this.periods[p];
+            if (cur && cur.start === start) { cur.high = Math.max(cur.high, c.high); cur.low = Math.min(cur.low, c.low); }
+            else {
+                const prev = cur;
+                cur = this.periods[p] = { start, high: c.high, low: c.low, levels: [] };
+                if (prev && start >= this.firstOnChart[p]) {
+                    for (const [side, price] of LEVEL_SIDES) {
+                        const kind = `${period.prefix}${side}` as KeyLevelKind;
+                        cur.levels.push({ id: `${kind}-${start}`, kind, label: kind, price: price(prev.high, prev.low), time: start as UTCTimestamp, endTime: period.next(start) as UTCTimestamp });
+                    }
+                    added.push(...cur.levels);
+                }
+            }
+            cur.levels.forEach((level, k) => {
+                if (level.takenTime === undefined && LEVEL_SIDES[k][2](c, level.price)) level.takenTime = c.time;
+            });
+        });
+    }
+}
+
+export const detectKeyLevels = (data: CandleData[], daily: CandleData[], sessions: SessionConfig): KeyLevel[] => {
+    const processor = new KeyLevelProcessor(daily, sessions);
+    data.forEach(candle => processor.push(candle));
+    return processor.levels;
+};
+
+// Levels in force at unix time `t`: their period has started and nothing has traded through them yet
+export const keyLevelsAt = (levels: KeyLevel[], t: number) =>
+    levels.filter(l => (l.time as number) <= t && t < (l.endTime as number) && (l.takenTime === undefined || t < (l.takenTime as number)));
+
+export const DRAW_TARGETS: { [key in 'LONG' | 'SHORT']: KeyLevelKind[] } = { LONG: ['PDH', 'PWH', 'PMH'], SHORT: ['PDL', 'PWL', 'PML'] };
@@ -0,0 +1,85 @@
+import { CandleData, LiquidityPool, StructurePoint } from './types';
+
+// --- LIQUIDITY ---
+
+// A sweep counts for a few candles after it printed
+export const SWEEP_LOOKBACK = 5;
+const RANGE_WINDOW = 14;
+
+// Liquidity pools from the swing pivots of detectStructure. A pivot joins an
+// untouched pool of the same side within `tolerance` x the mean range of the
+// last 14 candles; otherwise it starts its own. A pool ends at the first candle
+// that trades through it: swept if it closes back inside, taken if not.
+// Consumes closed candles one at a time, with the structure points
+// StructureProcessor found on each.
+export class LiquidityProcessor {
+    // Swept and taken pools are kept, like mitigated FVGs, so callers can look back
+    readonly pools: LiquidityPool[] = [];
+    private resting: LiquidityPool[] = [];
+    private swept: { pool: LiquidityPool, index: number }[] = [];
+    private readonly order = new Map<LiquidityPool, number>();
+    private readonly ranges: number[] = [];
+    private rangeSum = 0;
+    private index = -1;
+
+    constructor(private readonly tolerance: number) {}
+
+    // Pools nothing has run yet
+    get active(): LiquidityPool[] {
+        return this.resting;
+    }
+
+    // Pools swept in the last SWEEP_LOOKBACK candles, in the order they formed
+    get recentSweeps(): LiquidityPool[] {
+        return this.swept.map(s => s.pool);
+    }
+
+    push(candle: CandleData, points: StructurePoint[]) {
+        const i = ++this.index;
+        this.swept = this.swept.filter(s => i - s.index <= SWEEP_LOOKBACK);
+        // Pivots confirmed at this candle's close can only be swept from the next one
+        this.resting = this.resting.filter(pool => {
+            if (pool.type === 'BSL' ? !(candle.high > pool.price) : !(candle.low < pool.price)) return true;
+            if (pool.type === 'BSL' ? candle.close < pool.price : candle.close > pool.price) {
+                pool.sweptTime = candle.time;
+                this.swept.push({ pool, index: i });
+            } else pool.takenTime = candle.time;
+            return false;
+        });
+        this.swept.sort((a, b) => this.order.get(a.pool)! - this.order.get(b.pool)!);
+
+        this.ranges.push(candle.high - candle.low);
+        this.rangeSum += candle.high - candle.low;
+        if (this.ranges.length > RANGE_WINDOW) this.rangeSum -= this.ranges.shift()!;
+        const meanRange = this.rangeSum / this.ranges.length;
+        for (const s of points) {
+            if (s.confirmedTime === undefined) continue;
+            const type = s.direction === 'Bearish' ? 'BSL' : 'SSL';
+            const match = this.resting.find(pool => pool.type === type && Math.abs(pool.price - s.price) <= this.tolerance * meanRange);
+            if (match) {
+                match.price = type === 'BSL' ? Math.max(match.price, s.price) : Math.min(match.price, s.price);
+                match.lastTime = s.time;
+                match.confirmedTime = candle.time;
+                match.touches++;
+                continue;
+            }
+            const pool: LiquidityPool = { id: `liq-${type.toLowerCase()}-${s.time}`, type, price: s.price, time: s.time, lastTime: s.time, confirmedTime: candle.time, touches: 1 };
+            this.order.set(pool, this.pools.length);
+            this.pools.push(pool);
+            this.resting.push(pool);
+        }
+    }
+}
+
+export const detectLiquidity = (data: CandleData[], structure: StructurePoint[], tolerance: number): LiquidityPool[] => {
+    const pivotsByConfirm = new Map<number, StructurePoint[]>();
+    structure.forEach(s => {
+        if (!s.confirmedTime) return;
+        const list = pivotsByConfirm.get(s.confirmedTime as number) ?? [];
+        list.push(s);
+        pivotsByConfirm.set(s.confirmedTime as number, list);
+    });
+    const processor = new LiquidityProcessor(tolerance);
+    data.forEach(candle => processor.push(candle, pivotsByConfirm.get(candle.time as number) ?? []));
+    return processor.pools;
+};
@@ -0,0 +1,291 @@
+import { CandleData, DetectorConfig, OrderBlock, StructurePoint } from './types';
+import { flipDirection } from './structure';
+import { RelativeVolume } from './volume';
+
+// --- ORDER BLOCKS ---
+
+// Order blocks: the run of opposite-close candles (up to OB_MAX_RUN) right before
+// a move away. The move must either be a displacement (a body above
+// `obThreshold` x the mean body, closing beyond the run, on at least
+// `obVolumeThreshold` x the mean volume when that is set) or break structure
+// within OB_BOS_WINDOW candles without closing back through the run. Swing OBs
+// are anchored at the extreme between a broken swing pivot and its break.
+const OB_MAX_RUN = 5;
+const OB_BOS_WINDOW = 5;
+
+type OrderBlockConfig = Pick<DetectorConfig, 'obThreshold' | 'obVolumeThreshold' | 'obMitigation'>;
+
+// A move that may still confirm its block by breaking structure
+interface Candidate {
+    index: number;                // the move candle
+    start: number;                // first candle of the run
+    direction: 'Bullish' | 'Bearish';
+    high: number;
+    low: number;
+    relativeVolume?: number;      // of the move candle
+    ob?: OrderBlock;              // already confirmed by displacement
+}
+
+// A block whose lifecycle can still change. `bull` is the direction it formed
+// in and `extreme` the furthest price reached since, until it is violated.
+// Bullish it is violated below `lower`, bearish above `upper`.
+interface LiveBlock {
+    ob: OrderBlock;
+    bull: boolean;
+    broken: boolean;
+    lower: number;
+    upper: number;
+    target?: StructurePoint;
+    extreme: number;
+}
+
+// Mean body of the 100 candles up to and including the impulse candle, so an
+// OB is judged only against what was known when it formed.
+const MEAN_WINDOW = 100;
+
+const isClose = (c: CandleData, bull: boolean) => bull ? c.close > c.open : c.close < c.open;
+
+// Consumes closed candles one at a time, with the structure points
+// StructureProcessor found on each. Blocks are in the order they confirmed.
+export class OrderBlockProcessor {
+    readonly obs: OrderBlock[] = [];
+    private readonly data: CandleData[] = [];
+    private readonly indexByTime = new Map<number, number>();
+    private readonly bodies: number[] = [];
+    private bodySum = 0;
+    private readonly rvol = new RelativeVolume();
+    private candidates: Candidate[] = [];
+    private readonly live: LiveBlock[] = [];
+    private readonly open: OrderBlock[] = [];
+    // Regular blocks by the index of their first candle, and the blocks swing
+    // breaks created the same way, numbered in the order they were made
+    private readonly byStart = new Map<number, OrderBlock[]>();
+    private readonly swingByStart = new Map<number, { ob: OrderBlock, order: number }[]>();
+    private swingCount = 0;
+    private longestSwing = 0;
+    // Swing highs/lows in the order they were confirmed, to tell breakers from mitigation blocks
+    private readonly pivots: { Bullish: StructurePoint[], Bearish: StructurePoint[] } = { Bullish: [], Bearish: [] };
+
+    constructor(private readonly config: OrderBlockConfig) {}
+
+    // Blocks not yet mitigated, breakers included. Like FVGs, mitigated blocks
+    // stay in `obs` with their lifecycle times; the chart shows only the live ones.
+    get active(): OrderBlock[] {
+        return this.open;
+    }
+
+    // The blocks this candle confirmed
+    push(candle: CandleData, points: StructurePoint[]): OrderBlock[] {
+        const { data } = this;
+        data.push(candle);
+        const i = data.length - 1;
+        this.indexByTime.set(candle.time as number, i);
+        const body = Math.abs(candle.close - candle.open);
+        this.bodies.push(body);
+        this.bodySum += body;
+        if (this.bodies.length > MEAN_WINDOW) this.bodySum -= this.bodies.shift()!;
+        const relVolume = this.rvol.push(candle);
+
+        // Blocks confirmed before this candle
+        let kept = 0;
+        for (const l of this.live) {
+            if (!this.stepLifecycle(l, candle)) continue;
+            this.live[kept] = l;
+            this.open[kept++] = l.ob;
+        }
+        this.live.length = this.open.length = kept;
+        for (const p of points) if (p.confirmedTime !== undefined) this.pivots[p.direction].push(p);
+
+        const confirmed: { order: number, ob: OrderBlock }[] = [];
+        const breaks = points.filter(p => p.type === 'BOS' || p.type === 'CHoCH');
+        if (i > 0) {
+            const meanBody = this.bodySum / this.bodies.length || 1;
+            for (const direction of ['Bullish', 'Bearish'] as const) {
+                const bull = direction === 'Bullish';
+                if (!isClose(candle, bull) || !isClose(data[i - 1], !bull)) continue;
+                let start = i - 1;
+                while (start > 0 && i - start < OB_MAX_RUN && isClose(data[start - 1], !bull)) start--;
+                const { high, low } = this.range(start, i - 1);
+
+                const heavy = !(this.config.obVolumeThreshold > 0) || relVolume === undefined || relVolume >= this.config.obVolumeThreshold;
+                const displacement = Math.abs(candle.close - candle.open) > meanBody * this.config.obThreshold && (bull ? candle.close > high : candle.close < low) && heavy;
+                const candidate: Candidate = { index: i, start, direction, high, low, relativeVolume: relVolume };
+                if (displacement) {
+                    candidate.ob = this.block(candidate, candle.time, true);
+                    confirmed.push({ order: 2 * i + (bull ? 0 : 1), ob: candidate.ob });
+                }
+                this.candidates.push(candidate);
+            }
+        }
+
+        // A move confirms its block by breaking structure within OB_BOS_WINDOW
+        // candles, unless a close goes back through the run first
+        this.candidates = this.candidates.filter(c => {
+            const bull = c.direction === 'Bullish';
+            if (bull ? candle.close < c.low : candle.close > c.high) return false;
+            const bos = breaks.find(b => b.direction === c.direction);
+            if (bos) {
+                if (c.ob) c.ob.bosTime = bos.time;
+                else confirmed.push({ order: 2 * c.index + (bull ? 0 : 1), ob: this.block(c, bos.time, false, bos.time) });
+                return false;
+            }
+            return i - c.index < OB_BOS_WINDOW;
+        });
+        const added = confirmed.sort((a, b) => a.order - b.order).map(c => c.ob);
+        for (const ob of added) {
+            const start = this.indexByTime.get(ob.time as number)!;
+            const list = this.byStart.get(start) ?? [];
+            list.push(ob);
+            this.byStart.set(start, list);
+        }
+        this.obs.push(...added);
+
+        // Swing OBs: on a swing-level break, the last opposite-close candle at or
+        // before the extreme printed since the broken pivot
+        const swings: OrderBlock[] = [];
+        for (const b of breaks) {
+            if (b.level !== 'Swing' || !b.originTime || !this.indexByTime.has(b.originTime as number)) continue;
+            const bull = b.direction === 'Bullish';
+            const origin = this.indexByTime.get(b.originTime as number)!;
+            let extreme = origin;
+            for (let k = origin; k <= i; k++) if (bull ? data[k].low < data[extreme].low : data[k].high > data[extreme].high) extreme = k;
+            let anchor = extreme;
+            while (anchor > origin && !isClose(data[anchor], !bull)) anchor--;
+            if (!isClose(data[anchor], !bull)) anchor = extreme;
+            const { high, low } = this.range(anchor, extreme);
+            // A block already covering the anchor becomes the swing OB, a regular one first
+            const covers = (o: OrderBlock) => (o.breakerTime !== undefined ? flipDirection(o.direction) : o.direction) === b.direction
+                && o.time <= data[anchor].time && this.indexByTime.get(o.time as number)! + o.candles > anchor;
+            let existing: OrderBlock | undefined;
+            for (let k = Math.max(0, anchor - OB_MAX_RUN + 1); k <= anchor && !existing; k++) existing = this.byStart.get(k)?.find(covers);
+            // Else the first swing block made that covers it; none starts further back than the longest
+            if (!existing) {
+                let first = Infinity;
+                for (let k = Math.max(0, anchor - this.longestSwing + 1); k <= anchor; k++) {
+                    for (const s of this.swingByStart.get(k) ?? []) if (s.order < first && covers(s.ob)) { first = s.order; existing = s.ob; }
+                }
+            }
+            if (existing) {
+                if (existing.breakerTime === undefined) existing.subtype = 'Swing';
+                existing.pivotTime = data[extreme].time;
+                continue;
+            }
+            const ob: OrderBlock = {
+                id: `ob-swing-${bull ? 'bull' : 'bear'}-${data[anchor].time}`,
+                time: data[anchor].time,
+                confirmedTime: b.time,
+                priceHigh: high,
+                priceLow: low,
+                direction: b.direction,
+                mitigated: false,
+                subtype: 'Swing',
+                candles: extreme - anchor + 1,
+                displacement: false,
+                bosTime: b.time,
+                pivotTime: data[extreme].time
+            };
+            const list = this.swingByStart.get(anchor) ?? [];
+            list.push({ ob, order: this.swingCount++ });
+            this.swingByStart.set(anchor, list);
+            this.longestSwing = Math.max(this.longestSwing, ob.candles);
+            swings.push(ob);
+        }
+        this.obs.push(...swings);
+        added.push(...swings);
+
+        for (const ob of added) {
+            const bull = ob.direction === 'Bullish';
+            let extreme = bull ? -Infinity : Infinity;
+            for (let k = this.indexByTime.get(ob.time as number)!; k <= i; k++) extreme = bull ? Math.max(extreme, data[k].high) : Math.min(extreme, data[k].low);
+            // The swing the move away from the block was heading for
+            const mean = this.config.obMitigation === 'MEAN' ? (ob.priceHigh + ob.priceLow) / 2 : undefined;
+            this.live.push({ ob, bull, broken: false, lower: mean ?? ob.priceLow, upper: mean ?? ob.priceHigh, target: this.pivotAt(bull ? 'Bearish' : 'Bullish', ob.time as number), extreme });
+            this.open.push(ob);
+        }
+        return added;
+    }
+
+    private range(from: number, to: number) {
+        let high = -Infinity, low = Infinity;
+        for (let k = from; k <= to; k++) { high = Math.max(high, this.data[k].high); low = Math.min(low, this.data[k].low); }
+        return { high, low };
+    }
+
+    private block(c: Candidate, confirmedTime: CandleData['time'], displacement: boolean, bosTime?: CandleData['time']): OrderBlock {
+        return {
+            id: `ob-${c.direction === 'Bullish' ? 'bull' : 'bear'}-${this.data[c.start].time}`,
+            time: this.data[c.start].time,
+            confirmedTime,
+            priceHigh: c.high,
+            priceLow: c.low,
+            direction: c.direction,
+            mitigated: false,
+            subtype: 'Standard',
+            candles: c.index - c.start,
+            displacement,
+            relativeVolume: c.relativeVolume,
+            bosTime
+        };
+    }
+
+    // The latest pivot of `direction` confirmed by unix time `t`
+    private pivotAt(direction: 'Bullish' | 'Bearish', t: number): StructurePoint | undefined {
+        const list = this.pivots[direction];
+        let lo = 0, hi = list.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if ((list[mid].confirmedTime as number) <= t) lo = mid + 1; else hi = mid;
+        }
+        return list[lo - 1];
+    }
+
+    // One candle of a block's lifecycle; false once it is mitigated
+    private stepLifecycle(l: LiveBlock, c: CandleData): boolean {
+        const { ob, bull, target } = l;
+        const wick = this.config.obMitigation === 'WICK';
+        const violated = l.broken !== bull ? (wick ? c.low : c.close) < l.lower : (wick ? c.high : c.close) > l.upper;
+        if (!l.broken) {
+            if (violated) {
+                const tookLiquidity = !target || (bull ? l.extreme > target.price : l.extreme < target.price);
+                ob.subtype = tookLiquidity ? 'Breaker' : 'Mitigation';
+                ob.direction = flipDirection(ob.direction);
+                ob.breakerTime = c.time;
+                l.broken = true;
+                return true;
+            }
+            l.extreme = bull ? Math.max(l.extreme, c.high) : Math.min(l.extreme, c.low);
+            return true;
+        }
+        if (!violated) return true;
+        ob.mitigated = true;
+        ob.mitigatedTime = c.time;
+        return false;
+    }
+}
+
+export const detectOrderBlocks = (data: CandleData[], structure: StructurePoint[], config: OrderBlockConfig): OrderBlock[] => {
+    const byTime = new Map<number, StructurePoint[]>();
+    // Points arrive with the candle that discovered them
+    structure.forEach(s => {
+        const t = (s.confirmedTime ?? s.time) as number;
+        const list = byTime.get(t) ?? [];
+        list.push(s);
+        byTime.set(t, list);
+    });
+    const processor = new OrderBlockProcessor(config);
+    data.forEach(candle => processor.push(candle, byTime.get(candle.time as number) ?? []));
+    return processor.obs;
+};
+
+export const OB_LABELS: { [key in OrderBlock['subtype']]: string } = { Standard: 'OB', Swing: 'Swing OB', Breaker: 'Breaker', Mitigation: 'Mitigation Block' };
+
+// State of an OB as it was at the close of the candle at `time`, or null if it
+// was not yet confirmed or already mitigated. Prevents backtests and replay from
+// seeing breaker flips and mitigations that happened later.
+export const obStateAt = (ob: OrderBlock, time: number): OrderBlock | null => {
+    if (time <= (ob.confirmedTime as number) || (ob.mitigatedTime !== undefined && time >= (ob.mitigatedTime as number))) return null;
+    if (ob.breakerTime !== undefined && time < (ob.breakerTime as number)) {
+        return { ...ob, subtype: ob.pivotTime !== undefined ? 'Swing' : 'Standard', direction: flipDirection(ob.direction) };
+    }
+    return ob;
+};
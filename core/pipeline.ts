@@ -0,0 +1,139 @@
+import { BalancedPriceRange, CandleData, DealingRange, DetectorConfig, EntrySignal, FVG, KeyLevel, LiquidityPool, OrderBlock, StructurePoint } from './types';
+import { StructureProcessor, detectStructure } from './structure';
+import { BprProcessor, FvgProcessor } from './fvg';
+import { OrderBlockProcessor } from './orderBlocks';
+import { LiquidityProcessor } from './liquidity';
+import { KeyLevelProcessor } from './keyLevels';
+import { DealingRangeProcessor } from './dealingRange';
+import { DEFAULT_CONFIG, EntryProcessor, HtfLevel } from './entries';
+import { intervalToMs } from './time';
+
+// --- PIPELINE ---
+// Every detector over one series, in the order the terminal runs them.
+
+export interface HigherTimeframe {
+    timeframe: string;
+    candles: CandleData[];
+}
+
+export interface Analysis {
+    structure: StructurePoint[];
+    obs: OrderBlock[];            // every block with its lifecycle times, live or not
+    fvgs: FVG[];
+    bprs: BalancedPriceRange[];
+    pools: LiquidityPool[];
+    keyLevels: KeyLevel[];
+    ranges: DealingRange[];       // every dealing range in the order they formed
+    htf: HtfLevel[];
+    entries: EntrySignal[];
+}
+
+// Structure of each higher timeframe, as EntryProcessor takes it
+export const htfLevels = (higher: HigherTimeframe[], swingLength: number, internalLength: number): HtfLevel[] =>
+    higher.map(h => ({ timeframe: h.timeframe, step: intervalToMs(h.timeframe) / 1000, structure: detectStructure(h.candles, swingLength, internalLength) }));
+
+// Every detector and the entry scoring as one processor: push each closed
+// candle and read the analysis so far. Each push costs about the same however
+// long the series is, so a live chart only does the new candle's work.
+export class AnalysisPipeline {
+    private readonly structure: StructureProcessor;
+    private readonly obs: OrderBlockProcessor | null;
+    private readonly fvgs: FvgProcessor;
+    private readonly bprs = new BprProcessor();
+    private readonly liquidity: LiquidityProcessor;
+    private readonly keyLevels: KeyLevelProcessor;
+    private readonly ranges = new DealingRangeProcessor();
+    private readonly higher: { timeframe: string, structure: StructureProcessor }[];
+    private readonly htf: HtfLevel[];
+    private readonly scoring: EntryProcessor;
+    private count = 0;
+
+    // `higher` are the timeframe stack levels above `timeframe`, nearest first, and
+    // `daily` the daily candles before the first candle, for the previous
+    // day/week/month levels. Both may be empty.
+    constructor(timeframe: string, config: DetectorConfig = DEFAULT_CONFIG, higher: string[] = [], daily: CandleData[] = []) {
+        this.structure = new StructureProcessor(config.swingLength, config.internalLength);
+        this.obs = config.obTimeframes.includes(timeframe) ? new OrderBlockProcessor(config) : null;
+        this.fvgs = new FvgProcessor(config.sessions);
+        this.liquidity = new LiquidityProcessor(config.liquidityTolerance);
+        this.keyLevels = new KeyLevelProcessor(daily, config.sessions);
+        this.higher = higher.map(tf => ({ timeframe: tf, structure: new StructureProcessor(config.swingLength, config.internalLength) }));
+        this.htf = this.higher.map(h => ({ timeframe: h.timeframe, step: intervalToMs(h.timeframe) / 1000, structure: h.structure.points }));
+        this.scoring = new EntryProcessor(this.htf, timeframe, config);
+    }
+
+    // The candles pushed so far
+    get length() {
+        return this.count;
+    }
+
+    // Every signal so far, in candle order
+    get signals(): EntrySignal[] {
+        return this.scoring.signals;
+    }
+
+    // Zones and pools whose state can still change. A push walks these, so
+    // this, not the length of the series, is what it costs.
+    get openZones() {
+        return (this.obs?.active.length ?? 0) + this.fvgs.active.length + this.bprs.active.length + this.liquidity.active.length + this.keyLevels.active.length;
+    }
+
+    // A closed candle of a higher timeframe. Push them as they close; the entry
+    // scoring only uses what had closed by each chart candle.
+    pushHigher(timeframe: string, candle: CandleData) {
+        this.higher.find(h => h.timeframe === timeframe)?.structure.push(candle);
+    }
+
+    // The signal on this candle, if any
+    push(candle: CandleData): EntrySignal | undefined {
+        this.count++;
+        const points = this.structure.push(candle);
+        this.obs?.push(candle, points);
+        this.bprs.push(candle, this.fvgs.push(candle));
+        this.liquidity.push(candle, points);
+        this.keyLevels.push(candle);
+        this.ranges.push(points);
+        return this.scoring.push(candle, {
+            obs: this.obs?.active ?? [],
+            fvgs: this.fvgs.active,
+            bprs: this.bprs.active,
+            pools: this.liquidity.active,
+            sweeps: this.liquidity.recentSweeps,
+            keyLevels: this.keyLevels.active,
+            range: this.ranges.current
+        });
+    }
+
+    // Everything found so far. The lists are copies, the zones in them are not:
+    // their lifecycle fields keep changing as candles are pushed.
+    get analysis(): Analysis {
+        return {
+            structure: [...this.structure.points],
+            obs: [...(this.obs?.obs ?? [])],
+            fvgs: [...this.fvgs.fvgs],
+            bprs: [...this.bprs.ranges],
+            pools: [...this.liquidity.pools],
+            keyLevels: this.keyLevels.levels,
+            ranges: [...this.ranges.ranges],
+            htf: this.htf.map(level => ({ ...level, structure: [...level.structure] })),
+            entries: [...this.scoring.signals]
+        };
+    }
+}
+
+// A whole series through a new pipeline. The higher timeframes go first: the
+// entry scoring only reads HTF structure that had closed by each chart candle.
+const runSeries = (candles: CandleData[], timeframe: string, config: DetectorConfig, higher: HigherTimeframe[], daily: CandleData[]) => {
+    const pipeline = new AnalysisPipeline(timeframe, config, higher.map(h => h.timeframe), daily);
+    higher.forEach(h => h.candles.forEach(c => pipeline.pushHigher(h.timeframe, c)));
+    candles.forEach(c => pipeline.push(c));
+    return pipeline;
+};
+
+export const analyseCandles = (candles: CandleData[], timeframe: string, config: DetectorConfig = DEFAULT_CONFIG, higher: HigherTimeframe[] = [], daily: CandleData[] = []): Analysis =>
+    runSeries(candles, timeframe, config, higher, daily).analysis;
+
+// The signals of a whole series, scored candle by candle against the zones as
+// they were at each one, so they are the ones a live chart would have shown
+export const detectEntries = (candles: CandleData[], timeframe: string, config: DetectorConfig = DEFAULT_CONFIG, higher: HigherTimeframe[] = [], daily: CandleData[] = []): EntrySignal[] =>
+    runSeries(candles, timeframe, config, higher, daily).signals;
@@ -0,0 +1,95 @@
+import { SessionConfig, SessionDef, SessionId } from './types';
+
+// --- SESSIONS & KILLZONES ---
+// Sessions are wall-clock windows in one IANA timezone, so they move with that
+// zone's daylight saving the way ICT killzones move with New York time. The
+// killzone shading, PO3, entry scoring, Silver Bullet and the session opens all
+// ask this module which session a candle is in.
+
+export const DEFAULT_SESSIONS: SessionConfig = {
+    timezone: 'America/New_York',
+    sessions: [
+        { id: 'ASIA', name: 'Asia', start: '20:00', end: '00:00', color: '#FFA500', enabled: true },
+        { id: 'LONDON_OPEN', name: 'London Open', start: '02:00', end: '05:00', color: '#2962FF', enabled: true },
+        { id: 'NY_AM', name: 'NY AM', start: '07:00', end: '10:00', color: '#00E676', enabled: true },
+        { id: 'LONDON_CLOSE', name: 'London Close', start: '10:00', end: '12:00', color: '#7E57C2', enabled: true },
+        { id: 'NY_LUNCH', name: 'NY Lunch', start: '12:00', end: '13:30', color: '#78909C', enabled: true },
+        { id: 'NY_PM', name: 'NY PM', start: '13:30', end: '16:00', color: '#26A69A', enabled: true }
+    ],
+    silverBullets: [{ start: '03:00', end: '04:00' }, { start: '10:00', end: '11:00' }, { start: '14:00', end: '15:00' }]
+};
+
+const DAY = 86_400;
+const formats = new Map<string, Intl.DateTimeFormat>();
+const offsets = new Map<string, number>();
+
+export const isValidTimezone = (timeZone: string) => {
+    try { new Intl.DateTimeFormat('en-US', { timeZone }); return true; } catch { return false; }
+};
+
+// Seconds `timeZone` is ahead of UTC at unix time `t`, looked up once per zone and hour
+export const zoneOffset = (t: number, timeZone: string) => {
+    const hourStart = Math.floor(t / 3600) * 3600;
+    const key = `${timeZone}|${hourStart}`;
+    let offset = offsets.get(key);
+    if (offset === undefined) {
+        let format = formats.get(timeZone);
+        if (!format) {
+            format = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric' });
+            formats.set(timeZone, format);
+        }
+        const parts: { [type: string]: number } = {};
+        for (const p of format.formatToParts(new Date(hourStart * 1000))) parts[p.type] = Number(p.value);
+        offset = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) / 1000 - hourStart;
+        offsets.set(key, offset);
+    }
+    return offset;
+};
+
+// Minutes after local midnight in `timeZone` at unix time `t`
+export const zoneMinutes = (t: number, timeZone: string) => (((t + zoneOffset(t, timeZone)) % DAY) + DAY) % DAY / 60;
+
+// 'HH:MM' to minutes after midnight; the session checks run on every candle, so each clock is parsed once
+const clocks = new Map<string, number>();
+export const parseClock = (clock: string) => {
+    let minutes = clocks.get(clock);
+    if (minutes === undefined) {
+        const [h, m] = clock.split(':').map(Number);
+        minutes = ((h || 0) * 60 + (m || 0)) % 1440;
+        clocks.set(clock, minutes);
+    }
+    return minutes;
+};
+
+// A window that ends at or before its start runs past midnight
+const inWindow = (minute: number, start: string, end: string) => {
+    const from = parseClock(start), to = parseClock(end);
+    return from < to ? minute >= from && minute < to : minute >= from || minute < to;
+};
+
+// The first enabled session whose window contains the candle opening at `t`
+export const sessionAt = (t: number, config: SessionConfig): SessionDef | null => {
+    const minute = zoneMinutes(t, config.timezone);
+    return config.sessions.find(s => s.enabled && inWindow(minute, s.start, s.end)) ?? null;
+};
+
+export const isSilverBulletAt = (t: number, config: SessionConfig) => {
+    const minute = zoneMinutes(t, config.timezone);
+    return config.silverBullets.some(w => inWindow(minute, w.start, w.end));
+};
+
+// Whether the candle opening at `t` is the first of session `id` (enabled or not)
+export const opensSession = (t: number, config: SessionConfig, id: SessionId) => {
+    const session = config.sessions.find(s => s.id === id);
+    return !!session && zoneMinutes(t, config.timezone) === parseClock(session.start);
+};
+
+// End of the session the candle at `t` opens in; outside every session, the next local midnight
+export const sessionEndAt = (t: number, config: SessionConfig): number => {
+    const session = sessionAt(t, config);
+    const minute = zoneMinutes(t, config.timezone);
+    const ahead = ((session ? parseClock(session.end) : 0) - minute + 1440) % 1440 || 1440;
+    const end = t + ahead * 60;
+    // Correct for a daylight saving change in between
+    return end + zoneOffset(t, config.timezone) - zoneOffset(end, config.timezone);
+};
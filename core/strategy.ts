@@ -0,0 +1,136 @@
+import { ConditionId, EntryZone, KeyLevelKind, StopRule, Strategy, StrategyCondition, TargetRule } from './types';
+
+// --- STRATEGIES ---
+// A strategy is plain JSON describing how detectEntries scores and manages a
+// setup. These helpers validate it and move it in and out of files.
+
+// What detectEntries runs with unless told otherwise: entries at an OB, FVG or BPR
+// in the direction of the 50 SMA, scored OB +3, Silver Bullet +4, FVG, CE reaction,
+// BPR and sweep +2 each, HTF structure, HTF zone, draw on liquidity, midnight open
+// and killzone +1 each; signals at 4 or more, 10 minutes apart, with the stop 0.05%
+// beyond the recent swing or the zone's far edge, whichever is further, and a 2R target
+export const DEFAULT_STRATEGY: Strategy = {
+    id: 'default',
+    name: 'ICT Confluence',
+    version: 1,
+    updatedAt: 0,
+    direction: { type: 'SMA', length: 50 },
+    entryZones: ['OB_RETEST', 'FVG', 'BPR'],
+    conditions: [
+        { id: 'OB_RETEST', weight: 3 },
+        { id: 'FVG', weight: 2 },
+        { id: 'SILVER_BULLET', weight: 4 },
+        { id: 'CE_REACTION', weight: 2 },
+        { id: 'BPR', weight: 2 },
+        { id: 'HTF_STRUCTURE', weight: 1 },
+        { id: 'HTF_ZONE', weight: 1 },
+        { id: 'SWEEP', weight: 2 },
+        { id: 'DRAW_ON_LIQUIDITY', weight: 1 },
+        { id: 'MIDNIGHT_OPEN', weight: 1 },
+        { id: 'KILLZONE', weight: 1 }
+    ],
+    minScore: 4,
+    cooldownMinutes: 10,
+    stop: { type: 'FURTHEST', buffer: 0.0005 },
+    targets: [{ type: 'FIXED_R', r: 2 }],
+    winProbability: { base: 30, perPoint: 10, max: 95 }
+};
+
+export const CONDITION_LABELS: { [key in ConditionId]: string } = {
+    OB_RETEST: 'Order block retest',
+    FVG: 'FVG / IFVG touch',
+    BPR: 'Balanced price range touch',
+    CE_REACTION: 'Rejection at the FVG CE',
+    SILVER_BULLET: 'FVG formed in a Silver Bullet window',
+    HTF_STRUCTURE: 'Higher timeframe structure (per level)',
+    HTF_ZONE: 'Higher timeframe premium/discount (per level)',
+    SWEEP: 'Recent opposite-side liquidity sweep',
+    DRAW_ON_LIQUIDITY: 'Untaken PDH/PWH/PMH (PDL/PWL/PML) ahead',
+    MIDNIGHT_OPEN: 'Long below / short above the midnight open',
+    KILLZONE: 'In a killzone (not NY Lunch)',
+    OTE: 'Wick into the 62-79% OTE of the dealing range'
+};
+
+const ENTRY_ZONES: EntryZone[] = ['OB_RETEST', 'FVG', 'BPR'];
+export const KEY_LEVEL_KINDS: KeyLevelKind[] = ['PDH', 'PDL', 'PDEQ', 'PWH', 'PWL', 'PWEQ', 'PMH', 'PML', 'PMEQ', 'MIDNIGHT_OPEN', 'NY_0830_OPEN', 'ASIA_OPEN', 'LONDON_OPEN', 'NY_OPEN'];
+
+const newId = () => `strat-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// A copy under a new id; its first save is version 1
+export const copyStrategy = (strategy: Strategy, name: string): Strategy =>
+    ({ ...structuredClone(strategy), id: newId(), name, version: 0, updatedAt: Date.now() });
+
+const isNum = (v: unknown, min: number = -Infinity): v is number => typeof v === 'number' && isFinite(v) && v >= min;
+
+const checkCondition = (c: any, i: number): StrategyCondition => {
+    if (!c || !(c.id in CONDITION_LABELS)) throw new Error(`Condition ${i + 1}: unknown id "${c?.id}"`);
+    if (!isNum(c.weight)) throw new Error(`Condition ${c.id}: weight must be a number`);
+    return { id: c.id, weight: c.weight, ...(c.required ? { required: true } : {}) };
+};
+
+const checkStop = (s: any): StopRule => {
+    if (!s || !['SWING', 'ZONE', 'FURTHEST'].includes(s.type)) throw new Error('stop.type must be SWING, ZONE or FURTHEST');
+    if (!isNum(s.buffer, 0)) throw new Error('stop.buffer must be a number >= 0');
+    if (s.lookback !== undefined && !(Number.isInteger(s.lookback) && s.lookback > 0)) throw new Error('stop.lookback must be a positive integer');
+    return { type: s.type, buffer: s.buffer, ...(s.lookback !== undefined ? { lookback: s.lookback } : {}) };
+};
+
+const checkTarget = (t: any, i: number): TargetRule => {
+    const where = `targets[${i}]`;
+    switch (t?.type) {
+        case 'FIXED_R':
+            if (!isNum(t.r, 0) || t.r === 0) throw new Error(`${where}: r must be a number > 0`);
+            return { type: 'FIXED_R', r: t.r };
+        case 'LIQUIDITY':
+            if (!isNum(t.minR, 0)) throw new Error(`${where}: minR must be a number >= 0`);
+            return { type: 'LIQUIDITY', minR: t.minR };
+        case 'KEY_LEVEL':
+            if (!isNum(t.minR, 0)) throw new Error(`${where}: minR must be a number >= 0`);
+            if (!Array.isArray(t.kinds) || t.kinds.length === 0 || !t.kinds.every((k: any) => KEY_LEVEL_KINDS.includes(k))) throw new Error(`${where}: kinds must list key levels, e.g. ["PDH", "PDL"]`);
+            return { type: 'KEY_LEVEL', kinds: t.kinds, minR: t.minR };
+        case 'DEALING_RANGE':
+            if (!isNum(t.minR, 0)) throw new Error(`${where}: minR must be a number >= 0`);
+            if (!isNum(t.level) || t.level >= 1) throw new Error(`${where}: level must be a number below 1, e.g. -0.27`);
+            return { type: 'DEALING_RANGE', level: t.level, minR: t.minR };
+        default:
+            throw new Error(`${where}: type must be FIXED_R, LIQUIDITY, KEY_LEVEL or DEALING_RANGE`);
+    }
+};
+
+// Throws with a message naming the first problem found
+export const validateStrategy = (raw: any): Strategy => {
+    if (!raw || typeof raw !== 'object') throw new Error('Not a strategy');
+    if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error('name is required');
+    const direction = raw.direction;
+    if (!(direction?.type === 'HTF' || (direction?.type === 'SMA' && Number.isInteger(direction.length) && direction.length > 0))) throw new Error('direction must be { "type": "SMA", "length": n } or { "type": "HTF" }');
+    if (!Array.isArray(raw.entryZones) || raw.entryZones.length === 0 || !raw.entryZones.every((z: any) => ENTRY_ZONES.includes(z))) throw new Error(`entryZones must list one or more of ${ENTRY_ZONES.join(', ')}`);
+    if (!Array.isArray(raw.conditions)) throw new Error('conditions must be a list');
+    if (!isNum(raw.minScore)) throw new Error('minScore must be a number');
+    if (!isNum(raw.cooldownMinutes, 0)) throw new Error('cooldownMinutes must be a number >= 0');
+    if (!Array.isArray(raw.targets) || raw.targets.length === 0) throw new Error('targets must list at least one rule');
+    const wp = raw.winProbability ?? DEFAULT_STRATEGY.winProbability;
+    if (!isNum(wp.base) || !isNum(wp.perPoint) || !isNum(wp.max, 0)) throw new Error('winProbability needs numeric base, perPoint and max');
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : newId(),
+        name: raw.name.trim(),
+        version: Number.isInteger(raw.version) && raw.version >= 0 ? raw.version : 0,
+        updatedAt: isNum(raw.updatedAt) ? raw.updatedAt : Date.now(),
+        direction: direction.type === 'SMA' ? { type: 'SMA', length: direction.length } : { type: 'HTF' },
+        entryZones: [...new Set<EntryZone>(raw.entryZones)],
+        conditions: raw.conditions.map(checkCondition),
+        minScore: raw.minScore,
+        cooldownMinutes: raw.cooldownMinutes,
+        stop: checkStop(raw.stop),
+        targets: raw.targets.map(checkTarget),
+        winProbability: { base: wp.base, perPoint: wp.perPoint, max: wp.max }
+    };
+};
+
+export const exportStrategyJson = (strategy: Strategy) =>
+    JSON.stringify({ format: 'ict-strategy', schema: 1, strategy }, null, 2);
+
+// Accepts an export from exportStrategyJson or a bare strategy object
+export const parseStrategyJson = (text: string): Strategy => {
+    const parsed = JSON.parse(text);
+    return validateStrategy(parsed?.format === 'ict-strategy' ? parsed.strategy : parsed);
+};
@@ -0,0 +1,101 @@
+import { StructurePoint, Trend, CandleData } from './types';
+
+// --- MARKET STRUCTURE ---
+// Swing/internal pivots and the breaks of structure (BOS/CHoCH) they lead to.
+// Everything else in the library builds on these points.
+
+interface Pivot {
+    index: number;
+    price: number;
+    crossed: boolean;
+}
+
+interface Tracker {
+    level: 'Internal' | 'Swing';
+    length: number;
+    top: Pivot | null;
+    bottom: Pivot | null;
+    trend: Trend;
+}
+
+// Consumes closed candles one at a time. `points` are in the order they were
+// discovered: a break at its candle, a pivot once it is confirmed.
+export class StructureProcessor {
+    readonly points: StructurePoint[] = [];
+    private readonly data: CandleData[] = [];
+    // One tracker per lookback. A pivot at bar p is only confirmed at bar p + length,
+    // and a break only counts once a candle closes beyond the last unbroken pivot.
+    private readonly trackers: Tracker[];
+
+    constructor(swingLength: number = 5, internalLength: number = 3) {
+        this.trackers = [
+            { level: 'Internal', length: internalLength, top: null, bottom: null, trend: 'NONE' },
+            { level: 'Swing', length: swingLength, top: null, bottom: null, trend: 'NONE' }
+        ];
+    }
+
+    // The points this candle added
+    push(candle: CandleData): StructurePoint[] {
+        const { data, points } = this;
+        const added = points.length;
+        data.push(candle);
+        const i = data.length - 1;
+
+        for (const t of this.trackers) {
+            const p = i - t.length;
+            if (t.length > 0 && p - t.length >= 0) {
+                let isHigh = true;
+                let isLow = true;
+                for (let j = 1; j <= t.length; j++) {
+                    if (data[p].high <= data[p-j].high || data[p].high <= data[p+j].high) isHigh = false;
+                    if (data[p].low >= data[p-j].low || data[p].low >= data[p+j].low) isLow = false;
+                }
+
+                if (isHigh) {
+                    if (t.level === 'Swing' && t.top) {
+                        points.push({ time: data[p].time, price: data[p].high, type: data[p].high > t.top.price ? 'HH' : 'LH', direction: 'Bearish', level: 'Swing', confirmedTime: candle.time });
+                    }
+                    t.top = { index: p, price: data[p].high, crossed: false };
+                }
+                if (isLow) {
+                    if (t.level === 'Swing' && t.bottom) {
+                        points.push({ time: data[p].time, price: data[p].low, type: data[p].low < t.bottom.price ? 'LL' : 'HL', direction: 'Bullish', level: 'Swing', confirmedTime: candle.time });
+                    }
+                    t.bottom = { index: p, price: data[p].low, crossed: false };
+                }
+            }
+
+            if (t.top && !t.top.crossed && candle.close > t.top.price) {
+                points.push({ time: candle.time, price: t.top.price, type: t.trend === 'Bearish' ? 'CHoCH' : 'BOS', direction: 'Bullish', level: t.level, originTime: data[t.top.index].time });
+                t.top.crossed = true;
+                t.trend = 'Bullish';
+            }
+            if (t.bottom && !t.bottom.crossed && candle.close < t.bottom.price) {
+                points.push({ time: candle.time, price: t.bottom.price, type: t.trend === 'Bullish' ? 'CHoCH' : 'BOS', direction: 'Bearish', level: t.level, originTime: data[t.bottom.index].time });
+                t.bottom.crossed = true;
+                t.trend = 'Bearish';
+            }
+        }
+        return points.slice(added);
+    }
+}
+
+export const detectStructure = (data: CandleData[], swingLength: number = 5, internalLength: number = 3): StructurePoint[] => {
+    const processor = new StructureProcessor(swingLength, internalLength);
+    data.forEach(candle => processor.push(candle));
+    return processor.points;
+};
+
+// Prevailing trend = direction of the most recent break, swing level first.
+export const getStructureTrend = (structure: StructurePoint[]): Trend => {
+    let internal: Trend = 'NONE';
+    for (let i = structure.length - 1; i >= 0; i--) {
+        const s = structure[i];
+        if (s.type !== 'BOS' && s.type !== 'CHoCH') continue;
+        if (s.level === 'Swing') return s.direction;
+        if (internal === 'NONE') internal = s.direction;
+    }
+    return internal;
+};
+
+export const flipDirection = (d: 'Bullish' | 'Bearish') => d === 'Bullish' ? 'Bearish' : 'Bullish';
@@ -0,0 +1,18 @@
+// --- INTERVALS ---
+// Candle intervals in Binance notation, which every provider and the CLI use.
+
+export const INTERVAL_MS: { [key: string]: number } = {
+    '1m': 60_000, '3m': 180_000, '5m': 300_000, '15m': 900_000, '30m': 1_800_000,
+    '1h': 3_600_000, '2h': 7_200_000, '4h': 14_400_000, '6h': 21_600_000, '12h': 43_200_000,
+    '1d': 86_400_000, '3d': 259_200_000, '1w': 604_800_000
+};
+
+export const intervalToMs = (interval: string): number => {
+    const ms = INTERVAL_MS[interval];
+    if (!ms) throw new Error(`Unsupported interval: ${interval}`);
+    return ms;
+};
+
+// The interval whose length is exactly `ms`, if there is one
+export const intervalFromMs = (ms: number): string | undefined =>
+    Object.keys(INTERVAL_MS).find(interval => INTERVAL_MS[interval] === ms);
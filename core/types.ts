@@ -0,0 +1,262 @@
+// --- ANALYSIS TYPES ---
+// Candles, zones, signals and settings of the analysis core. Nothing here
+// refers to the app, so core/ can be used without the rest of the tree.
+
+// Unix time in seconds. Declared the way lightweight-charts declares it, so the
+// two are interchangeable without the analysis code depending on the chart.
+export type UTCTimestamp = number & { [Symbol.species]: 'UTCTimestamp' };
+
+export type SessionId = 'ASIA' | 'LONDON_OPEN' | 'NY_AM' | 'NY_LUNCH' | 'NY_PM' | 'LONDON_CLOSE';
+export type Trend = 'Bullish' | 'Bearish' | 'NONE';
+
+export interface CandleData {
+    time: UTCTimestamp;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume?: number;        // base asset volume; absent when the source has none
+    quoteVolume?: number;   // quote asset volume (Binance)
+    trades?: number;        // number of trades (Binance)
+    color?: string;
+    borderColor?: string;
+    wickColor?: string;
+}
+
+export interface StructurePoint {
+    time: UTCTimestamp;
+    price: number;
+    type: 'PH' | 'PL' | 'BOS' | 'CHoCH' | 'HH' | 'HL' | 'LH' | 'LL';
+    direction: 'Bullish' | 'Bearish';
+    level?: 'Internal' | 'Swing';
+    originTime?: UTCTimestamp; // BOS/CHoCH: time of the swing whose level was broken
+    confirmedTime?: UTCTimestamp; // HH/HL/LH/LL: close of the candle that confirmed the pivot
+}
+
+// Resting stops above swing highs (buy-side, BSL) or below swing lows (sell-side,
+// SSL). Two or more pivots within the tolerance make equal highs/lows.
+export interface LiquidityPool {
+    id: string;
+    type: 'BSL' | 'SSL';
+    price: number;                // outermost pivot of the pool
+    time: UTCTimestamp;           // first pivot
+    lastTime: UTCTimestamp;       // most recent pivot that joined the pool
+    confirmedTime: UTCTimestamp;  // when the most recent pivot was confirmed
+    touches: number;              // pivots in the pool; 2+ = equal highs/lows
+    sweptTime?: UTCTimestamp;     // a candle wicked through and closed back inside
+    takenTime?: UTCTimestamp;     // a candle closed through it
+}
+
+export type FvgFillState = 'UNTOUCHED' | 'PARTIAL' | 'CE' | 'FILLED';
+
+export interface FVG {
+    id: string;
+    time: UTCTimestamp;
+    confirmedTime: UTCTimestamp;  // close of the third candle
+    mitigatedTime?: UTCTimestamp; // the fill, or for an inversion FVG the close back through it
+    priceHigh: number;
+    priceLow: number;
+    direction: 'Bullish' | 'Bearish'; // flips when the gap inverts
+    mitigated: boolean;
+    isSilverBullet: boolean;
+    fillState: FvgFillState;      // as of the last candle
+    fillPercent: number;          // deepest retrace into the gap, 0-100
+    ceTime?: UTCTimestamp;        // first candle to reach the 50% level (consequent encroachment)
+    filledTime?: UTCTimestamp;    // first candle to trade through the far edge
+    inversionTime?: UTCTimestamp; // closed through, then respected from the other side (IFVG)
+    timeframe?: string;
+}
+
+// Overlap of a gap with an opposite gap formed shortly after it. Takes the
+// direction of the later gap.
+export interface BalancedPriceRange {
+    id: string;
+    time: UTCTimestamp;           // middle candle of the later gap
+    confirmedTime: UTCTimestamp;
+    mitigatedTime?: UTCTimestamp; // close through the far side
+    priceHigh: number;
+    priceLow: number;
+    direction: 'Bullish' | 'Bearish';
+    mitigated: boolean;
+}
+
+// Breaker: a failed OB whose move had taken the prior swing's liquidity first.
+// Mitigation block: a failed OB whose move never got past the prior swing.
+export type OrderBlockSubtype = 'Standard' | 'Swing' | 'Breaker' | 'Mitigation';
+
+// How an OB is invalidated: any trade through the far edge, a close through
+// it, or a close through its 50% (mean threshold)
+export type ObMitigationRule = 'WICK' | 'CLOSE' | 'MEAN';
+
+export interface OrderBlock {
+    id: string;
+    time: UTCTimestamp;           // first candle of the opposite-close run
+    confirmedTime: UTCTimestamp;  // close of the displacement candle, or of the break of structure
+    breakerTime?: UTCTimestamp;   // when it failed and flipped into a breaker / mitigation block
+    mitigatedTime?: UTCTimestamp;
+    priceHigh: number;
+    priceLow: number;
+    direction: 'Bullish' | 'Bearish';
+    mitigated: boolean;
+    subtype: OrderBlockSubtype;
+    candles: number;              // candles in the run
+    displacement: boolean;        // the move away was a large-bodied candle closing beyond the run
+    relativeVolume?: number;      // volume of the move-away candle over the mean, when the source has volume
+    bosTime?: UTCTimestamp;       // break of structure made by the move away
+    pivotTime?: UTCTimestamp;     // swing OBs: the swing pivot the block is anchored at
+    timeframe?: string;
+}
+
+export interface EntrySignal {
+    time: UTCTimestamp;
+    type: 'LONG' | 'SHORT';
+    price: number;
+    score: number;
+    confluences: string[];
+    sl: number;
+    tp: number;
+    winProbability: number;
+    tradingStyle: 'SCALP' | 'DAY_TRADE';
+    po3Phase: 'ACCUMULATION' | 'MANIPULATION' | 'DISTRIBUTION' | 'NONE';
+    drawOnLiquidity?: { label: string, price: number }; // nearest untaken previous day/week/month level in the trade's direction
+    backtestResult?: 'WIN' | 'LOSS' | 'PENDING';
+    backtestPnL?: number;        // net of fees, spread and slippage
+    backtestGrossPnL?: number;   // at the signal price and exact SL/TP, no costs
+    backtestFees?: number;
+    backtestQuantity?: number;
+    backtestExitReason?: 'TP' | 'SL' | 'TIME';
+    backtestExitTime?: UTCTimestamp;
+    backtestExitPrice?: number;
+}
+
+// A session / killzone as wall-clock times in SessionConfig.timezone
+export interface SessionDef {
+    id: SessionId;
+    name: string;
+    start: string;      // 'HH:MM'; an end at or before the start runs past midnight
+    end: string;
+    color: string;      // hex, shaded translucent on the chart
+    enabled: boolean;
+}
+
+export interface SessionConfig {
+    timezone: string;   // IANA name, e.g. 'America/New_York'
+    sessions: SessionDef[]; // where windows overlap the first enabled one wins
+    silverBullets: { start: string, end: string }[];
+}
+
+export interface DetectorConfig {
+    swingLength: number;        // swing structure pivot length, also the lookback for the entry stop
+    internalLength: number;
+    obThreshold: number;        // impulse body as a multiple of the mean body
+    obVolumeThreshold: number;  // impulse volume as a multiple of the mean volume; 0 = off, skipped without volume data
+    fvgExtend: number;          // candles an FVG stays tradeable after it forms; 0 = until filled
+    liquidityTolerance: number; // equal highs/lows: pivots within this fraction of the average candle range
+    obTimeframes: string[];     // chart timeframes order blocks are detected on
+    obRetain: number;           // most recent live OBs kept on the chart; 0 = all
+    obMitigation: ObMitigationRule;
+    timeframeStack: string[];   // e.g. 1d -> 4h -> 15m; levels above the chart timeframe bias the entry score
+    sessions: SessionConfig;
+    strategy: Strategy;         // how detectEntries scores and triggers
+}
+
+// --- STRATEGY ---
+// A scoring model for detectEntries, kept as data so several can be saved,
+// compared and edited without code changes.
+
+export type EntryZone = 'OB_RETEST' | 'FVG' | 'BPR';
+
+export type ConditionId =
+    EntryZone | 'CE_REACTION' | 'SILVER_BULLET' | 'HTF_STRUCTURE' | 'HTF_ZONE' |
+    'SWEEP' | 'DRAW_ON_LIQUIDITY' | 'MIDNIGHT_OPEN' | 'KILLZONE' | 'OTE';
+
+export interface StrategyCondition {
+    id: ConditionId;
+    weight: number;       // added per hit; HTF conditions hit once per level and count -1 per level against
+    required?: boolean;   // no signal unless it hits
+}
+
+export type StopRule = {
+    type: 'SWING' | 'ZONE' | 'FURTHEST'; // recent swing, far edge of the entry zone, or whichever is further
+    lookback?: number;    // candles for SWING; defaults to the swing length
+    buffer: number;       // beyond the level, as a fraction of price
+};
+
+export type TargetRule =
+    | { type: 'FIXED_R', r: number }
+    | { type: 'LIQUIDITY', minR: number }                        // nearest resting pool on the other side
+    | { type: 'KEY_LEVEL', kinds: KeyLevelKind[], minR: number } // nearest untaken level of these kinds
+    | { type: 'DEALING_RANGE', level: number, minR: number };    // fib of the dealing range: 0 its extreme in the trade's direction, -0.27/-0.62 the extensions
+
+export interface Strategy {
+    id: string;
+    name: string;
+    version: number;      // bumped on every save
+    updatedAt: number;
+    direction: { type: 'SMA', length: number } | { type: 'HTF' }; // close vs its SMA, or the nearest higher level's structure
+    entryZones: EntryZone[];   // at least one must be touched in the trade's direction
+    conditions: StrategyCondition[];
+    minScore: number;
+    cooldownMinutes: number;
+    stop: StopRule;
+    targets: TargetRule[];     // tried in order; the first that gives a target is used
+    winProbability: { base: number, perPoint: number, max: number };
+}
+
+export type PremiumDiscount = 'PREMIUM' | 'DISCOUNT' | 'EQUILIBRIUM';
+
+// The leg between the latest confirmed swing high and swing low. Bullish when
+// the low came first, so price retraces down into its OTE; bearish the other way.
+export interface DealingRange {
+    high: number;
+    highTime: UTCTimestamp;
+    low: number;
+    lowTime: UTCTimestamp;
+    direction: 'Bullish' | 'Bearish';
+    confirmedTime: UTCTimestamp;  // when the later of the two swings was confirmed
+}
+
+export type KeyLevelKind =
+    'PDH' | 'PDL' | 'PDEQ' | 'PWH' | 'PWL' | 'PWEQ' | 'PMH' | 'PML' | 'PMEQ' |
+    'MIDNIGHT_OPEN' | 'NY_0830_OPEN' | 'ASIA_OPEN' | 'LONDON_OPEN' | 'NY_OPEN';
+
+// A reference price that applies over one period: the previous day's high for
+// the whole of today, the midnight open until the next midnight, and so on
+export interface KeyLevel {
+    id: string;
+    kind: KeyLevelKind;
+    label: string;
+    price: number;
+    time: UTCTimestamp;          // start of the period the level applies to (an open's own candle)
+    endTime: UTCTimestamp;       // end of that period
+    takenTime?: UTCTimestamp;    // first candle in the period to trade through it; opens are never taken
+}
+
+export interface ExecutionConfig {
+    startingBalance: number;
+    riskPercent: number;        // of the running balance, per trade
+    feeRate: number;            // fraction of notional, charged on entry and exit
+    spread: number;             // full bid/ask spread in price units
+    slippageTicks: number;      // adverse slippage on market fills (entries, stops, time exits)
+    tickSize: number;
+    sameBarResolution: 'STOP_FIRST' | 'TARGET_FIRST' | 'LOWER_TIMEFRAME';
+    maxBarsInTrade: number;     // time-based exit; 0 disables it
+}
+
+export interface BacktestStats {
+    totalTrades: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    netPnL: number;
+    grossPnL: number;
+    totalFees: number;
+    executionCost: number;      // spread + slippage
+    timeExits: number;
+    sameBarConflicts: number;   // SL/TP conflicts still unresolved for lack of lower-timeframe data
+    startingBalance: number;
+    endingBalance: number;
+    profitFactor: number;
+    maxDrawdown: number;
+    equityCurve: number[];
+}
@@ -0,0 +1,83 @@
+import { CandleData } from './types';
+
+// --- VOLUME ---
+// Relative volume for the detectors and the volume profile drawn on the chart.
+// Sources without volume (most files) leave it undefined, and every volume
+// check is skipped for them.
+
+export const hasVolume = (candles: CandleData[]) => candles.some(c => c.volume !== undefined);
+
+// Each candle's volume over the mean of the `length` candles before it;
+// undefined for the first candle and where there is no volume
+export class RelativeVolume {
+    private readonly window: number[] = [];
+    private sum = 0;
+
+    constructor(private readonly length: number = 20) {}
+
+    push(candle: CandleData): number | undefined {
+        const { window } = this;
+        const mean = window.length > 0 ? this.sum / window.length : 0;
+        window.push(candle.volume ?? 0);
+        this.sum += candle.volume ?? 0;
+        if (window.length > this.length) this.sum -= window.shift()!;
+        return candle.volume !== undefined && mean > 0 ? candle.volume / mean : undefined;
+    }
+}
+
+export const relativeVolume = (data: CandleData[], length: number = 20): (number | undefined)[] => {
+    const rvol = new RelativeVolume(length);
+    return data.map(d => rvol.push(d));
+};
+
+export interface VolumeProfileRow {
+    priceLow: number;
+    priceHigh: number;
+    volume: number;
+}
+
+export interface VolumeProfile {
+    rows: VolumeProfileRow[];     // lowest price first
+    poc: number;                  // middle of the row with the most volume
+    valueAreaHigh: number;
+    valueAreaLow: number;
+    total: number;
+}
+
+export const VALUE_AREA = 0.7;
+
+// Volume by price over `candles`, each candle's volume spread evenly over its
+// range. The value area grows from the POC row, taking the heavier neighbour
+// each time, until it holds VALUE_AREA of the volume.
+export const volumeProfile = (candles: CandleData[], rowCount: number = 24): VolumeProfile | null => {
+    const traded = candles.filter(c => c.volume);
+    if (traded.length === 0) return null;
+    const high = Math.max(...traded.map(c => c.high));
+    const low = Math.min(...traded.map(c => c.low));
+    const step = (high - low) / rowCount || 1;
+    const rows: VolumeProfileRow[] = Array.from({ length: rowCount }, (_, i) => ({ priceLow: low + i * step, priceHigh: low + (i + 1) * step, volume: 0 }));
+    for (const c of traded) {
+        const first = Math.min(rowCount - 1, Math.floor((c.low - low) / step));
+        const last = Math.min(rowCount - 1, Math.floor((c.high - low) / step));
+        const range = c.high - c.low;
+        for (let i = first; i <= last; i++) {
+            const overlap = range > 0 ? (Math.min(c.high, rows[i].priceHigh) - Math.max(c.low, rows[i].priceLow)) / range : 1;
+            rows[i].volume += c.volume! * overlap;
+        }
+    }
+    const total = rows.reduce((sum, r) => sum + r.volume, 0);
+    const pocIndex = rows.reduce((best, r, i) => r.volume > rows[best].volume ? i : best, 0);
+    let from = pocIndex, to = pocIndex, inside = rows[pocIndex].volume;
+    while (inside < total * VALUE_AREA && (from > 0 || to < rowCount - 1)) {
+        const below = from > 0 ? rows[from - 1].volume : -1;
+        const above = to < rowCount - 1 ? rows[to + 1].volume : -1;
+        if (above >= below) inside += rows[++to].volume; else inside += rows[--from].volume;
+    }
+    return {
+        rows,
+        poc: (rows[pocIndex].priceLow + rows[pocIndex].priceHigh) / 2,
+        valueAreaHigh: rows[to].priceHigh,
+        valueAreaLow: rows[from].priceLow,
+        total
+    };
+};
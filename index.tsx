@@ -14,433 +14,92 @@ import {
     HistogramSeries,
     PriceLineOptions,
     MouseEventParams,
-    IPriceLine
+    IPriceLine,
+    Logical
 } from 'lightweight-charts';
-
-// --- TYPES ---
-
-export type SessionType = 'ASIA' | 'LONDON' | 'NEW_YORK' | 'NONE';
-
-export interface CandleData {
-    time: UTCTimestamp;
-    open: number;
-    high: number;
-    low: number;
-    close: number;
-    color?: string;
-    borderColor?: string;
-    wickColor?: string;
-}
-
-export interface StructurePoint {
-    time: UTCTimestamp;
-    price: number;
-    type: 'PH' | 'PL' | 'BOS' | 'CHoCH' | 'HH' | 'HL' | 'LH' | 'LL';
-    direction: 'Bullish' | 'Bearish';
-}
-
-export interface FVG {
-    id: string;
-    time: UTCTimestamp;
-    priceHigh: number;
-    priceLow: number;
-    direction: 'Bullish' | 'Bearish';
-    mitigated: boolean;
-    isSilverBullet: boolean;
-    timeframe?: string;
-}
-
-export interface OrderBlock {
-    id: string;
-    time: UTCTimestamp;
-    priceHigh: number;
-    priceLow: number;
-    direction: 'Bullish' | 'Bearish';
-    mitigated: boolean;
-    subtype: 'Standard' | 'Breaker' | 'Swing';
-    timeframe?: string;
-}
-
-export interface TradeEntry {
-    time: UTCTimestamp;
-    type: 'LONG' | 'SHORT';
-    price: number;
-    stopLoss: number;
-    takeProfit: number;
-    result?: 'WIN' | 'LOSS' | 'OPEN';
-    pnl?: number;
-    confluences: string[];
-    score: number;
-}
-
-export interface EntrySignal {
-    time: UTCTimestamp;
-    type: 'LONG' | 'SHORT';
-    price: number;
-    score: number;
-    confluences: string[];
-    sl: number;
-    tp: number;
-    winProbability: number;
-    tradingStyle: 'SCALP' | 'DAY_TRADE';
-    po3Phase: 'ACCUMULATION' | 'MANIPULATION' | 'DISTRIBUTION' | 'NONE';
-    backtestResult?: 'WIN' | 'LOSS' | 'PENDING';
-    backtestPnL?: number;
-}
-
-export interface BacktestStats {
-    totalTrades: number;
-    wins: number;
-    losses: number;
-    winRate: number;
-    netPnL: number;
-    profitFactor: number;
-    maxDrawdown: number;
-    equityCurve: number[];
-}
+import { CandleData, StructurePoint, FVG, KeyLevel, KeyLevelKind, TimeframeBias, BalancedPriceRange, OrderBlock, ObMitigationRule, LiquidityPool, TradeEntry, EntrySignal, BacktestStats, ExecutionConfig, DetectorConfig, DealingRange, Strategy, ConditionId, TargetRule, PaperAccount, PendingOrder, Sizing, SizingMode, SessionConfig, SessionDef, Trend, AlertRule, AlertEvent, AlertSettings, AlertCondition, AlertSound, WatchlistSettings, ScanResult, JournalEntry, JournalFilter, JournalMistake, Drawing, DrawingPoint, DrawingTool } from './types';
+import { StreamStatus } from './services/klineStream';
+import { DEFAULT_CONFIG, DEFAULT_EXECUTION, DEFAULT_SESSIONS, DEFAULT_STRATEGY, CONDITION_LABELS, KEY_LEVEL_KINDS, OB_LABELS, DAY, HigherTimeframe, intervalToMs, isValidTimezone, sessionAt, isSilverBulletAt, sessionEndAt, copyStrategy, validateStrategy, exportStrategyJson, parseStrategyJson, hasVolume, volumeProfile, OTE_LEVELS, EQ_LEVEL, EXTENSION_LEVELS, rangeLevel, getStructureTrend, detectEntries, htfBiasAt, fvgStateAt, obStateAt, analyseCandles, AnalysisPipeline, performBacktest } from './core';
+import { MarketDataProvider, SymbolInfo, HistoryProgress, loadHistoryRange } from './services/marketData';
+import { BinanceProvider } from './services/binanceProvider';
+import { FileProvider } from './services/fileProvider';
+import { SyntheticProvider } from './services/syntheticProvider';
+import { DEFAULT_STARTING_BALANCE, createAccount, resetAccount, listAccounts, saveAccount, getActiveAccountId, setActiveAccountId, exportAccountJson, parseAccountJson } from './services/accountStore';
+import { BrokerState, BrokerEvent, BarProgress, openPosition, scaleIn, closePosition, moveToBreakeven, placeOrder, cancelOrder, modifyOrder, processBar, unrealizedPnL, enteredQuantity } from './services/paperBroker';
+import { listStrategies, saveStrategy, deleteStrategy, getActiveStrategyId, setActiveStrategyId } from './services/strategyStore';
+import { AlertContext, ALERT_PRESETS, DEFAULT_CONDITIONS, TEMPLATE_FIELDS, describeCondition, matchRule, canFire, postWebhook, renderTemplate, notificationsSupported, showNotification, playSound } from './services/alerts';
+import { HISTORY_LIMIT as ALERT_HISTORY_LIMIT, DEFAULT_ALERT_SETTINGS, newAlertId, createAlertRule, listAlertRules, saveAlertRule, deleteAlertRule, loadAlertHistory, saveAlertHistory, loadAlertSettings, saveAlertSettings } from './services/alertStore';
+import { MarketAnalyser, scanKey, scanWatchlist } from './services/scanner';
+import { DEFAULT_WATCHLIST, loadWatchlist, saveWatchlist } from './services/watchlistStore';
+import { MISTAKE_LABELS, SUGGESTED_TAGS, DEFAULT_JOURNAL_FILTER, journalFromTrade, closeJournalEntry, journalTags, filterJournal, summariseJournal, journalMarkdown, journalHtml } from './services/journal';
+import { listJournal, getJournalEntry, saveJournalEntry, deleteJournalEntry } from './services/journalStore';
+import { DRAWING_TOOLS, DRAWING_POINTS, DRAWING_COLORS, FIB_LEVELS, newDrawingId, fibPrice, timeToLogical, logicalToTime, snapToOhlc, distanceToSegment } from './services/drawings';
+import { listDrawings, saveDrawing, deleteDrawing } from './services/drawingStore';
+import { ParamRange, ParamSet, Evaluator, Objective, OptimizerOptions, OptimizerReport, gridSize, runOptimizer } from './services/optimizer';
 
 // --- UTILS ---
 
-const getSession = (hour: number): SessionType => {
-    if (hour >= 0 && hour < 8) return 'ASIA';
-    if (hour >= 7 && hour < 16) return 'LONDON';
-    if (hour >= 12 && hour < 21) return 'NEW_YORK';
-    return 'NONE';
-};
-
-const determinePO3 = (candle: CandleData, session: SessionType): 'ACCUMULATION' | 'MANIPULATION' | 'DISTRIBUTION' | 'NONE' => {
-    if (session === 'ASIA') return 'ACCUMULATION';
-    if (session === 'LONDON' || session === 'NEW_YORK') {
-        const body = Math.abs(candle.close - candle.open);
-        const range = candle.high - candle.low;
-        if (body > range * 0.6) return 'DISTRIBUTION';
-        return 'MANIPULATION';
-    }
-    return 'NONE';
-};
-
-// --- LOGIC: ICT ALGORITHMS ---
-
-const detectStructure = (data: CandleData[], swingLength: number = 5): StructurePoint[] => {
-    const points: StructurePoint[] = [];
-    const pivotHighs: {index: number, price: number}[] = [];
-    const pivotLows: {index: number, price: number}[] = [];
-
-    for (let i = swingLength; i < data.length - swingLength; i++) {
-        let isHigh = true;
-        let isLow = true;
-        for (let j = 1; j <= swingLength; j++) {
-            if (data[i].high <= data[i-j].high || data[i].high <= data[i+j].high) isHigh = false;
-            if (data[i].low >= data[i-j].low || data[i].low >= data[i+j].low) isLow = false;
-        }
-
-        if (isHigh) pivotHighs.push({ index: i, price: data[i].high });
-        if (isLow) pivotLows.push({ index: i, price: data[i].low });
-    }
-
-    let lastHigh = pivotHighs[0];
-    let lastLow = pivotLows[0];
-
-    const allPivots = [
-        ...pivotHighs.map(p => ({...p, type: 'High'})), 
-        ...pivotLows.map(p => ({...p, type: 'Low'}))
-    ].sort((a,b) => a.index - b.index);
-
-    for (const p of allPivots) {
-        const candle = data[p.index];
-        if (p.type === 'High') {
-            if (!lastHigh) {
-                lastHigh = p;
-                continue;
-            }
-            if (p.price > lastHigh.price) {
-                points.push({ time: candle.time, price: p.price, type: 'HH', direction: 'Bearish' });
-            } else {
-                points.push({ time: candle.time, price: p.price, type: 'LH', direction: 'Bearish' });
-            }
-            lastHigh = p;
-        } else {
-            if (!lastLow) {
-                lastLow = p;
-                continue;
-            }
-            if (p.price < lastLow.price) {
-                 points.push({ time: candle.time, price: p.price, type: 'LL', direction: 'Bullish' });
-            } else {
-                 points.push({ time: candle.time, price: p.price, type: 'HL', direction: 'Bullish' });
-            }
-            lastLow = p;
-        }
-    }
-    
-    return points;
-};
-
-const detectFVG = (data: CandleData[]): FVG[] => {
-    const fvgs: FVG[] = [];
-    for (let i = 2; i < data.length; i++) {
-        const c1 = data[i - 2];
-        const c2 = data[i - 1];
-        const c3 = data[i];
-
-        const c2TimeDate = new Date((c2.time as number) * 1000);
-        const hour = c2TimeDate.getUTCHours();
-        const isSilverBullet = (hour === 14 || hour === 9 || hour === 3);
-
-        if (c1.high < c3.low) {
-            fvgs.push({
-                id: `fvg-bull-${c2.time}`,
-                time: c2.time,
-                priceHigh: c3.low,
-                priceLow: c1.high,
-                direction: 'Bullish',
-                mitigated: false,
-                isSilverBullet
-            });
-        }
-        if (c1.low > c3.high) {
-            fvgs.push({
-                id: `fvg-bear-${c2.time}`,
-                time: c2.time,
-                priceHigh: c1.low,
-                priceLow: c3.high,
-                direction: 'Bearish',
-                mitigated: false,
-                isSilverBullet
-            });
-        }
-    }
-    
-    for (let i = 0; i < fvgs.length; i++) {
-        const fvg = fvgs[i];
-        const futureCandles = data.filter(d => (d.time as number) > (fvg.time as number));
-        for (const candle of futureCandles) {
-            if (fvg.direction === 'Bullish' && candle.low < fvg.priceLow) {
-                fvg.mitigated = true;
-                break;
-            }
-            if (fvg.direction === 'Bearish' && candle.high > fvg.priceHigh) {
-                fvg.mitigated = true;
-                break;
-            }
-        }
-    }
-    return fvgs.filter(f => !f.mitigated);
-};
-
-const detectOrderBlocks = (data: CandleData[], thresholdMult: number): OrderBlock[] => {
-    const obs: OrderBlock[] = [];
-    const bodySizes = data.slice(-100).map(d => Math.abs(d.close - d.open));
-    const meanBody = bodySizes.reduce((a, b) => a + b, 0) / bodySizes.length || 1;
-    const IMPULSE_THRESHOLD = meanBody * thresholdMult; 
-
-    for (let i = 2; i < data.length - 3; i++) {
-        const candle = data[i];
-        const nextCandle = data[i+1];
-
-        const moveUp = (nextCandle.close - nextCandle.open) > IMPULSE_THRESHOLD;
-        const moveDown = (nextCandle.open - nextCandle.close) > IMPULSE_THRESHOLD;
-
-        if (candle.close < candle.open && moveUp && nextCandle.close > candle.high) {
-            obs.push({
-                id: `ob-bull-${candle.time}`,
-                time: candle.time,
-                priceHigh: candle.high,
-                priceLow: candle.low,
-                direction: 'Bullish',
-                mitigated: false,
-                subtype: 'Standard'
-            });
-        }
-
-        if (candle.close > candle.open && moveDown && nextCandle.close < candle.low) {
-            obs.push({
-                id: `ob-bear-${candle.time}`,
-                time: candle.time,
-                priceHigh: candle.high,
-                priceLow: candle.low,
-                direction: 'Bearish',
-                mitigated: false,
-                subtype: 'Standard'
-            });
-        }
-    }
-
-    for (let i = 0; i < obs.length; i++) {
-        const ob = obs[i];
-        const startIndex = data.findIndex(d => d.time === ob.time);
-        if (startIndex === -1) continue;
-
-        for (let k = startIndex + 1; k < data.length; k++) {
-            const current = data[k];
-            if (ob.subtype === 'Standard') {
-                if (ob.direction === 'Bullish' && current.close < ob.priceLow) {
-                    ob.subtype = 'Breaker';
-                    ob.direction = 'Bearish';
-                } else if (ob.direction === 'Bearish' && current.close > ob.priceHigh) {
-                    ob.subtype = 'Breaker';
-                    ob.direction = 'Bullish';
-                }
-            } else if (ob.subtype === 'Breaker') {
-                if (ob.direction === 'Bullish' && current.close < ob.priceLow) ob.mitigated = true;
-                else if (ob.direction === 'Bearish' && current.close > ob.priceHigh) ob.mitigated = true;
-            }
-        }
-    }
-    return obs.filter(o => !o.mitigated).slice(-10);
+const HISTORY_LIMIT = 500;
+
+// Timeframes the stack can be built from, highest first
+const STACK_TIMEFRAMES = ['1w', '1d', '4h', '1h', '15m', '5m', '1m'];
+
+const DEFAULT_OPT_SPACE: ParamRange[] = [
+    { key: 'swingLength', label: 'Swing Length', min: 3, max: 9, step: 2 },
+    { key: 'obThreshold', label: 'OB Threshold', min: 1, max: 2, step: 0.2 },
+    { key: 'fvgExtend', label: 'FVG Extension', min: 5, max: 25, step: 10 },
+    { key: 'minScore', label: 'Min Entry Score', min: 4, max: 7, step: 1 },
+    { key: 'rewardRatio', label: 'R:R', min: 1.5, max: 3, step: 0.5 }
+];
+
+// Lower timeframe used to resolve same-candle SL/TP conflicts
+const getLtf = (tf: string): string | null => {
+    if (['3m', '5m', '15m', '30m', '1h'].includes(tf)) return '1m';
+    if (tf === '4h') return '5m';
+    if (tf === '1d') return '15m';
+    return null;
 };
 
-const detectEntries = (data: CandleData[], obs: OrderBlock[], fvgs: FVG[], timeframe: string): EntrySignal[] => {
-    const signals: EntrySignal[] = [];
-    let lastSignalTime = 0;
-    const COOLDOWN = 10 * 60; 
-    const isScalping = ['1m', '3m', '5m'].includes(timeframe);
-
-    for (let i = 100; i < data.length; i++) {
-        const candle = data[i];
-        const prev50 = data.slice(i-50, i);
-        const avg = prev50.reduce((a,b) => a + b.close, 0) / 50;
-        const isBullish = candle.close > avg;
-        
-        let score = 0;
-        const confluences: string[] = [];
+interface ReplayState {
+    cursor: UTCTimestamp; // last revealed candle
+    playing: boolean;
+    speed: number;        // bars per second
+}
 
-        const touchingBullOB = obs.find(ob => ob.direction === 'Bullish' && !ob.mitigated && candle.low <= ob.priceHigh && candle.low >= ob.priceLow && (ob.time as number) < (candle.time as number));
-        if (touchingBullOB) {
-            score += 3;
-            confluences.push(`Retest Bullish ${touchingBullOB.subtype === 'Breaker' ? 'Breaker' : 'OB'}`);
-        }
-        const touchingBearOB = obs.find(ob => ob.direction === 'Bearish' && !ob.mitigated && candle.high >= ob.priceLow && candle.high <= ob.priceHigh && (ob.time as number) < (candle.time as number));
-        if (touchingBearOB) {
-            score += 3;
-            confluences.push(`Retest Bearish ${touchingBearOB.subtype === 'Breaker' ? 'Breaker' : 'OB'}`);
-        }
-        const touchingBullFVG = fvgs.find(f => f.direction === 'Bullish' && candle.low <= f.priceHigh && candle.low >= f.priceLow && (f.time as number) < (candle.time as number));
-        if (touchingBullFVG) {
-            score += 2;
-            confluences.push('Discount FVG');
-            if (touchingBullFVG.isSilverBullet) { score += 4; confluences.push('Silver Bullet Zone'); }
-        }
-         const touchingBearFVG = fvgs.find(f => f.direction === 'Bearish' && candle.high >= f.priceLow && candle.high <= f.priceHigh && (f.time as number) < (candle.time as number));
-        if (touchingBearFVG) {
-            score += 2;
-            confluences.push('Premium FVG');
-            if (touchingBearFVG.isSilverBullet) { score += 4; confluences.push('Silver Bullet Zone'); }
-        }
-        
-        const hour = new Date((candle.time as number) * 1000).getUTCHours();
-        const session = getSession(hour);
-        if (session !== 'NONE') score += 1;
-        const po3 = determinePO3(candle, session);
-
-        if (score >= 4 && ((candle.time as number) - lastSignalTime > COOLDOWN)) {
-            if (isBullish && (touchingBullOB || touchingBullFVG)) {
-                 const swingLow = Math.min(...data.slice(i-5, i+1).map(c => c.low));
-                 const sl = Math.min(swingLow, touchingBullOB?.priceLow || swingLow) - (candle.close * 0.0005);
-                 const risk = candle.close - sl;
-                 const tp = candle.close + (risk * 2); 
-                 signals.push({
-                    time: candle.time,
-                    type: 'LONG',
-                    price: candle.close,
-                    score, confluences, sl, tp,
-                    winProbability: Math.min(95, score * 10 + 30),
-                    tradingStyle: isScalping ? 'SCALP' : 'DAY_TRADE',
-                    po3Phase: po3
-                 });
-                 lastSignalTime = candle.time as number;
-            } else if (!isBullish && (touchingBearOB || touchingBearFVG)) {
-                 const swingHigh = Math.max(...data.slice(i-5, i+1).map(c => c.high));
-                 const sl = Math.max(swingHigh, touchingBearOB?.priceHigh || swingHigh) + (candle.close * 0.0005);
-                 const risk = sl - candle.close;
-                 const tp = candle.close - (risk * 2);
-                 signals.push({
-                    time: candle.time,
-                    type: 'SHORT',
-                    price: candle.close,
-                    score, confluences, sl, tp,
-                    winProbability: Math.min(95, score * 10 + 30),
-                    tradingStyle: isScalping ? 'SCALP' : 'DAY_TRADE',
-                    po3Phase: po3
-                 });
-                 lastSignalTime = candle.time as number;
-            }
-        }
-    }
-    return signals;
+type ProviderId = 'binance' | 'file' | 'synthetic';
+const PROVIDER_LABELS: { [key in ProviderId]: string } = { binance: 'Binance', file: 'File', synthetic: 'Synthetic' };
+
+// Optimizer parameters are flat numbers on the config, except minScore and
+// rewardRatio, which set the strategy's minimum score and its fixed-R targets.
+const applyParams = (config: DetectorConfig, params: ParamSet): DetectorConfig => {
+    const { minScore, rewardRatio, ...rest } = params;
+    const strategy: Strategy = {
+        ...config.strategy,
+        minScore: minScore ?? config.strategy.minScore,
+        targets: rewardRatio === undefined ? config.strategy.targets : config.strategy.targets.map(r => r.type === 'FIXED_R' ? { ...r, r: rewardRatio } : r)
+    };
+    return { ...config, ...rest, strategy };
 };
 
-const performBacktest = (data: CandleData[], signals: EntrySignal[]): { stats: BacktestStats, results: EntrySignal[] } => {
-    let wins = 0;
-    let losses = 0;
-    let netPnL = 0;
-    let maxDrawdown = 0;
-    let peakBalance = 0;
-    let currentBalance = 100000;
-    const equityCurve: number[] = [100000];
-    
-    const processedSignals = signals.map(signal => {
-        const startIndex = data.findIndex(d => d.time === signal.time);
-        if (startIndex === -1) return signal;
-
-        let result: 'WIN' | 'LOSS' | 'PENDING' = 'PENDING';
-        let pnl = 0;
-        
-        // STRICT 1:2 R:R
-        const RISK_AMOUNT = 1000;
-        const REWARD_AMOUNT = 2000;
-
-        for (let i = startIndex + 1; i < data.length; i++) {
-            const candle = data[i];
-            if (signal.type === 'LONG') {
-                if (candle.low <= signal.sl) {
-                    result = 'LOSS';
-                    pnl = -RISK_AMOUNT;
-                    break;
-                }
-                if (candle.high >= signal.tp) {
-                    result = 'WIN';
-                    pnl = REWARD_AMOUNT;
-                    break;
-                }
-            } else {
-                if (candle.high >= signal.sl) {
-                    result = 'LOSS';
-                    pnl = -RISK_AMOUNT;
-                    break;
-                }
-                if (candle.low <= signal.tp) {
-                    result = 'WIN';
-                    pnl = REWARD_AMOUNT;
-                    break;
-                }
-            }
-        }
-
-        if (result === 'WIN') wins++;
-        if (result === 'LOSS') losses++;
-        
-        netPnL += pnl;
-        currentBalance += pnl;
-        equityCurve.push(currentBalance);
-        
-        peakBalance = Math.max(peakBalance, currentBalance);
-        const dd = peakBalance - currentBalance;
-        maxDrawdown = Math.max(maxDrawdown, dd);
-
-        return { ...signal, backtestResult: result, backtestPnL: pnl };
-    });
-
-    const totalTrades = wins + losses; 
-    const winRate = totalTrades > 0 ? (wins / totalTrades) * 100 : 0;
-    const profitFactor = losses > 0 ? (wins * 2000) / (losses * 1000) : wins > 0 ? 999 : 0;
-
-    return {
-        stats: { totalTrades, wins, losses, winRate, netPnL, profitFactor, maxDrawdown, equityCurve },
-        results: processedSignals
+// Evaluator for the optimizer. Each candidate's signals come from detectEntries,
+// which runs the same pipeline as the live chart, so a setting is tuned on the
+// signals it would really have produced. `higher` are the stack levels above
+// the chart and `daily` the daily candles before it, for the key levels.
+// Signals are detected over the whole series (the detectors never look ahead),
+// then each window is backtested on candles cut at its end.
+const createEvaluator = (candles: CandleData[], timeframe: string, base: DetectorConfig, exec: ExecutionConfig, ltfBars?: Map<number, CandleData[]>, higher: HigherTimeframe[] = [], daily: CandleData[] = []): Evaluator => params => {
+    const signals = detectEntries(candles, timeframe, applyParams(base, params), higher, daily);
+    return (start, end) => {
+        const from = candles[start].time as number;
+        const to = end < candles.length ? candles[end].time as number : Infinity;
+        return performBacktest(candles.slice(0, end), signals.filter(s => (s.time as number) >= from && (s.time as number) < to), exec, ltfBars).stats;
     };
 };
 
+// The whole signal pipeline for one market, as the watchlist scanner runs it
+const analyseMarket = (config: DetectorConfig): MarketAnalyser => (candles, timeframe, higher, daily) =>
+    analyseCandles(candles, timeframe, config, higher, daily).entries;
+
 // --- COMPONENTS ---
 
 const EntryDetailModal = ({ entry, onClose }: { entry: EntrySignal, onClose: () => void }) => (
@@ -475,25 +134,36 @@ const EntryDetailModal = ({ entry, onClose }: { entry: EntrySignal, onClose: ()
                     ))}
                     <li className="flex items-center gap-2 text-sm text-gray-300"><span className="text-blue-500">ℹ</span> Style: {entry.tradingStyle}</li>
                     <li className="flex items-center gap-2 text-sm text-gray-300"><span className="text-purple-500">ℹ</span> PO3 Phase: {entry.po3Phase}</li>
+                    {entry.drawOnLiquidity && <li className="flex items-center gap-2 text-sm text-gray-300"><span className="text-yellow-500">ℹ</span> Draw on Liquidity: {entry.drawOnLiquidity.label} @ {entry.drawOnLiquidity.price.toFixed(2)}</li>}
                 </ul>
             </div>
             <div className="bg-gray-800/50 p-3 rounded border border-gray-700">
                 <div className="flex justify-between text-sm font-mono mb-1"><span className="text-green-500">Target (TP):</span><span>{entry.tp.toFixed(2)}</span></div>
                 <div className="flex justify-between text-sm font-mono"><span className="text-red-500">Stop (SL):</span><span>{entry.sl.toFixed(2)}</span></div>
-                <div className="mt-2 text-center text-xs text-gray-500">Risk/Reward Ratio: 1:2</div>
+                <div className="mt-2 text-center text-xs text-gray-500">Risk/Reward Ratio: 1:{(Math.abs(entry.tp - entry.price) / Math.abs(entry.price - entry.sl)).toFixed(1)}</div>
             </div>
             <div className="mt-4 text-center"><button onClick={onClose} className="bg-blue-600 hover:bg-blue-500 text-white px-6 py-2 rounded w-full font-bold transition-colors">ACKNOWLEDGE</button></div>
         </div>
     </div>
 );
 
-const TopSetupsModal = ({ entries, onClose }: { entries: EntrySignal[], onClose: () => void }) => {
-    const top3 = [...entries].sort((a, b) => b.score - a.score).slice(0, 3);
+// The latest setup of one market
+interface MarketSetup {
+    symbol: string;
+    timeframe: string;
+    signal: EntrySignal;
+}
+
+type ScanSortKey = 'symbol' | 'timeframe' | 'direction' | 'score' | 'po3' | 'age' | 'distance';
+
+const TopSetupsModal = ({ setups, onSelect, onClose }: { setups: MarketSetup[], onSelect: (setup: MarketSetup) => void, onClose: () => void }) => {
+    const top3 = [...setups].sort((a, b) => b.signal.score - a.signal.score || (b.signal.time as number) - (a.signal.time as number)).slice(0, 3);
     return (
         <div className="fixed inset-0 bg-black/80 z-[70] flex items-center justify-center p-4">
             <div className="bg-[#1e222d] border border-blue-500 rounded-lg shadow-2xl max-w-2xl w-full p-6">
                 <div className="flex justify-between items-center mb-6 border-b border-gray-700 pb-4"><h2 className="text-2xl font-bold text-white">⚡ TOP 3 POTENTIAL SETUPS</h2><button onClick={onClose} className="text-gray-400 hover:text-white text-xl">✕</button></div>
-                <div className="space-y-4">{top3.map((setup, i) => (<div key={i} className="bg-gray-800 rounded p-4 border-l-4 border-yellow-500 relative"><div className="absolute top-0 right-0 bg-yellow-500 text-black text-xs font-bold px-2 py-1 rounded-bl">#{i + 1} BEST</div><div className="flex justify-between items-start mb-3"><div><span className={`text-xl font-black ${setup.type === 'LONG' ? 'text-green-400' : 'text-red-400'}`}>{setup.type}</span><span className="ml-3 text-sm font-mono text-gray-400">@ {setup.price.toFixed(2)}</span></div><div className="text-right"><div className="text-xl font-bold text-blue-400">{setup.winProbability}% WIN PROB</div><div className="text-xs text-gray-500">{setup.tradingStyle}</div></div></div><div className="flex gap-4 text-xs font-mono bg-black/50 p-2 rounded"><span className="text-green-500">TP: {setup.tp.toFixed(2)}</span><span className="text-red-500">SL: {setup.sl.toFixed(2)}</span></div></div>))}</div>
+                {top3.length === 0 && <div className="text-gray-500 text-sm">No setups yet. Add markets to the WATCHLIST and scan them.</div>}
+                <div className="space-y-4">{top3.map(({ symbol, timeframe, signal: setup }, i) => (<div key={i} onClick={() => onSelect(top3[i])} className="bg-gray-800 hover:bg-gray-700 cursor-pointer rounded p-4 border-l-4 border-yellow-500 relative"><div className="absolute top-0 right-0 bg-yellow-500 text-black text-xs font-bold px-2 py-1 rounded-bl">#{i + 1} BEST</div><div className="text-xs font-bold text-gray-400 mb-1">{symbol} · {timeframe} · {new Date((setup.time as number) * 1000).toLocaleString()}</div><div className="flex justify-between items-start mb-3"><div><span className={`text-xl font-black ${setup.type === 'LONG' ? 'text-green-400' : 'text-red-400'}`}>{setup.type}</span><span className="ml-3 text-sm font-mono text-gray-400">@ {setup.price.toFixed(2)}</span></div><div className="text-right"><div className="text-xl font-bold text-blue-400">{setup.winProbability}% WIN PROB</div><div className="text-xs text-gray-500">Score {setup.score} · {setup.tradingStyle}</div></div></div><div className="flex gap-4 text-xs font-mono bg-black/50 p-2 rounded"><span className="text-green-500">TP: {setup.tp.toFixed(2)}</span><span className="text-red-500">SL: {setup.sl.toFixed(2)}</span></div></div>))}</div>
                 <div className="mt-6 text-center"><button onClick={onClose} className="bg-blue-600 hover:bg-blue-500 text-white px-6 py-2 rounded font-bold w-full">CLOSE ANALYSIS</button></div>
             </div>
         </div>
@@ -524,31 +194,92 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
     render() { if (this.state.hasError) return <div className="p-4 bg-red-900 text-white">Chart Crashed. <button onClick={() => window.location.reload()} className="underline">Reload</button></div>; return this.props.children; }
 }
 
+// An OB/FVG box the user clicked on, as drawn by drawCanvasOverlay
+interface ZoneClick {
+    kind: 'OB' | 'FVG';
+    label: string;
+    direction: 'Bullish' | 'Bearish';
+    priceHigh: number;
+    priceLow: number;
+}
+
+type OrderLineField = 'price' | 'stopLoss' | 'takeProfit';
+
 interface ChartProps {
     data: CandleData[];
+    liveCandle: CandleData | null;
+    symbolInfo: SymbolInfo | null;
     obs: OrderBlock[];
     fvgs: FVG[];
+    bprs: BalancedPriceRange[];
     structure: StructurePoint[];
+    liquidity: LiquidityPool[];
+    keyLevels: KeyLevel[];
+    sessions: SessionConfig;
     entries: EntrySignal[];
     overlays: any;
     colors: any;
     onHoverEntry: (entry: EntrySignal | null) => void;
     onClickEntry: (entry: EntrySignal | null) => void;
+    onClickTime?: (time: UTCTimestamp) => void;
+    onClickZone?: (zone: ZoneClick) => void;
+    onMoveOrder?: (id: string, field: OrderLineField, price: number) => boolean; // false if the move was rejected
     onToggleOverlay: () => void;
-    pdRange: { high: number, low: number } | null;
-    position: TradeEntry | null;
+    dealingRange: DealingRange | null;
+    positions: TradeEntry[];
+    orders: PendingOrder[];
     htfObs: OrderBlock[];
     htfFvgs: FVG[];
+    focus?: { time: UTCTimestamp } | null; // scroll to this candle, e.g. a signal picked in the watchlist
+    snapshotRef?: { current: (() => string | null) | null }; // set to a function returning the chart as an image
+    timeframe: string;
+    drawings: Drawing[];
+    onSaveDrawing?: (drawing: Drawing) => void;   // drawing tools are hidden without it
+    onDeleteDrawing?: (id: string) => void;
 }
 
-const ChartComponent: React.FC<ChartProps> = ({ data, obs, fvgs, structure, entries, overlays, colors, onHoverEntry, onClickEntry, onToggleOverlay, pdRange, position, htfObs, htfFvgs }) => {
+// One bar per candle shaded in the colour of the session it opens in
+const killzoneBar = (time: UTCTimestamp, show: boolean, sessions: SessionConfig) => {
+    const session = show ? sessionAt(time as number, sessions) : null;
+    return { time, value: session ? 1 : 0, color: session ? `${session.color}26` : 'transparent' };
+};
+
+const macroBar = (time: UTCTimestamp, show: boolean) => {
+    const m = new Date((time as number) * 1000).getUTCMinutes();
+    let value = 0; let color = 'transparent';
+
+    // Logic: 10 mins before hour (50-59) AND 10 mins after hour (0-10)
+    if (show && (m >= 50 || m <= 10)) {
+        value = 1;
+        color = 'rgba(255, 215, 0, 0.25)'; // Gold background
+    }
+    return { time, value, color };
+};
+
+const volumeBar = (c: CandleData) => ({ time: c.time, value: c.volume ?? 0, color: c.close >= c.open ? 'rgba(38, 166, 154, 0.5)' : 'rgba(239, 83, 80, 0.5)' });
+
+const ChartComponent: React.FC<ChartProps> = ({ data, liveCandle, symbolInfo, obs, fvgs, bprs, structure, liquidity, keyLevels, sessions, entries, overlays, colors, onHoverEntry, onClickEntry, onClickTime, onClickZone, onMoveOrder, onToggleOverlay, dealingRange, positions, orders, htfObs, htfFvgs, focus, snapshotRef, timeframe, drawings, onSaveDrawing, onDeleteDrawing }) => {
     const chartContainerRef = useRef<HTMLDivElement>(null);
     const chartRef = useRef<IChartApi | null>(null);
     const candleSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
     const sessionSeriesAsiaRef = useRef<ISeriesApi<'Histogram'> | null>(null);
     const macroSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null); // New Ref for Macro
+    const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null); // in its own pane under the price
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const activeTradeLinesRef = useRef<IPriceLine[]>([]);
+    const orderLinesRef = useRef<{ id: string, field: OrderLineField, line: IPriceLine }[]>([]);
+    const [tool, setTool] = useState<DrawingTool | null>(null);
+    const [snap, setSnap] = useState(true);
+    const [selectedDrawing, setSelectedDrawing] = useState<string | null>(null);
+    const draftRef = useRef<Drawing | null>(null);     // the drawing being created or dragged
+    const drawingPressRef = useRef(false);             // the last press went to a drawing, not the chart
+    // Chart subscriptions are made once on mount; they read the latest props through this ref
+    const handlersRef = useRef({ entries, onHoverEntry, onClickEntry, onClickTime, onClickZone, onMoveOrder, obs, fvgs, htfObs, htfFvgs, overlays, drawings, onSaveDrawing, onDeleteDrawing, tool, snap, selectedDrawing, symbol: symbolInfo?.symbol ?? '', timeframe });
+    handlersRef.current = { entries, onHoverEntry, onClickEntry, onClickTime, onClickZone, onMoveOrder, obs, fvgs, htfObs, htfFvgs, overlays, drawings, onSaveDrawing, onDeleteDrawing, tool, snap, selectedDrawing, symbol: symbolInfo?.symbol ?? '', timeframe };
+    // Closed candles plus the forming one, which drawings are anchored against
+    const barsRef = useRef<CandleData[]>(data);
+    barsRef.current = liveCandle && (!data.length || liveCandle.time > data[data.length - 1].time) ? [...data, liveCandle] : data;
+    const drawRef = useRef<() => void>(() => {});
 
     useEffect(() => {
         if (!chartContainerRef.current) return;
@@ -573,26 +304,275 @@ const ChartComponent: React.FC<ChartProps> = ({ data, obs, fvgs, structure, entr
 
         const handleResize = () => { if (chartContainerRef.current && chartRef.current) chartRef.current.applyOptions({ width: chartContainerRef.current.clientWidth, height: chartContainerRef.current.clientHeight }); };
         
-        chart.subscribeCrosshairMove((param) => { if (!param.time || !entries.length) { onHoverEntry(null); return; } const hoveredEntry = entries.find(e => Math.abs((e.time as number) - (param.time as number)) < 300); onHoverEntry(hoveredEntry || null); });
-        chart.subscribeClick((param) => { if (!param.time || !entries.length) { onClickEntry(null); return; } const clickedEntry = entries.find(e => e.time === param.time); if (clickedEntry) onClickEntry(clickedEntry); });
-        chart.timeScale().subscribeVisibleTimeRangeChange(() => requestAnimationFrame(drawCanvasOverlay));
+        chart.subscribeCrosshairMove((param) => { const { entries, onHoverEntry } = handlersRef.current; if (!param.time || !entries.length) { onHoverEntry(null); return; } const hoveredEntry = entries.find(e => Math.abs((e.time as number) - (param.time as number)) < 300); onHoverEntry(hoveredEntry || null); });
+        chart.subscribeClick((param) => {
+            const { entries, onClickEntry, onClickTime, onClickZone, tool } = handlersRef.current;
+            if (tool || drawingPressRef.current) return;
+            if (param.time && onClickTime) { onClickTime(param.time as UTCTimestamp); return; }
+            const clickedEntry = param.time ? entries.find(e => e.time === param.time) : undefined;
+            if (clickedEntry) { onClickEntry(clickedEntry); return; }
+            const zone = param.point && onClickZone ? findZoneAt(param.point.x, param.point.y) : null;
+            if (zone) { onClickZone!(zone); return; }
+            onClickEntry(null);
+        });
+        chart.timeScale().subscribeVisibleLogicalRangeChange(() => requestAnimationFrame(() => drawRef.current()));
         window.addEventListener('resize', handleResize);
-        return () => { window.removeEventListener('resize', handleResize); if (chartRef.current) chartRef.current.remove(); chartRef.current = null; candleSeriesRef.current = null; sessionSeriesAsiaRef.current = null; macroSeriesRef.current = null; };
+        return () => { window.removeEventListener('resize', handleResize); if (chartRef.current) chartRef.current.remove(); chartRef.current = null; candleSeriesRef.current = null; sessionSeriesAsiaRef.current = null; macroSeriesRef.current = null; volumeSeriesRef.current = null; };
+    }, []);
+
+    // Hit-tests the zones the overlay currently draws, nearest (smallest) box first
+    const findZoneAt = (x: number, y: number): ZoneClick | null => {
+        const chart = chartRef.current; const series = candleSeriesRef.current;
+        if (!chart || !series) return null;
+        const price = series.coordinateToPrice(y);
+        if (price === null) return null;
+        const { obs, fvgs, htfObs, htfFvgs, overlays } = handlersRef.current;
+        const candidates: (ZoneClick & { time: Time })[] = [
+            ...(overlays.obs ? obs.filter(o => !o.mitigated).map(o => ({ kind: 'OB' as const, label: `${o.direction} ${OB_LABELS[o.subtype]}`, direction: o.direction, priceHigh: o.priceHigh, priceLow: o.priceLow, time: o.time })) : []),
+            ...(overlays.mtf && overlays.obs ? htfObs.filter(o => !o.mitigated).map(o => ({ kind: 'OB' as const, label: `${o.timeframe ?? 'HTF'} ${o.direction} OB`, direction: o.direction, priceHigh: o.priceHigh, priceLow: o.priceLow, time: o.time })) : []),
+            ...(overlays.fvgs ? fvgs.map(f => ({ kind: 'FVG' as const, label: `${f.direction} ${f.inversionTime !== undefined ? 'IFVG' : 'FVG'}`, direction: f.direction, priceHigh: f.priceHigh, priceLow: f.priceLow, time: f.time })) : []),
+            ...(overlays.mtf && overlays.fvgs ? htfFvgs.map(f => ({ kind: 'FVG' as const, label: `${f.timeframe ?? 'HTF'} ${f.direction} FVG`, direction: f.direction, priceHigh: f.priceHigh, priceLow: f.priceLow, time: f.time })) : [])
+        ];
+        const hits = candidates.filter(z => {
+            const x1 = chart.timeScale().timeToCoordinate(z.time);
+            return x1 !== null && x >= x1 && price >= z.priceLow && price <= z.priceHigh;
+        });
+        if (hits.length === 0) return null;
+        const { time, ...zone } = hits.reduce((a, b) => (b.priceHigh - b.priceLow) < (a.priceHigh - a.priceLow) ? b : a);
+        return zone;
+    };
+
+    // Pending order lines can be dragged vertically. The chart listens to mousedown
+    // itself, so a press on a line is intercepted in the capture phase to stop it panning.
+    useEffect(() => {
+        const container = chartContainerRef.current;
+        if (!container) return;
+        let drag: { id: string, field: OrderLineField, line: IPriceLine, price: number, from: number } | null = null;
+        const localY = (e: MouseEvent) => e.clientY - container.getBoundingClientRect().top;
+        const hit = (y: number) => {
+            const series = candleSeriesRef.current;
+            if (!series) return null;
+            return orderLinesRef.current.find(l => {
+                const ly = series.priceToCoordinate(l.line.options().price);
+                return ly !== null && Math.abs(ly - y) <= 4;
+            }) ?? null;
+        };
+        const onDown = (e: MouseEvent) => {
+            const h = hit(localY(e));
+            if (!h || !handlersRef.current.onMoveOrder) return;
+            e.preventDefault(); e.stopPropagation();
+            drag = { ...h, price: h.line.options().price, from: h.line.options().price };
+        };
+        const onMove = (e: MouseEvent) => {
+            const series = candleSeriesRef.current;
+            if (!series) return;
+            if (!drag) { container.style.cursor = hit(localY(e)) ? 'ns-resize' : ''; return; }
+            const price = series.coordinateToPrice(localY(e));
+            if (price === null) return;
+            drag.price = price;
+            drag.line.applyOptions({ price });
+        };
+        const onUp = () => {
+            if (!drag) return;
+            const { id, field, line, price, from } = drag;
+            drag = null;
+            // A rejected move leaves the order as it was, and nothing redraws the line
+            if (handlersRef.current.onMoveOrder?.(id, field, price) === false) line.applyOptions({ price: from });
+        };
+        container.addEventListener('mousedown', onDown, true);
+        container.addEventListener('mousemove', onMove);
+        window.addEventListener('mousemove', onMove);
+        window.addEventListener('mouseup', onUp);
+        return () => { container.removeEventListener('mousedown', onDown, true); container.removeEventListener('mousemove', onMove); window.removeEventListener('mousemove', onMove); window.removeEventListener('mouseup', onUp); };
+    }, []);
+
+    // Drawing points to canvas pixels and back, through fractional bar indexes
+    const drawingStep = () => intervalToMs(handlersRef.current.timeframe) / 1000;
+    const projectPoint = (p: DrawingPoint) => {
+        const chart = chartRef.current; const series = candleSeriesRef.current;
+        const logical = timeToLogical(barsRef.current, p.time as number, drawingStep());
+        if (!chart || !series || logical === null) return null;
+        const x = chart.timeScale().logicalToCoordinate(logical as Logical); const y = series.priceToCoordinate(p.price);
+        return x === null || y === null ? null : { x, y };
+    };
+    const pointAt = (x: number, y: number, snap: boolean): { point: DrawingPoint, logical: number } | null => {
+        const chart = chartRef.current; const series = candleSeriesRef.current;
+        if (!chart || !series) return null;
+        const logical = chart.timeScale().coordinateToLogical(x); const price = series.coordinateToPrice(y);
+        if (logical === null || price === null) return null;
+        const snapped = snap ? snapToOhlc(barsRef.current, logical, price) : null;
+        if (snapped) return { point: snapped, logical };
+        const time = logicalToTime(barsRef.current, logical, drawingStep());
+        return time === null ? null : { point: { time: Math.round(time) as UTCTimestamp, price }, logical };
+    };
+
+    const TEXT_FONT = 'bold 12px Arial';
+
+    // The drawing under (x, y), topmost first. `handle` is the point grabbed
+    // when the press lands on an endpoint of the selected drawing.
+    const findDrawingAt = (x: number, y: number): { drawing: Drawing, handle: number | null } | null => {
+        const { drawings, selectedDrawing } = handlersRef.current;
+        const ctx = canvasRef.current?.getContext('2d');
+        for (const d of [...drawings].reverse()) {
+            const pts = d.points.map(projectPoint);
+            if (pts.some(p => p === null)) continue;
+            const [a, b] = pts as { x: number, y: number }[];
+            if (d.id === selectedDrawing && d.tool !== 'HLINE') {
+                const handle = pts.findIndex(p => Math.hypot(p!.x - x, p!.y - y) <= 6);
+                if (handle >= 0) return { drawing: d, handle };
+            }
+            const inBox = b && x >= Math.min(a.x, b.x) - 3 && x <= Math.max(a.x, b.x) + 3 && y >= Math.min(a.y, b.y) - 3 && y <= Math.max(a.y, b.y) + 3;
+            let hit = false;
+            switch (d.tool) {
+                case 'HLINE': hit = Math.abs(y - a.y) <= 5; break;
+                case 'TREND': hit = distanceToSegment(x, y, a.x, a.y, b.x, b.y) <= 5; break;
+                case 'RECT': case 'FIB': hit = inBox; break;
+                case 'TEXT': {
+                    if (ctx) ctx.font = TEXT_FONT;
+                    const width = ctx ? ctx.measureText(d.text ?? '').width : (d.text ?? '').length * 7;
+                    hit = x >= a.x - 2 && x <= a.x + width + 2 && y >= a.y - 14 && y <= a.y + 3;
+                }
+            }
+            if (hit) return { drawing: d, handle: null };
+        }
+        return null;
+    };
+
+    // Drawing tools. Like the order lines above, a press that starts or grabs a
+    // drawing is taken in the capture phase so the chart doesn't pan under it.
+    // Two-point tools are drawn by dragging; the tool is released afterwards.
+    useEffect(() => {
+        const container = chartContainerRef.current;
+        if (!container) return;
+        let edit: { drawing: Drawing, handle: number | null, from: { logical: number, price: number }, origin: DrawingPoint[], created: boolean } | null = null;
+        const local = (e: MouseEvent) => { const r = container.getBoundingClientRect(); return { x: e.clientX - r.left, y: e.clientY - r.top }; };
+        const redraw = () => requestAnimationFrame(() => drawRef.current());
+        const onDown = (e: MouseEvent) => {
+            drawingPressRef.current = false;
+            const { tool, snap, symbol, timeframe, onSaveDrawing } = handlersRef.current;
+            if (e.defaultPrevented || e.button !== 0 || !onSaveDrawing) return;
+            const { x, y } = local(e);
+            if (tool) {
+                const at = pointAt(x, y, snap);
+                if (!at) return;
+                e.preventDefault(); e.stopPropagation();
+                drawingPressRef.current = true;
+                const drawing: Drawing = { id: newDrawingId(), symbol, timeframe, tool, points: DRAWING_POINTS[tool] === 1 ? [at.point] : [at.point, at.point], color: DRAWING_COLORS[tool], createdAt: Date.now() };
+                if (DRAWING_POINTS[tool] === 1) {
+                    if (tool === 'TEXT') {
+                        const text = window.prompt('Note');
+                        if (!text?.trim()) return;
+                        drawing.text = text.trim();
+                    }
+                    onSaveDrawing(drawing);
+                    setSelectedDrawing(drawing.id);
+                    setTool(null);
+                    return;
+                }
+                edit = { drawing, handle: 1, from: { logical: at.logical, price: at.point.price }, origin: drawing.points, created: true };
+                draftRef.current = drawing;
+                return;
+            }
+            const hit = findDrawingAt(x, y);
+            setSelectedDrawing(hit?.drawing.id ?? null);
+            if (!hit) return;
+            const at = pointAt(x, y, false);
+            if (!at) return;
+            e.preventDefault(); e.stopPropagation();
+            drawingPressRef.current = true;
+            edit = { drawing: hit.drawing, handle: hit.handle, from: { logical: at.logical, price: at.point.price }, origin: hit.drawing.points, created: false };
+        };
+        const onMove = (e: MouseEvent) => {
+            const { x, y } = local(e);
+            if (!edit) {
+                if (!container.contains(e.target as Node)) return;
+                const { tool, onSaveDrawing } = handlersRef.current;
+                if (onSaveDrawing && (tool || findDrawingAt(x, y))) container.style.cursor = tool ? 'crosshair' : 'move';
+                return;
+            }
+            const { drawing, handle, from, origin } = edit;
+            let points: DrawingPoint[];
+            if (handle !== null) {
+                const at = pointAt(x, y, handlersRef.current.snap);
+                if (!at) return;
+                points = origin.map((p, i) => i === handle ? at.point : p);
+            } else {
+                // The whole drawing moves by the bars and price the pointer moved
+                const at = pointAt(x, y, false);
+                if (!at) return;
+                const step = drawingStep();
+                points = origin.map(p => {
+                    const logical = timeToLogical(barsRef.current, p.time as number, step);
+                    const time = logical === null ? null : logicalToTime(barsRef.current, logical + at.logical - from.logical, step);
+                    return { time: (time === null ? p.time : Math.round(time)) as UTCTimestamp, price: p.price + at.point.price - from.price };
+                });
+            }
+            edit.drawing = { ...drawing, points };
+            draftRef.current = edit.drawing;
+            redraw();
+        };
+        const onUp = () => {
+            if (!edit) return;
+            const { drawing, created, origin } = edit;
+            edit = null;
+            draftRef.current = null;
+            if (!created && drawing.points === origin) return;
+            const [a, b] = drawing.points.map(projectPoint);
+            // A press without a drag doesn't leave an empty two-point drawing behind
+            if (created && (!a || !b || Math.hypot(a.x - b.x, a.y - b.y) < 3)) { redraw(); return; }
+            handlersRef.current.onSaveDrawing?.(drawing);
+            if (created) { setTool(null); setSelectedDrawing(drawing.id); }
+        };
+        const onKey = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+            const { selectedDrawing, onDeleteDrawing } = handlersRef.current;
+            if (e.key === 'Escape') { setTool(null); setSelectedDrawing(null); }
+            else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedDrawing && onDeleteDrawing) { onDeleteDrawing(selectedDrawing); setSelectedDrawing(null); }
+        };
+        container.addEventListener('mousedown', onDown, true);
+        container.addEventListener('mousemove', onMove);
+        window.addEventListener('mousemove', onMove);
+        window.addEventListener('mouseup', onUp);
+        window.addEventListener('keydown', onKey);
+        return () => { container.removeEventListener('mousedown', onDown, true); container.removeEventListener('mousemove', onMove); window.removeEventListener('mousemove', onMove); window.removeEventListener('mouseup', onUp); window.removeEventListener('keydown', onKey); };
     }, []);
 
+    // Draw Pending Order Lines
+    useEffect(() => {
+        const series = candleSeriesRef.current;
+        if (!series) return;
+        orderLinesRef.current.forEach(l => series.removePriceLine(l.line));
+        orderLinesRef.current = [];
+        orders.forEach(o => {
+            const add = (field: OrderLineField, price: number, options: Partial<PriceLineOptions>) =>
+                orderLinesRef.current.push({ id: o.id, field, line: series.createPriceLine({ price, lineWidth: 1, lineStyle: 2, axisLabelVisible: true, ...options }) });
+            add('price', o.price, { color: '#FFB300', lineWidth: 2, lineStyle: 0, title: `${o.type} ${o.kind}${o.timeInForce === 'SESSION' ? ' (session)' : ''}` });
+            add('stopLoss', o.stopLoss, { color: '#FF1744', title: 'ORDER SL' });
+            if (o.takeProfit) add('takeProfit', o.takeProfit, { color: '#00E676', title: 'ORDER TP' });
+        });
+        return () => { if (candleSeriesRef.current) orderLinesRef.current.forEach(l => candleSeriesRef.current?.removePriceLine(l.line)); orderLinesRef.current = []; };
+    }, [orders]);
+
+    useEffect(() => {
+        if (!candleSeriesRef.current || !symbolInfo) return;
+        candleSeriesRef.current.applyOptions({ priceFormat: { type: 'price', precision: symbolInfo.pricePrecision, minMove: symbolInfo.tickSize } });
+    }, [symbolInfo]);
+
     // Draw Position Lines
     useEffect(() => {
         const series = candleSeriesRef.current;
         if (!series) return;
         activeTradeLinesRef.current.forEach(line => series.removePriceLine(line));
         activeTradeLinesRef.current = [];
-        if (position) {
-            activeTradeLinesRef.current.push(series.createPriceLine({ price: position.price, color: position.type === 'LONG' ? '#2962FF' : '#E040FB', lineWidth: 2, lineStyle: 0, axisLabelVisible: true, title: `${position.type} ENTRY` }));
-            if (position.stopLoss) activeTradeLinesRef.current.push(series.createPriceLine({ price: position.stopLoss, color: '#FF1744', lineWidth: 2, lineStyle: 2, axisLabelVisible: true, title: 'SL' }));
+        positions.forEach(position => {
+            activeTradeLinesRef.current.push(series.createPriceLine({ price: position.price, color: position.type === 'LONG' ? '#2962FF' : '#E040FB', lineWidth: 2, lineStyle: 0, axisLabelVisible: true, title: `${position.type} ${+position.quantity.toPrecision(4)}` }));
+            if (position.stopLoss) activeTradeLinesRef.current.push(series.createPriceLine({ price: position.stopLoss, color: '#FF1744', lineWidth: 2, lineStyle: 2, axisLabelVisible: true, title: position.stopLoss === position.price ? 'SL (BE)' : 'SL' }));
+            position.targets.filter(t => !t.filled).forEach(t => activeTradeLinesRef.current.push(series.createPriceLine({ price: t.price, color: '#00E676', lineWidth: 1, lineStyle: 3, axisLabelVisible: true, title: `TP ${(t.fraction * 100).toFixed(0)}%` })));
             if (position.takeProfit) activeTradeLinesRef.current.push(series.createPriceLine({ price: position.takeProfit, color: '#00E676', lineWidth: 2, lineStyle: 2, axisLabelVisible: true, title: 'TP' }));
-        }
+        });
         return () => { if (candleSeriesRef.current) activeTradeLinesRef.current.forEach(line => candleSeriesRef.current?.removePriceLine(line)); activeTradeLinesRef.current = []; }
-    }, [position]);
+    }, [positions]);
 
     const drawCanvasOverlay = useCallback(() => {
         const chart = chartRef.current; const canvas = canvasRef.current; const container = chartContainerRef.current; const series = candleSeriesRef.current; 
@@ -602,8 +582,8 @@ const ChartComponent: React.FC<ChartProps> = ({ data, obs, fvgs, structure, entr
         ctx.clearRect(0, 0, canvas.width, canvas.height);
         const timeScale = chart.timeScale();
 
-        if (overlays.pdZones && pdRange) {
-            const yHigh = series.priceToCoordinate(pdRange.high); const yLow = series.priceToCoordinate(pdRange.low); const yMid = series.priceToCoordinate((pdRange.high + pdRange.low) / 2);
+        if (overlays.pdZones && dealingRange) {
+            const yHigh = series.priceToCoordinate(dealingRange.high); const yLow = series.priceToCoordinate(dealingRange.low); const yMid = series.priceToCoordinate((dealingRange.high + dealingRange.low) / 2);
             if (yHigh && yLow && yMid) {
                 ctx.fillStyle = 'rgba(239, 83, 80, 0.1)'; ctx.fillRect(0, yHigh, canvas.width, yMid - yHigh);
                 ctx.fillStyle = 'rgba(239, 83, 80, 0.8)'; ctx.font = '10px sans-serif'; ctx.fillText('PREMIUM', canvas.width - 60, yHigh + 12);
@@ -613,6 +593,112 @@ const ChartComponent: React.FC<ChartProps> = ({ data, obs, fvgs, structure, entr
             }
         }
         
+        // Draw the dealing range fibs from the leg's start: OTE band, EQ and the extensions
+        if (overlays.ote && dealingRange) {
+            const start = Math.min(dealingRange.highTime as number, dealingRange.lowTime as number) as UTCTimestamp;
+            const x0 = Math.max(0, timeScale.timeToCoordinate(start) ?? 0);
+            const yOf = (level: number) => series.priceToCoordinate(rangeLevel(dealingRange, level));
+            const yTop = yOf(OTE_LEVELS[0]), yBottom = yOf(OTE_LEVELS[OTE_LEVELS.length - 1]);
+            if (yTop !== null && yBottom !== null) { ctx.fillStyle = 'rgba(255, 179, 0, 0.12)'; ctx.fillRect(x0, yTop, canvas.width - x0, yBottom - yTop); }
+            ctx.font = '9px Arial'; ctx.textAlign = 'right';
+            [0, 1, ...OTE_LEVELS, EQ_LEVEL, ...EXTENSION_LEVELS].forEach(level => {
+                const y = yOf(level); if (y === null) return;
+                const ote = OTE_LEVELS.includes(level);
+                ctx.strokeStyle = ote ? '#FFB300' : level < 0 ? '#26C6DA' : '#78909C';
+                ctx.lineWidth = 1; ctx.setLineDash(level === 0 || level === 1 ? [] : [4, 4]);
+                ctx.beginPath(); ctx.moveTo(x0, y); ctx.lineTo(canvas.width, y); ctx.stroke();
+                ctx.fillStyle = ctx.strokeStyle;
+                ctx.fillText(`${ote ? 'OTE ' : level === EQ_LEVEL ? 'EQ ' : ''}${level} (${rangeLevel(dealingRange, level).toFixed(symbolInfo?.pricePrecision ?? 2)})`, canvas.width - 70, y - 3);
+            });
+            ctx.setLineDash([]); ctx.textAlign = 'start';
+        }
+
+        // Volume profile of the visible candles or the current session at the right edge: value area brighter, POC in yellow
+        if (overlays.volumeProfile !== 'OFF' && data.length > 0) {
+            let from = 0, to = data.length - 1;
+            if (overlays.volumeProfile === 'SESSION') {
+                const id = sessionAt(data[to].time as number, sessions)?.id;
+                from = to;
+                while (from > 0 && sessionAt(data[from - 1].time as number, sessions)?.id === id) from--;
+            } else {
+                const range = timeScale.getVisibleLogicalRange();
+                if (range) { from = Math.max(0, Math.floor(range.from)); to = Math.min(data.length - 1, Math.ceil(range.to)); }
+            }
+            const profile = from <= to ? volumeProfile(data.slice(from, to + 1)) : null;
+            if (profile) {
+                const right = timeScale.width(); const maxWidth = right * 0.2;
+                const maxVolume = Math.max(...profile.rows.map(r => r.volume));
+                ctx.save(); ctx.beginPath(); ctx.rect(0, 0, right, chart.panes()[0].getHeight()); ctx.clip();
+                profile.rows.forEach(r => {
+                    const yTop = series.priceToCoordinate(r.priceHigh); const yBottom = series.priceToCoordinate(r.priceLow);
+                    if (yTop === null || yBottom === null || maxVolume <= 0) return;
+                    const width = r.volume / maxVolume * maxWidth;
+                    ctx.fillStyle = r.priceLow >= profile.valueAreaLow && r.priceHigh <= profile.valueAreaHigh ? 'rgba(66, 165, 245, 0.35)' : 'rgba(120, 144, 156, 0.2)';
+                    ctx.fillRect(right - width, yTop + 1, width, Math.max(1, yBottom - yTop - 1));
+                });
+                ctx.font = '9px Arial'; ctx.textAlign = 'right';
+                ([['POC', profile.poc, '#FFEB3B'], ['VAH', profile.valueAreaHigh, '#42A5F5'], ['VAL', profile.valueAreaLow, '#42A5F5']] as const).forEach(([label, price, color]) => {
+                    const y = series.priceToCoordinate(price); if (y === null) return;
+                    ctx.strokeStyle = color; ctx.fillStyle = color; ctx.lineWidth = 1; ctx.setLineDash(label === 'POC' ? [] : [3, 3]);
+                    ctx.beginPath(); ctx.moveTo(right - maxWidth, y); ctx.lineTo(right, y); ctx.stroke();
+                    ctx.fillText(label, right - maxWidth - 4, y + 3);
+                });
+                ctx.setLineDash([]); ctx.textAlign = 'start'; ctx.restore();
+            }
+        }
+
+        // Draw BOS / CHoCH: broken level from the swing to the breaking candle
+        structure.forEach(s => {
+            if ((s.type !== 'BOS' && s.type !== 'CHoCH') || !s.originTime) return;
+            if (s.level === 'Swing' ? !overlays.swingStructure : !overlays.internalStructure) return;
+            const x1 = timeScale.timeToCoordinate(s.originTime); const x2 = timeScale.timeToCoordinate(s.time); const y = series.priceToCoordinate(s.price);
+            if (x1 === null || x2 === null || y === null) return;
+            ctx.strokeStyle = s.type === 'BOS' ? '#2962FF' : '#E040FB';
+            ctx.lineWidth = s.level === 'Swing' ? 2 : 1;
+            ctx.setLineDash(s.level === 'Swing' ? [] : [4, 3]);
+            ctx.beginPath(); ctx.moveTo(x1, y); ctx.lineTo(x2, y); ctx.stroke();
+            ctx.fillStyle = ctx.strokeStyle; ctx.font = s.level === 'Swing' ? 'bold 10px Arial' : '9px Arial'; ctx.textAlign = 'center';
+            ctx.fillText(s.type, (x1 + x2) / 2, s.direction === 'Bullish' ? y - 4 : y + 11);
+            ctx.textAlign = 'start';
+        });
+
+        // Draw Liquidity Pools: resting ones run to the right edge, swept ones stop at the sweep
+        if (overlays.liquidity) {
+            liquidity.forEach(pool => {
+                const x1 = timeScale.timeToCoordinate(pool.time); const y = series.priceToCoordinate(pool.price);
+                const x2 = pool.sweptTime !== undefined ? timeScale.timeToCoordinate(pool.sweptTime) : canvas.width;
+                if (x1 === null || x2 === null || y === null) return;
+                const equal = pool.touches > 1;
+                ctx.strokeStyle = pool.type === 'BSL' ? '#FFA726' : '#AB47BC';
+                ctx.lineWidth = equal ? 2 : 1;
+                ctx.setLineDash(pool.sweptTime !== undefined ? [2, 3] : equal ? [] : [6, 4]);
+                ctx.beginPath(); ctx.moveTo(x1, y); ctx.lineTo(x2, y); ctx.stroke();
+                ctx.fillStyle = ctx.strokeStyle; ctx.font = equal ? 'bold 10px Arial' : '9px Arial';
+                const label = equal ? (pool.type === 'BSL' ? 'EQH' : 'EQL') : pool.type;
+                if (pool.sweptTime !== undefined) { ctx.textAlign = 'center'; ctx.fillText(`${label} ✕`, x2, pool.type === 'BSL' ? y - 4 : y + 11); ctx.textAlign = 'start'; }
+                else ctx.fillText(label, x1 + 4, pool.type === 'BSL' ? y - 4 : y + 11);
+            });
+        }
+
+        // Draw Key Levels: from the start of their period (or the chart's first candle) until taken
+        if (overlays.keyLevels && data.length > 0) {
+            const barAt = (t: number) => data.find(d => (d.time as number) >= t)?.time;
+            keyLevels.forEach(level => {
+                const start = barAt(level.time as number);
+                const x1 = start === undefined ? null : timeScale.timeToCoordinate(start); const y = series.priceToCoordinate(level.price);
+                const x2 = level.takenTime !== undefined ? timeScale.timeToCoordinate(level.takenTime) : canvas.width;
+                if (x1 === null || x2 === null || y === null) return;
+                const open = level.kind.endsWith('OPEN');
+                ctx.strokeStyle = open ? '#FFEB3B' : level.kind.startsWith('PM') ? '#F06292' : level.kind.startsWith('PW') ? '#4FC3F7' : '#B0BEC5';
+                ctx.lineWidth = level.kind.startsWith('PD') || open ? 1 : 2;
+                ctx.setLineDash(open ? [1, 3] : level.kind.endsWith('EQ') ? [6, 4] : []);
+                ctx.beginPath(); ctx.moveTo(x1, y); ctx.lineTo(x2, y); ctx.stroke();
+                ctx.fillStyle = ctx.strokeStyle; ctx.font = '9px Arial'; ctx.textAlign = 'right';
+                ctx.fillText(level.takenTime !== undefined ? `${level.label} ✕` : level.label, x2 - 4, y - 3);
+                ctx.textAlign = 'start';
+            });
+        }
+
         // Draw Current TF OBs
         if (overlays.obs) {
             obs.forEach(ob => {
@@ -621,10 +707,12 @@ const ChartComponent: React.FC<ChartProps> = ({ data, obs, fvgs, structure, entr
                 if (x1 === null || y1 === null || y2 === null) return;
                 const color = ob.direction === 'Bullish' ? colors.obBull : colors.obBear;
                 ctx.fillStyle = color + '66'; ctx.strokeStyle = color;
-                if (ob.subtype === 'Breaker') { ctx.setLineDash([4, 2]); ctx.lineWidth = 2; } else { ctx.setLineDash([]); ctx.lineWidth = 1; }
+                if (ob.subtype === 'Breaker' || ob.subtype === 'Mitigation') { ctx.setLineDash([4, 2]); ctx.lineWidth = 2; } else { ctx.setLineDash([]); ctx.lineWidth = ob.subtype === 'Swing' ? 2 : 1; }
                 const width = canvas.width - x1; const height = y2 - y1;
                 ctx.fillRect(x1, y1, width, height); ctx.strokeRect(x1, y1, width, height);
-                ctx.fillStyle = '#fff'; ctx.font = '10px Arial'; ctx.fillText(ob.subtype === 'Standard' ? 'OB' : 'Brkr', x1 + 5, y1 - 5);
+                // Mean threshold (50%)
+                ctx.setLineDash([1, 3]); ctx.lineWidth = 1; ctx.beginPath(); ctx.moveTo(x1, y1 + height / 2); ctx.lineTo(canvas.width, y1 + height / 2); ctx.stroke();
+                ctx.fillStyle = '#fff'; ctx.font = '10px Arial'; ctx.fillText({ Standard: 'OB', Swing: 'Swing OB', Breaker: 'Brkr', Mitigation: 'MB' }[ob.subtype] + (ob.relativeVolume !== undefined ? ` ${ob.relativeVolume.toFixed(1)}x vol` : ''), x1 + 5, y1 - 5);
             });
         }
         
@@ -639,17 +727,41 @@ const ChartComponent: React.FC<ChartProps> = ({ data, obs, fvgs, structure, entr
                 ctx.setLineDash([]); ctx.lineWidth = 3;
                 const width = canvas.width - x1; const height = y2 - y1;
                 ctx.strokeRect(x1, y1, width, height);
-                ctx.fillStyle = '#fff'; ctx.font = 'bold 11px Arial'; ctx.fillText(`HTF OB`, x1 + 5, y1 + 12);
+                ctx.fillStyle = '#fff'; ctx.font = 'bold 11px Arial'; ctx.fillText(`${ob.timeframe ?? 'HTF'} OB`, x1 + 5, y1 + 12);
             });
         }
 
-        // Draw Current TF FVGs
+        // Draw Current TF FVGs: outline of the full gap, the unfilled part shaded, CE dashed.
+        // Inversion FVGs are shaded whole with a dashed border.
         if (overlays.fvgs) {
             fvgs.forEach(fvg => {
                  const x1 = timeScale.timeToCoordinate(fvg.time); const y1 = series.priceToCoordinate(fvg.priceHigh); const y2 = series.priceToCoordinate(fvg.priceLow);
-                 if (x1 === null || y1 === null || y2 === null) return;
+                 const yCe = series.priceToCoordinate((fvg.priceHigh + fvg.priceLow) / 2);
+                 if (x1 === null || y1 === null || y2 === null || yCe === null) return;
                  const color = fvg.direction === 'Bullish' ? colors.fvgBull : colors.fvgBear;
-                 ctx.fillStyle = color + '40'; ctx.setLineDash([]); ctx.fillRect(x1, y1, canvas.width - x1, y2 - y1);
+                 const width = canvas.width - x1;
+                 if (fvg.inversionTime !== undefined) {
+                     ctx.fillStyle = color + '40'; ctx.fillRect(x1, y1, width, y2 - y1);
+                     ctx.strokeStyle = color; ctx.lineWidth = 1; ctx.setLineDash([4, 3]); ctx.strokeRect(x1, y1, width, y2 - y1);
+                     ctx.fillStyle = '#fff'; ctx.font = '10px Arial'; ctx.fillText('IFVG', x1 + 5, y1 - 3);
+                 } else {
+                     // Bullish gaps fill from the top down, bearish from the bottom up
+                     const filled = (y2 - y1) * fvg.fillPercent / 100;
+                     ctx.strokeStyle = color + '80'; ctx.lineWidth = 1; ctx.setLineDash([]); ctx.strokeRect(x1, y1, width, y2 - y1);
+                     ctx.fillStyle = color + '40';
+                     if (fvg.direction === 'Bullish') ctx.fillRect(x1, y1 + filled, width, y2 - y1 - filled); else ctx.fillRect(x1, y1, width, y2 - y1 - filled);
+                     if (fvg.fillState !== 'UNTOUCHED') { ctx.fillStyle = color; ctx.font = '9px Arial'; ctx.fillText(`${fvg.fillPercent.toFixed(0)}%`, x1 + 5, fvg.direction === 'Bullish' ? y2 - 3 : y1 + 10); }
+                 }
+                 ctx.strokeStyle = color; ctx.lineWidth = 1; ctx.setLineDash([2, 3]);
+                 ctx.beginPath(); ctx.moveTo(x1, yCe); ctx.lineTo(canvas.width, yCe); ctx.stroke();
+            });
+
+            bprs.forEach(bpr => {
+                 const x1 = timeScale.timeToCoordinate(bpr.time); const y1 = series.priceToCoordinate(bpr.priceHigh); const y2 = series.priceToCoordinate(bpr.priceLow);
+                 if (x1 === null || y1 === null || y2 === null) return;
+                 ctx.fillStyle = 'rgba(255, 215, 0, 0.15)'; ctx.fillRect(x1, y1, canvas.width - x1, y2 - y1);
+                 ctx.strokeStyle = '#FFD700'; ctx.lineWidth = 1; ctx.setLineDash([]); ctx.strokeRect(x1, y1, canvas.width - x1, y2 - y1);
+                 ctx.fillStyle = '#FFD700'; ctx.font = '10px Arial'; ctx.fillText(`BPR ${bpr.direction === 'Bullish' ? '▲' : '▼'}`, x1 + 5, y2 + 11);
             });
         }
         
@@ -661,20 +773,64 @@ const ChartComponent: React.FC<ChartProps> = ({ data, obs, fvgs, structure, entr
                  const color = fvg.direction === 'Bullish' ? colors.fvgBull : colors.fvgBear;
                  ctx.strokeStyle = color; ctx.lineWidth = 2; ctx.setLineDash([2, 2]);
                  ctx.strokeRect(x1, y1, canvas.width - x1, y2 - y1);
-                 ctx.fillStyle = '#fff'; ctx.font = 'bold 11px Arial'; ctx.fillText(`HTF FVG`, x1 + 5, y1 - 2);
+                 ctx.fillStyle = '#fff'; ctx.font = 'bold 11px Arial'; ctx.fillText(`${fvg.timeframe ?? 'HTF'} FVG`, x1 + 5, y1 - 2);
             });
         }
-    }, [obs, fvgs, htfObs, htfFvgs, overlays, colors, pdRange]);
+
+        // Hand-drawn markup on top, the one being edited in its current state
+        const draft = draftRef.current;
+        (draft ? [...drawings.filter(d => d.id !== draft.id), draft] : drawings).forEach(d => {
+            const pts = d.points.map(projectPoint);
+            if (pts.some(p => p === null)) return;
+            const [a, b] = pts as { x: number, y: number }[];
+            ctx.strokeStyle = d.color; ctx.fillStyle = d.color; ctx.lineWidth = 1.5; ctx.setLineDash([]);
+            switch (d.tool) {
+                case 'HLINE':
+                    ctx.beginPath(); ctx.moveTo(0, a.y); ctx.lineTo(canvas.width, a.y); ctx.stroke();
+                    ctx.font = '10px Arial'; ctx.fillText(d.points[0].price.toFixed(symbolInfo?.pricePrecision ?? 2), 4, a.y - 3);
+                    break;
+                case 'TREND':
+                    ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y); ctx.stroke();
+                    break;
+                case 'RECT':
+                    ctx.fillStyle = `${d.color}22`; ctx.fillRect(a.x, a.y, b.x - a.x, b.y - a.y);
+                    ctx.strokeRect(a.x, a.y, b.x - a.x, b.y - a.y);
+                    break;
+                case 'FIB': {
+                    const left = Math.min(a.x, b.x), right = Math.max(a.x, b.x);
+                    ctx.setLineDash([4, 3]); ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y); ctx.stroke(); ctx.setLineDash([]);
+                    ctx.font = '10px Arial';
+                    FIB_LEVELS.forEach(level => {
+                        const price = fibPrice(d, level);
+                        const y = candleSeriesRef.current!.priceToCoordinate(price);
+                        if (y === null) return;
+                        ctx.globalAlpha = level === 0 || level === 1 ? 1 : 0.7;
+                        ctx.beginPath(); ctx.moveTo(left, y); ctx.lineTo(right, y); ctx.stroke();
+                        ctx.fillText(`${level} (${price.toFixed(symbolInfo?.pricePrecision ?? 2)})`, left + 2, y - 2);
+                    });
+                    ctx.globalAlpha = 1;
+                    break;
+                }
+                case 'TEXT':
+                    ctx.font = 'bold 12px Arial'; ctx.fillText(d.text ?? '', a.x, a.y);
+                    break;
+            }
+            if (d.id === selectedDrawing || d === draft) {
+                ctx.fillStyle = '#131722'; ctx.strokeStyle = '#fff'; ctx.lineWidth = 1;
+                pts.forEach(p => { ctx.fillRect(p!.x - 4, p!.y - 4, 8, 8); ctx.strokeRect(p!.x - 4, p!.y - 4, 8, 8); });
+            }
+        });
+    }, [data, obs, fvgs, bprs, structure, liquidity, keyLevels, htfObs, htfFvgs, overlays, colors, dealingRange, drawings, selectedDrawing, symbolInfo, sessions]);
+    drawRef.current = drawCanvasOverlay;
 
     useEffect(() => { requestAnimationFrame(drawCanvasOverlay); }, [drawCanvasOverlay]);
 
     useEffect(() => {
         if (!candleSeriesRef.current || data.length === 0) return;
+        const entryAt = new Map<number, EntrySignal>(entries.map((e: EntrySignal) => [e.time as number, e]));
         const coloredData = data.map(d => {
-            const isEntry = entries.find(e => e.time === d.time);
-            const date = new Date((d.time as number) * 1000);
-            const h = date.getUTCHours();
-            const isSB = (h === 14 || h === 9 || h === 3);
+            const isEntry = entryAt.get(d.time as number);
+            const isSB = isSilverBulletAt(d.time as number, sessions);
             let color = undefined; let wickColor = undefined; let borderColor = undefined;
             if (isEntry && isEntry.score >= 7) { color = '#FFFF00'; borderColor = '#FFFF00'; wickColor = '#FFFF00'; } 
             else if (isSB && overlays.silverBullet) { borderColor = '#FFD700'; }
@@ -684,8 +840,8 @@ const ChartComponent: React.FC<ChartProps> = ({ data, obs, fvgs, structure, entr
 
         const markers: SeriesMarker<Time>[] = [];
         structure.forEach(s => {
+            if (['BOS','CHoCH'].includes(s.type)) return; // drawn as lines on the canvas overlay
             if (['HH','HL','LH','LL'].includes(s.type) && !overlays.swingStructure) return;
-            if (['BOS','CHoCH'].includes(s.type) && !overlays.internalStructure) return;
             markers.push({ time: s.time, position: s.direction === 'Bullish' ? 'belowBar' : 'aboveBar', color: s.type.includes('BOS') ? '#2962FF' : (s.type.includes('CHoCH') ? '#E040FB' : '#FFFFFF'), shape: 'none', text: s.type, size: 0 } as any); 
         });
         entries.forEach(e => {
@@ -693,7 +849,7 @@ const ChartComponent: React.FC<ChartProps> = ({ data, obs, fvgs, structure, entr
                 let markerText = e.type;
                 let markerShape = e.type === 'LONG' ? 'arrowUp' : 'arrowDown';
                 if (overlays.backtestMarkers && e.backtestResult) {
-                     markerText = e.backtestResult === 'WIN' ? `✅ +$${e.backtestPnL}` : `❌ -$${Math.abs(e.backtestPnL||0)}`;
+                     markerText = e.backtestResult === 'WIN' ? `✅ +$${(e.backtestPnL || 0).toFixed(0)}` : `❌ -$${Math.abs(e.backtestPnL || 0).toFixed(0)}`;
                      markerShape = e.backtestResult === 'WIN' ? 'arrowUp' : 'arrowDown'; 
                 } else if (e.score >= 7) {
                     markerText = '💎';
@@ -710,44 +866,80 @@ const ChartComponent: React.FC<ChartProps> = ({ data, obs, fvgs, structure, entr
         if (candleSeriesRef.current) { try { (candleSeriesRef.current as any).setMarkers(markers); } catch (e) { console.warn("setMarkers failed:", e); } }
         
         // Update Session Killzones
-        if (sessionSeriesAsiaRef.current) {
-            const sessionData = data.map(d => {
-                const h = new Date((d.time as number) * 1000).getUTCHours();
-                let value = 0; let color = 'transparent';
-                if (overlays.killzones) {
-                    if (h >= 0 && h < 8) { value = 1; color = 'rgba(255, 165, 0, 0.15)'; }
-                    if (h >= 7 && h < 16) { value = 1; color = 'rgba(41, 98, 255, 0.15)'; }
-                    if (h >= 12 && h < 21) { value = 1; color = 'rgba(0, 230, 118, 0.15)'; }
-                }
-                return { time: d.time, value, color };
-            });
-            sessionSeriesAsiaRef.current.setData(sessionData);
-        }
+        if (sessionSeriesAsiaRef.current) sessionSeriesAsiaRef.current.setData(data.map(d => killzoneBar(d.time, overlays.killzones, sessions)));
 
         // Update Macro Times
-        if (macroSeriesRef.current) {
-            const macroData = data.map(d => {
-                const date = new Date((d.time as number) * 1000);
-                const m = date.getUTCMinutes();
-                let value = 0; let color = 'transparent';
-                
-                // Logic: 10 mins before hour (50-59) AND 10 mins after hour (0-10)
-                if (overlays.macro && (m >= 50 || m <= 10)) {
-                    value = 1;
-                    color = 'rgba(255, 215, 0, 0.25)'; // Gold background
-                }
-                return { time: d.time, value, color };
-            });
-            macroSeriesRef.current.setData(macroData);
-        }
+        if (macroSeriesRef.current) macroSeriesRef.current.setData(data.map(d => macroBar(d.time, overlays.macro)));
 
         requestAnimationFrame(drawCanvasOverlay);
-    }, [data, obs, fvgs, structure, entries, overlays, colors, drawCanvasOverlay]);
+    }, [data, obs, fvgs, structure, entries, overlays, colors, sessions, drawCanvasOverlay]);
+
+    // Volume histogram in a pane of its own, removed with the pane when hidden or the source has no volume
+    useEffect(() => {
+        const chart = chartRef.current;
+        if (!chart) return;
+        if (!overlays.volume || !hasVolume(data)) {
+            if (volumeSeriesRef.current) { chart.removeSeries(volumeSeriesRef.current); volumeSeriesRef.current = null; }
+            if (chart.panes().length > 1 && chart.panes()[1].getSeries().length === 0) chart.removePane(1);
+        } else {
+            if (!volumeSeriesRef.current) {
+                volumeSeriesRef.current = chart.addSeries(HistogramSeries, { priceFormat: { type: 'volume' }, priceLineVisible: false, lastValueVisible: false }, 1);
+                chart.panes()[1]?.setStretchFactor(0.25);
+            }
+            volumeSeriesRef.current.setData(data.map(volumeBar));
+        }
+        requestAnimationFrame(() => drawRef.current());
+    }, [data, overlays.volume]);
+
+    // Stream the forming candle in place on top of the closed history
+    useEffect(() => {
+        const last = data[data.length - 1];
+        if (!candleSeriesRef.current || !liveCandle || (last && liveCandle.time < last.time)) return;
+        candleSeriesRef.current.update(liveCandle);
+        sessionSeriesAsiaRef.current?.update(killzoneBar(liveCandle.time, overlays.killzones, sessions));
+        macroSeriesRef.current?.update(macroBar(liveCandle.time, overlays.macro));
+        if (liveCandle.volume !== undefined) volumeSeriesRef.current?.update(volumeBar(liveCandle));
+    }, [liveCandle, data, overlays, sessions]);
+
+    // The chart with the zone overlay drawn over it, as a JPEG data URL
+    useEffect(() => {
+        if (!snapshotRef) return;
+        snapshotRef.current = () => {
+            const chart = chartRef.current; const overlay = canvasRef.current;
+            if (!chart) return null;
+            const shot = chart.takeScreenshot();
+            const ctx = shot.getContext('2d');
+            if (ctx && overlay && overlay.width > 0) ctx.drawImage(overlay, 0, 0, shot.width, shot.height);
+            return shot.toDataURL('image/jpeg', 0.85);
+        };
+        return () => { snapshotRef.current = null; };
+    }, []);
+
+    // Puts the focused candle about two thirds across, keeping the zoom level
+    useEffect(() => {
+        const chart = chartRef.current;
+        if (!chart || !focus) return;
+        const index = data.findIndex(c => c.time >= focus.time);
+        if (index < 0) return;
+        const range = chart.timeScale().getVisibleLogicalRange();
+        const width = range ? range.to - range.from : 100;
+        chart.timeScale().setVisibleLogicalRange({ from: index - width * 0.67, to: index + width * 0.33 });
+    }, [focus]);
 
     return (
         <div className="relative w-full h-full">
             <div ref={chartContainerRef} className="w-full h-full" />
             <canvas ref={canvasRef} className="absolute top-0 left-0 pointer-events-none z-10" />
+            {onSaveDrawing && (
+                <div className="absolute top-4 left-4 z-20 flex flex-col gap-1">
+                    <button onClick={() => setTool(null)} title="Select / move (Esc)" className={`w-8 h-8 rounded text-sm border border-gray-600 ${tool === null ? 'bg-blue-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}`}>↖</button>
+                    {DRAWING_TOOLS.map(t => (
+                        <button key={t.tool} onClick={() => setTool(tool === t.tool ? null : t.tool)} title={t.title} className={`w-8 h-8 rounded text-sm border border-gray-600 ${tool === t.tool ? 'bg-blue-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}`}>{t.icon}</button>
+                    ))}
+                    <button onClick={() => setSnap(!snap)} title="Snap to candle OHLC" className={`w-8 h-8 rounded text-sm border border-gray-600 ${snap ? 'bg-yellow-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-500'}`}>🧲</button>
+                    <button onClick={() => { if (selectedDrawing) { onDeleteDrawing?.(selectedDrawing); setSelectedDrawing(null); } }} disabled={!selectedDrawing} title="Delete the selected drawing (Del)" className="w-8 h-8 rounded text-sm border border-gray-600 bg-gray-800 hover:bg-gray-700 disabled:opacity-40">🗑</button>
+                </div>
+            )}
             <button onClick={onToggleOverlay} className="absolute top-4 right-16 z-20 bg-gray-800 p-2 rounded hover:bg-gray-700 text-xs text-white border border-gray-600 transition-colors">{overlays.killzones ? 'HIDE SESSIONS' : 'SHOW SESSIONS'}</button>
         </div>
     );
@@ -757,16 +949,30 @@ const ChartComponent: React.FC<ChartProps> = ({ data, obs, fvgs, structure, entr
 
 const App = () => {
     const [data, setData] = useState<CandleData[]>([]);
+    const [liveCandle, setLiveCandle] = useState<CandleData | null>(null);
+    const [streamStatus, setStreamStatus] = useState<StreamStatus>('CONNECTING');
+    const providers = useMemo(() => ({ binance: new BinanceProvider(), file: new FileProvider(), synthetic: new SyntheticProvider() }), []);
+    const [providerId, setProviderId] = useState<ProviderId>('binance');
+    const provider: MarketDataProvider = providers[providerId];
+    const [symbols, setSymbols] = useState<SymbolInfo[]>([]);
+    const [symbolInfo, setSymbolInfo] = useState<SymbolInfo | null>(null);
+    const candlesRef = useRef<CandleData[]>([]);
+    const stackCandlesRef = useRef(new Map<string, CandleData[]>()); // the other levels of the timeframe stack
+    const dailyCandlesRef = useRef<CandleData[]>([]); // for the previous day/week/month levels before the first chart candle
     const [obs, setObs] = useState<OrderBlock[]>([]);
     const [fvgs, setFvgs] = useState<FVG[]>([]);
     const [structure, setStructure] = useState<StructurePoint[]>([]);
+    const [liquidity, setLiquidity] = useState<LiquidityPool[]>([]);
+    const [bprs, setBprs] = useState<BalancedPriceRange[]>([]);
+    const [keyLevels, setKeyLevels] = useState<KeyLevel[]>([]);
     const [entries, setEntries] = useState<EntrySignal[]>([]);
     
     // MTF State
     const [htfObs, setHtfObs] = useState<OrderBlock[]>([]);
     const [htfFvgs, setHtfFvgs] = useState<FVG[]>([]);
+    const [stackBias, setStackBias] = useState<{ [timeframe: string]: TimeframeBias }>({});
 
-    const [pdRange, setPdRange] = useState<{high: number, low: number} | null>(null);
+    const [dealingRange, setDealingRange] = useState<DealingRange | null>(null);
     const [backtestStats, setBacktestStats] = useState<BacktestStats | null>(null);
     
     const [activeTab, setActiveTab] = useState('SCANNER');
@@ -777,138 +983,1042 @@ const App = () => {
     const [clickedEntry, setClickedEntry] = useState<EntrySignal | null>(null);
     
     const [overlays, setOverlays] = useState({
-        obs: true, fvgs: true, killzones: true, silverBullet: true, pdZones: true,
-        internalStructure: true, swingStructure: true, mtf: true, backtestMarkers: false,
+        obs: true, fvgs: true, killzones: true, silverBullet: true, pdZones: true, ote: true, volume: true, volumeProfile: 'VISIBLE',
+        internalStructure: true, swingStructure: true, mtf: true, backtestMarkers: false, liquidity: true, keyLevels: true,
         macro: true // New Macro Toggle
     });
     
+    const [execution, setExecution] = useState<ExecutionConfig>(DEFAULT_EXECUTION);
+    const [optSpace, setOptSpace] = useState<ParamRange[]>(DEFAULT_OPT_SPACE);
+    const [optSettings, setOptSettings] = useState({ method: 'RANDOM' as OptimizerOptions['method'], samples: 100, objective: 'netPnL' as Objective, minTrades: 10, inSampleRatio: 0.7, folds: 4 });
+    const [optReport, setOptReport] = useState<OptimizerReport | null>(null);
+    const [optProgress, setOptProgress] = useState<{ done: number, total: number } | null>(null);
+    const optAbortRef = useRef<AbortController | null>(null);
+    const ltfBarsRef = useRef(new Map<number, CandleData[]>());
+    const analysisIdRef = useRef(0);
     const [colors, setColors] = useState({ obBull: '#00E676', obBear: '#FF1744', fvgBull: '#00BCD4', fvgBear: '#2962FF' });
-    const [config, setConfig] = useState({ swingLength: 5, obThreshold: 1.2, fvgExtend: 10 });
+    const [config, setConfig] = useState<DetectorConfig>(DEFAULT_CONFIG);
+    const [tzInput, setTzInput] = useState(DEFAULT_CONFIG.sessions.timezone);
+    const [strategies, setStrategies] = useState<Strategy[]>([]);
+    const [strategyDraft, setStrategyDraft] = useState('');
+    const [strategyError, setStrategyError] = useState<string | null>(null);
+    const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+    const alertRulesRef = useRef<AlertRule[]>([]); // read while analysing, ahead of the next render
+    const [alertHistory, setAlertHistory] = useState<AlertEvent[]>([]);
+    const [alertSettings, setAlertSettings] = useState<AlertSettings>(DEFAULT_ALERT_SETTINGS);
+    const [ruleDraft, setRuleDraft] = useState<AlertRule | null>(null);
+    const [notifyPermission, setNotifyPermission] = useState(() => notificationsSupported() ? Notification.permission : null);
+    const alertsLoadedRef = useRef(false);
+    const [watchlist, setWatchlist] = useState<WatchlistSettings>(DEFAULT_WATCHLIST);
+    const [watchInput, setWatchInput] = useState({ symbol: '', timeframe: '15m' });
+    const [scanResults, setScanResults] = useState<{ [key: string]: ScanResult }>({});
+    const [scanProgress, setScanProgress] = useState<{ done: number, total: number } | null>(null);
+    const [scanSort, setScanSort] = useState<{ key: ScanSortKey, desc: boolean }>({ key: 'score', desc: true });
+    const scanAbortRef = useRef<AbortController | null>(null);
+    const scanFocusRef = useRef<{ symbol: string, timeframe: string, time: UTCTimestamp } | null>(null); // applied once that market has loaded
+    const [chartFocus, setChartFocus] = useState<{ time: UTCTimestamp } | null>(null);
+    const [journal, setJournal] = useState<JournalEntry[]>([]);
+    const journalRef = useRef<JournalEntry[]>([]);
+    journalRef.current = journal;
+    const [journalFilter, setJournalFilter] = useState<JournalFilter>(DEFAULT_JOURNAL_FILTER);
+    const [journalId, setJournalId] = useState<string | null>(null); // entry open in the JOURNAL tab
+    const [tagInput, setTagInput] = useState('');
+    const snapshotRef = useRef<(() => string | null) | null>(null);
+    const [drawings, setDrawings] = useState<Drawing[]>([]);
+    const updateSessions = (patch: Partial<SessionConfig>) => setConfig(prev => ({ ...prev, sessions: { ...prev.sessions, ...patch } }));
     
-    const [balance, setBalance] = useState(100000);
-    const [position, setPosition] = useState<TradeEntry | null>(null);
-    const [tradeHistory, setTradeHistory] = useState<TradeEntry[]>([]);
+    const [paper, setPaper] = useState<BrokerState>({ balance: DEFAULT_STARTING_BALANCE, positions: [], orders: [], tradeHistory: [] });
+    const [orderSettings, setOrderSettings] = useState({ sizing: { mode: 'RISK_PERCENT', value: 1 } as Sizing, partialR: 1, partialPct: 50, breakevenAtR: 1, trailR: 0 });
+    const [accounts, setAccounts] = useState<PaperAccount[]>([]);
+    const [accountId, setAccountId] = useState<string | null>(null);
+    const account = accounts.find(a => a.id === accountId) ?? null;
     const [autoTrade, setAutoTrade] = useState(false);
     const [slInput, setSlInput] = useState('');
+    const [zoneOrder, setZoneOrder] = useState<{ zone: ZoneClick, level: 'EDGE' | 'MEAN', tif: 'GTC' | 'SESSION' } | null>(null);
     const [tpInput, setTpInput] = useState('');
     const [alert, setAlert] = useState<{msg: string, type: 'success'|'error'|'info'} | null>(null);
     const [hoveredEntry, setHoveredEntry] = useState<EntrySignal | null>(null);
+    const [replay, setReplay] = useState<ReplayState | null>(null);
+    const [replayPicking, setReplayPicking] = useState(false);
+    const replayRef = useRef<ReplayState | null>(null);
+    const [historyRange, setHistoryRange] = useState<{ start: UTCTimestamp, end: UTCTimestamp } | null>(null);
+    const [historyProgress, setHistoryProgress] = useState<HistoryProgress | null>(null);
+    const [rangeInput, setRangeInput] = useState(() => {
+        const day = (offset: number) => new Date(Date.now() - offset * 86_400_000).toISOString().slice(0, 10);
+        return { from: day(30), to: day(0) };
+    });
 
-    const getHtf = (tf: string) => {
-        if (['1m','3m','5m'].includes(tf)) return '1h';
-        if (['15m','30m'].includes(tf)) return '4h';
-        if (['1h','4h'].includes(tf)) return '1d';
-        return '1d';
-    };
+    // The strategy's fixed-R target, which the Reward Ratio input edits
+    const fixedR = config.strategy.targets.find((r): r is Extract<TargetRule, { type: 'FIXED_R' }> => r.type === 'FIXED_R');
 
-    const fetchData = async () => {
-        try {
-            let symbol = asset;
-            if (asset === 'XAUUSD.P' || asset === 'GOLD' || asset.includes('MGC')) symbol = 'PAXGUSDT'; 
-            
-            // 1. Fetch Current TF Data
-            const res = await fetch(`https://data-api.binance.vision/api/v3/klines?symbol=${symbol}&interval=${timeframe}&limit=500`);
-            const raw = await res.json();
-            if (!Array.isArray(raw)) throw new Error("Invalid API Data");
-            const candles: CandleData[] = raw.map((c: any) => ({ time: c[0] / 1000 as UTCTimestamp, open: parseFloat(c[1]), high: parseFloat(c[2]), low: parseFloat(c[3]), close: parseFloat(c[4]) }));
-            
-            // 2. Fetch HTF Data (Parallel)
-            const htfTf = getHtf(timeframe);
-            const resHtf = await fetch(`https://data-api.binance.vision/api/v3/klines?symbol=${symbol}&interval=${htfTf}&limit=200`);
-            const rawHtf = await resHtf.json();
-            const candlesHtf: CandleData[] = Array.isArray(rawHtf) ? rawHtf.map((c: any) => ({ time: c[0] / 1000 as UTCTimestamp, open: parseFloat(c[1]), high: parseFloat(c[2]), low: parseFloat(c[3]), close: parseFloat(c[4]) })) : [];
-
-            setData(candles);
-            const recentSlice = candles.slice(-100);
-            const highest = Math.max(...recentSlice.map(c => c.high));
-            const lowest = Math.min(...recentSlice.map(c => c.low));
-            setPdRange({ high: highest, low: lowest });
-
-            const _structure = detectStructure(candles, config.swingLength);
-            const allowedObTimeframes = ['5m', '15m', '1h'];
-            const _obs = allowedObTimeframes.includes(timeframe) ? detectOrderBlocks(candles, config.obThreshold) : [];
-            const _fvgs = detectFVG(candles);
-            const _entries = detectEntries(candles, _obs, _fvgs, timeframe);
-            
-            // Process HTF Patterns
-            const _htfObs = detectOrderBlocks(candlesHtf, config.obThreshold);
-            const _htfFvgs = detectFVG(candlesHtf);
-            setHtfObs(_htfObs);
-            setHtfFvgs(_htfFvgs);
-            
-            // Backtest
-            const bt = performBacktest(candles, _entries);
-            setBacktestStats(bt.stats);
-            setEntries(bt.results);
-            
-            setStructure(_structure); setObs(_obs); setFvgs(_fvgs);
-            
-            if (autoTrade && !position && _entries.length > 0) {
-                const lastSignal = _entries[_entries.length - 1];
-                if (lastSignal.time === candles[candles.length - 1].time && lastSignal.score >= 8) {
-                    enterTrade(lastSignal.type, lastSignal.price, lastSignal.sl, lastSignal.tp, lastSignal.confluences);
-                    setAlert({ msg: `Auto-Trade Executed: ${lastSignal.type}`, type: 'success' });
-                    playAlertSound();
-                }
-            }
-        } catch (e) { console.error(e); setAlert({ msg: "Failed to fetch data", type: 'error' }); }
+    // The stack levels other than the chart timeframe, and those above it (nearest first)
+    const otherLevels = config.timeframeStack.filter(tf => tf !== timeframe);
+    const higherLevels = otherLevels.filter(tf => intervalToMs(tf) > intervalToMs(timeframe)).sort((a, b) => intervalToMs(a) - intervalToMs(b));
+
+    // In replay only the candles of a level that had closed by the end of the replay bar are known
+    const knownCandles = (tf: string) => {
+        const all = stackCandlesRef.current.get(tf) ?? [];
+        const r = replayRef.current;
+        if (!r) return all;
+        const step = intervalToMs(tf) / 1000;
+        return all.filter(c => (c.time as number) + step <= (r.cursor as number) + intervalToMs(timeframe) / 1000);
     };
 
-    useEffect(() => { fetchData(); const interval = setInterval(fetchData, 60000); return () => clearInterval(interval); }, [asset, timeframe, autoTrade, config]);
-    const playAlertSound = () => { const ctx = new (window.AudioContext || (window as any).webkitAudioContext)(); const osc = ctx.createOscillator(); osc.connect(ctx.destination); osc.frequency.value = 800; osc.start(); osc.stop(ctx.currentTime + 0.2); };
-    const enterTrade = (type: 'LONG'|'SHORT', price: number, sl: number, tp: number, confluences: string[] = []) => { setPosition({ time: Math.floor(Date.now() / 1000) as UTCTimestamp, type, price, stopLoss: sl, takeProfit: tp, result: 'OPEN', confluences, score: 0 }); };
-    const closeTrade = (pnl: number) => { if (!position) return; setBalance(prev => prev + pnl); setTradeHistory(prev => [{ ...position, result: pnl > 0 ? 'WIN' : 'LOSS', pnl }, ...prev]); setPosition(null); };
-    useEffect(() => { if (!position || data.length === 0) return; const currentPrice = data[data.length - 1].close; let pnl = 0; if (position.type === 'LONG') { pnl = (currentPrice - position.price) * 1; if (currentPrice >= position.takeProfit) closeTrade(pnl); if (currentPrice <= position.stopLoss) closeTrade(pnl); } else { pnl = (position.price - currentPrice) * 1; if (currentPrice <= position.takeProfit) closeTrade(pnl); if (currentPrice <= position.stopLoss) closeTrade(pnl); } }, [data, position]);
+    const biasRow = (tf: string, candles: CandleData[], structure: StructurePoint[], liveObs: number, liveFvgs: number): TimeframeBias => {
+        const bias = htfBiasAt({ timeframe: tf, step: 0, structure }, Infinity, candles[candles.length - 1].close);
+        return { timeframe: tf, trend: bias.trend, zone: bias.zone, rangeHigh: bias.high, rangeLow: bias.low, liveObs, liveFvgs };
+    };
 
-    // NEW: Daily Stats Calculation
-    const dailyStats = useMemo(() => {
-        const groups: {[key: string]: EntrySignal[]} = {};
-        const validEntries = entries.filter(e => e.backtestResult === 'WIN' || e.backtestResult === 'LOSS');
-        
-        validEntries.forEach(e => {
-            const date = new Date((e.time as number) * 1000).toLocaleDateString();
-            if (!groups[date]) groups[date] = [];
-            groups[date].push(e);
-        });
+    // Live OBs, newest `obRetain` of them
+    const retainObs = (all: OrderBlock[]) => {
+        const live = all.filter(o => !o.mitigated);
+        return config.obRetain > 0 ? live.slice(-config.obRetain) : live;
+    };
 
-        const sortedDates = Object.keys(groups).sort((a,b) => new Date(b).getTime() - new Date(a).getTime()).slice(0, 3);
+    // The pipelines behind the last analysis, the chart's and one per other level
+    // of the stack, with the series each was fed. When a series only moved on
+    // since (a close, the live window dropping its oldest bar, replay stepping
+    // forward) just the new candles are pushed; anything else starts over.
+    const pipelinesRef = useRef(new Map<string, { pipeline: AnalysisPipeline, inputs: unknown[], fed: CandleData[][] }>());
+    const runPipeline = (key: string, inputs: unknown[], create: () => AnalysisPipeline, candles: CandleData[], higher: HigherTimeframe[] = []) => {
+        const series = [...higher.map(h => h.candles), candles];
+        // Where `now` picks up from the candles already fed, or -1 if it does not
+        // continue them: it must not reach further back, and the last candle fed
+        // must still be in it, by time and by identity
+        const resumeAt = (before: CandleData[], now: CandleData[]) => {
+            if (before.length === 0) return 0;
+            if (now.length === 0 || now[0].time < before[0].time) return -1;
+            const last = before[before.length - 1];
+            let lo = 0, hi = now.length;
+            while (lo < hi) { const mid = (lo + hi) >> 1; if (now[mid].time < last.time) lo = mid + 1; else hi = mid; }
+            return now[lo] === last ? lo + 1 : -1;
+        };
+        const prev = pipelinesRef.current.get(key);
+        const same = prev && prev.inputs.length === inputs.length && prev.inputs.every((v, i) => v === inputs[i]);
+        const resume = same ? series.map((c, i) => resumeAt(prev.fed[i], c)) : [];
+        const reuse = same && resume.every(r => r >= 0);
+        const pipeline = reuse ? prev.pipeline : create();
+        const from = (i: number) => reuse ? resume[i] : 0;
+        // Higher levels first: a chart candle only counts what had closed by then
+        higher.forEach((h, i) => h.candles.slice(from(i)).forEach(c => pipeline.pushHigher(h.timeframe, c)));
+        candles.slice(from(higher.length)).forEach(c => pipeline.push(c));
+        pipelinesRef.current.set(key, { pipeline, inputs, fed: series });
+        return pipeline.analysis;
+    };
 
-        return sortedDates.map(date => {
-            const dailyTrades = groups[date].sort((a,b) => (b.time as number) - (a.time as number)).slice(0, 10);
-            
-            let totalGain = 0;
-            let totalLoss = 0;
-            let netPnL = 0;
-            const RISK_PER_TRADE = 1000; 
+    // Structure, OBs and FVGs on every other level of the stack. The nearest
+    // higher level's zones are drawn on the chart. Order blocks are found on
+    // every level here, whatever the OB timeframes setting says.
+    const analyseStack = () => {
+        const rows: { [timeframe: string]: TimeframeBias } = {};
+        let htfObs: OrderBlock[] = [], htfFvgs: FVG[] = [];
+        for (const tf of otherLevels) {
+            const candles = knownCandles(tf);
+            if (candles.length === 0) continue;
+            const { structure, obs: allObs, fvgs: allFvgs } = runPipeline(`stack:${tf}`, [asset, tf, config], () => new AnalysisPipeline(tf, { ...config, obTimeframes: [tf] }), candles);
+            const obs = retainObs(allObs).map(o => ({ ...o, timeframe: tf }));
+            const fvgs = allFvgs.filter(f => !f.mitigated).map(f => ({ ...f, timeframe: tf }));
+            rows[tf] = biasRow(tf, candles, structure, obs.length, fvgs.length);
+            if (tf === higherLevels[0]) { htfObs = obs; htfFvgs = fvgs; }
+        }
+        setHtfObs(htfObs);
+        setHtfFvgs(htfFvgs);
+        setStackBias(prev => ({ ...(prev[timeframe] ? { [timeframe]: prev[timeframe] } : {}), ...rows }));
+    };
 
-            dailyTrades.forEach(t => {
-                if (t.backtestResult === 'WIN') {
-                    const gain = RISK_PER_TRADE * 2;
-                    totalGain += gain;
-                    netPnL += gain;
-                } else {
-                    const loss = RISK_PER_TRADE;
-                    totalLoss += loss;
-                    netPnL -= loss;
-                }
+    // Runs the detector pipeline over the closed candles (up to the cursor in replay).
+    const analyse = (allCandles: CandleData[]) => {
+        const r = replayRef.current;
+        const candles = r ? allCandles.filter(c => c.time <= r.cursor) : allCandles;
+        if (candles.length === 0) return;
+        setData(candles);
+
+        const higher = higherLevels.map(tf => ({ timeframe: tf, candles: knownCandles(tf) }));
+        const daily = dailyCandlesRef.current;
+        const analysis = runPipeline('chart', [asset, timeframe, config, daily, ...higherLevels], () => new AnalysisPipeline(timeframe, config, higherLevels, daily), candles, higher);
+        const { structure: _structure, obs: _obs, fvgs: _fvgs, bprs: _bprs, pools: _liquidity, keyLevels: _keyLevels, ranges: _ranges } = analysis;
+        // The pipeline outlives a sliding live window; signals before it have no candle to trade on
+        const _entries = analysis.entries.filter(e => e.time >= candles[0].time);
+
+        // Backtest
+        const analysisId = ++analysisIdRef.current;
+        const bt = performBacktest(candles, _entries, execution, ltfBarsRef.current);
+        setBacktestStats(bt.stats);
+        setEntries(bt.results);
+        if (execution.sameBarResolution === 'LOWER_TIMEFRAME' && bt.conflicts.length > 0) resolveConflicts(candles, _entries, bt.conflicts, analysisId);
+
+        setStackBias(prev => ({ ...prev, [timeframe]: biasRow(timeframe, candles, _structure, retainObs(_obs).length, _fvgs.filter(f => !f.mitigated).length) }));
+        setStructure(_structure); setObs(retainObs(_obs)); setFvgs(_fvgs.filter(f => !f.mitigated)); setBprs(_bprs.filter(b => !b.mitigated));
+        // Untouched pools plus the ones swept in the last 50 candles
+        const recentFrom = candles[Math.max(0, candles.length - 50)].time;
+        setLiquidity(_liquidity.filter(p => (p.sweptTime === undefined && p.takenTime === undefined) || (p.sweptTime !== undefined && p.sweptTime >= recentFrom)));
+        // Levels of the periods the last candle is in, taken or not
+        const last = candles[candles.length - 1].time;
+        setKeyLevels(_keyLevels.filter(l => l.time <= last && last < l.endTime));
+        setDealingRange(_ranges[_ranges.length - 1] ?? null);
+
+        if (!r) {
+            // Zones as they stood while the last candle formed, so the candle that trades into one still sees it
+            const candle = candles[candles.length - 1];
+            const before = (candle.time as number) - 1;
+            checkAlerts({
+                symbol: asset, timeframe, candle, previous: candles[candles.length - 2], entries: _entries,
+                fvgs: _fvgs.flatMap(f => fvgStateAt(f, before) ?? []), obs: _obs.flatMap(o => obStateAt(o, before) ?? []),
+                htfFvgs, htfObs, keyLevels: _keyLevels.filter(l => l.time <= last && last < l.endTime), sessions: config.sessions
             });
+        }
 
-            return { date, totalGain, totalLoss, netPnL, tradeCount: dailyTrades.length, trades: dailyTrades };
-        });
-    }, [entries]);
+        if (autoTrade && !paper.positions.some(p => p.symbol === asset) && _entries.length > 0) {
+            const lastSignal = _entries[_entries.length - 1];
+            if (lastSignal.time === candles[candles.length - 1].time && lastSignal.score >= 8) {
+                enterTrade(lastSignal.type, lastSignal.price, lastSignal.sl, lastSignal.tp, lastSignal.confluences, lastSignal.score);
+                setAlert({ msg: `Auto-Trade Executed: ${lastSignal.type}`, type: 'success' });
+                playSound('BEEP');
+            }
+        }
+    };
 
-    return (
-        <div className="flex h-screen bg-[#131722] text-gray-300">
-            {alert && <ToastNotification message={alert.msg} type={alert.type} onClose={() => setAlert(null)} />}
-            {showTopSetups && <TopSetupsModal entries={entries} onClose={() => setShowTopSetups(false)} />}
-            {clickedEntry && <EntryDetailModal entry={clickedEntry} onClose={() => setClickedEntry(null)} />}
+    // Fetches lower-timeframe candles for the bars where SL and TP were both touched,
+    // then re-runs the backtest if no newer analysis has replaced this one.
+    const resolveConflicts = async (candles: CandleData[], signals: EntrySignal[], conflicts: UTCTimestamp[], analysisId: number) => {
+        const ltf = getLtf(timeframe);
+        if (!ltf) return;
+        const step = intervalToMs(timeframe) / 1000;
+        const missing = conflicts.filter(t => !ltfBarsRef.current.has(t as number)).slice(0, 50);
+        if (missing.length === 0) return;
+        try {
+            for (const t of missing) {
+                const bars = await provider.getCandles(asset, ltf, { startTime: t, endTime: ((t as number) + step - 1) as UTCTimestamp, limit: step * 1000 / intervalToMs(ltf) });
+                ltfBarsRef.current.set(t as number, bars);
+            }
+        } catch (e) { console.warn('Lower timeframe fetch failed:', e); return; }
+        if (analysisId !== analysisIdRef.current) return;
+        const bt = performBacktest(candles, signals, execution, ltfBarsRef.current);
+        setBacktestStats(bt.stats);
+        setEntries(bt.results);
+    };
 
-            <div className="w-64 bg-[#1e222d] border-r border-gray-800 flex flex-col">
-                <div className="p-4 border-b border-gray-800 font-bold text-xl text-blue-500">ICT Master</div>
+    const fetchData = async (signal?: AbortSignal) => {
+        if (!symbols.some(s => s.symbol === asset)) return null;
+        try {
+            const info = await provider.getSymbolInfo(asset);
+            setSymbolInfo(info);
+            let candles: CandleData[];
+            const levels = new Map<string, CandleData[]>();
+
+            if (historyRange) {
+                // Page backwards through the whole range; higher levels get 200 bars of extra
+                // context before it, lower ones only their latest bars up to the end of the range
+                setHistoryProgress({ loaded: 0, expected: 1, pages: 0 });
+                candles = await loadHistoryRange(provider, asset, timeframe, historyRange.start, historyRange.end, { onProgress: setHistoryProgress, signal });
+                for (const tf of otherLevels) {
+                    const htfStart = ((historyRange.start as number) - 200 * intervalToMs(tf) / 1000) as UTCTimestamp;
+                    const load = higherLevels.includes(tf)
+                        ? loadHistoryRange(provider, asset, tf, htfStart, historyRange.end, { signal })
+                        : provider.getCandles(asset, tf, { endTime: historyRange.end, limit: 300 });
+                    levels.set(tf, await load.catch(e => { if (signal?.aborted) throw e; return [] as CandleData[]; }));
+                }
+                setHistoryProgress(null);
+            } else {
+                // 1. Fetch Current TF Data (closed candles; the forming one arrives through the live feed)
+                candles = await provider.getCandles(asset, timeframe, { limit: HISTORY_LIMIT });
+                // 2. Fetch the other levels of the stack
+                for (const tf of otherLevels) levels.set(tf, await provider.getCandles(asset, tf, { limit: higherLevels.includes(tf) ? 200 : 300 }).catch(() => [] as CandleData[]));
+            }
+            if (candles.length === 0) throw new Error("No candles returned");
+            // Daily candles back to the month before the first chart candle, for its previous month levels
+            const dailyFrom = ((candles[0].time as number) - 40 * DAY) as UTCTimestamp;
+            const daily = timeframe === '1d' ? [] : levels.get('1d')?.some(c => c.time <= dailyFrom)
+                ? levels.get('1d')!
+                : await loadHistoryRange(provider, asset, '1d', dailyFrom, candles[candles.length - 1].time, { signal }).catch(e => { if (signal?.aborted) throw e; return [] as CandleData[]; });
+
+            candlesRef.current = candles;
+            dailyCandlesRef.current = daily;
+            stackCandlesRef.current = levels;
+            setLiveCandle(null);
+            analyseStack();
+            analyse(candles);
+            const focus = scanFocusRef.current;
+            if (focus?.symbol === asset && focus.timeframe === timeframe) { scanFocusRef.current = null; setChartFocus({ time: focus.time }); }
+            return { lastTime: candles[candles.length - 1].time };
+        } catch (e) {
+            setHistoryProgress(null);
+            if (signal?.aborted) return null;
+            console.error(e); setAlert({ msg: `Failed to fetch data${e instanceof Error ? `: ${e.message}` : ''}`, type: 'error' }); return null;
+        }
+    };
+
+    // Appends or replaces a closed candle. Live windows stay at `limit` bars; a loaded range keeps growing.
+    const mergeClosed = (candles: CandleData[], candle: CandleData, limit: number) => {
+        const last = candles[candles.length - 1];
+        if (last && candle.time === last.time) return [...candles.slice(0, -1), candle];
+        if (last && candle.time < last.time) return candles;
+        return [...candles, candle].slice(historyRange ? 0 : -limit);
+    };
+
+    // Stream handlers outlive renders; they call the latest pipeline through these refs
+    const analyseRef = useRef(analyse);
+    const analyseStackRef = useRef(analyseStack);
+    analyseRef.current = analyse;
+    analyseStackRef.current = analyseStack;
+
+    useEffect(() => {
+        let cancelled = false;
+        const controller = new AbortController();
+        const unsubscribers: (() => void)[] = [];
+        fetchData(controller.signal).then(loaded => {
+            if (cancelled || !loaded) return;
+            // A range that ends in the past is a static dataset: nothing to stream
+            if (historyRange && (historyRange.end as number) < Date.now() / 1000 - intervalToMs(timeframe) / 1000) { setStreamStatus('CLOSED'); return; }
+            unsubscribers.push(provider.subscribe(asset, timeframe, {
+                onStatus: setStreamStatus, onError: e => console.warn('Live feed:', e),
+                onCandle: (candle, isClosed) => {
+                    if (!isClosed) { setLiveCandle(candle); return; }
+                    candlesRef.current = mergeClosed(candlesRef.current, candle, HISTORY_LIMIT);
+                    setLiveCandle(null);
+                    analyseRef.current(candlesRef.current);
+                }
+            }, loaded.lastTime));
+            otherLevels.forEach(tf => {
+                const levelCandles = stackCandlesRef.current.get(tf) ?? [];
+                unsubscribers.push(provider.subscribe(asset, tf, {
+                    onError: e => console.warn(`${tf} live feed:`, e),
+                    onCandle: (candle, isClosed) => {
+                        if (!isClosed) return;
+                        stackCandlesRef.current.set(tf, mergeClosed(stackCandlesRef.current.get(tf) ?? [], candle, 300));
+                        analyseStackRef.current();
+                    }
+                }, levelCandles[levelCandles.length - 1]?.time));
+            });
+        });
+        return () => { cancelled = true; controller.abort(); unsubscribers.forEach(unsubscribe => unsubscribe()); };
+    }, [provider, symbols, asset, timeframe, historyRange, config.timeframeStack.join()]);
+
+    // Settings only change the analysis, not the data: re-run the detectors on what is loaded
+    useEffect(() => {
+        analyseStack();
+        analyse(candlesRef.current);
+    }, [config, execution]);
+
+    // Per-instrument costs come from the provider's symbol metadata
+    useEffect(() => {
+        ltfBarsRef.current = new Map();
+        if (!symbolInfo) return;
+        setExecution(prev => ({ ...prev, tickSize: symbolInfo.tickSize, spread: symbolInfo.spread ?? symbolInfo.tickSize, feeRate: symbolInfo.feeRate ?? prev.feeRate }));
+    }, [symbolInfo, timeframe]);
+
+    // Optimizes on exactly what the backtest sees: the loaded (or replay-cut) candles
+    const runOptimization = async () => {
+        if (optAbortRef.current) return;
+        const controller = new AbortController();
+        optAbortRef.current = controller;
+        setOptReport(null);
+        setOptProgress({ done: 0, total: 0 });
+        try {
+            const report = await runOptimizer(createEvaluator(data, timeframe, config, execution, ltfBarsRef.current, higherLevels.map(tf => ({ timeframe: tf, candles: knownCandles(tf) })), dailyCandlesRef.current), {
+                ...optSettings,
+                space: optSpace,
+                totalBars: data.length,
+                warmupBars: 100, // detectEntries needs 100 bars of history before its first signal
+                signal: controller.signal,
+                onProgress: (done, total) => setOptProgress({ done, total })
+            });
+            setOptReport(report);
+        } catch (e) {
+            if ((e as Error).name !== 'AbortError') setAlert({ msg: `Optimization failed: ${(e as Error).message}`, type: 'error' });
+        } finally {
+            optAbortRef.current = null;
+            setOptProgress(null);
+        }
+    };
+
+    const loadHistory = () => {
+        const start = Date.parse(`${rangeInput.from}T00:00:00Z`) / 1000;
+        const end = Math.min(Date.now() / 1000, Date.parse(`${rangeInput.to}T23:59:59Z`) / 1000);
+        if (isNaN(start) || isNaN(end) || end <= start) { setAlert({ msg: 'Invalid date range', type: 'error' }); return; }
+        setHistoryRange({ start: start as UTCTimestamp, end: Math.floor(end) as UTCTimestamp });
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        provider.listSymbols().then(list => {
+            if (cancelled) return;
+            setSymbols(list);
+            if (list.length && !list.some(s => s.symbol === asset)) setAsset(list[0].symbol);
+        });
+        return () => { cancelled = true; };
+    }, [provider]);
+
+    // --- BAR REPLAY ---
+    const updateReplay = (next: ReplayState | null) => {
+        replayRef.current = next;
+        setReplay(next);
+        analyseStack();
+        analyse(candlesRef.current);
+    };
+
+    const startReplay = (time: UTCTimestamp) => {
+        setReplayPicking(false);
+        updateReplay({ cursor: time, playing: false, speed: replayRef.current?.speed ?? 2 });
+    };
+
+    const stepReplay = (bars: number = 1) => {
+        const r = replayRef.current;
+        if (!r) return;
+        const candles = candlesRef.current;
+        let idx = candles.findIndex(c => c.time > r.cursor);
+        if (idx === -1) { if (r.playing) updateReplay({ ...r, playing: false }); return; }
+        idx = Math.min(candles.length - 1, idx + bars - 1);
+        const atEnd = idx === candles.length - 1;
+        updateReplay({ ...r, cursor: candles[idx].time, playing: r.playing && !atEnd });
+    };
+
+    useEffect(() => {
+        if (!replay?.playing) return;
+        const timer = setInterval(() => stepReplay(1), 1000 / replay.speed);
+        return () => clearInterval(timer);
+    }, [replay?.playing, replay?.speed]);
+
+    const selectProvider = (id: ProviderId) => { setSymbols([]); setProviderId(id); };
+
+    const loadDataFile = async (file: File) => {
+        try {
+            const info = await providers.file.loadFile(file);
+            setSymbols(await providers.file.listSymbols());
+            setAsset(info.symbol);
+            setProviderId('file');
+            setAlert({ msg: `Loaded ${info.symbol} from ${file.name}`, type: 'success' });
+        } catch (e) { console.error(e); setAlert({ msg: `Could not load ${file.name}${e instanceof Error ? `: ${e.message}` : ''}`, type: 'error' }); }
+    };
+
+    // In replay the paper trader works against the last revealed close
+    const currentPrice: number | undefined = (replay ? undefined : liveCandle?.close) ?? data[data.length - 1]?.close;
+    // The candle the paper trader is "in": the forming one live, the last revealed one in replay
+    const currentBar: CandleData | undefined = (replay ? undefined : liveCandle ?? undefined) ?? data[data.length - 1];
+    const brokerConfig = { feeRate: execution.feeRate };
+    // How far price has run on a candle: to its end once closed, to now while it forms
+    const progressOf = (bar: CandleData): BarProgress => {
+        const end = (bar.time as number) + intervalToMs(timeframe) / 1000;
+        return bar === data[data.length - 1] ? { through: end } : { through: Math.min(Math.floor(Date.now() / 1000), end), forming: true };
+    };
+    const assetPositions = paper.positions.filter(p => p.symbol === asset);
+    const assetOrders = paper.orders.filter(o => o.symbol === asset);
+
+    // Whether the action went through; a rejection is shown as an alert
+    const brokerAction = (action: (state: BrokerState) => BrokerState) => {
+        try { setPaper(action(paper)); return true; }
+        catch (e) { setAlert({ msg: e instanceof Error ? e.message : 'Order rejected', type: 'error' }); return false; }
+    };
+
+    const enterTrade = (type: 'LONG'|'SHORT', price: number, sl: number, tp: number, confluences: string[] = [], score: number = 0) => {
+        const { sizing, partialR, partialPct, breakevenAtR, trailR } = orderSettings;
+        brokerAction(s => openPosition(s, {
+            symbol: asset, type, price, stopLoss: sl, takeProfit: tp,
+            time: currentBar?.time ?? Math.floor(Date.now() / 1000) as UTCTimestamp,
+            processedUntil: currentBar ? progressOf(currentBar).through as UTCTimestamp : undefined,
+            sizing,
+            partials: partialPct > 0 && partialR > 0 ? [{ r: partialR, fraction: partialPct / 100 }] : [],
+            breakevenAtR, trailR, confluences, score
+        }, brokerConfig));
+    };
+
+    // Resting order at a clicked zone: the proximal edge (OB open / FVG edge) or its
+    // 50% (OB mean threshold / FVG consequent encroachment), stop beyond the distal edge
+    const zoneOrderLevels = (zone: ZoneClick, level: 'EDGE' | 'MEAN') => {
+        const bull = zone.direction === 'Bullish';
+        const height = zone.priceHigh - zone.priceLow;
+        const price = level === 'MEAN' ? (zone.priceHigh + zone.priceLow) / 2 : bull ? zone.priceHigh : zone.priceLow;
+        const stopLoss = parseFloat(slInput) || (bull ? zone.priceLow - height * 0.1 : zone.priceHigh + height * 0.1);
+        return { type: (bull ? 'LONG' : 'SHORT') as 'LONG' | 'SHORT', price, stopLoss };
+    };
+
+    const placeZoneOrder = () => {
+        if (!zoneOrder || !currentBar || currentPrice === undefined) return;
+        const { zone, level, tif } = zoneOrder;
+        const { sizing, partialR, partialPct, breakevenAtR, trailR } = orderSettings;
+        const tp = parseFloat(tpInput);
+        brokerAction(s => placeOrder(s, {
+            symbol: asset, ...zoneOrderLevels(zone, level), takeProfit: isNaN(tp) ? undefined : tp,
+            sizing,
+            partials: partialPct > 0 && partialR > 0 ? [{ r: partialR, fraction: partialPct / 100 }] : [],
+            breakevenAtR, trailR,
+            timeInForce: tif, expiresAt: tif === 'SESSION' ? sessionEndAt(currentBar.time as number, config.sessions) as UTCTimestamp : undefined,
+            createdAt: currentBar.time as UTCTimestamp,
+            processedUntil: progressOf(currentBar).through as UTCTimestamp,
+            source: `${zone.label} ${level === 'MEAN' ? (zone.kind === 'OB' ? 'mean threshold' : 'CE') : 'edge'}`,
+            confluences: []
+        }, currentPrice));
+        setZoneOrder(null);
+    };
+
+    const moveOrder = (id: string, field: 'price' | 'stopLoss' | 'takeProfit', price: number) =>
+        currentPrice !== undefined && brokerAction(s => modifyOrder(s, id, field, price, currentPrice));
+
+    const describeEvent = (e: BrokerEvent) => {
+        const subject = e.position ?? e.order!;
+        const name = `${subject.symbol} ${subject.type}`;
+        const at = e.price.toFixed(symbolInfo?.pricePrecision ?? 2);
+        switch (e.kind) {
+            case 'BREAKEVEN': return `${name}: stop moved to breakeven`;
+            case 'FILL': return `${name} ${e.order?.kind ?? ''} filled @ ${at}`;
+            case 'EXPIRED': return `${name} ${e.order?.kind ?? ''} @ ${at} expired`;
+            case 'REJECTED': return `${name} order rejected: gapped through stop @ ${at}`;
+            default: return `${name} ${e.kind === 'PARTIAL' ? 'partial TP' : e.kind} @ ${at} (${(e.pnl ?? 0) >= 0 ? '+' : ''}$${(e.pnl ?? 0).toFixed(2)})`;
+        }
+    };
+
+    // Every update of the current candle runs the open positions against its high/low
+    // so far. The last closed candle is passed too, in case it closed since the last
+    // update; the broker skips it for whatever it has already run it against.
+    useEffect(() => {
+        if (!currentBar || ![...paper.positions, ...paper.orders].some(p => p.symbol === asset)) return;
+        const closed = data[data.length - 1];
+        let state = paper;
+        const events: BrokerEvent[] = [];
+        for (const bar of closed && closed !== currentBar ? [closed, currentBar] : [currentBar]) {
+            const r = processBar(state, asset, bar, brokerConfig, progressOf(bar));
+            state = r.state;
+            events.push(...r.events);
+        }
+        if (state === paper) return;
+        setPaper(state);
+        if (events.length) setAlert({ msg: events.map(describeEvent).join(' · '), type: events.some(e => (e.kind === 'SL' && (e.pnl ?? 0) < 0) || e.kind === 'REJECTED') ? 'error' : events.every(e => e.kind === 'EXPIRED') ? 'info' : 'success' });
+    }, [currentBar, data]);
+
+    // --- PAPER ACCOUNTS ---
+    const reconcileRef = useRef<string | null>(null); // account whose restored positions/orders still need checking
+    const applyAccount = (acc: PaperAccount) => {
+        reconcileRef.current = acc.positions.length || acc.orders.length ? acc.id : null;
+        setAccountId(acc.id);
+        setPaper({ balance: acc.balance, positions: acc.positions, orders: acc.orders, tradeHistory: acc.tradeHistory });
+        setActiveAccountId(acc.id).catch(e => console.warn('Could not store active account:', e));
+    };
+
+    useEffect(() => {
+        (async () => {
+            try {
+                let list = await listAccounts();
+                if (list.length === 0) {
+                    const first = createAccount('Default');
+                    await saveAccount(first);
+                    list = [first];
+                }
+                const activeId = await getActiveAccountId();
+                setAccounts(list);
+                applyAccount(list.find(a => a.id === activeId) ?? list[0]);
+            } catch (e) {
+                console.warn('Paper accounts unavailable, trading without persistence:', e);
+            }
+        })();
+    }, []);
+
+    // Every change to the active account is written through to IndexedDB
+    useEffect(() => {
+        if (!account) return;
+        if (account.balance === paper.balance && account.positions === paper.positions && account.orders === paper.orders && account.tradeHistory === paper.tradeHistory) return;
+        const updated = { ...account, ...paper };
+        setAccounts(prev => prev.map(a => a.id === updated.id ? updated : a));
+        saveAccount(updated).catch(e => console.warn('Could not save paper account:', e));
+    }, [paper]);
+
+    // Restored positions may have hit a stop or target, and orders may have filled
+    // or expired, while the app was closed: run the broker over the candles since
+    // each symbol's positions and orders were last run, from their entry or
+    // placement if they never were. Candles they had already seen are skipped.
+    const paperRef = useRef(paper);
+    paperRef.current = paper;
+    useEffect(() => {
+        const restored = [...paper.positions.map(p => ({ symbol: p.symbol!, time: (p.processedUntil ?? p.time) as number })), ...paper.orders.map(o => ({ symbol: o.symbol, time: (o.processedUntil ?? o.createdAt) as number }))];
+        if (!restored.length || replay || reconcileRef.current !== accountId) return;
+        const pending = Array.from(new Set<string>(restored.map(r => r.symbol))).filter(sym => symbols.some(s => s.symbol === sym));
+        if (pending.length === 0) return;
+        reconcileRef.current = null;
+        const now = Math.floor(Date.now() / 1000);
+        pending.forEach(async sym => {
+            try {
+                const since = Math.min(...restored.filter(r => r.symbol === sym).map(r => r.time));
+                const gap = now - since;
+                const interval = gap <= 2 * 86_400 ? '1m' : gap <= 14 * 86_400 ? '15m' : '1h';
+                const candles = await loadHistoryRange(provider, sym, interval, since as UTCTimestamp, now as UTCTimestamp, { pageDelayMs: 100 });
+                const snapshot = paperRef.current;
+                let state = snapshot;
+                const events: BrokerEvent[] = [];
+                const step = intervalToMs(interval) / 1000;
+                candles.forEach(c => { const r = processBar(state, sym, c, brokerConfig, { through: (c.time as number) + step }); state = r.state; events.push(...r.events); });
+                if (state === snapshot) return;
+                setPaper(prev => prev === snapshot ? state : prev);
+                const fills = events.filter(e => e.kind !== 'BREAKEVEN');
+                if (fills.length) setAlert({ msg: `While offline: ${fills.map(describeEvent).join(' · ')}`, type: 'info' });
+            } catch (e) { console.warn(`Could not reconcile restored ${sym} positions:`, e); }
+        });
+    }, [accountId, paper.positions, paper.orders, symbols, replay]);
+
+    const switchAccount = (id: string) => {
+        const next = accounts.find(a => a.id === id);
+        if (next) applyAccount(next);
+    };
+
+    const addAccount = async () => {
+        const name = window.prompt('Account name', `Account ${accounts.length + 1}`);
+        if (!name) return;
+        const acc = createAccount(name.trim() || `Account ${accounts.length + 1}`);
+        try { await saveAccount(acc); } catch (e) { setAlert({ msg: 'Could not create account', type: 'error' }); return; }
+        setAccounts(prev => [...prev, acc]);
+        applyAccount(acc);
+    };
+
+    const resetActiveAccount = () => {
+        if (!account || !window.confirm(`Reset "${account.name}" to $${account.startingBalance.toLocaleString()} and clear its history?`)) return;
+        applyAccount(resetAccount(account));
+    };
+
+    const exportAccount = () => {
+        if (!account) return;
+        const blob = new Blob([exportAccountJson({ ...account, ...paper })], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${account.name.replace(/[^\w-]+/g, '_')}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const importAccount = async (file: File) => {
+        try {
+            const acc = parseAccountJson(await file.text());
+            await saveAccount(acc);
+            setAccounts(prev => [...prev, acc]);
+            applyAccount(acc);
+            setAlert({ msg: `Imported account "${acc.name}"`, type: 'success' });
+        } catch (e) { setAlert({ msg: `Could not import ${file.name}${e instanceof Error ? `: ${e.message}` : ''}`, type: 'error' }); }
+    };
+
+    // --- DRAWINGS ---
+    useEffect(() => {
+        let current = true;
+        setDrawings([]);
+        listDrawings(asset, timeframe).then(list => { if (current) setDrawings(list); }).catch(e => console.warn('Drawings unavailable:', e));
+        return () => { current = false; };
+    }, [asset, timeframe]);
+
+    const storeDrawing = (drawing: Drawing) => {
+        setDrawings(prev => prev.some(d => d.id === drawing.id) ? prev.map(d => d.id === drawing.id ? drawing : d) : [...prev, drawing]);
+        saveDrawing(drawing).catch(e => console.warn('Could not save drawing:', e));
+    };
+
+    const removeDrawing = (id: string) => {
+        setDrawings(prev => prev.filter(d => d.id !== id));
+        deleteDrawing(id).catch(e => console.warn('Could not delete drawing:', e));
+    };
+
+    // --- JOURNAL ---
+    useEffect(() => {
+        listJournal().then(setJournal).catch(e => console.warn('Journal unavailable:', e));
+    }, []);
+
+    const storeJournalEntry = (entry: JournalEntry) => {
+        setJournal(prev => prev.some(e => e.id === entry.id) ? prev.map(e => e.id === entry.id ? entry : e) : [entry, ...prev]);
+        saveJournalEntry(entry).catch(e => console.warn('Could not save journal entry:', e));
+    };
+
+    // Edits show straight away; text fields are written on blur
+    const editJournalEntry = (id: string, patch: Partial<JournalEntry>, persist: boolean = true) => {
+        const entry = journal.find(e => e.id === id);
+        if (!entry) return;
+        const updated = { ...entry, ...patch, updatedAt: Date.now() };
+        if (persist) storeJournalEntry(updated);
+        else setJournal(prev => prev.map(e => e.id === id ? updated : e));
+    };
+
+    const removeJournalEntry = async (entry: JournalEntry) => {
+        if (!window.confirm(`Delete the journal entry for ${entry.symbol} ${entry.type}?`)) return;
+        try { await deleteJournalEntry(entry.id); } catch (e) { setAlert({ msg: 'Could not delete journal entry', type: 'error' }); return; }
+        setJournal(prev => prev.filter(e => e.id !== entry.id));
+        setJournalId(null);
+    };
+
+    const addJournalTag = (entry: JournalEntry, tag: string) => {
+        const t = tag.trim();
+        if (t && !entry.tags.includes(t)) editJournalEntry(entry.id, { tags: [...entry.tags, t] });
+        setTagInput('');
+    };
+
+    // Positions opened or closed since the last update of the same account get
+    // their journal entry, with a snapshot when the chart shows their symbol.
+    // Switching account only records what it already holds.
+    const journalSeenRef = useRef<{ accountId: string | null, open: Set<string>, closed: Set<string> } | null>(null);
+    useEffect(() => {
+        const prev = journalSeenRef.current;
+        journalSeenRef.current = { accountId, open: new Set(paper.positions.map(p => p.id)), closed: new Set(paper.tradeHistory.map(t => t.id)) };
+        if (!prev || !accountId || prev.accountId !== accountId) return;
+        const opened = paper.positions.filter(p => !prev.open.has(p.id));
+        const closed = paper.tradeHistory.filter(t => !prev.closed.has(t.id));
+        if (!opened.length && !closed.length) return;
+        const chartSymbol = asset, chartTimeframe = timeframe;
+        const snapshot = (symbol?: string) => {
+            if (symbol !== chartSymbol) return undefined;
+            try { return snapshotRef.current?.() ?? undefined; } catch (e) { console.warn('Chart snapshot failed:', e); return undefined; }
+        };
+        // After the chart has drawn the new position lines
+        requestAnimationFrame(async () => {
+            for (const p of opened) storeJournalEntry(journalFromTrade(p, accountId, chartTimeframe, snapshot(p.symbol)));
+            for (const t of closed) {
+                const shot = snapshot(t.symbol);
+                const entry = journalRef.current.find(e => e.id === t.id) ?? await getJournalEntry(t.id).catch(() => undefined) ?? journalFromTrade(t, accountId, chartTimeframe, shot);
+                storeJournalEntry(closeJournalEntry(entry, t, shot));
+            }
+        });
+    }, [paper.positions, paper.tradeHistory, accountId]);
+
+    const journalRows = useMemo(() => filterJournal(journal, journalFilter), [journal, journalFilter]);
+    const openJournalEntry = journal.find(e => e.id === journalId) ?? null;
+
+    const exportJournal = (format: 'md' | 'html') => {
+        const title = `Trade Journal – ${new Date().toLocaleDateString()}`;
+        const blob = format === 'md'
+            ? new Blob([journalMarkdown(journalRows, title)], { type: 'text/markdown' })
+            : new Blob([journalHtml(journalRows, title)], { type: 'text/html' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `journal-${new Date().toISOString().slice(0, 10)}.${format}`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    // Strategies: the built-in default plus every saved one. The editor holds the
+    // active strategy as JSON; APPLY runs it without saving, SAVE stores a new version.
+    const strategyChoices = strategies.some(s => s.id === DEFAULT_STRATEGY.id) ? strategies : [DEFAULT_STRATEGY, ...strategies];
+
+    const selectStrategy = (strategy: Strategy) => {
+        setConfig(prev => ({ ...prev, strategy }));
+        setStrategyError(null);
+        setActiveStrategyId(strategy.id).catch(e => console.warn('Could not store active strategy:', e));
+    };
+
+    useEffect(() => {
+        (async () => {
+            try {
+                const list = await listStrategies();
+                const activeId = await getActiveStrategyId();
+                setStrategies(list);
+                const active = list.find(s => s.id === activeId);
+                if (active) setConfig(prev => ({ ...prev, strategy: active }));
+            } catch (e) {
+                console.warn('Saved strategies unavailable:', e);
+            }
+        })();
+    }, []);
+
+    useEffect(() => { setStrategyDraft(JSON.stringify(config.strategy, null, 2)); }, [config.strategy]);
+
+    const parseDraft = (): Strategy | null => {
+        try {
+            const strategy = validateStrategy(JSON.parse(strategyDraft));
+            setStrategyError(null);
+            return strategy;
+        } catch (e) { setStrategyError(e instanceof Error ? e.message : String(e)); return null; }
+    };
+
+    const applyDraft = () => {
+        const strategy = parseDraft();
+        if (strategy) setConfig(prev => ({ ...prev, strategy }));
+    };
+
+    const saveDraft = async (asCopy: boolean) => {
+        let strategy = parseDraft();
+        if (!strategy) return;
+        if (asCopy) {
+            const name = window.prompt('Strategy name', `${strategy.name} copy`);
+            if (!name) return;
+            strategy = copyStrategy(strategy, name.trim() || `${strategy.name} copy`);
+        }
+        try {
+            const saved = await saveStrategy(strategy);
+            setStrategies(prev => [...prev.filter(s => s.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+            selectStrategy(saved);
+            setAlert({ msg: `Saved "${saved.name}" v${saved.version}`, type: 'success' });
+        } catch (e) { setAlert({ msg: 'Could not save strategy', type: 'error' }); }
+    };
+
+    const removeStrategy = async () => {
+        const current = config.strategy;
+        if (!strategies.some(s => s.id === current.id) || !window.confirm(`Delete strategy "${current.name}"?`)) return;
+        try { await deleteStrategy(current.id); } catch (e) { setAlert({ msg: 'Could not delete strategy', type: 'error' }); return; }
+        setStrategies(prev => prev.filter(s => s.id !== current.id));
+        selectStrategy(DEFAULT_STRATEGY);
+    };
+
+    const exportStrategy = () => {
+        const blob = new Blob([exportStrategyJson(config.strategy)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${config.strategy.name.replace(/[^\w-]+/g, '_')}-v${config.strategy.version}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    // Imports run straight away but are only kept once saved
+    const importStrategy = async (file: File) => {
+        try {
+            const strategy = parseStrategyJson(await file.text());
+            setConfig(prev => ({ ...prev, strategy }));
+            setStrategyError(null);
+            setAlert({ msg: `Loaded strategy "${strategy.name}"; SAVE to keep it`, type: 'info' });
+        } catch (e) { setAlert({ msg: `Could not import ${file.name}${e instanceof Error ? `: ${e.message}` : ''}`, type: 'error' }); }
+    };
+
+    // Alerts: rules are checked against every newly closed candle of the chart (never
+    // in replay or on old history) and each firing is logged, notified and posted.
+    const updateAlertRules = (rules: AlertRule[]) => { alertRulesRef.current = rules; setAlertRules(rules); };
+
+    useEffect(() => {
+        (async () => {
+            try {
+                updateAlertRules(await listAlertRules());
+                setAlertHistory(await loadAlertHistory());
+                setAlertSettings(await loadAlertSettings());
+                alertsLoadedRef.current = true;
+            } catch (e) {
+                console.warn('Saved alerts unavailable:', e);
+            }
+        })();
+    }, []);
+
+    // Until the stored history has loaded, the empty initial list must not overwrite it
+    useEffect(() => {
+        if (alertsLoadedRef.current) saveAlertHistory(alertHistory).catch(e => console.warn('Could not store alert history:', e));
+    }, [alertHistory]);
+
+    const sendWebhook = async (event: AlertEvent) => {
+        let status = 'sent';
+        if (!alertSettings.webhookUrl) status = 'no webhook URL set';
+        else {
+            try { await postWebhook(alertSettings.webhookUrl, alertSettings.webhookTemplate, event); }
+            catch (e) { status = e instanceof Error ? e.message : String(e); }
+        }
+        setAlertHistory(prev => prev.map(h => h.id === event.id ? { ...h, webhook: status } : h));
+        return status;
+    };
+
+    const fireAlert = (rule: AlertRule, event: AlertEvent) => {
+        const fired = { ...rule, lastFiredAt: event.firedAt, lastBarTime: event.barTime };
+        updateAlertRules(alertRulesRef.current.map(r => r.id === rule.id ? fired : r));
+        saveAlertRule(fired).catch(e => console.warn('Could not store alert rule:', e));
+        setAlertHistory(prev => [event, ...prev].slice(0, ALERT_HISTORY_LIMIT));
+        setAlert({ msg: `${rule.name}: ${event.message}`, type: 'info' });
+        if (rule.notify) showNotification(event);
+        playSound(rule.sound);
+        if (rule.webhook) sendWebhook(event);
+    };
+
+    const checkAlerts = (ctx: AlertContext) => {
+        const t = ctx.candle.time as number;
+        const step = intervalToMs(ctx.timeframe) / 1000;
+        const now = Date.now();
+        if (now / 1000 - (t + step) > step) return;
+        for (const rule of alertRulesRef.current) {
+            if (!canFire(rule, t, now)) continue;
+            const message = matchRule(rule, ctx);
+            if (message) fireAlert(rule, { id: newAlertId(), ruleId: rule.id, ruleName: rule.name, symbol: ctx.symbol, timeframe: ctx.timeframe, barTime: ctx.candle.time, price: ctx.candle.close, message, firedAt: now });
+        }
+    };
+
+    const saveRuleDraft = async () => {
+        if (!ruleDraft) return;
+        if (!ruleDraft.name.trim()) { setAlert({ msg: 'Alert rules need a name', type: 'error' }); return; }
+        const rule = { ...ruleDraft, name: ruleDraft.name.trim(), symbol: ruleDraft.symbol.trim(), timeframe: ruleDraft.timeframe.trim() };
+        try { await saveAlertRule(rule); } catch (e) { setAlert({ msg: 'Could not save alert rule', type: 'error' }); return; }
+        updateAlertRules([...alertRulesRef.current.filter(r => r.id !== rule.id), rule].sort((a, b) => a.name.localeCompare(b.name)));
+        setRuleDraft(null);
+    };
+
+    const toggleAlertRule = (rule: AlertRule) => {
+        const updated = { ...rule, enabled: !rule.enabled };
+        updateAlertRules(alertRulesRef.current.map(r => r.id === rule.id ? updated : r));
+        saveAlertRule(updated).catch(() => setAlert({ msg: 'Could not save alert rule', type: 'error' }));
+    };
+
+    const removeAlertRule = async (rule: AlertRule) => {
+        if (!window.confirm(`Delete alert "${rule.name}"?`)) return;
+        try { await deleteAlertRule(rule.id); } catch (e) { setAlert({ msg: 'Could not delete alert rule', type: 'error' }); return; }
+        updateAlertRules(alertRulesRef.current.filter(r => r.id !== rule.id));
+        if (ruleDraft?.id === rule.id) setRuleDraft(null);
+    };
+
+    const storeAlertSettings = (settings: AlertSettings) => {
+        setAlertSettings(settings);
+        saveAlertSettings(settings).catch(e => console.warn('Could not store alert settings:', e));
+    };
+
+    // A rendered template, or why it is not valid JSON
+    const webhookPreview = useMemo(() => {
+        const sample: AlertEvent = { id: 'test', ruleId: 'test', ruleName: 'Test alert', symbol: asset, timeframe, barTime: (data[data.length - 1]?.time ?? 0) as UTCTimestamp, price: data[data.length - 1]?.close ?? 0, message: 'Test message', firedAt: Date.now() };
+        try { return { sample, body: renderTemplate(alertSettings.webhookTemplate, sample), error: null }; }
+        catch (e) { return { sample, body: '', error: e instanceof Error ? e.message : String(e) }; }
+    }, [alertSettings.webhookTemplate, asset, timeframe, data]);
+
+    const testWebhook = async () => {
+        const status = await sendWebhook(webhookPreview.sample);
+        setAlert({ msg: status === 'sent' ? 'Test webhook sent' : `Webhook failed: ${status}`, type: status === 'sent' ? 'success' : 'error' });
+    };
+
+    // Watchlist: every market of the list is scanned in the background with the
+    // current settings, one throttled request at a time.
+    useEffect(() => {
+        loadWatchlist().then(setWatchlist).catch(e => console.warn('Saved watchlist unavailable:', e));
+    }, []);
+
+    const updateWatchlist = (patch: Partial<WatchlistSettings>) => {
+        const next = { ...watchlist, ...patch };
+        setWatchlist(next);
+        saveWatchlist(next).catch(e => console.warn('Could not store watchlist:', e));
+    };
+
+    const addWatchItem = () => {
+        const item = { symbol: watchInput.symbol || asset, timeframe: watchInput.timeframe };
+        if (watchlist.items.some(i => scanKey(i) === scanKey(item))) return;
+        updateWatchlist({ items: [...watchlist.items, item] });
+    };
+
+    const runScan = async () => {
+        if (scanAbortRef.current || watchlist.items.length === 0) return;
+        const controller = new AbortController();
+        scanAbortRef.current = controller;
+        setScanProgress({ done: 0, total: watchlist.items.length });
+        try {
+            await scanWatchlist(provider, watchlist.items, analyseMarket(config), {
+                stack: config.timeframeStack, candles: HISTORY_LIMIT, gapMs: watchlist.requestGapMs, signal: controller.signal,
+                onResult: result => setScanResults(prev => ({ ...prev, [scanKey(result)]: result })),
+                onProgress: (done, total) => setScanProgress({ done, total })
+            });
+        } catch (e) {
+            if ((e as Error).name !== 'AbortError') setAlert({ msg: `Scan failed: ${(e as Error).message}`, type: 'error' });
+        } finally {
+            if (scanAbortRef.current === controller) scanAbortRef.current = null;
+            setScanProgress(null);
+        }
+    };
+    const runScanRef = useRef(runScan);
+    runScanRef.current = runScan;
+
+    // Results belong to the provider that produced them
+    useEffect(() => { setScanResults({}); }, [provider]);
+
+    useEffect(() => {
+        if (!watchlist.autoScan) return;
+        let stopped = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const loop = async () => {
+            await runScanRef.current();
+            if (!stopped) timer = setTimeout(loop, watchlist.intervalMinutes * 60_000);
+        };
+        loop();
+        return () => { stopped = true; clearTimeout(timer); scanAbortRef.current?.abort(); scanAbortRef.current = null; };
+    }, [watchlist.autoScan, watchlist.intervalMinutes, provider]);
+
+    // Opens a market's signal on the chart, loading the market first if needed
+    const focusSetup = ({ symbol, timeframe: tf, signal }: MarketSetup) => {
+        setShowTopSetups(false);
+        setActiveTab('SCANNER');
+        setClickedEntry(signal);
+        if (symbol === asset && tf === timeframe) { setChartFocus({ time: signal.time }); return; }
+        if (!symbols.some(s => s.symbol === symbol)) { setAlert({ msg: `${symbol} is not available from ${provider.name}`, type: 'error' }); return; }
+        scanFocusRef.current = { symbol, timeframe: tf, time: signal.time };
+        setAsset(symbol);
+        setTimeframe(tf);
+    };
+
+    const watchRows = useMemo(() => {
+        const value = (r: ScanResult | undefined, key: ScanSortKey): number | string => {
+            const signal = r?.signal;
+            switch (key) {
+                case 'symbol': return r?.symbol ?? '';
+                case 'timeframe': return r ? intervalToMs(r.timeframe) : 0;
+                case 'direction': return signal?.type ?? '';
+                case 'score': return signal?.score ?? -Infinity;
+                case 'po3': return signal?.po3Phase ?? '';
+                case 'age': return signal ? r!.barsAgo * intervalToMs(r!.timeframe) : Infinity;
+                case 'distance': return signal ? Math.abs(r!.lastClose - signal.price) / signal.price : Infinity;
+            }
+        };
+        const rows = watchlist.items.map(item => ({ item, result: scanResults[scanKey(item)] }));
+        const dir = scanSort.desc ? -1 : 1;
+        return rows.sort((a, b) => {
+            const va = value(a.result, scanSort.key), vb = value(b.result, scanSort.key);
+            return va === vb ? 0 : (va > vb ? 1 : -1) * dir;
+        });
+    }, [watchlist.items, scanResults, scanSort]);
+
+    // Top setups: the latest signal of every watched market and of the chart
+    const topSetups = useMemo(() => {
+        const latest = entries[entries.length - 1];
+        const setups: MarketSetup[] = latest && !replay ? [{ symbol: asset, timeframe, signal: latest }] : [];
+        for (const r of Object.values(scanResults) as ScanResult[]) {
+            if (r.signal && !(r.symbol === asset && r.timeframe === timeframe)) setups.push({ symbol: r.symbol, timeframe: r.timeframe, signal: r.signal });
+        }
+        return setups;
+    }, [entries, scanResults, asset, timeframe, replay]);
+
+    const trend = useMemo(() => getStructureTrend(structure), [structure]);
+
+    // NEW: Daily Stats Calculation
+    const dailyStats = useMemo(() => {
+        const groups: {[key: string]: EntrySignal[]} = {};
+        const validEntries = entries.filter(e => e.backtestResult === 'WIN' || e.backtestResult === 'LOSS');
+        
+        validEntries.forEach(e => {
+            const date = new Date((e.time as number) * 1000).toLocaleDateString();
+            if (!groups[date]) groups[date] = [];
+            groups[date].push(e);
+        });
+
+        // A loaded history range gets a breakdown of every day in it; the live window only the last 3
+        const sortedDates = Object.keys(groups).sort((a,b) => new Date(b).getTime() - new Date(a).getTime()).slice(0, historyRange ? undefined : 3);
+
+        return sortedDates.map(date => {
+            const dailyTrades = groups[date].sort((a,b) => (b.time as number) - (a.time as number)).slice(0, 10);
+            
+            let totalGain = 0;
+            let totalLoss = 0;
+            let netPnL = 0;
+
+            dailyTrades.forEach(t => {
+                const pnl = t.backtestPnL || 0;
+                if (pnl > 0) totalGain += pnl; else totalLoss -= pnl;
+                netPnL += pnl;
+            });
+
+            return { date, totalGain, totalLoss, netPnL, tradeCount: dailyTrades.length, trades: dailyTrades };
+        });
+    }, [entries, historyRange]);
+
+    // At most ~200 bars in the equity chart, whatever the number of trades
+    const equityBars = useMemo(() => {
+        const curve = backtestStats?.equityCurve || [];
+        const stride = Math.max(1, Math.ceil(curve.length / 200));
+        const points = curve.filter((_, i) => i % stride === 0 || i === curve.length - 1);
+        const min = Math.min(...points); const max = Math.max(...points);
+        return { points, min, range: max - min || 1 };
+    }, [backtestStats]);
+
+    return (
+        <div className="flex h-screen bg-[#131722] text-gray-300">
+            {alert && <ToastNotification message={alert.msg} type={alert.type} onClose={() => setAlert(null)} />}
+            {showTopSetups && <TopSetupsModal setups={topSetups} onSelect={focusSetup} onClose={() => setShowTopSetups(false)} />}
+            {clickedEntry && <EntryDetailModal entry={clickedEntry} onClose={() => setClickedEntry(null)} />}
+
+            <div className="w-64 bg-[#1e222d] border-r border-gray-800 flex flex-col">
+                <div className="p-4 border-b border-gray-800 font-bold text-xl text-blue-500">ICT Master</div>
                 <div className="p-4">
                     <button onClick={() => setShowTopSetups(true)} className="w-full bg-yellow-500 hover:bg-yellow-600 text-black font-bold p-3 rounded mb-4 flex items-center justify-center gap-2 animate-pulse">⚡ TOP 3 SETUPS</button>
-                    <div className="text-xs font-bold text-gray-500 mb-2">ASSETS</div>
-                    {['MGC (COMEX)', 'BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'EURUSDT'].map(sym => ( <button key={sym} onClick={() => setAsset(sym)} className={`w-full text-left p-2 text-sm rounded mb-1 ${asset === sym ? 'bg-blue-600 text-white' : 'hover:bg-gray-700'}`}>{sym}</button> ))}
+                    <div className="text-xs font-bold text-gray-500 mb-2">DATA SOURCE</div>
+                    <div className="grid grid-cols-3 gap-1 mb-2">{(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => ( <button key={id} onClick={() => selectProvider(id)} className={`p-1 text-xs rounded ${providerId === id ? 'bg-blue-600 text-white' : 'bg-gray-800'}`}>{PROVIDER_LABELS[id]}</button> ))}</div>
+                    {providerId === 'file' && <label className="block w-full text-center bg-gray-800 hover:bg-gray-700 p-2 rounded text-xs cursor-pointer mb-4">📂 LOAD CSV / JSON<input type="file" accept=".csv,.json,.txt" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) loadDataFile(f); e.target.value = ''; }} /></label>}
+                    <div className="text-xs font-bold text-gray-500 mb-2 mt-2">ASSETS</div>
+                    {symbols.map(({ symbol: sym }) => ( <button key={sym} onClick={() => setAsset(sym)} className={`w-full text-left p-2 text-sm rounded mb-1 ${asset === sym ? 'bg-blue-600 text-white' : 'hover:bg-gray-700'}`}>{sym}</button> ))}
+                    {symbols.length === 0 && <div className="text-xs text-gray-500 italic">No symbols available.</div>}
                 </div>
                 <div className="p-4">
                     <div className="text-xs font-bold text-gray-500 mb-2">TIMEFRAME</div>
@@ -917,27 +2027,74 @@ const App = () => {
                 <div className="p-4 border-t border-gray-800">
                     <div className="text-xs font-bold text-gray-500 mb-2">CONTROLS</div>
                     <div className="flex gap-2">
-                        <button onClick={fetchData} className="flex-1 bg-gray-700 hover:bg-gray-600 p-2 rounded text-xs text-white font-bold">↻ RELOAD</button>
+                        <button onClick={() => fetchData()} className="flex-1 bg-gray-700 hover:bg-gray-600 p-2 rounded text-xs text-white font-bold">↻ RELOAD</button>
                         <button onClick={() => window.location.reload()} className="flex-1 bg-red-900 hover:bg-red-800 p-2 rounded text-xs text-white font-bold">⚠ REBOOT</button>
                     </div>
+                    <button onClick={() => replay ? updateReplay(null) : setReplayPicking(p => !p)} className={`w-full mt-2 p-2 rounded text-xs font-bold ${replay || replayPicking ? 'bg-purple-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-white'}`}>{replay ? '⏹ EXIT REPLAY' : replayPicking ? 'CLICK A CANDLE…' : '⏪ BAR REPLAY'}</button>
                 </div>
-                <div className="mt-auto p-2 flex flex-col gap-1">{['SCANNER', 'TRADING', 'STATS', 'SETTINGS', 'BACKTEST'].map(tab => ( <button key={tab} onClick={() => setActiveTab(tab)} className={`p-3 text-center font-bold rounded ${activeTab === tab ? 'bg-gray-700 text-white' : 'hover:bg-gray-800 text-gray-500'}`}>{tab}</button> ))}</div>
+                <div className="mt-auto p-2 flex flex-col gap-1">{['SCANNER', 'TRADING', 'STATS', 'JOURNAL', 'SETTINGS', 'BACKTEST', 'OPTIMIZE', 'WATCHLIST', 'ALERTS'].map(tab => ( <button key={tab} onClick={() => setActiveTab(tab)} className={`p-3 text-center font-bold rounded ${activeTab === tab ? 'bg-gray-700 text-white' : 'hover:bg-gray-800 text-gray-500'}`}>{tab}</button> ))}</div>
             </div>
 
             <div className="flex-1 flex relative">
                  <div className="absolute top-0 left-0 right-0 bg-black/40 backdrop-blur-sm border-b border-gray-700 text-xs flex items-center h-8 px-4 z-30 overflow-hidden whitespace-nowrap">
+                    {replay
+                        ? <span className="mr-3 font-bold text-purple-400">● REPLAY</span>
+                        : <span className={`mr-3 font-bold ${streamStatus === 'LIVE' ? 'text-green-400' : 'text-yellow-400'}`}>● {streamStatus}</span>}
+                    {historyProgress && <span className="mr-3 font-bold text-blue-400">LOADING HISTORY {Math.min(100, Math.round((historyProgress.loaded / historyProgress.expected) * 100))}%</span>}
                     <span className="font-bold text-blue-400 mr-4">LIVE SIGNALS:</span>
                     <div className="flex gap-6 animate-marquee">{entries.slice(-5).reverse().map((e, i) => ( <span key={i} className={`font-mono ${e.score >= 7 ? 'text-yellow-400' : 'text-gray-400'}`}>{e.type} @ {e.price.toFixed(2)} (Score: {e.score})</span> ))}</div>
                 </div>
                 <div className="absolute top-8 bottom-0 left-0 right-0">
                     <ErrorBoundary>
                         <ChartComponent 
-                            data={data} obs={obs} fvgs={fvgs} structure={structure} entries={entries} overlays={overlays} colors={colors} onHoverEntry={setHoveredEntry} onClickEntry={setClickedEntry} onToggleOverlay={() => setOverlays(p => ({...p, killzones: !p.killzones}))} pdRange={pdRange} position={position}
-                            htfObs={htfObs} htfFvgs={htfFvgs}
+                            data={data} liveCandle={replay ? null : liveCandle} symbolInfo={symbolInfo} obs={obs} fvgs={fvgs} bprs={bprs} structure={structure} liquidity={liquidity} keyLevels={keyLevels} sessions={config.sessions} entries={entries} overlays={overlays} colors={colors} onHoverEntry={setHoveredEntry} onClickEntry={setClickedEntry} onClickTime={replayPicking ? startReplay : undefined} onToggleOverlay={() => setOverlays(p => ({...p, killzones: !p.killzones}))} dealingRange={dealingRange} positions={assetPositions}
+                            orders={assetOrders} onClickZone={activeTab === 'TRADING' && !replay ? zone => setZoneOrder({ zone, level: 'EDGE', tif: 'GTC' }) : undefined} onMoveOrder={replay ? undefined : moveOrder}
+                            htfObs={htfObs} htfFvgs={htfFvgs} focus={chartFocus} snapshotRef={snapshotRef}
+                            timeframe={timeframe} drawings={drawings} onSaveDrawing={storeDrawing} onDeleteDrawing={removeDrawing}
                         />
                     </ErrorBoundary>
                 </div>
 
+                {replay && (
+                    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 bg-[#1e222d] border border-purple-500 rounded shadow-xl px-4 py-2 flex items-center gap-3 text-xs">
+                        <span className="font-bold text-purple-400">REPLAY</span>
+                        <span className="font-mono text-gray-400">{new Date((replay.cursor as number) * 1000).toLocaleString()}</span>
+                        <button onClick={() => updateReplay({ ...replay, playing: !replay.playing })} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded font-bold text-white">{replay.playing ? '⏸' : '▶'}</button>
+                        <button onClick={() => stepReplay(1)} disabled={replay.playing} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded font-bold text-white disabled:opacity-40">STEP ⏭</button>
+                        <select value={replay.speed} onChange={e => updateReplay({ ...replay, speed: parseFloat(e.target.value) })} className="bg-gray-800 p-1 rounded">
+                            {[0.5, 1, 2, 5, 10].map(s => <option key={s} value={s}>{s} bar/s</option>)}
+                        </select>
+                        <span className="text-gray-500">{candlesRef.current.filter(c => c.time > replay.cursor).length} bars hidden</span>
+                        <button onClick={() => updateReplay(null)} className="text-gray-400 hover:text-white">✕</button>
+                    </div>
+                )}
+
+                {zoneOrder && (() => {
+                    const { type, price, stopLoss } = zoneOrderLevels(zoneOrder.zone, zoneOrder.level);
+                    const dp = symbolInfo?.pricePrecision ?? 2;
+                    const kind = currentPrice === undefined ? '' : (price - currentPrice) * (type === 'LONG' ? 1 : -1) < 0 ? 'LIMIT' : 'STOP';
+                    return (
+                        <div className="absolute top-12 left-1/2 -translate-x-1/2 z-40 bg-[#1e222d] border border-amber-500 rounded shadow-xl p-3 w-72 text-xs space-y-2">
+                            <div className="flex justify-between"><span className="font-bold">{zoneOrder.zone.label}</span><button onClick={() => setZoneOrder(null)} className="text-gray-400 hover:text-white">✕</button></div>
+                            <div className="grid grid-cols-2 gap-1 font-bold">
+                                {(['EDGE', 'MEAN'] as const).map(l => (
+                                    <button key={l} onClick={() => setZoneOrder({ ...zoneOrder, level: l })} className={`py-1 rounded ${zoneOrder.level === l ? 'bg-amber-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}>
+                                        {l === 'EDGE' ? 'Proximal edge' : zoneOrder.zone.kind === 'OB' ? 'Mean threshold' : 'CE (50%)'}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="text-gray-400 font-mono">{type} {kind} @ {price.toFixed(dp)} · SL {stopLoss.toFixed(dp)}{tpInput && ` · TP ${parseFloat(tpInput).toFixed(dp)}`}</div>
+                            <div className="flex gap-2">
+                                <select value={zoneOrder.tif} onChange={e => setZoneOrder({ ...zoneOrder, tif: e.target.value as 'GTC' | 'SESSION' })} className="flex-1 bg-gray-800 p-1 rounded border border-gray-600">
+                                    <option value="GTC">Good till cancelled</option>
+                                    <option value="SESSION">Until session end</option>
+                                </select>
+                                <button onClick={placeZoneOrder} className="bg-amber-600 hover:bg-amber-500 px-3 rounded font-bold text-white">PLACE</button>
+                            </div>
+                        </div>
+                    );
+                })()}
+
                 {hoveredEntry && !clickedEntry && (
                     <div className="absolute top-20 left-1/2 transform -translate-x-1/2 bg-black/90 p-4 rounded border border-blue-500 text-white z-50 max-w-sm pointer-events-none">
                         <div className="font-bold text-lg mb-2">{hoveredEntry.type} ENTRY {hoveredEntry.score >= 7 && '💎'}</div>
@@ -951,7 +2108,27 @@ const App = () => {
                     <div className="absolute top-12 left-4 bg-[#1e222d] p-4 rounded shadow-xl w-72 border border-gray-700 overflow-y-auto max-h-[500px]">
                         <div className="font-bold mb-4">ICT Scanner & Setups</div>
                         <div className="space-y-2">
-                            <div className="flex justify-between"><span>Current Trend:</span><span className={structure[structure.length-1]?.direction === 'Bullish' ? 'text-green-500' : 'text-red-500'}>{structure[structure.length-1]?.direction || 'Neutral'}</span></div>
+                            <div className="flex justify-between"><span>Current Trend:</span><span className={trend === 'Bullish' ? 'text-green-500' : trend === 'Bearish' ? 'text-red-500' : 'text-gray-400'}>{trend === 'NONE' ? 'Neutral' : trend}</span></div>
+                            <div className="mt-4">
+                                <div className="text-xs font-bold text-gray-500 mb-2">BIAS MATRIX</div>
+                                <table className="w-full text-xs">
+                                    <thead><tr className="text-gray-500 text-left"><th>TF</th><th>Structure</th><th>P/D</th><th className="text-right">OB</th><th className="text-right">FVG</th></tr></thead>
+                                    <tbody>
+                                        {Array.from(new Set([...config.timeframeStack, timeframe])).sort((a, b) => intervalToMs(b) - intervalToMs(a)).map(tf => {
+                                            const row = stackBias[tf];
+                                            return (
+                                                <tr key={tf} className={tf === timeframe ? 'bg-gray-800 font-bold' : ''}>
+                                                    <td className="py-0.5">{tf}</td>
+                                                    <td className={row?.trend === 'Bullish' ? 'text-green-400' : row?.trend === 'Bearish' ? 'text-red-400' : 'text-gray-500'}>{!row ? '—' : row.trend === 'NONE' ? 'Neutral' : row.trend}</td>
+                                                    <td className={row?.zone === 'PREMIUM' ? 'text-red-400' : row?.zone === 'DISCOUNT' ? 'text-green-400' : 'text-gray-500'} title={row?.rangeHigh !== undefined ? `${row.rangeLow?.toFixed(symbolInfo?.pricePrecision ?? 2)} – ${row.rangeHigh.toFixed(symbolInfo?.pricePrecision ?? 2)}` : undefined}>{row?.zone === 'PREMIUM' ? 'Premium' : row?.zone === 'DISCOUNT' ? 'Discount' : row?.zone === 'EQUILIBRIUM' ? 'EQ' : '—'}</td>
+                                                    <td className="text-right text-gray-400">{row?.liveObs ?? '—'}</td>
+                                                    <td className="text-right text-gray-400">{row?.liveFvgs ?? '—'}</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
                             <div className="mt-4">
                                 <div className="text-xs font-bold text-gray-500 mb-2">DETECTED SETUPS</div>
                                 {entries.slice(-5).reverse().map((entry, i) => (
@@ -966,40 +2143,127 @@ const App = () => {
                 )}
 
                 {activeTab === 'TRADING' && (
-                     <div className="absolute bottom-4 left-4 bg-[#1e222d] p-4 rounded shadow-xl w-72 border border-gray-700">
+                     <div className="absolute bottom-4 left-4 bg-[#1e222d] p-4 rounded shadow-xl w-80 border border-gray-700">
                         <div className="font-bold mb-2">Paper Trading</div>
-                        <div className="text-2xl font-mono mb-4">${balance.toFixed(2)}</div>
-                        {position ? (
-                            <div className="bg-blue-900/30 p-3 rounded border border-blue-500">
-                                <div className="flex justify-between mb-2"><span className="font-bold">{position.type}</span><span className={data[data.length-1]?.close > position.price ? 'text-green-400' : 'text-red-400'}>PnL: ${(position.type === 'LONG' ? (data[data.length-1]?.close - position.price) : (position.price - data[data.length-1]?.close)).toFixed(2)}</span></div>
-                                <button onClick={() => closeTrade(0)} className="w-full bg-red-600 text-white py-1 rounded text-xs">CLOSE POSITION</button>
-                            </div>
-                        ) : (
-                            <div className="space-y-2">
-                                <div className="flex gap-2">
-                                    <input type="number" placeholder="SL Price" value={slInput} onChange={e => setSlInput(e.target.value)} className="w-1/2 bg-gray-800 p-2 rounded text-xs text-white border border-gray-600" />
-                                    <input type="number" placeholder="TP Price" value={tpInput} onChange={e => setTpInput(e.target.value)} className="w-1/2 bg-gray-800 p-2 rounded text-xs text-white border border-gray-600" />
+                        {accounts.length > 0 && (
+                            <div className="mb-2 space-y-1">
+                                <div className="flex gap-1">
+                                    <select value={accountId ?? ''} onChange={e => switchAccount(e.target.value)} className="flex-1 bg-gray-800 p-1 rounded text-xs text-white border border-gray-600">
+                                        {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                                    </select>
+                                    <button onClick={addAccount} title="New account" className="bg-gray-700 hover:bg-gray-600 px-2 rounded text-xs">+</button>
                                 </div>
-                                <div className="grid grid-cols-2 gap-2">
-                                    <button onClick={() => enterTrade('LONG', data[data.length-1].close, parseFloat(slInput) || data[data.length-1].close*0.99, parseFloat(tpInput))} className="bg-green-600 hover:bg-green-700 py-3 rounded font-bold text-white">BUY / LONG</button>
-                                    <button onClick={() => enterTrade('SHORT', data[data.length-1].close, parseFloat(slInput) || data[data.length-1].close*1.01, parseFloat(tpInput))} className="bg-red-600 hover:bg-red-700 py-3 rounded font-bold text-white">SELL / SHORT</button>
+                                <div className="grid grid-cols-3 gap-1 text-[10px] font-bold">
+                                    <button onClick={resetActiveAccount} className="bg-gray-800 hover:bg-gray-700 py-1 rounded">RESET</button>
+                                    <button onClick={exportAccount} className="bg-gray-800 hover:bg-gray-700 py-1 rounded">EXPORT</button>
+                                    <label className="bg-gray-800 hover:bg-gray-700 py-1 rounded text-center cursor-pointer">IMPORT<input type="file" accept=".json" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) importAccount(f); e.target.value = ''; }} /></label>
                                 </div>
-                                <div className="flex items-center gap-2 mt-2 justify-center bg-gray-800 p-1 rounded"><input type="checkbox" checked={autoTrade} onChange={e => setAutoTrade(e.target.checked)} /><span className="text-xs">Auto-Trade A+ Setups</span></div>
                             </div>
                         )}
+                        <div className="flex justify-between items-end mb-4">
+                            <div className="text-2xl font-mono">${paper.balance.toFixed(2)}</div>
+                            {assetPositions.length > 0 && currentPrice !== undefined && (() => {
+                                const open = assetPositions.reduce((s, p) => s + unrealizedPnL(p, currentPrice), 0);
+                                return <div className={`text-xs font-mono ${open >= 0 ? 'text-green-400' : 'text-red-400'}`}>open {open >= 0 ? '+' : ''}{open.toFixed(2)}</div>;
+                            })()}
+                        </div>
+                        {paper.positions.length > 0 && (
+                            <div className="space-y-2 mb-3 max-h-64 overflow-y-auto">
+                                {paper.positions.map(p => {
+                                    const tradable = p.symbol === asset && currentPrice !== undefined && currentBar !== undefined;
+                                    const upnl = tradable ? unrealizedPnL(p, currentPrice!) : null;
+                                    return (
+                                        <div key={p.id} className="bg-blue-900/30 p-2 rounded border border-blue-500 text-xs">
+                                            <div className="flex justify-between mb-1">
+                                                <span className="font-bold">{p.type} {p.symbol} <span className="text-gray-400 font-normal">{+p.quantity.toPrecision(4)} @ {p.price.toFixed(symbolInfo?.pricePrecision ?? 2)}</span></span>
+                                                {upnl !== null && <span className={upnl >= 0 ? 'text-green-400' : 'text-red-400'}>{upnl >= 0 ? '+' : ''}{upnl.toFixed(2)} ({p.riskAmount > 0 ? ((upnl + p.realizedPnL) / p.riskAmount).toFixed(2) : '0'}R)</span>}
+                                            </div>
+                                            <div className="text-gray-400 mb-1">SL {p.stopLoss.toFixed(symbolInfo?.pricePrecision ?? 2)}{p.stopLoss === p.price && ' (BE)'}{p.trailR ? ' trailing' : ''} · TP {p.takeProfit.toFixed(symbolInfo?.pricePrecision ?? 2)}{p.realizedPnL !== -p.fees && ` · realized ${p.realizedPnL.toFixed(2)}`}</div>
+                                            {tradable && (
+                                                <div className="grid grid-cols-4 gap-1 font-bold">
+                                                    <button onClick={() => brokerAction(s => scaleIn(s, p.id, currentPrice!, p.quantity / 2, currentBar!.time, brokerConfig))} title="Add 50% at market" className="bg-gray-700 hover:bg-gray-600 py-1 rounded">+50%</button>
+                                                    <button onClick={() => brokerAction(s => closePosition(s, p.id, currentPrice!, currentBar!.time, brokerConfig, 0.5))} title="Close half at market" className="bg-gray-700 hover:bg-gray-600 py-1 rounded">½</button>
+                                                    <button onClick={() => brokerAction(s => moveToBreakeven(s, p.id))} title="Move stop to entry" className="bg-gray-700 hover:bg-gray-600 py-1 rounded">BE</button>
+                                                    <button onClick={() => brokerAction(s => closePosition(s, p.id, currentPrice!, currentBar!.time, brokerConfig))} title="Close at market" className="bg-red-600 hover:bg-red-500 text-white py-1 rounded">✕</button>
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                        {paper.orders.length > 0 && (
+                            <div className="space-y-1 mb-3 max-h-40 overflow-y-auto">
+                                <div className="text-[10px] font-bold text-gray-500">PENDING ORDERS</div>
+                                {paper.orders.map(o => (
+                                    <div key={o.id} className="flex justify-between items-center bg-amber-900/20 px-2 py-1 rounded border border-amber-600 text-xs">
+                                        <span title={o.source}><span className="font-bold">{o.type} {o.kind}</span> {o.symbol} @ {o.price.toFixed(symbolInfo?.pricePrecision ?? 2)} <span className="text-gray-400">SL {o.stopLoss.toFixed(symbolInfo?.pricePrecision ?? 2)}{o.timeInForce === 'SESSION' && ' · session'}</span></span>
+                                        <button onClick={() => brokerAction(s => cancelOrder(s, o.id))} title="Cancel order" className="text-gray-400 hover:text-red-400">✕</button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            <div className="flex gap-2">
+                                <input type="number" placeholder="SL Price" value={slInput} onChange={e => setSlInput(e.target.value)} className="w-1/2 bg-gray-800 p-2 rounded text-xs text-white border border-gray-600" />
+                                <input type="number" placeholder="TP Price (2R)" value={tpInput} onChange={e => setTpInput(e.target.value)} className="w-1/2 bg-gray-800 p-2 rounded text-xs text-white border border-gray-600" />
+                            </div>
+                            <div className="flex gap-2 text-xs">
+                                <select value={orderSettings.sizing.mode} onChange={e => setOrderSettings({ ...orderSettings, sizing: { ...orderSettings.sizing, mode: e.target.value as SizingMode } })} className="w-1/2 bg-gray-800 p-2 rounded text-white border border-gray-600">
+                                    <option value="RISK_PERCENT">Risk % of balance</option>
+                                    <option value="RISK_AMOUNT">Risk $</option>
+                                    <option value="QUANTITY">Fixed quantity</option>
+                                </select>
+                                <input type="number" min={0} step="any" value={orderSettings.sizing.value} onChange={e => setOrderSettings({ ...orderSettings, sizing: { ...orderSettings.sizing, value: parseFloat(e.target.value) || 0 } })} className="w-1/2 bg-gray-800 p-2 rounded text-white border border-gray-600" />
+                            </div>
+                            <div className="grid grid-cols-4 gap-1 text-[10px] text-gray-400">
+                                <label className="flex flex-col">Partial @R<input type="number" min={0} step={0.5} value={orderSettings.partialR} onChange={e => setOrderSettings({ ...orderSettings, partialR: parseFloat(e.target.value) || 0 })} className="bg-gray-800 p-1 rounded text-white text-xs" /></label>
+                                <label className="flex flex-col">Close %<input type="number" min={0} max={100} step={10} value={orderSettings.partialPct} onChange={e => setOrderSettings({ ...orderSettings, partialPct: parseFloat(e.target.value) || 0 })} className="bg-gray-800 p-1 rounded text-white text-xs" /></label>
+                                <label className="flex flex-col">BE @R<input type="number" min={0} step={0.5} value={orderSettings.breakevenAtR} onChange={e => setOrderSettings({ ...orderSettings, breakevenAtR: parseFloat(e.target.value) || 0 })} className="bg-gray-800 p-1 rounded text-white text-xs" /></label>
+                                <label className="flex flex-col">Trail R<input type="number" min={0} step={0.5} value={orderSettings.trailR} onChange={e => setOrderSettings({ ...orderSettings, trailR: parseFloat(e.target.value) || 0 })} className="bg-gray-800 p-1 rounded text-white text-xs" /></label>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <button onClick={() => currentPrice !== undefined && enterTrade('LONG', currentPrice, parseFloat(slInput) || currentPrice*0.99, parseFloat(tpInput))} className="bg-green-600 hover:bg-green-700 py-3 rounded font-bold text-white">BUY / LONG</button>
+                                <button onClick={() => currentPrice !== undefined && enterTrade('SHORT', currentPrice, parseFloat(slInput) || currentPrice*1.01, parseFloat(tpInput))} className="bg-red-600 hover:bg-red-700 py-3 rounded font-bold text-white">SELL / SHORT</button>
+                            </div>
+                            <div className="flex items-center gap-2 mt-2 justify-center bg-gray-800 p-1 rounded"><input type="checkbox" checked={autoTrade} onChange={e => setAutoTrade(e.target.checked)} /><span className="text-xs">Auto-Trade A+ Setups</span></div>
+                        </div>
                      </div>
                 )}
 
                 {activeTab === 'SETTINGS' && (
                     <div className="absolute inset-0 bg-[#131722] z-40 p-8 overflow-y-auto">
                         <div className="flex justify-between items-center mb-6 border-b border-gray-700 pb-4"><h1 className="text-2xl font-bold text-white">LuxAlgo Smart Money Concepts</h1><button onClick={() => setActiveTab('SCANNER')} className="text-gray-400 hover:text-white text-2xl">×</button></div>
-                        <div className="flex gap-4 mb-6 border-b border-gray-700">{['INPUTS', 'STYLE', 'VISIBILITY'].map(tab => ( <button key={tab} onClick={() => setSettingsTab(tab)} className={`pb-2 font-bold text-sm ${settingsTab === tab ? 'text-blue-500 border-b-2 border-blue-500' : 'text-gray-400 hover:text-white'}`}>{tab}</button> ))}</div>
+                        <div className="flex gap-4 mb-6 border-b border-gray-700">{['INPUTS', 'STRATEGY', 'SESSIONS', 'STYLE', 'VISIBILITY'].map(tab => ( <button key={tab} onClick={() => setSettingsTab(tab)} className={`pb-2 font-bold text-sm ${settingsTab === tab ? 'text-blue-500 border-b-2 border-blue-500' : 'text-gray-400 hover:text-white'}`}>{tab}</button> ))}</div>
                         <div className="bg-[#1e222d] rounded p-6 shadow-lg max-w-3xl mx-auto">
                             {settingsTab === 'INPUTS' && (
                                 <div className="space-y-6">
+                                    <div className="flex justify-between items-center"><label className="font-bold">Internal Structure Length</label><input type="number" value={config.internalLength} onChange={e => setConfig({...config, internalLength: parseInt(e.target.value)})} className="bg-gray-800 p-2 rounded w-20 text-center"/></div>
                                     <div className="flex justify-between items-center"><label className="font-bold">Swing Structure Length</label><input type="number" value={config.swingLength} onChange={e => setConfig({...config, swingLength: parseInt(e.target.value)})} className="bg-gray-800 p-2 rounded w-20 text-center"/></div>
                                     <div className="flex justify-between items-center"><label className="font-bold">Order Block Threshold</label><input type="number" step="0.1" value={config.obThreshold} onChange={e => setConfig({...config, obThreshold: parseFloat(e.target.value)})} className="bg-gray-800 p-2 rounded w-20 text-center"/></div>
+                                    <div className="flex justify-between items-center"><label className="font-bold">OB Relative Volume <span className="text-xs text-gray-500 font-normal">(displacement vs 20-bar mean, 0 = off)</span></label><input type="number" step="0.1" min="0" value={config.obVolumeThreshold} onChange={e => setConfig({...config, obVolumeThreshold: parseFloat(e.target.value) || 0})} className="bg-gray-800 p-2 rounded w-20 text-center"/></div>
+                                    <div className="flex justify-between items-center"><label className="font-bold">Order Block Timeframes</label>
+                                        <div className="flex gap-1">{['1m', '3m', '5m', '15m', '1h', '4h'].map(tf => (
+                                            <button key={tf} onClick={() => setConfig({...config, obTimeframes: config.obTimeframes.includes(tf) ? config.obTimeframes.filter(t => t !== tf) : [...config.obTimeframes, tf]})} className={`px-2 py-1 text-xs rounded ${config.obTimeframes.includes(tf) ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400'}`}>{tf}</button>
+                                        ))}</div>
+                                    </div>
+                                    <div className="flex justify-between items-center"><label className="font-bold">Timeframe Stack</label>
+                                        <div className="flex gap-1">{STACK_TIMEFRAMES.map(tf => (
+                                            <button key={tf} onClick={() => setConfig({...config, timeframeStack: config.timeframeStack.includes(tf) ? config.timeframeStack.filter(t => t !== tf) : STACK_TIMEFRAMES.filter(t => t === tf || config.timeframeStack.includes(t))})} className={`px-2 py-1 text-xs rounded ${config.timeframeStack.includes(tf) ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400'}`}>{tf}</button>
+                                        ))}</div>
+                                    </div>
+                                    <div className="flex justify-between items-center"><label className="font-bold">Order Blocks Shown (0 = All)</label><input type="number" min={0} value={config.obRetain} onChange={e => setConfig({...config, obRetain: parseInt(e.target.value) || 0})} className="bg-gray-800 p-2 rounded w-20 text-center"/></div>
+                                    <div className="flex justify-between items-center"><label className="font-bold">Order Block Invalidation</label>
+                                        <select value={config.obMitigation} onChange={e => setConfig({...config, obMitigation: e.target.value as ObMitigationRule})} className="bg-gray-800 p-2 rounded">
+                                            <option value="WICK">Wick through</option>
+                                            <option value="CLOSE">Close through</option>
+                                            <option value="MEAN">Close through 50% (mean threshold)</option>
+                                        </select>
+                                    </div>
                                     <div className="flex justify-between items-center"><label className="font-bold">FVG Extension (Candles)</label><input type="number" value={config.fvgExtend} onChange={e => setConfig({...config, fvgExtend: parseInt(e.target.value)})} className="bg-gray-800 p-2 rounded w-20 text-center"/></div>
+                                    <div className="flex justify-between items-center"><label className="font-bold">Equal Highs/Lows Tolerance (x Avg Range)</label><input type="number" step="0.05" value={config.liquidityTolerance} onChange={e => setConfig({...config, liquidityTolerance: parseFloat(e.target.value)})} className="bg-gray-800 p-2 rounded w-20 text-center"/></div>
+                                    <div className="flex justify-between items-center"><label className="font-bold">Min Entry Score</label><input type="number" value={config.strategy.minScore} onChange={e => setConfig(applyParams(config, { minScore: parseInt(e.target.value) || 0 }))} className="bg-gray-800 p-2 rounded w-20 text-center"/></div>
+                                    {fixedR && <div className="flex justify-between items-center"><label className="font-bold">Reward Ratio (R)</label><input type="number" step="0.5" min={0.5} value={fixedR.r} onChange={e => { const r = parseFloat(e.target.value); if (r > 0) setConfig(applyParams(config, { rewardRatio: r })); }} className="bg-gray-800 p-2 rounded w-20 text-center"/></div>}
                                 </div>
                             )}
                             {settingsTab === 'VISIBILITY' && (
@@ -1008,6 +2272,8 @@ const App = () => {
                                         <h3 className="text-blue-400 text-xs font-bold uppercase mb-2">Structure & Patterns</h3>
                                         <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Internal Structure (BOS/CHoCH)</span> <input type="checkbox" checked={overlays.internalStructure} onChange={() => setOverlays({...overlays, internalStructure: !overlays.internalStructure})} /></label>
                                         <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Swing Structure (HH/LL)</span> <input type="checkbox" checked={overlays.swingStructure} onChange={() => setOverlays({...overlays, swingStructure: !overlays.swingStructure})} /></label>
+                                        <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Liquidity (BSL/SSL, EQH/EQL, Sweeps)</span> <input type="checkbox" checked={overlays.liquidity} onChange={() => setOverlays({...overlays, liquidity: !overlays.liquidity})} /></label>
+                                        <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Key Levels (PDH/PDL, PWH/PWL, Opens)</span> <input type="checkbox" checked={overlays.keyLevels} onChange={() => setOverlays({...overlays, keyLevels: !overlays.keyLevels})} /></label>
                                         <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Order Blocks</span> <input type="checkbox" checked={overlays.obs} onChange={() => setOverlays({...overlays, obs: !overlays.obs})} /></label>
                                         <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Fair Value Gaps</span> <input type="checkbox" checked={overlays.fvgs} onChange={() => setOverlays({...overlays, fvgs: !overlays.fvgs})} /></label>
                                         <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Backtest Markers</span> <input type="checkbox" checked={overlays.backtestMarkers} onChange={() => setOverlays({...overlays, backtestMarkers: !overlays.backtestMarkers})} /></label>
@@ -1016,12 +2282,84 @@ const App = () => {
                                     <div className="space-y-3">
                                         <h3 className="text-blue-400 text-xs font-bold uppercase mb-2">Zones & Sessions</h3>
                                         <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Premium / Discount Zones</span> <input type="checkbox" checked={overlays.pdZones} onChange={() => setOverlays({...overlays, pdZones: !overlays.pdZones})} /></label>
+                                        <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>OTE &amp; Dealing Range Fibs</span> <input type="checkbox" checked={overlays.ote} onChange={() => setOverlays({...overlays, ote: !overlays.ote})} /></label>
+                                        <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Volume Pane</span> <input type="checkbox" checked={overlays.volume} onChange={() => setOverlays({...overlays, volume: !overlays.volume})} /></label>
+                                        <label className="flex items-center justify-between p-2 bg-gray-800 rounded hover:bg-gray-700"><span>Volume Profile (POC, Value Area)</span>
+                                            <select value={overlays.volumeProfile} onChange={e => setOverlays({...overlays, volumeProfile: e.target.value})} className="bg-gray-700 rounded px-1 text-xs">
+                                                <option value="OFF">Off</option><option value="VISIBLE">Visible range</option><option value="SESSION">Current session</option>
+                                            </select>
+                                        </label>
                                         <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Killzones (Sessions)</span> <input type="checkbox" checked={overlays.killzones} onChange={() => setOverlays({...overlays, killzones: !overlays.killzones})} /></label>
                                         <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Macro Times (Gold)</span> <input type="checkbox" checked={overlays.macro} onChange={() => setOverlays({...overlays, macro: !overlays.macro})} /></label>
                                         <label className="flex items-center justify-between p-2 bg-gray-800 rounded cursor-pointer hover:bg-gray-700"><span>Silver Bullet</span> <input type="checkbox" checked={overlays.silverBullet} onChange={() => setOverlays({...overlays, silverBullet: !overlays.silverBullet})} /></label>
                                     </div>
                                 </div>
                             )}
+                            {settingsTab === 'STRATEGY' && (
+                                <div className="space-y-4">
+                                    <div className="flex items-center gap-2">
+                                        <select value={config.strategy.id} onChange={e => { const next = strategyChoices.find(s => s.id === e.target.value); if (next) selectStrategy(next); }} className="flex-1 bg-gray-800 p-2 rounded">
+                                            {!strategyChoices.some(s => s.id === config.strategy.id) && <option value={config.strategy.id}>{config.strategy.name} (unsaved)</option>}
+                                            {strategyChoices.map(s => <option key={s.id} value={s.id}>{s.name}{s.id === DEFAULT_STRATEGY.id && !strategies.some(x => x.id === s.id) ? ' (built-in)' : ` v${s.version}`}</option>)}
+                                        </select>
+                                        <span className="text-xs text-gray-500">{config.strategy.updatedAt ? `saved ${new Date(config.strategy.updatedAt).toLocaleString()}` : 'not saved'}</span>
+                                    </div>
+                                    <textarea value={strategyDraft} onChange={e => setStrategyDraft(e.target.value)} spellCheck={false} className="w-full h-96 bg-black/40 p-3 rounded font-mono text-xs text-gray-200 border border-gray-700"/>
+                                    {strategyError && <div className="text-red-400 text-xs">{strategyError}</div>}
+                                    <div className="flex flex-wrap gap-2 text-xs">
+                                        <button onClick={applyDraft} className="bg-blue-600 hover:bg-blue-500 px-3 py-1 rounded font-bold">APPLY</button>
+                                        <button onClick={() => saveDraft(false)} className="bg-green-700 hover:bg-green-600 px-3 py-1 rounded font-bold">SAVE</button>
+                                        <button onClick={() => saveDraft(true)} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded">SAVE AS…</button>
+                                        <button onClick={exportStrategy} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded">EXPORT</button>
+                                        <label className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded cursor-pointer">IMPORT<input type="file" accept=".json" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) importStrategy(f); e.target.value = ''; }} /></label>
+                                        <button onClick={removeStrategy} disabled={!strategies.some(s => s.id === config.strategy.id)} className="bg-red-900 hover:bg-red-800 disabled:opacity-40 px-3 py-1 rounded ml-auto">DELETE</button>
+                                    </div>
+                                    <div className="text-xs text-gray-400 space-y-1">
+                                        <div className="font-bold text-gray-300">Conditions</div>
+                                        {(Object.keys(CONDITION_LABELS) as ConditionId[]).map(id => <div key={id}><span className="font-mono text-blue-400">{id}</span>: {CONDITION_LABELS[id]}</div>)}
+                                        <div className="pt-2">Stops: <span className="font-mono">SWING</span>, <span className="font-mono">ZONE</span> or <span className="font-mono">FURTHEST</span> plus a buffer (fraction of price). Targets, tried in order: <span className="font-mono">FIXED_R</span> (r), <span className="font-mono">LIQUIDITY</span> (minR), <span className="font-mono">KEY_LEVEL</span> (kinds, minR) or <span className="font-mono">DEALING_RANGE</span> (level, minR; 0 is the range's far end, -0.27 and -0.62 its extensions).</div>
+                                    </div>
+                                </div>
+                            )}
+                            {settingsTab === 'SESSIONS' && (
+                                <div className="space-y-6">
+                                    <div className="flex justify-between items-center">
+                                        <label className="font-bold">Timezone (IANA)</label>
+                                        <input value={tzInput} onChange={e => { setTzInput(e.target.value); if (isValidTimezone(e.target.value)) updateSessions({ timezone: e.target.value }); }} className={`bg-gray-800 p-2 rounded w-56 text-center border ${isValidTimezone(tzInput) ? 'border-transparent' : 'border-red-500'}`} placeholder="America/New_York"/>
+                                    </div>
+                                    <table className="w-full text-sm">
+                                        <thead><tr className="text-xs text-gray-500 text-left"><th className="p-1">On</th><th className="p-1">Session</th><th className="p-1">Start</th><th className="p-1">End</th><th className="p-1">Colour</th></tr></thead>
+                                        <tbody>
+                                            {config.sessions.sessions.map((session, k) => {
+                                                const edit = (patch: Partial<SessionDef>) => updateSessions({ sessions: config.sessions.sessions.map((s, j) => j === k ? { ...s, ...patch } : s) });
+                                                return (
+                                                    <tr key={session.id} className="border-t border-gray-800">
+                                                        <td className="p-1"><input type="checkbox" checked={session.enabled} onChange={() => edit({ enabled: !session.enabled })} /></td>
+                                                        <td className="p-1 font-bold">{session.name}</td>
+                                                        <td className="p-1"><input type="time" value={session.start} onChange={e => e.target.value && edit({ start: e.target.value })} className="bg-gray-800 p-1 rounded"/></td>
+                                                        <td className="p-1"><input type="time" value={session.end} onChange={e => e.target.value && edit({ end: e.target.value })} className="bg-gray-800 p-1 rounded"/></td>
+                                                        <td className="p-1"><input type="color" value={session.color} onChange={e => edit({ color: e.target.value })} className="h-7 w-12 rounded cursor-pointer"/></td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                    <div>
+                                        <div className="font-bold mb-2">Silver Bullet Windows</div>
+                                        <div className="flex gap-4 flex-wrap">
+                                            {config.sessions.silverBullets.map((w, k) => (
+                                                <div key={k} className="flex items-center gap-1 text-sm">
+                                                    <input type="time" value={w.start} onChange={e => e.target.value && updateSessions({ silverBullets: config.sessions.silverBullets.map((x, j) => j === k ? { ...x, start: e.target.value } : x) })} className="bg-gray-800 p-1 rounded"/>
+                                                    <span className="text-gray-500">–</span>
+                                                    <input type="time" value={w.end} onChange={e => e.target.value && updateSessions({ silverBullets: config.sessions.silverBullets.map((x, j) => j === k ? { ...x, end: e.target.value } : x) })} className="bg-gray-800 p-1 rounded"/>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="text-xs text-gray-500">Times are wall-clock in the timezone above and follow its daylight saving. Where windows overlap the one listed first wins; an end before the start runs past midnight.</div>
+                                    <button onClick={() => { setConfig({ ...config, sessions: DEFAULT_SESSIONS }); setTzInput(DEFAULT_SESSIONS.timezone); }} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded text-xs">RESET TO ICT DEFAULTS</button>
+                                </div>
+                            )}
                             {settingsTab === 'STYLE' && (
                                 <div className="grid grid-cols-2 gap-6">
                                     <div className="space-y-4">
@@ -1048,32 +2386,32 @@ const App = () => {
                         <div className="grid grid-cols-3 gap-4 mb-8">
                             <div className="bg-[#1e222d] p-6 rounded">
                                 <div className="text-gray-500">Total Trades</div>
-                                <div className="text-3xl font-bold">{tradeHistory.length}</div>
+                                <div className="text-3xl font-bold">{paper.tradeHistory.length}</div>
                             </div>
                             <div className="bg-[#1e222d] p-6 rounded">
                                 <div className="text-gray-500">Win Rate</div>
                                 <div className="text-3xl font-bold text-green-500">
-                                    {tradeHistory.length ? ((tradeHistory.filter(t => t.result === 'WIN').length / tradeHistory.length) * 100).toFixed(1) : 0}%
+                                    {paper.tradeHistory.length ? ((paper.tradeHistory.filter(t => t.result === 'WIN').length / paper.tradeHistory.length) * 100).toFixed(1) : 0}%
                                 </div>
                             </div>
                             <div className="bg-[#1e222d] p-6 rounded">
                                 <div className="text-gray-500">Net PnL</div>
-                                <div className={`text-3xl font-bold ${balance >= 100000 ? 'text-green-500' : 'text-red-500'}`}>
-                                    ${(balance - 100000).toFixed(2)}
+                                <div className={`text-3xl font-bold ${paper.balance >= (account?.startingBalance ?? DEFAULT_STARTING_BALANCE) ? 'text-green-500' : 'text-red-500'}`}>
+                                    ${(paper.balance - (account?.startingBalance ?? DEFAULT_STARTING_BALANCE)).toFixed(2)}
                                 </div>
                             </div>
                         </div>
 
                         {/* DAILY STATS BREAKDOWN */}
                         <div className="mb-8">
-                            <h3 className="text-xl font-bold mb-4 text-blue-400">Daily Analysis (Last 3 Days - Max 10 Trades/Day - 2R)</h3>
+                            <h3 className="text-xl font-bold mb-4 text-blue-400">Daily Analysis ({historyRange ? 'All Days in Loaded Range' : 'Last 3 Days'} - Max 10 Trades/Day - Net of Costs)</h3>
                             <div className="space-y-4">
                                 {dailyStats.map((day, i) => (
                                     <div key={i} className="bg-[#1e222d] rounded p-4 border border-gray-700">
                                         <div className="flex justify-between items-center mb-4 border-b border-gray-700 pb-2">
                                             <div className="font-bold text-lg">{day.date}</div>
                                             <div className={`text-xl font-mono font-bold ${day.netPnL >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                                                {day.netPnL >= 0 ? '+' : ''}${day.netPnL.toLocaleString()}
+                                                {day.netPnL >= 0 ? '+' : ''}${day.netPnL.toLocaleString(undefined, { maximumFractionDigits: 2 })}
                                             </div>
                                         </div>
                                         <div className="grid grid-cols-4 gap-4 text-sm mb-4">
@@ -1083,11 +2421,11 @@ const App = () => {
                                             </div>
                                             <div className="bg-gray-800 p-2 rounded">
                                                 <div className="text-gray-500 text-xs">Total Gain</div>
-                                                <div className="font-bold text-green-400">${day.totalGain.toLocaleString()}</div>
+                                                <div className="font-bold text-green-400">${day.totalGain.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
                                             </div>
                                             <div className="bg-gray-800 p-2 rounded">
                                                 <div className="text-gray-500 text-xs">Total Loss</div>
-                                                <div className="font-bold text-red-400">-${day.totalLoss.toLocaleString()}</div>
+                                                <div className="font-bold text-red-400">-${day.totalLoss.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
                                             </div>
                                             <div className="bg-gray-800 p-2 rounded">
                                                 <div className="text-gray-500 text-xs">Win Rate</div>
@@ -1109,19 +2447,33 @@ const App = () => {
                                     <tr>
                                         <th className="p-2">Time</th>
                                         <th className="p-2">Type</th>
+                                        <th className="p-2">Symbol</th>
+                                        <th className="p-2">Qty</th>
                                         <th className="p-2">Entry Price</th>
+                                        <th className="p-2">Exit Price</th>
+                                        <th className="p-2">Fills</th>
+                                        <th className="p-2">Fees</th>
                                         <th className="p-2">Result</th>
+                                        <th className="p-2">R</th>
                                         <th className="p-2">PnL</th>
+                                        <th className="p-2"></th>
                                     </tr>
                                 </thead>
                                 <tbody>
-                                    {tradeHistory.map((t, i) => (
+                                    {paper.tradeHistory.map((t, i) => (
                                         <tr key={i} className="border-b border-gray-700">
                                             <td className="p-2">{new Date(t.time as number * 1000).toLocaleTimeString()}</td>
                                             <td className={`p-2 font-bold ${t.type === 'LONG' ? 'text-green-400' : 'text-red-400'}`}>{t.type}</td>
+                                            <td className="p-2">{t.symbol ?? '—'}</td>
+                                            <td className="p-2 font-mono">{+enteredQuantity(t).toPrecision(4)}</td>
                                             <td className="p-2">{t.price.toFixed(2)}</td>
+                                            <td className="p-2">{t.exitPrice?.toFixed(2) ?? '—'}</td>
+                                            <td className="p-2 text-xs text-gray-400">{t.fills.filter(f => f.reason !== 'ENTRY').map(f => f.reason).join(', ')}</td>
+                                            <td className="p-2 font-mono">${t.fees.toFixed(2)}</td>
                                             <td className={`p-2 ${t.result === 'WIN' ? 'text-green-500' : 'text-red-500'}`}>{t.result}</td>
+                                            <td className="p-2 font-mono">{t.rMultiple !== undefined ? `${t.rMultiple.toFixed(2)}R` : '—'}</td>
                                             <td className="p-2 font-mono">${t.pnl?.toFixed(2)}</td>
+                                            <td className="p-2">{journal.some(e => e.id === t.id) && <button onClick={() => { setJournalId(t.id); setActiveTab('JOURNAL'); }} className="text-blue-400 hover:text-blue-300 text-xs font-bold">JOURNAL</button>}</td>
                                         </tr>
                                     ))}
                                 </tbody>
@@ -1130,12 +2482,153 @@ const App = () => {
                     </div>
                 )}
 
+                {activeTab === 'JOURNAL' && (
+                     <div className="absolute inset-0 bg-[#131722] z-40 p-8 overflow-y-auto">
+                        <div className="flex justify-between items-center mb-8">
+                            <h1 className="text-3xl font-bold">Trade Journal <span className="text-sm font-normal text-gray-500">({(() => { const s = summariseJournal(journalRows); return `${s.trades} trades · ${s.winRate.toFixed(1)}% win rate · ${s.netPnL >= 0 ? '+' : '-'}$${Math.abs(s.netPnL).toFixed(2)} · ${s.averageR.toFixed(2)}R average`; })()})</span></h1>
+                            <div className="flex gap-2">
+                                <button onClick={() => exportJournal('md')} disabled={journalRows.length === 0} className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 px-4 py-2 rounded text-sm">EXPORT MARKDOWN</button>
+                                <button onClick={() => exportJournal('html')} disabled={journalRows.length === 0} className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 px-4 py-2 rounded text-sm">EXPORT HTML</button>
+                                <button onClick={() => setActiveTab('SCANNER')} className="bg-gray-700 px-4 py-2 rounded hover:bg-gray-600">Close</button>
+                            </div>
+                        </div>
+
+                        <div className="bg-[#1e222d] rounded p-4 mb-8 flex items-center gap-3 text-sm">
+                            <input value={journalFilter.query} onChange={e => setJournalFilter({ ...journalFilter, query: e.target.value })} placeholder="Search symbol, notes, tags, confluences…" className="bg-gray-800 p-2 rounded flex-1"/>
+                            <select value={journalFilter.accountId} onChange={e => setJournalFilter({ ...journalFilter, accountId: e.target.value })} className="bg-gray-800 p-2 rounded"><option value="">All accounts</option>{accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}</select>
+                            <select value={journalFilter.result} onChange={e => setJournalFilter({ ...journalFilter, result: e.target.value as JournalFilter['result'] })} className="bg-gray-800 p-2 rounded">{['ALL', 'WIN', 'LOSS', 'OPEN'].map(r => <option key={r} value={r}>{r === 'ALL' ? 'Any result' : r}</option>)}</select>
+                            <select value={journalFilter.side} onChange={e => setJournalFilter({ ...journalFilter, side: e.target.value as JournalFilter['side'] })} className="bg-gray-800 p-2 rounded">{['ALL', 'LONG', 'SHORT'].map(r => <option key={r} value={r}>{r === 'ALL' ? 'Any side' : r}</option>)}</select>
+                            <select value={journalFilter.tag} onChange={e => setJournalFilter({ ...journalFilter, tag: e.target.value })} className="bg-gray-800 p-2 rounded"><option value="">Any tag</option>{journalTags(journal).map(t => <option key={t} value={t}>{t}</option>)}</select>
+                            <select value={journalFilter.mistake} onChange={e => setJournalFilter({ ...journalFilter, mistake: e.target.value as JournalMistake | '' })} className="bg-gray-800 p-2 rounded"><option value="">Any mistake</option>{(Object.keys(MISTAKE_LABELS) as JournalMistake[]).map(m => <option key={m} value={m}>{MISTAKE_LABELS[m]}</option>)}</select>
+                            <button onClick={() => setJournalFilter(DEFAULT_JOURNAL_FILTER)} className="text-gray-400 hover:text-white text-xs">RESET</button>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-8">
+                            <div className="bg-[#1e222d] rounded p-4 text-sm self-start">
+                                {journalRows.length === 0 && <div className="text-gray-500 p-2">{journal.length ? 'No entries match the filter.' : 'Paper trades are journaled automatically when they open.'}</div>}
+                                {journalRows.map(e => (
+                                    <div key={e.id} onClick={() => setJournalId(e.id)} className={`p-2 rounded cursor-pointer border-b border-gray-800 ${e.id === journalId ? 'bg-gray-700' : 'hover:bg-gray-800'}`}>
+                                        <div className="flex justify-between">
+                                            <span><span className={`font-bold ${e.type === 'LONG' ? 'text-green-400' : 'text-red-400'}`}>{e.type}</span> <span className="font-bold">{e.symbol}</span> <span className="font-mono text-xs text-gray-500">{e.timeframe}</span></span>
+                                            <span className={`font-mono ${e.result === 'WIN' ? 'text-green-500' : e.result === 'LOSS' ? 'text-red-500' : 'text-gray-400'}`}>{e.result ? `${e.rMultiple !== undefined ? `${e.rMultiple.toFixed(2)}R` : e.result}` : 'OPEN'}</span>
+                                        </div>
+                                        <div className="flex justify-between text-xs text-gray-500 mt-1">
+                                            <span>{new Date((e.entryTime as number) * 1000).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                                            <span>{e.tags.join(', ')}{e.mistakes.length > 0 && <span className="text-red-400"> · {e.mistakes.length} mistake{e.mistakes.length > 1 ? 's' : ''}</span>}</span>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="col-span-2 bg-[#1e222d] rounded p-6 text-sm">
+                                {!openJournalEntry ? <div className="text-gray-500">Select a trade to see its snapshots and notes.</div> : (() => {
+                                    const e = openJournalEntry;
+                                    return (
+                                        <>
+                                            <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2 flex justify-between items-center">
+                                                <span><span className={e.type === 'LONG' ? 'text-green-400' : 'text-red-400'}>{e.type}</span> {e.symbol} {e.timeframe} <span className="text-sm font-normal text-gray-500">{new Date((e.entryTime as number) * 1000).toLocaleString()}</span></span>
+                                                <button onClick={() => removeJournalEntry(e)} className="text-red-400 hover:text-red-300 text-xs font-bold">DELETE</button>
+                                            </h3>
+                                            <div className="grid grid-cols-4 gap-4 mb-4">
+                                                <div className="bg-gray-800 p-2 rounded"><div className="text-gray-500 text-xs">Entry / Qty</div><div className="font-mono">{e.entryPrice.toFixed(2)} × {+e.quantity.toPrecision(4)}</div></div>
+                                                <div className="bg-gray-800 p-2 rounded"><div className="text-gray-500 text-xs">SL / TP</div><div className="font-mono">{e.stopLoss.toFixed(2)} / {e.takeProfit.toFixed(2)}</div></div>
+                                                <div className="bg-gray-800 p-2 rounded"><div className="text-gray-500 text-xs">Exit</div><div className="font-mono">{e.exitPrice?.toFixed(2) ?? '—'}{e.exitTime !== undefined && <span className="text-xs text-gray-500"> {new Date((e.exitTime as number) * 1000).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>}</div></div>
+                                                <div className="bg-gray-800 p-2 rounded"><div className="text-gray-500 text-xs">Result</div><div className={`font-mono font-bold ${e.result === 'WIN' ? 'text-green-500' : e.result === 'LOSS' ? 'text-red-500' : ''}`}>{e.result ? `${(e.pnl ?? 0) >= 0 ? '+' : '-'}$${Math.abs(e.pnl ?? 0).toFixed(2)}${e.rMultiple !== undefined ? ` · ${e.rMultiple.toFixed(2)}R` : ''}` : 'OPEN'}</div></div>
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-4 mb-4">
+                                                {([['Entry', e.entrySnapshot], ['Exit', e.exitSnapshot]] as [string, string | undefined][]).map(([label, src]) => (
+                                                    <div key={label}>
+                                                        <div className="text-gray-500 text-xs mb-1">{label} snapshot</div>
+                                                        {src ? <img src={src} alt={`${label} snapshot`} className="w-full rounded border border-gray-700"/> : <div className="h-32 rounded border border-dashed border-gray-700 flex items-center justify-center text-gray-600 text-xs">{label === 'Exit' && !e.result ? 'Taken when the trade closes' : 'No snapshot (chart showed another market)'}</div>}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                            <div className="mb-4">
+                                                <div className="text-gray-500 text-xs mb-1">Confluences (score {e.score})</div>
+                                                {e.confluences.length ? <ul className="list-disc list-inside text-gray-300">{e.confluences.map(c => <li key={c}>{c}</li>)}</ul> : <div className="text-gray-600">Manual trade, no signal.</div>}
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-6">
+                                                <div>
+                                                    <div className="text-gray-500 text-xs mb-1">Notes</div>
+                                                    <textarea value={e.notes} onChange={ev => editJournalEntry(e.id, { notes: ev.target.value }, false)} onBlur={() => storeJournalEntry(e)} rows={8} placeholder="Why you took it, how you managed it, what you'd do differently…" className="w-full bg-gray-800 p-2 rounded"/>
+                                                    <div className="text-gray-500 text-xs mt-3 mb-1">Tags</div>
+                                                    <div className="flex flex-wrap gap-1 mb-2">{e.tags.map(t => (
+                                                        <span key={t} className="bg-gray-800 px-2 py-1 rounded text-xs flex items-center gap-1">{t}<button onClick={() => editJournalEntry(e.id, { tags: e.tags.filter(x => x !== t) })} className="text-gray-500 hover:text-red-400">✕</button></span>
+                                                    ))}</div>
+                                                    <div className="flex gap-2">
+                                                        <input value={tagInput} onChange={ev => setTagInput(ev.target.value)} onKeyDown={ev => { if (ev.key === 'Enter') addJournalTag(e, tagInput); }} list="journal-tags" placeholder="Add a tag" className="bg-gray-800 p-2 rounded flex-1"/>
+                                                        <datalist id="journal-tags">{Array.from(new Set([...SUGGESTED_TAGS, ...journalTags(journal)])).map(t => <option key={t} value={t}/>)}</datalist>
+                                                        <button onClick={() => addJournalTag(e, tagInput)} className="bg-gray-700 hover:bg-gray-600 px-3 rounded">ADD</button>
+                                                    </div>
+                                                </div>
+                                                <div>
+                                                    <div className="text-gray-500 text-xs mb-1">Mistakes</div>
+                                                    {(Object.keys(MISTAKE_LABELS) as JournalMistake[]).map(m => (
+                                                        <label key={m} className="flex items-center gap-2 py-1 cursor-pointer">
+                                                            <input type="checkbox" checked={e.mistakes.includes(m)} onChange={() => editJournalEntry(e.id, { mistakes: e.mistakes.includes(m) ? e.mistakes.filter(x => x !== m) : [...e.mistakes, m] })} />
+                                                            <span className={e.mistakes.includes(m) ? 'text-red-400' : ''}>{MISTAKE_LABELS[m]}</span>
+                                                        </label>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        </>
+                                    );
+                                })()}
+                            </div>
+                        </div>
+                     </div>
+                )}
+
                 {activeTab === 'BACKTEST' && backtestStats && (
                      <div className="absolute inset-0 bg-[#131722] z-40 p-8 overflow-y-auto">
                         <div className="flex justify-between items-center mb-8">
-                            <h1 className="text-3xl font-bold">Backtesting Engine Results <span className="text-sm font-normal text-gray-500">(On Loaded 500 Candles)</span></h1>
+                            <h1 className="text-3xl font-bold">Backtesting Engine Results <span className="text-sm font-normal text-gray-500">(On {data.length.toLocaleString()} Loaded Candles{data.length > 0 && `: ${new Date((data[0].time as number) * 1000).toLocaleDateString()} – ${new Date((data[data.length - 1].time as number) * 1000).toLocaleDateString()}`})</span></h1>
                             <button onClick={() => setActiveTab('SCANNER')} className="bg-gray-700 px-4 py-2 rounded hover:bg-gray-600">Close</button>
                         </div>
+
+                        <div className="bg-[#1e222d] rounded p-4 mb-8 flex items-center gap-4 text-sm">
+                            <span className="font-bold text-blue-400">HISTORY RANGE</span>
+                            <input type="date" value={rangeInput.from} onChange={e => setRangeInput({ ...rangeInput, from: e.target.value })} className="bg-gray-800 p-2 rounded text-white" />
+                            <span className="text-gray-500">→</span>
+                            <input type="date" value={rangeInput.to} onChange={e => setRangeInput({ ...rangeInput, to: e.target.value })} className="bg-gray-800 p-2 rounded text-white" />
+                            <button onClick={loadHistory} disabled={!!historyProgress} className="bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white px-4 py-2 rounded font-bold">LOAD {timeframe} HISTORY</button>
+                            {historyRange && !historyProgress && <button onClick={() => setHistoryRange(null)} className="bg-gray-700 hover:bg-gray-600 px-4 py-2 rounded">BACK TO LIVE ({HISTORY_LIMIT} BARS)</button>}
+                            {historyProgress && (
+                                <div className="flex-1 flex items-center gap-3">
+                                    <div className="flex-1 h-2 bg-gray-800 rounded overflow-hidden"><div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.min(100, (historyProgress.loaded / historyProgress.expected) * 100)}%` }} /></div>
+                                    <span className="font-mono text-xs text-gray-400">{historyProgress.loaded.toLocaleString()} / ~{historyProgress.expected.toLocaleString()} ({historyProgress.pages} pages)</span>
+                                    <button onClick={() => setHistoryRange(null)} className="text-red-400 hover:text-red-300 text-xs font-bold">CANCEL</button>
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="bg-[#1e222d] rounded p-4 mb-8 text-sm">
+                            <div className="font-bold text-blue-400 mb-3">EXECUTION MODEL</div>
+                            <div className="grid grid-cols-8 gap-3 items-end">
+                                {([
+                                    ['Starting Balance', 'startingBalance', 1000],
+                                    ['Risk / Trade (%)', 'riskPercent', 0.1],
+                                    ['Fee Rate (per side)', 'feeRate', 0.0001],
+                                    ['Spread', 'spread', execution.tickSize],
+                                    ['Slippage (ticks)', 'slippageTicks', 1],
+                                    ['Tick Size', 'tickSize', execution.tickSize],
+                                    ['Max Bars in Trade (0 = off)', 'maxBarsInTrade', 1]
+                                ] as [string, keyof ExecutionConfig, number][]).map(([label, key, step]) => (
+                                    <label key={key} className="flex flex-col gap-1">
+                                        <span className="text-gray-500 text-xs">{label}</span>
+                                        <input type="number" min={0} step={step} value={execution[key] as number} onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 0) setExecution({ ...execution, [key]: v }); }} className="bg-gray-800 p-2 rounded text-white font-mono" />
+                                    </label>
+                                ))}
+                                <label className="flex flex-col gap-1">
+                                    <span className="text-gray-500 text-xs">SL + TP Same Candle</span>
+                                    <select value={execution.sameBarResolution} onChange={e => setExecution({ ...execution, sameBarResolution: e.target.value as ExecutionConfig['sameBarResolution'] })} className="bg-gray-800 p-2 rounded text-white">
+                                        <option value="STOP_FIRST">Stop First</option>
+                                        <option value="TARGET_FIRST">Target First</option>
+                                        <option value="LOWER_TIMEFRAME" disabled={!getLtf(timeframe)}>Lower Timeframe{getLtf(timeframe) ? ` (${getLtf(timeframe)})` : ''}</option>
+                                    </select>
+                                </label>
+                            </div>
+                        </div>
                         
                         <div className="grid grid-cols-4 gap-4 mb-8">
                             <div className="bg-[#1e222d] p-6 rounded border-l-4 border-blue-500">
@@ -1155,16 +2648,40 @@ const App = () => {
                                 <div className="text-3xl font-bold mt-1 text-red-400">${backtestStats.maxDrawdown.toFixed(2)}</div>
                             </div>
                         </div>
+
+                        <div className="grid grid-cols-6 gap-4 mb-8">
+                            <div className="bg-[#1e222d] p-4 rounded">
+                                <div className="text-gray-500 text-xs uppercase tracking-wide">Gross PnL</div>
+                                <div className={`text-xl font-bold mt-1 ${backtestStats.grossPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>${backtestStats.grossPnL.toFixed(2)}</div>
+                            </div>
+                            <div className="bg-[#1e222d] p-4 rounded">
+                                <div className="text-gray-500 text-xs uppercase tracking-wide">Fees</div>
+                                <div className="text-xl font-bold mt-1 text-orange-400">-${backtestStats.totalFees.toFixed(2)}</div>
+                            </div>
+                            <div className="bg-[#1e222d] p-4 rounded">
+                                <div className="text-gray-500 text-xs uppercase tracking-wide">Spread + Slippage</div>
+                                <div className="text-xl font-bold mt-1 text-orange-400">-${backtestStats.executionCost.toFixed(2)}</div>
+                            </div>
+                            <div className="bg-[#1e222d] p-4 rounded">
+                                <div className="text-gray-500 text-xs uppercase tracking-wide">Ending Balance</div>
+                                <div className="text-xl font-bold mt-1">${backtestStats.endingBalance.toFixed(2)} <span className={`text-xs ${backtestStats.endingBalance >= backtestStats.startingBalance ? 'text-green-400' : 'text-red-400'}`}>({((backtestStats.endingBalance / backtestStats.startingBalance - 1) * 100).toFixed(2)}%)</span></div>
+                            </div>
+                            <div className="bg-[#1e222d] p-4 rounded">
+                                <div className="text-gray-500 text-xs uppercase tracking-wide">Time Exits</div>
+                                <div className="text-xl font-bold mt-1">{backtestStats.timeExits}</div>
+                            </div>
+                            <div className="bg-[#1e222d] p-4 rounded">
+                                <div className="text-gray-500 text-xs uppercase tracking-wide">Unresolved Same-Candle</div>
+                                <div className={`text-xl font-bold mt-1 ${backtestStats.sameBarConflicts > 0 ? 'text-yellow-400' : ''}`}>{backtestStats.sameBarConflicts}</div>
+                            </div>
+                        </div>
                         
                         <div className="grid grid-cols-3 gap-8">
                             <div className="col-span-2 bg-[#1e222d] rounded p-6">
                                 <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2">Equity Curve (Simulated)</h3>
                                 <div className="h-64 flex items-end gap-1 border-b border-l border-gray-700 p-2">
-                                    {backtestStats.equityCurve.map((val, i) => {
-                                        const min = Math.min(...backtestStats.equityCurve);
-                                        const max = Math.max(...backtestStats.equityCurve);
-                                        const range = max - min || 1;
-                                        const height = ((val - min) / range) * 100;
+                                    {equityBars.points.map((val, i) => {
+                                        const height = ((val - equityBars.min) / equityBars.range) * 100;
                                         return (
                                             <div key={i} className="flex-1 bg-blue-600 hover:bg-blue-400 transition-all relative group" style={{ height: `${height}%` }}>
                                                 <div className="hidden group-hover:block absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-black text-white text-xs p-1 rounded">${val.toFixed(0)}</div>
@@ -1184,7 +2701,7 @@ const App = () => {
                                             </div>
                                             <div className="flex justify-between text-xs text-gray-400">
                                                 <span>{new Date(e.time as number * 1000).toLocaleTimeString()}</span>
-                                                <span className="font-mono">${e.backtestPnL}</span>
+                                                <span className="font-mono">{e.backtestExitReason} ${e.backtestPnL?.toFixed(2)}</span>
                                             </div>
                                         </div>
                                     ))}
@@ -1193,7 +2710,7 @@ const App = () => {
                         </div>
                         <div className="mt-8 text-center">
                              <p className="text-gray-500 text-sm italic mb-4">
-                                 * Backtest based on strict 2R logic (Risk $1000, Reward $2000) on the currently loaded 500 candles.
+                                 * Backtest risks {execution.riskPercent}% of the running balance per trade on the currently loaded {data.length.toLocaleString()} candles. Fills include spread, slippage and fees; stops gap through, targets do not.
                                  <br/>Enable "Backtest Markers" in Visibility Settings to see exact trade locations on the chart.
                              </p>
                              <button onClick={() => { setOverlays({...overlays, backtestMarkers: true}); setActiveTab('SCANNER'); }} className="bg-blue-600 hover:bg-blue-500 text-white px-6 py-3 rounded font-bold">
@@ -1202,6 +2719,349 @@ const App = () => {
                         </div>
                      </div>
                 )}
+
+                {activeTab === 'OPTIMIZE' && (
+                     <div className="absolute inset-0 bg-[#131722] z-40 p-8 overflow-y-auto">
+                        <div className="flex justify-between items-center mb-8">
+                            <h1 className="text-3xl font-bold">Parameter Optimizer <span className="text-sm font-normal text-gray-500">(On {data.length.toLocaleString()} Loaded {timeframe} Candles - load a history range in BACKTEST for more)</span></h1>
+                            <button onClick={() => setActiveTab('SCANNER')} className="bg-gray-700 px-4 py-2 rounded hover:bg-gray-600">Close</button>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-8 mb-8">
+                            <div className="col-span-2 bg-[#1e222d] rounded p-6">
+                                <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2">Search Space</h3>
+                                <div className="grid grid-cols-4 gap-3 text-xs text-gray-500 mb-2"><span>Parameter</span><span>Min</span><span>Max</span><span>Step</span></div>
+                                {optSpace.map((r, i) => (
+                                    <div key={r.key} className="grid grid-cols-4 gap-3 mb-2 items-center">
+                                        <span className="font-bold text-sm">{r.label}</span>
+                                        {(['min', 'max', 'step'] as const).map(field => (
+                                            <input key={field} type="number" step="any" value={r[field]} onChange={e => { const v = parseFloat(e.target.value); if (!isNaN(v)) setOptSpace(optSpace.map((x, j) => j === i ? { ...x, [field]: v } : x)); }} className="bg-gray-800 p-2 rounded text-white font-mono" />
+                                        ))}
+                                    </div>
+                                ))}
+                                <div className="text-xs text-gray-500 mt-3">Full grid: {gridSize(optSpace).toLocaleString()} combinations. Other settings come from SETTINGS and the BACKTEST execution model.</div>
+                            </div>
+                            <div className="bg-[#1e222d] rounded p-6 space-y-3 text-sm">
+                                <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2">Run</h3>
+                                <div className="flex justify-between items-center"><label>Method</label><select value={optSettings.method} onChange={e => setOptSettings({ ...optSettings, method: e.target.value as OptimizerOptions['method'] })} className="bg-gray-800 p-2 rounded"><option value="RANDOM">Random Sample</option><option value="GRID">Full Grid</option></select></div>
+                                {optSettings.method === 'RANDOM' && <div className="flex justify-between items-center"><label>Samples</label><input type="number" min={1} value={optSettings.samples} onChange={e => setOptSettings({ ...optSettings, samples: Math.max(1, parseInt(e.target.value) || 1) })} className="bg-gray-800 p-2 rounded w-24 text-center"/></div>}
+                                <div className="flex justify-between items-center"><label>Objective</label><select value={optSettings.objective} onChange={e => setOptSettings({ ...optSettings, objective: e.target.value as Objective })} className="bg-gray-800 p-2 rounded"><option value="netPnL">Net PnL</option><option value="profitFactor">Profit Factor</option><option value="winRate">Win Rate</option><option value="returnToDrawdown">Net PnL / Max DD</option></select></div>
+                                <div className="flex justify-between items-center"><label>Min Trades (In-Sample)</label><input type="number" min={0} value={optSettings.minTrades} onChange={e => setOptSettings({ ...optSettings, minTrades: Math.max(0, parseInt(e.target.value) || 0) })} className="bg-gray-800 p-2 rounded w-24 text-center"/></div>
+                                <div className="flex justify-between items-center"><label>In-Sample Share</label><input type="number" min={0.1} max={0.9} step={0.05} value={optSettings.inSampleRatio} onChange={e => { const v = parseFloat(e.target.value); if (v >= 0.1 && v <= 0.9) setOptSettings({ ...optSettings, inSampleRatio: v }); }} className="bg-gray-800 p-2 rounded w-24 text-center"/></div>
+                                <div className="flex justify-between items-center"><label>Walk-Forward Folds</label><input type="number" min={1} value={optSettings.folds} onChange={e => setOptSettings({ ...optSettings, folds: Math.max(1, parseInt(e.target.value) || 1) })} className="bg-gray-800 p-2 rounded w-24 text-center"/></div>
+                                {optProgress ? (
+                                    <div className="flex items-center gap-3 pt-2">
+                                        <div className="flex-1 h-2 bg-gray-800 rounded overflow-hidden"><div className="h-full bg-blue-500 transition-all" style={{ width: `${optProgress.total ? (optProgress.done / optProgress.total) * 100 : 0}%` }} /></div>
+                                        <span className="font-mono text-xs text-gray-400">{optProgress.done} / {optProgress.total}</span>
+                                        <button onClick={() => optAbortRef.current?.abort()} className="text-red-400 hover:text-red-300 text-xs font-bold">CANCEL</button>
+                                    </div>
+                                ) : (
+                                    <button onClick={runOptimization} disabled={data.length < 200} className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white py-3 rounded font-bold">RUN OPTIMIZER</button>
+                                )}
+                            </div>
+                        </div>
+
+                        {optReport && (
+                            <>
+                                <div className="grid grid-cols-3 gap-4 mb-8">
+                                    <div className="bg-[#1e222d] p-6 rounded border-l-4 border-blue-500">
+                                        <div className="text-gray-500 text-xs uppercase tracking-wide">Candidates Evaluated</div>
+                                        <div className="text-3xl font-bold mt-1">{optReport.evaluated}</div>
+                                    </div>
+                                    <div className="bg-[#1e222d] p-6 rounded border-l-4 border-purple-500">
+                                        <div className="text-gray-500 text-xs uppercase tracking-wide">Walk-Forward Efficiency</div>
+                                        <div className={`text-3xl font-bold mt-1 ${optReport.efficiency === null ? 'text-gray-500' : optReport.efficiency >= 0.5 ? 'text-green-400' : 'text-red-400'}`}>{optReport.efficiency === null ? '—' : `${(optReport.efficiency * 100).toFixed(0)}%`}</div>
+                                        <div className="text-xs text-gray-500 mt-1">Out-of-sample PnL per bar vs in-sample. Below 50% suggests overfitting.</div>
+                                    </div>
+                                    <div className="bg-[#1e222d] p-6 rounded border-l-4 border-green-500">
+                                        <div className="text-gray-500 text-xs uppercase tracking-wide">Walk-Forward Net PnL (Out-of-Sample)</div>
+                                        {(() => { const pnl = optReport.folds.reduce((s, f) => s + f.outOfSample.netPnL, 0); return <div className={`text-3xl font-bold mt-1 ${pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>${pnl.toFixed(2)}</div>; })()}
+                                    </div>
+                                </div>
+
+                                <div className="bg-[#1e222d] rounded p-6 mb-8">
+                                    <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2">Ranked Results <span className="text-sm font-normal text-gray-500">(Top 20 by in-sample {optSettings.objective}; first {(optSettings.inSampleRatio * 100).toFixed(0)}% in-sample, rest out-of-sample)</span></h3>
+                                    <table className="w-full text-sm">
+                                        <thead><tr className="text-gray-500 text-xs text-left">
+                                            <th className="p-2">#</th>
+                                            {optSpace.map(r => <th key={r.key} className="p-2">{r.label}</th>)}
+                                            <th className="p-2">IS Trades</th><th className="p-2">IS Win %</th><th className="p-2">IS PF</th><th className="p-2">IS Net</th>
+                                            <th className="p-2">OOS Trades</th><th className="p-2">OOS Win %</th><th className="p-2">OOS PF</th><th className="p-2">OOS Net</th><th className="p-2"></th>
+                                        </tr></thead>
+                                        <tbody>
+                                            {optReport.ranked.slice(0, 20).map((r, i) => (
+                                                <tr key={i} className="border-t border-gray-800 font-mono">
+                                                    <td className="p-2 text-gray-500">{i + 1}</td>
+                                                    {optSpace.map(p => <td key={p.key} className="p-2">{r.params[p.key]}</td>)}
+                                                    <td className={`p-2 ${r.inSample.totalTrades < optSettings.minTrades ? 'text-gray-600' : ''}`}>{r.inSample.totalTrades}</td>
+                                                    <td className="p-2">{r.inSample.winRate.toFixed(1)}</td>
+                                                    <td className="p-2">{r.inSample.profitFactor.toFixed(2)}</td>
+                                                    <td className={`p-2 ${r.inSample.netPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>{r.inSample.netPnL.toFixed(0)}</td>
+                                                    <td className="p-2">{r.outOfSample.totalTrades}</td>
+                                                    <td className="p-2">{r.outOfSample.winRate.toFixed(1)}</td>
+                                                    <td className="p-2">{r.outOfSample.profitFactor.toFixed(2)}</td>
+                                                    <td className={`p-2 ${r.outOfSample.netPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>{r.outOfSample.netPnL.toFixed(0)}</td>
+                                                    <td className="p-2"><button onClick={() => { setConfig(applyParams(config, r.params)); setAlert({ msg: 'Parameters applied', type: 'success' }); }} className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-xs font-sans">APPLY</button></td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                <div className="bg-[#1e222d] rounded p-6">
+                                    <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2">Walk-Forward Folds</h3>
+                                    {optReport.folds.length === 0 ? <div className="text-gray-500 text-sm">Not enough candles for {optSettings.folds} folds.</div> : (
+                                        <table className="w-full text-sm">
+                                            <thead><tr className="text-gray-500 text-xs text-left">
+                                                <th className="p-2">Fold</th><th className="p-2">In-Sample</th><th className="p-2">Out-of-Sample</th><th className="p-2">Best Parameters</th>
+                                                <th className="p-2">IS Trades</th><th className="p-2">IS Net</th><th className="p-2">OOS Trades</th><th className="p-2">OOS Net</th>
+                                            </tr></thead>
+                                            <tbody>
+                                                {optReport.folds.map((f, i) => {
+                                                    const day = (index: number) => new Date((data[Math.min(index, data.length - 1)].time as number) * 1000).toLocaleDateString();
+                                                    return (
+                                                        <tr key={i} className="border-t border-gray-800 font-mono">
+                                                            <td className="p-2 text-gray-500">{i + 1}</td>
+                                                            <td className="p-2">{day(f.isStart)} – {day(f.isEnd - 1)}</td>
+                                                            <td className="p-2">{day(f.isEnd)} – {day(f.oosEnd - 1)}</td>
+                                                            <td className="p-2 text-xs">{optSpace.map(p => `${p.label}: ${f.best[p.key]}`).join(', ')}</td>
+                                                            <td className="p-2">{f.inSample.totalTrades}</td>
+                                                            <td className={`p-2 ${f.inSample.netPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>{f.inSample.netPnL.toFixed(0)}</td>
+                                                            <td className="p-2">{f.outOfSample.totalTrades}</td>
+                                                            <td className={`p-2 ${f.outOfSample.netPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>{f.outOfSample.netPnL.toFixed(0)}</td>
+                                                        </tr>
+                                                    );
+                                                })}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </div>
+                            </>
+                        )}
+                     </div>
+                )}
+                {activeTab === 'WATCHLIST' && (
+                     <div className="absolute inset-0 bg-[#131722] z-40 p-8 overflow-y-auto">
+                        <div className="flex justify-between items-center mb-8">
+                            <h1 className="text-3xl font-bold">Watchlist Scanner <span className="text-sm font-normal text-gray-500">({watchlist.items.length} markets from {provider.name}, current settings and strategy)</span></h1>
+                            <button onClick={() => setActiveTab('SCANNER')} className="bg-gray-700 px-4 py-2 rounded hover:bg-gray-600">Close</button>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-8 mb-8">
+                            <div className="col-span-2 bg-[#1e222d] rounded p-6 text-sm">
+                                <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2">Markets</h3>
+                                <div className="flex gap-2 mb-4">
+                                    <select value={watchInput.symbol || asset} onChange={e => setWatchInput({ ...watchInput, symbol: e.target.value })} className="bg-gray-800 p-2 rounded flex-1">{symbols.map(({ symbol: sym }) => <option key={sym} value={sym}>{sym}</option>)}</select>
+                                    <select value={watchInput.timeframe} onChange={e => setWatchInput({ ...watchInput, timeframe: e.target.value })} className="bg-gray-800 p-2 rounded">{['1m', '3m', '5m', '15m', '1h', '4h'].map(tf => <option key={tf} value={tf}>{tf}</option>)}</select>
+                                    <button onClick={addWatchItem} disabled={symbols.length === 0} className="bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white px-4 rounded font-bold">ADD</button>
+                                </div>
+                                <div className="flex flex-wrap gap-2">{watchlist.items.map(item => (
+                                    <span key={scanKey(item)} className={`bg-gray-800 px-2 py-1 rounded font-mono text-xs flex items-center gap-2 ${symbols.some(s => s.symbol === item.symbol) ? '' : 'text-gray-600'}`}>
+                                        {item.symbol} {item.timeframe}
+                                        <button onClick={() => updateWatchlist({ items: watchlist.items.filter(i => scanKey(i) !== scanKey(item)) })} className="text-gray-500 hover:text-red-400">✕</button>
+                                    </span>
+                                ))}</div>
+                                {watchlist.items.length === 0 && <div className="text-gray-500">The watchlist is empty.</div>}
+                            </div>
+                            <div className="bg-[#1e222d] rounded p-6 space-y-3 text-sm">
+                                <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2">Scan</h3>
+                                <div className="flex justify-between items-center"><label>Auto-Scan</label><input type="checkbox" checked={watchlist.autoScan} onChange={e => updateWatchlist({ autoScan: e.target.checked })} /></div>
+                                <div className="flex justify-between items-center"><label>Every (min)</label><input type="number" min={1} value={watchlist.intervalMinutes} onChange={e => updateWatchlist({ intervalMinutes: Math.max(1, parseInt(e.target.value) || 1) })} className="bg-gray-800 p-2 rounded w-24 text-center"/></div>
+                                <div className="flex justify-between items-center"><label>Request Gap (ms)</label><input type="number" min={0} step={100} value={watchlist.requestGapMs} onChange={e => updateWatchlist({ requestGapMs: Math.max(0, parseInt(e.target.value) || 0) })} className="bg-gray-800 p-2 rounded w-24 text-center"/></div>
+                                {scanProgress ? (
+                                    <div className="flex items-center gap-3 pt-2">
+                                        <div className="flex-1 h-2 bg-gray-800 rounded overflow-hidden"><div className="h-full bg-blue-500 transition-all" style={{ width: `${scanProgress.total ? (scanProgress.done / scanProgress.total) * 100 : 0}%` }} /></div>
+                                        <span className="font-mono text-xs text-gray-400">{scanProgress.done} / {scanProgress.total}</span>
+                                        <button onClick={() => scanAbortRef.current?.abort()} className="text-red-400 hover:text-red-300 text-xs font-bold">CANCEL</button>
+                                    </div>
+                                ) : (
+                                    <button onClick={runScan} disabled={watchlist.items.length === 0} className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white py-3 rounded font-bold">SCAN NOW</button>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="bg-[#1e222d] rounded p-6">
+                            <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2">Latest Setups <span className="text-sm font-normal text-gray-500">(Click a row to open it on the chart)</span></h3>
+                            <table className="w-full text-sm">
+                                <thead><tr className="text-gray-500 text-xs text-left">
+                                    {([['symbol', 'Symbol'], ['timeframe', 'TF'], ['direction', 'Direction'], ['score', 'Score'], ['po3', 'PO3'], ['age', 'Age'], ['distance', 'From Entry']] as [ScanSortKey, string][]).map(([key, label]) => (
+                                        <th key={key} onClick={() => setScanSort(prev => ({ key, desc: prev.key === key ? !prev.desc : key === 'score' }))} className="p-2 cursor-pointer hover:text-white select-none">{label}{scanSort.key === key ? (scanSort.desc ? ' ▼' : ' ▲') : ''}</th>
+                                    ))}
+                                    <th className="p-2">Entry / SL / TP</th><th className="p-2">Scanned</th>
+                                </tr></thead>
+                                <tbody>
+                                    {watchRows.map(({ item, result: r }) => {
+                                        const signal = r?.signal;
+                                        const distance = signal ? (r!.lastClose - signal.price) / signal.price * 100 : null;
+                                        return (
+                                            <tr key={scanKey(item)} onClick={() => signal && focusSetup({ symbol: item.symbol, timeframe: item.timeframe, signal })} className={`border-t border-gray-800 ${signal ? 'cursor-pointer hover:bg-gray-800' : 'text-gray-600'}`}>
+                                                <td className="p-2 font-bold">{item.symbol}</td>
+                                                <td className="p-2 font-mono">{item.timeframe}</td>
+                                                <td className={`p-2 font-bold ${signal?.type === 'LONG' ? 'text-green-400' : signal ? 'text-red-400' : ''}`}>{signal?.type ?? (r?.error ? <span className="text-red-400 font-normal text-xs">{r.error}</span> : r ? 'No setup' : '—')}</td>
+                                                <td className="p-2 font-mono">{signal ? <>{signal.score}{signal.score >= 7 && ' 💎'}</> : '—'}</td>
+                                                <td className="p-2 text-xs">{signal?.po3Phase ?? '—'}</td>
+                                                <td className="p-2 font-mono text-xs">{signal ? `${r!.barsAgo} bars · ${new Date((signal.time as number) * 1000).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}` : '—'}</td>
+                                                <td className={`p-2 font-mono ${distance === null ? '' : (signal!.type === 'LONG' ? distance >= 0 : distance <= 0) ? 'text-green-400' : 'text-red-400'}`}>{distance === null ? '—' : `${distance >= 0 ? '+' : ''}${distance.toFixed(2)}%`}</td>
+                                                <td className="p-2 font-mono text-xs">{signal ? `${signal.price.toFixed(2)} / ${signal.sl.toFixed(2)} / ${signal.tp.toFixed(2)}` : '—'}</td>
+                                                <td className="p-2 font-mono text-xs text-gray-500">{r ? new Date(r.scannedAt).toLocaleTimeString() : 'pending'}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                     </div>
+                )}
+
+                {activeTab === 'ALERTS' && (
+                     <div className="absolute inset-0 bg-[#131722] z-40 p-8 overflow-y-auto">
+                        <div className="flex justify-between items-center mb-8">
+                            <h1 className="text-3xl font-bold">Alerts <span className="text-sm font-normal text-gray-500">(Checked on every closed candle of the live chart)</span></h1>
+                            <button onClick={() => setActiveTab('SCANNER')} className="bg-gray-700 px-4 py-2 rounded hover:bg-gray-600">Close</button>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-8 mb-8">
+                            <div className="col-span-2 bg-[#1e222d] rounded p-6">
+                                <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2 flex justify-between items-center">
+                                    <span>Rules</span>
+                                    <span className="flex gap-2">{ALERT_PRESETS.map((p, i) => <button key={p.name} onClick={() => setRuleDraft(createAlertRule(asset, timeframe, i))} className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-xs font-normal">+ {p.name}</button>)}</span>
+                                </h3>
+                                {alertRules.length === 0 ? <div className="text-gray-500 text-sm">No rules yet. Start from one of the presets above.</div> : (
+                                    <table className="w-full text-sm">
+                                        <thead><tr className="text-gray-500 text-xs text-left">
+                                            <th className="p-2">On</th><th className="p-2">Name</th><th className="p-2">Market</th><th className="p-2">Condition</th><th className="p-2">Cooldown</th><th className="p-2">Delivery</th><th className="p-2">Last Fired</th><th className="p-2"></th>
+                                        </tr></thead>
+                                        <tbody>
+                                            {alertRules.map(rule => (
+                                                <tr key={rule.id} className={`border-t border-gray-800 ${rule.enabled ? '' : 'text-gray-600'}`}>
+                                                    <td className="p-2"><input type="checkbox" checked={rule.enabled} onChange={() => toggleAlertRule(rule)} /></td>
+                                                    <td className="p-2 font-bold">{rule.name}</td>
+                                                    <td className="p-2 font-mono text-xs">{rule.symbol || 'Any'} {rule.timeframe || 'any TF'}</td>
+                                                    <td className="p-2 text-xs">{describeCondition(rule.condition)}</td>
+                                                    <td className="p-2 font-mono">{rule.cooldownMinutes}m</td>
+                                                    <td className="p-2 text-xs">{[rule.notify && 'Desktop', rule.sound !== 'NONE' && rule.sound.toLowerCase(), rule.webhook && 'Webhook'].filter(Boolean).join(', ') || '—'}</td>
+                                                    <td className="p-2 font-mono text-xs">{rule.lastFiredAt ? new Date(rule.lastFiredAt).toLocaleString() : '—'}</td>
+                                                    <td className="p-2 whitespace-nowrap">
+                                                        <button onClick={() => setRuleDraft(structuredClone(rule))} className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded text-xs mr-1">EDIT</button>
+                                                        <button onClick={() => removeAlertRule(rule)} className="text-red-400 hover:text-red-300 text-xs font-bold">DELETE</button>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </div>
+
+                            <div className="bg-[#1e222d] rounded p-6 space-y-3 text-sm">
+                                <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2">{ruleDraft && alertRules.some(r => r.id === ruleDraft.id) ? 'Edit Rule' : 'New Rule'}</h3>
+                                {!ruleDraft ? <div className="text-gray-500">Pick a preset or EDIT a rule.</div> : (() => {
+                                    const c = ruleDraft.condition;
+                                    const setCondition = (condition: AlertCondition) => setRuleDraft({ ...ruleDraft, condition });
+                                    return (
+                                        <>
+                                            <div className="flex justify-between items-center"><label>Name</label><input value={ruleDraft.name} onChange={e => setRuleDraft({ ...ruleDraft, name: e.target.value })} className="bg-gray-800 p-2 rounded w-48"/></div>
+                                            <div className="flex justify-between items-center"><label>Symbol</label><input value={ruleDraft.symbol} placeholder="Any" onChange={e => setRuleDraft({ ...ruleDraft, symbol: e.target.value })} className="bg-gray-800 p-2 rounded w-48 font-mono"/></div>
+                                            <div className="flex justify-between items-center"><label>Timeframe</label><input value={ruleDraft.timeframe} placeholder="Any" onChange={e => setRuleDraft({ ...ruleDraft, timeframe: e.target.value })} className="bg-gray-800 p-2 rounded w-48 font-mono"/></div>
+                                            <div className="flex justify-between items-center"><label>Condition</label>
+                                                <select value={c.type} onChange={e => setCondition(structuredClone(DEFAULT_CONDITIONS[e.target.value as AlertCondition['type']]))} className="bg-gray-800 p-2 rounded w-48">
+                                                    <option value="SETUP">New setup</option><option value="ZONE_ENTRY">Price enters zone</option><option value="LEVEL_SWEEP">Key level sweep</option><option value="PRICE_CROSS">Price cross</option>
+                                                </select>
+                                            </div>
+                                            {c.type === 'SETUP' && <>
+                                                <div className="flex justify-between items-center"><label>Min Score</label><input type="number" value={c.minScore} onChange={e => setCondition({ ...c, minScore: parseFloat(e.target.value) || 0 })} className="bg-gray-800 p-2 rounded w-48 text-center"/></div>
+                                                <div className="flex justify-between items-center"><label>Side</label><select value={c.side ?? ''} onChange={e => setCondition({ type: 'SETUP', minScore: c.minScore, ...(e.target.value ? { side: e.target.value as 'LONG' | 'SHORT' } : {}) })} className="bg-gray-800 p-2 rounded w-48"><option value="">Either</option><option value="LONG">Long</option><option value="SHORT">Short</option></select></div>
+                                            </>}
+                                            {c.type === 'ZONE_ENTRY' && <>
+                                                <div className="flex justify-between items-center"><label>Zone</label><select value={c.zone} onChange={e => setCondition({ ...c, zone: e.target.value as 'FVG' | 'OB' })} className="bg-gray-800 p-2 rounded w-48"><option value="FVG">FVG</option><option value="OB">Order block</option></select></div>
+                                                <div className="flex justify-between items-center"><label>Direction</label><select value={c.direction} onChange={e => setCondition({ ...c, direction: e.target.value as 'Bullish' | 'Bearish' })} className="bg-gray-800 p-2 rounded w-48"><option value="Bullish">Bullish</option><option value="Bearish">Bearish</option></select></div>
+                                                <div className="flex justify-between items-center"><label>Higher Timeframe ({higherLevels[0] ?? 'none'})</label><input type="checkbox" checked={c.htf} onChange={e => setCondition({ ...c, htf: e.target.checked })} /></div>
+                                            </>}
+                                            {c.type === 'LEVEL_SWEEP' && <>
+                                                <div className="flex justify-between items-center"><label>Level</label><select value={c.level} onChange={e => setCondition({ ...c, level: e.target.value as KeyLevelKind })} className="bg-gray-800 p-2 rounded w-48">{KEY_LEVEL_KINDS.map(k => <option key={k} value={k}>{k}</option>)}</select></div>
+                                                <div className="flex justify-between items-center"><label>During</label><select value={c.session ?? ''} onChange={e => setCondition({ type: 'LEVEL_SWEEP', level: c.level, ...(e.target.value ? { session: e.target.value as SessionDef['id'] } : {}) })} className="bg-gray-800 p-2 rounded w-48"><option value="">Any time</option>{config.sessions.sessions.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}</select></div>
+                                            </>}
+                                            {c.type === 'PRICE_CROSS' && <>
+                                                <div className="flex justify-between items-center"><label>Price</label><input type="number" step="any" value={c.price} onChange={e => setCondition({ ...c, price: parseFloat(e.target.value) || 0 })} className="bg-gray-800 p-2 rounded w-48 text-center font-mono"/></div>
+                                                <div className="flex justify-between items-center"><label>Close</label><select value={c.direction} onChange={e => setCondition({ ...c, direction: e.target.value as 'ABOVE' | 'BELOW' })} className="bg-gray-800 p-2 rounded w-48"><option value="ABOVE">Above</option><option value="BELOW">Below</option></select></div>
+                                            </>}
+                                            <div className="flex justify-between items-center"><label>Cooldown (min)</label><input type="number" min={0} value={ruleDraft.cooldownMinutes} onChange={e => setRuleDraft({ ...ruleDraft, cooldownMinutes: Math.max(0, parseInt(e.target.value) || 0) })} className="bg-gray-800 p-2 rounded w-48 text-center"/></div>
+                                            <div className="flex justify-between items-center"><label>Desktop Notification</label><input type="checkbox" checked={ruleDraft.notify} onChange={e => setRuleDraft({ ...ruleDraft, notify: e.target.checked })} /></div>
+                                            <div className="flex justify-between items-center"><label>Sound</label>
+                                                <span className="flex gap-2">
+                                                    <select value={ruleDraft.sound} onChange={e => setRuleDraft({ ...ruleDraft, sound: e.target.value as AlertSound })} className="bg-gray-800 p-2 rounded w-36"><option value="NONE">None</option><option value="BEEP">Beep</option><option value="CHIME">Chime</option><option value="ALARM">Alarm</option></select>
+                                                    <button onClick={() => playSound(ruleDraft.sound)} className="bg-gray-700 hover:bg-gray-600 px-2 rounded text-xs">▶</button>
+                                                </span>
+                                            </div>
+                                            <div className="flex justify-between items-center"><label>Webhook</label><input type="checkbox" checked={ruleDraft.webhook} onChange={e => setRuleDraft({ ...ruleDraft, webhook: e.target.checked })} /></div>
+                                            <div className="flex gap-2 pt-2">
+                                                <button onClick={saveRuleDraft} className="flex-1 bg-blue-600 hover:bg-blue-500 text-white py-2 rounded font-bold">SAVE</button>
+                                                <button onClick={() => setRuleDraft(null)} className="flex-1 bg-gray-700 hover:bg-gray-600 py-2 rounded">CANCEL</button>
+                                            </div>
+                                        </>
+                                    );
+                                })()}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-8 mb-8">
+                            <div className="col-span-2 bg-[#1e222d] rounded p-6 text-sm">
+                                <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2">Webhook</h3>
+                                <div className="flex gap-2 mb-3">
+                                    <input value={alertSettings.webhookUrl} placeholder="http://localhost:8787/alerts" onChange={e => storeAlertSettings({ ...alertSettings, webhookUrl: e.target.value.trim() })} className="flex-1 bg-gray-800 p-2 rounded font-mono"/>
+                                    <button onClick={testWebhook} disabled={!alertSettings.webhookUrl || !!webhookPreview.error} className="bg-gray-700 hover:bg-gray-600 disabled:opacity-40 px-4 rounded font-bold text-xs">SEND TEST</button>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <div className="text-xs text-gray-500 mb-1">Payload template: {TEMPLATE_FIELDS.map(f => `{{${f}}}`).join(' ')}</div>
+                                        <textarea value={alertSettings.webhookTemplate} onChange={e => storeAlertSettings({ ...alertSettings, webhookTemplate: e.target.value })} spellCheck={false} className="w-full h-48 bg-gray-800 p-2 rounded font-mono text-xs"/>
+                                        <button onClick={() => storeAlertSettings({ ...alertSettings, webhookTemplate: DEFAULT_ALERT_SETTINGS.webhookTemplate })} className="text-xs text-gray-400 hover:text-white">Reset template</button>
+                                    </div>
+                                    <div>
+                                        <div className="text-xs text-gray-500 mb-1">Preview</div>
+                                        {webhookPreview.error ? <div className="text-red-400 text-xs">Not valid JSON: {webhookPreview.error}</div> : <pre className="bg-gray-900 p-2 rounded font-mono text-xs h-48 overflow-auto">{webhookPreview.body}</pre>}
+                                    </div>
+                                </div>
+                                <div className="text-xs text-gray-500 mt-2">To try it locally, run <span className="font-mono">npm run webhook:receive</span> and post to http://localhost:8787.</div>
+                            </div>
+                            <div className="bg-[#1e222d] rounded p-6 text-sm space-y-3">
+                                <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2">Desktop Notifications</h3>
+                                {notifyPermission === null ? <div className="text-gray-500">Not supported by this browser.</div> : notifyPermission === 'granted' ? <div className="text-green-400">Enabled</div> : (
+                                    <>
+                                        <div className="text-gray-500">{notifyPermission === 'denied' ? 'Blocked; allow notifications for this site in the browser settings.' : 'Not enabled yet.'}</div>
+                                        {notifyPermission === 'default' && <button onClick={() => Notification.requestPermission().then(setNotifyPermission)} className="w-full bg-blue-600 hover:bg-blue-500 text-white py-2 rounded font-bold">ENABLE NOTIFICATIONS</button>}
+                                    </>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="bg-[#1e222d] rounded p-6">
+                            <h3 className="font-bold mb-4 text-lg border-b border-gray-700 pb-2 flex justify-between items-center">
+                                <span>History <span className="text-sm font-normal text-gray-500">(Last {ALERT_HISTORY_LIMIT})</span></span>
+                                <button onClick={() => setAlertHistory([])} disabled={alertHistory.length === 0} className="text-xs text-gray-400 hover:text-white disabled:opacity-40 font-normal">CLEAR</button>
+                            </h3>
+                            {alertHistory.length === 0 ? <div className="text-gray-500 text-sm">Nothing has fired yet.</div> : (
+                                <table className="w-full text-sm">
+                                    <thead><tr className="text-gray-500 text-xs text-left">
+                                        <th className="p-2">Fired</th><th className="p-2">Rule</th><th className="p-2">Market</th><th className="p-2">Candle</th><th className="p-2">Price</th><th className="p-2">Message</th><th className="p-2">Webhook</th>
+                                    </tr></thead>
+                                    <tbody>
+                                        {alertHistory.map(h => (
+                                            <tr key={h.id} className="border-t border-gray-800">
+                                                <td className="p-2 font-mono text-xs">{new Date(h.firedAt).toLocaleString()}</td>
+                                                <td className="p-2 font-bold">{h.ruleName}</td>
+                                                <td className="p-2 font-mono text-xs">{h.symbol} {h.timeframe}</td>
+                                                <td className="p-2 font-mono text-xs">{new Date((h.barTime as number) * 1000).toLocaleString()}</td>
+                                                <td className="p-2 font-mono">{h.price}</td>
+                                                <td className="p-2 text-xs">{h.message}</td>
+                                                <td className={`p-2 text-xs ${h.webhook === undefined ? 'text-gray-600' : h.webhook === 'sent' ? 'text-green-400' : 'text-red-400'}`}>{h.webhook ?? '—'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                     </div>
+                )}
             </div>
         </div>
     );
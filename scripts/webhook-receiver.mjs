@@ -0,0 +1,26 @@
+// Minimal local receiver for testing alert webhooks: logs every POSTed body.
+// Usage: npm run webhook:receive [-- port]   (default port 8787)
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+
+const cors = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+createServer((req, res) => {
+    // The browser sends a preflight before a JSON POST from another origin
+    if (req.method === 'OPTIONS') { res.writeHead(204, cors); res.end(); return; }
+    if (req.method !== 'POST') { res.writeHead(405, cors); res.end(); return; }
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+        let payload = body;
+        try { payload = JSON.stringify(JSON.parse(body), null, 2); } catch { /* log it as sent */ }
+        console.log(`[${new Date().toISOString()}] ${req.method} ${req.url}\n${payload}\n`);
+        res.writeHead(200, { ...cors, 'Content-Type': 'application/json' });
+        res.end('{"ok":true}');
+    });
+}).listen(port, () => console.log(`Webhook receiver listening on http://localhost:${port}`));
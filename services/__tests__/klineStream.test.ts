@@ -0,0 +1,140 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import WS, { WebSocketServer } from 'ws';
+import { CandleData } from '../../types';
+import { KlineStream, StreamStatus } from '../klineStream';
+
+// --- MOCK BINANCE ---
+// One local server for both sides of the stream: GET /api/v3/klines pages
+// through `series` like Binance (startTime inclusive, at most `limit` rows)
+// and /ws accepts the kline socket.
+
+const T0 = Date.UTC(2026, 0, 5);
+const MINUTE = 60_000;
+
+const row = (i: number) => {
+    const price = String(100 + i / 100);
+    return [T0 + i * MINUTE, price, price, price, price, '1', T0 + (i + 1) * MINUTE - 1, '100', 1];
+};
+
+// Resolves once `check` holds, polling every few milliseconds
+const until = async (check: () => boolean, timeoutMs: number = 5000) => {
+    const start = Date.now();
+    while (!check()) {
+        if (Date.now() - start > timeoutMs) throw new Error('timed out');
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+};
+
+describe('KlineStream', () => {
+    let server: Server;
+    let sockets: WebSocketServer;
+    let base: string;
+    let series: number;
+    let requests: URLSearchParams[];
+    let connections: WS[];
+    let paths: string[];
+    let stream: KlineStream | null;
+
+    beforeEach(async () => {
+        series = 0;
+        requests = [];
+        connections = [];
+        paths = [];
+        stream = null;
+        server = createServer((req, res) => {
+            const url = new URL(req.url!, 'http://localhost');
+            requests.push(url.searchParams);
+            const start = Number(url.searchParams.get('startTime'));
+            const limit = Number(url.searchParams.get('limit'));
+            const rows = Array.from({ length: series }, (_, i) => row(i)).filter(r => (r[0] as number) >= start).slice(0, limit);
+            res.setHeader('content-type', 'application/json');
+            res.end(JSON.stringify(rows));
+        });
+        sockets = new WebSocketServer({ server });
+        sockets.on('connection', (socket, req) => {
+            connections.push(socket);
+            paths.push(req.url!);
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        base = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        stream?.stop();
+        sockets.clients.forEach(c => c.terminate());
+        await new Promise(resolve => sockets.close(resolve));
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    const open = (lastKnownIndex: number) => {
+        const candles: { candle: CandleData, isClosed: boolean }[] = [];
+        const statuses: StreamStatus[] = [];
+        stream = new KlineStream({
+            symbol: 'PAXGUSDT', interval: '1m',
+            onCandle: (candle, isClosed) => candles.push({ candle, isClosed }),
+            onStatus: status => statuses.push(status),
+            wsBaseUrl: `ws://${base}/ws`, restBaseUrl: `http://${base}/api/v3`,
+            initialBackoffMs: 10, maxBackoffMs: 20,
+            WebSocketImpl: WS as unknown as typeof WebSocket
+        });
+        stream.start((T0 + lastKnownIndex * MINUTE) / 1000 as CandleData['time']);
+        return { candles, statuses };
+    };
+    const indexOf = (c: CandleData) => ((c.time as number) * 1000 - T0) / MINUTE;
+
+    it('backfills a gap longer than a page in pages, from the last known candle', async () => {
+        series = 2500;
+        const { candles, statuses } = open(0);
+        await until(() => candles.length === 2500);
+
+        expect(paths).toEqual(['/ws/paxgusdt@kline_1m']);
+        expect(requests.map(q => Number(q.get('startTime')))).toEqual([T0, T0 + 999 * MINUTE + 1, T0 + 1999 * MINUTE + 1]);
+        expect(requests.every(q => q.get('symbol') === 'PAXGUSDT' && q.get('interval') === '1m' && q.get('limit') === '1000')).toBe(true);
+        expect(candles.map(c => indexOf(c.candle))).toEqual(Array.from({ length: 2500 }, (_, i) => i));
+        expect(candles.every(c => c.isClosed)).toBe(true);
+        expect(statuses).toEqual(['CONNECTING', 'LIVE']);
+    });
+
+    it('delivers socket klines and ignores ones older than the last delivered', async () => {
+        series = 10;
+        const { candles } = open(9);
+        await until(() => candles.length === 1);
+        const kline = (i: number, x: boolean) => {
+            const [t, o, h, l, c, v, , q, n] = row(i);
+            return JSON.stringify({ e: 'kline', k: { t, o, h, l, c, v, q, n, x } });
+        };
+        connections[0].send(kline(10, false));
+        connections[0].send(kline(8, true));
+        connections[0].send(kline(10, true));
+        await until(() => candles.length === 3);
+        expect(candles.slice(1).map(c => [indexOf(c.candle), c.isClosed])).toEqual([[10, false], [10, true]]);
+    });
+
+    it('reconnects after a drop and backfills the candles missed meanwhile', async () => {
+        series = 100;
+        const { candles, statuses } = open(50);
+        await until(() => candles.length === 50);
+
+        // The socket drops, and 1200 candles close before it is back
+        series = 1300;
+        connections[0].terminate();
+        await until(() => connections.length === 2 && indexOf(candles[candles.length - 1].candle) === 1299);
+
+        expect(requests.map(q => Number(q.get('startTime')))).toEqual([T0 + 50 * MINUTE, T0 + 99 * MINUTE, T0 + 1098 * MINUTE + 1]);
+        // The last candle before the drop is re-delivered once, then everything missed, in order
+        expect(candles.slice(50).map(c => indexOf(c.candle))).toEqual(Array.from({ length: 1201 }, (_, i) => 99 + i));
+        expect(statuses).toEqual(['CONNECTING', 'LIVE', 'RECONNECTING', 'RECONNECTING', 'LIVE']);
+    });
+
+    it('stops reconnecting once stopped', async () => {
+        const { statuses } = open(0);
+        await until(() => connections.length === 1 && statuses.includes('LIVE'));
+        stream!.stop();
+        connections[0].terminate();
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(connections).toHaveLength(1);
+        expect(statuses[statuses.length - 1]).toBe('CLOSED');
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { BacktestStats } from '../../types';
+import { Evaluator, OptimizerOptions, ParamSet, runOptimizer } from '../optimizer';
+
+// Backtest stats reduced to what the optimizer reads: net PnL and trade count
+const statsOf = (netPnL: number, trades: number): BacktestStats => ({
+    totalTrades: trades, wins: 0, losses: 0, winRate: 0, netPnL, grossPnL: netPnL, totalFees: 0, executionCost: 0,
+    timeExits: 0, sameBarConflicts: 0, startingBalance: 0, endingBalance: netPnL, profitFactor: 0, maxDrawdown: 0, equityCurve: []
+});
+
+// An evaluator where each bar earns `pnl(params, bar)` over one trade, recording
+// every window it is asked for
+const perBar = (pnl: (params: ParamSet, bar: number) => number) => {
+    const calls: [number, number][] = [];
+    const evaluate: Evaluator = params => (start, end) => {
+        calls.push([start, end]);
+        let net = 0;
+        for (let bar = start; bar < end; bar++) net += pnl(params, bar);
+        return statsOf(net, end - start);
+    };
+    return { evaluate, calls };
+};
+
+const OPTIONS: OptimizerOptions = {
+    space: [{ key: 'x', label: 'x', min: 0, max: 1, step: 1 }],
+    method: 'GRID', samples: 0, objective: 'netPnL', minTrades: 0,
+    inSampleRatio: 0.7, folds: 4, totalBars: 1000, warmupBars: 100
+};
+
+describe('runOptimizer', () => {
+    it('tiles [warmup, totalBars) with walk-forward windows, each tested only after its in-sample end', async () => {
+        const { evaluate, calls } = perBar(() => 1);
+        const { folds } = await runOptimizer(evaluate, OPTIONS);
+        expect(folds).toHaveLength(4);
+        expect(folds[0].isStart).toBe(100);
+        expect(folds[folds.length - 1].oosEnd).toBe(1000);
+        folds.forEach((f, k) => {
+            expect(f.isStart).toBeLessThan(f.isEnd);
+            expect(f.isEnd).toBeLessThan(f.oosEnd);
+            // Out-of-sample segments follow one another without overlap
+            if (k > 0) expect(f.isEnd).toBe(folds[k - 1].oosEnd);
+        });
+        expect(calls.every(([start, end]) => start >= 100 && start <= end && end <= 1000)).toBe(true);
+    });
+
+    it('picks each fold\'s parameters from its in-sample window alone', async () => {
+        // x = 0 earns until bar 600, x = 1 from then on
+        const { evaluate } = perBar((params, bar) => (bar < 600) === (params.x === 0) ? 1 : 0);
+        const { folds, ranked } = await runOptimizer(evaluate, OPTIONS);
+        expect(folds.map(f => [f.isStart, f.isEnd, f.oosEnd])).toEqual([[100, 432, 574], [243, 574, 716], [385, 716, 858], [527, 858, 1000]]);
+        // The second fold's out-of-sample window favours x = 1, but its in-sample window ends before bar 600
+        expect(folds.map(f => f.best.x)).toEqual([0, 0, 0, 1]);
+        expect(folds[1].outOfSample.netPnL).toBe(600 - 574);
+        expect(ranked.map(r => r.params.x)).toEqual([0, 1]);
+    });
+
+    it('clamps warmupBars into the range', async () => {
+        const long = perBar(() => 1);
+        const report = await runOptimizer(long.evaluate, { ...OPTIONS, warmupBars: 5000 });
+        expect(report.folds).toEqual([]);
+        expect(long.calls.every(([start, end]) => start === 999 && end >= start && end <= 1000)).toBe(true);
+
+        const negative = perBar(() => 1);
+        const { folds } = await runOptimizer(negative.evaluate, { ...OPTIONS, warmupBars: -50 });
+        expect(folds[0].isStart).toBe(0);
+        expect(negative.calls.every(([start]) => start >= 0)).toBe(true);
+    });
+
+    it('gives the out-of-sample PnL per bar over the in-sample PnL per bar as efficiency', async () => {
+        expect((await runOptimizer(perBar(() => 1).evaluate, OPTIONS)).efficiency).toBeCloseTo(1);
+
+        // One fold: 2 a bar in sample, 1 a bar after it
+        const single = { ...OPTIONS, folds: 1 };
+        const { folds, efficiency } = await runOptimizer(perBar(() => 0).evaluate, single);
+        const { isEnd } = folds[0];
+        expect((await runOptimizer(perBar((_, bar) => bar < isEnd ? 2 : 1).evaluate, single)).efficiency).toBeCloseTo(0.5);
+
+        // Nothing to compare against without an in-sample profit
+        expect(efficiency).toBeNull();
+    });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { PendingOrder, UTCTimestamp } from '../../types';
+import { BrokerBar, BrokerState, OrderRequest, modifyOrder, openPosition, placeOrder, processBar } from '../paperBroker';
+
+// 15m candles from Monday 2026-01-05 00:00 UTC
+const T0 = Date.UTC(2026, 0, 5) / 1000;
+const STEP = 900;
+const at = (index: number) => (T0 + index * STEP) as UTCTimestamp;
+const bar = (index: number, open: number, high: number, low: number, close: number): BrokerBar => ({ time: at(index), open, high, low, close });
+const closed = (index: number) => ({ through: at(index) + STEP });
+const forming = (index: number, seconds: number) => ({ through: at(index) + seconds, forming: true });
+
+const FREE = { feeRate: 0 };
+const EMPTY: BrokerState = { balance: 100000, positions: [], orders: [], tradeHistory: [] };
+
+// A long at 100 with the stop at 99 and the target at 103, entered at the close of candle 0
+const long = (extra: Partial<OrderRequest> = {}) => openPosition(EMPTY, {
+    symbol: 'BTCUSDT', type: 'LONG', price: 100, stopLoss: 99, takeProfit: 103,
+    time: at(0), processedUntil: closed(0).through as UTCTimestamp,
+    sizing: { mode: 'QUANTITY', value: 1 }, ...extra
+}, FREE);
+
+// A buy order at `price` with the stop 1 below and the target 2 above, placed
+// with the market at 100 during candle 0
+const buyAt = (price: number, extra: Partial<PendingOrder> = {}) => placeOrder(EMPTY, {
+    symbol: 'BTCUSDT', type: 'LONG', price, stopLoss: price - 1, takeProfit: price + 2,
+    sizing: { mode: 'QUANTITY', value: 1 }, timeInForce: 'GTC',
+    createdAt: at(0), processedUntil: closed(0).through as UTCTimestamp, confluences: [], ...extra
+}, 100);
+
+// Runs one candle the way the app does and returns the state and event kinds
+const run = (state: BrokerState, b: BrokerBar, progress: { through: number, forming?: boolean }) => {
+    const r = processBar(state, 'BTCUSDT', b, FREE, progress);
+    return { state: r.state, kinds: r.events.map(e => e.kind) };
+};
+
+describe('processBar on the forming candle', () => {
+    it('leaves breakeven until the candle closes, so a later tick of it cannot stop out at entry', () => {
+        let { state, kinds } = run(long({ breakevenAtR: 1 }), bar(1, 100, 101.2, 99.8, 101), forming(1, 300));
+        expect(kinds).toEqual([]);
+        expect(state.positions[0].stopLoss).toBe(99);
+
+        ({ state, kinds } = run(state, bar(1, 100, 101.2, 99.5, 99.7), forming(1, 600)));
+        expect(kinds).toEqual([]);
+
+        ({ state, kinds } = run(state, bar(1, 100, 101.2, 99.5, 100.4), closed(1)));
+        expect(kinds).toEqual(['BREAKEVEN']);
+        expect(state.positions[0]).toMatchObject({ stopLoss: 100, bestPrice: 101.2, processedUntil: at(2) });
+
+        ({ state, kinds } = run(state, bar(2, 100.4, 100.6, 99.9, 100.2), forming(2, 300)));
+        expect(kinds).toEqual(['SL']);
+        expect(state.tradeHistory[0]).toMatchObject({ exitPrice: 100, exitTime: at(2) });
+    });
+
+    it('trails the stop from the closed candle only', () => {
+        let { state } = run(long({ trailR: 1 }), bar(1, 100, 101.5, 99.9, 101.4), forming(1, 600));
+        expect(state.positions[0]).toMatchObject({ stopLoss: 99, bestPrice: 100 });
+        ({ state } = run(state, bar(1, 100, 101.5, 99.9, 101.4), closed(1)));
+        expect(state.positions[0]).toMatchObject({ stopLoss: 100.5, bestPrice: 101.5 });
+    });
+
+    it('still takes stops, targets and partials as soon as price trades through them', () => {
+        const position = long({ partials: [{ r: 1, fraction: 0.5 }] });
+        let { state, kinds } = run(position, bar(1, 100, 101.1, 99.9, 101), forming(1, 300));
+        expect(kinds).toEqual(['PARTIAL']);
+        expect(state.positions[0].quantity).toBe(0.5);
+        ({ state, kinds } = run(state, bar(1, 100, 103.1, 99.9, 103), forming(1, 600)));
+        expect(kinds).toEqual(['TP']);
+        expect(run(position, bar(1, 100, 100.5, 98.9, 99.2), forming(1, 300)).kinds).toEqual(['SL']);
+    });
+});
+
+describe('processBar on closed candles', () => {
+    it('runs each closed candle against a position once', () => {
+        const { state } = run(long({ breakevenAtR: 1, trailR: 2 }), bar(1, 100, 101.5, 99.5, 101), closed(1));
+        const again = run(state, bar(1, 100, 101.5, 99.5, 101), closed(1));
+        expect(again.state).toBe(state);
+        expect(again.kinds).toEqual([]);
+    });
+
+    it('skips candles that opened before the position was entered', () => {
+        // Entered at 00:07 in the live 15m candle; history replayed in 1m candles from 00:00
+        const position = long({ processedUntil: (T0 + 7 * 60) as UTCTimestamp });
+        const minute = (m: number, low: number): BrokerBar => ({ time: (T0 + m * 60) as UTCTimestamp, open: 100, high: 100.2, low, close: 100 });
+        let state = position;
+        const kinds: string[] = [];
+        for (let m = 0; m < 10; m++) {
+            const r = run(state, minute(m, m < 7 ? 98 : 99.5), { through: T0 + (m + 1) * 60 });
+            state = r.state;
+            kinds.push(...r.kinds);
+        }
+        expect(kinds).toEqual([]);
+        expect(state.positions[0].processedUntil).toBe(T0 + 10 * 60);
+    });
+});
+
+describe('processBar within one candle', () => {
+    it('takes the stop before the target when a candle reaches both', () => {
+        const { state, kinds } = run(long(), bar(1, 100, 103.5, 98.5, 102), closed(1));
+        expect(kinds).toEqual(['SL']);
+        expect(state.tradeHistory[0]).toMatchObject({ exitPrice: 99, result: 'LOSS' });
+    });
+
+    it('fills a stop gapped through at the open', () => {
+        const { state, kinds } = run(long(), bar(1, 98, 98.5, 97.5, 98.2), closed(1));
+        expect(kinds).toEqual(['SL']);
+        expect(state.tradeHistory[0].exitPrice).toBe(98);
+    });
+
+    it('takes partials before the target', () => {
+        const { state, kinds } = run(long({ partials: [{ r: 1, fraction: 0.5 }] }), bar(1, 100, 103.2, 99.8, 103), closed(1));
+        expect(kinds).toEqual(['PARTIAL', 'TP']);
+        expect(state.tradeHistory[0].fills.slice(1).map(f => [f.reason, f.price, f.quantity])).toEqual([['PARTIAL', 101, 0.5], ['TP', 103, 0.5]]);
+    });
+
+    it('checks the candle a position was entered in against its latest price only', () => {
+        const entered = long({ time: at(1), processedUntil: (at(1) + 300) as UTCTimestamp });
+        expect(run(entered, bar(1, 100, 103.5, 98, 100.5), forming(1, 600)).kinds).toEqual([]);
+        const { state, kinds } = run(entered, bar(1, 100, 100.5, 98, 98.8), forming(1, 660));
+        expect(kinds).toEqual(['SL']);
+        expect(state.tradeHistory[0].exitPrice).toBe(98.8);
+    });
+
+    it('fills orders before checking positions, so a fill is not stopped by the same candle', () => {
+        const order = buyAt(99, { stopLoss: 98 });
+        expect(order.orders[0].kind).toBe('LIMIT');
+        const { state, kinds } = run(order, bar(1, 100, 100.2, 97.5, 99.5), closed(1));
+        expect(kinds).toEqual(['FILL']);
+        expect(state.orders).toEqual([]);
+        expect(state.positions[0]).toMatchObject({ price: 99, time: at(1), stopLoss: 98, processedUntil: at(2) });
+    });
+
+    it('fills a limit gapped through at the better open and a stop at the worse one', () => {
+        const limit = run(buyAt(99), bar(1, 98.5, 99, 98.2, 98.8), closed(1));
+        expect(limit.state.positions[0].price).toBe(98.5);
+        const stop = run(buyAt(101), bar(1, 101.5, 102, 101.2, 101.8), closed(1));
+        expect(stop.state.positions[0]).toMatchObject({ price: 101.5, stopLoss: 100 });
+    });
+
+    it('rejects an order gapped beyond its stop', () => {
+        const { state, kinds } = run(buyAt(99), bar(1, 97.5, 98, 97, 97.8), closed(1));
+        expect(kinds).toEqual(['REJECTED']);
+        expect(state.orders).toEqual([]);
+        expect(state.positions).toEqual([]);
+    });
+
+    it('checks the candle an order was placed in against its close only', () => {
+        const order = buyAt(99, { createdAt: at(1), processedUntil: undefined });
+        expect(run(order, bar(1, 100, 100.2, 98, 99.5), forming(1, 600)).kinds).toEqual([]);
+        const { state, kinds } = run(order, bar(1, 100, 100.2, 98, 98.9), closed(1));
+        expect(kinds).toEqual(['FILL']);
+        expect(state.positions[0].price).toBe(98.9);
+    });
+
+    it('expires an order at expiresAt before checking it', () => {
+        const { state, kinds } = run(buyAt(99, { timeInForce: 'SESSION', expiresAt: at(1) }), bar(1, 100, 100.2, 98, 98.5), closed(1));
+        expect(kinds).toEqual(['EXPIRED']);
+        expect(state.orders).toEqual([]);
+    });
+});
+
+describe('modifyOrder', () => {
+    const order = buyAt(99);
+    const id = order.orders[0].id;
+
+    it('moves a level and keeps the order', () => {
+        const moved = modifyOrder(order, id, 'stopLoss', 98.5, 100);
+        expect(moved.orders).toEqual([{ ...order.orders[0], stopLoss: 98.5 }]);
+    });
+
+    it('flips LIMIT and STOP when the entry is moved across the market', () => {
+        const moved = modifyOrder(order, id, 'price', 100.5, 100);
+        expect(moved.orders[0]).toMatchObject({ id, kind: 'STOP', price: 100.5 });
+        expect(modifyOrder(moved, id, 'price', 99.5, 100).orders[0].kind).toBe('LIMIT');
+    });
+
+    it('rejects a stop or target on the wrong side of the entry and leaves the order as it was', () => {
+        const before = structuredClone(order);
+        expect(() => modifyOrder(order, id, 'stopLoss', 99.5, 100)).toThrow('Stop must be below the entry for a LONG');
+        expect(() => modifyOrder(order, id, 'price', 97.5, 100)).toThrow('Stop must be below the entry for a LONG');
+        expect(() => modifyOrder(order, id, 'takeProfit', 98.5, 100)).toThrow('Target must be above the entry for a LONG');
+        expect(order).toEqual(before);
+    });
+
+    it('rejects an unknown order', () => {
+        expect(() => modifyOrder(order, 'ord-missing', 'price', 99.5, 100)).toThrow('No pending order ord-missing');
+    });
+});
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UTCTimestamp } from '../../types';
+import { CandleQuery } from '../marketData';
+import { SyntheticProvider } from '../syntheticProvider';
+
+// The clock stands 7 minutes into the 15m candle of Monday 2026-01-05 10:00 UTC
+const FORMING = Date.UTC(2026, 0, 5, 10) / 1000;
+const STEP = 900;
+
+describe('SyntheticProvider.getCandles', () => {
+    const provider = new SyntheticProvider();
+    const times = async (query: CandleQuery) => (await provider.getCandles('BTCUSDT', '15m', query)).map(c => c.time as number);
+    const t = (seconds: number) => seconds as UTCTimestamp;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime((FORMING + 7 * 60) * 1000);
+    });
+    afterEach(() => vi.useRealTimers());
+
+    it('ends at the last closed candle', async () => {
+        expect(await times({ limit: 3 })).toEqual([FORMING - 3 * STEP, FORMING - 2 * STEP, FORMING - STEP]);
+    });
+
+    it('leaves out the forming candle when endTime falls in or after it', async () => {
+        expect(await times({ endTime: t(FORMING + 60), limit: 2 })).toEqual([FORMING - 2 * STEP, FORMING - STEP]);
+        expect(await times({ endTime: t(FORMING + 10 * STEP), limit: 2 })).toEqual([FORMING - 2 * STEP, FORMING - STEP]);
+        expect(await times({ startTime: t(FORMING - STEP), endTime: t(FORMING + STEP) })).toEqual([FORMING - STEP]);
+    });
+
+    it('includes the candle opening at an earlier endTime, as Binance does', async () => {
+        expect(await times({ endTime: t(FORMING - 4 * STEP), limit: 2 })).toEqual([FORMING - 5 * STEP, FORMING - 4 * STEP]);
+    });
+});
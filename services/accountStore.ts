@@ -0,0 +1,89 @@
+import { PaperAccount, TradeEntry } from '../types';
+import { STORES, withStore } from './db';
+
+// --- PAPER ACCOUNT STORE ---
+// Named paper-trading accounts persisted in IndexedDB, so balance, the open
+// position and history survive reloads. The last used account id is kept in
+// the meta store.
+
+const ACTIVE_KEY = 'activeAccountId';
+
+export const DEFAULT_STARTING_BALANCE = 100000;
+
+const newId = () => `acc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createAccount = (name: string, startingBalance: number = DEFAULT_STARTING_BALANCE): PaperAccount => {
+    const now = Date.now();
+    return { id: newId(), name, startingBalance, balance: startingBalance, positions: [], orders: [], tradeHistory: [], createdAt: now, updatedAt: now };
+};
+
+// Keeps the account's identity and name, wipes everything else.
+export const resetAccount = (account: PaperAccount): PaperAccount =>
+    ({ ...account, balance: account.startingBalance, positions: [], orders: [], tradeHistory: [], updatedAt: Date.now() });
+
+// Accounts saved before the paper broker had one `position` and trades without
+// quantities (PnL was price difference x 1). Fill in what the broker needs.
+const normaliseTrade = (t: any, i: number): TradeEntry => ({
+    ...t,
+    id: t.id ?? `legacy-${t.time}-${i}`,
+    quantity: t.quantity ?? (t.result === 'OPEN' ? 1 : 0),
+    initialStop: t.initialStop ?? t.stopLoss,
+    targets: t.targets ?? [],
+    riskAmount: t.riskAmount ?? Math.abs(t.price - t.stopLoss),
+    fills: t.fills ?? [],
+    fees: t.fees ?? 0,
+    realizedPnL: t.realizedPnL ?? t.pnl ?? 0,
+    confluences: t.confluences ?? [],
+    score: t.score ?? 0
+});
+
+const normaliseAccount = (raw: any): PaperAccount => {
+    const { position, ...rest } = raw;
+    const positions = raw.positions ?? (position ? [position] : []);
+    return { ...rest, positions: positions.map(normaliseTrade), orders: raw.orders ?? [], tradeHistory: (raw.tradeHistory ?? []).map(normaliseTrade) };
+};
+
+export const listAccounts = async (): Promise<PaperAccount[]> => {
+    const all = await withStore<any[]>(STORES.accounts, 'readonly', s => s.getAll());
+    return all.map(normaliseAccount).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveAccount = (account: PaperAccount) =>
+    withStore(STORES.accounts, 'readwrite', s => s.put({ ...account, updatedAt: Date.now() })).then(() => undefined);
+
+export const deleteAccount = (id: string) =>
+    withStore(STORES.accounts, 'readwrite', s => s.delete(id)).then(() => undefined);
+
+export const getActiveAccountId = () =>
+    withStore<string | undefined>(STORES.meta, 'readonly', s => s.get(ACTIVE_KEY));
+
+export const setActiveAccountId = (id: string) =>
+    withStore(STORES.meta, 'readwrite', s => s.put(id, ACTIVE_KEY)).then(() => undefined);
+
+export const exportAccountJson = (account: PaperAccount) =>
+    JSON.stringify({ format: 'ict-paper-account', version: 1, account }, null, 2);
+
+const isTrade = (t: any): t is TradeEntry =>
+    t && typeof t.time === 'number' && (t.type === 'LONG' || t.type === 'SHORT') && typeof t.price === 'number';
+
+// Accepts an export from exportAccountJson (or a bare account object). The
+// import always gets a fresh id so it can never overwrite an existing account.
+export const parseAccountJson = (text: string): PaperAccount => {
+    const parsed = JSON.parse(text);
+    const raw = parsed?.format === 'ict-paper-account' ? parsed.account : parsed;
+    if (!raw || typeof raw.balance !== 'number' || !Array.isArray(raw.tradeHistory)) throw new Error('Not a paper account export');
+    const open = raw.positions ?? (raw.position ? [raw.position] : []);
+    if (!raw.tradeHistory.every(isTrade) || !Array.isArray(open) || !open.every(isTrade)) throw new Error('Account contains malformed trades');
+    const now = Date.now();
+    return normaliseAccount({
+        id: newId(),
+        name: String(raw.name || 'Imported'),
+        startingBalance: typeof raw.startingBalance === 'number' ? raw.startingBalance : DEFAULT_STARTING_BALANCE,
+        balance: raw.balance,
+        positions: open,
+        orders: Array.isArray(raw.orders) ? raw.orders : [],
+        tradeHistory: raw.tradeHistory,
+        createdAt: now,
+        updatedAt: now
+    });
+};
@@ -0,0 +1,52 @@
+import { AlertEvent, AlertRule, AlertSettings } from '../types';
+import { STORES, withStore } from './db';
+import { ALERT_PRESETS, DEFAULT_WEBHOOK_TEMPLATE } from './alerts';
+
+// --- ALERT STORE ---
+// Rules live in their own object store; the history log (newest first, capped)
+// and the webhook settings are single entries in the meta store.
+
+const HISTORY_KEY = 'alertHistory';
+const SETTINGS_KEY = 'alertSettings';
+export const HISTORY_LIMIT = 200;
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = { webhookUrl: '', webhookTemplate: DEFAULT_WEBHOOK_TEMPLATE };
+
+export const newAlertId = () => `alert-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// A new rule scoped to the chart, from one of ALERT_PRESETS
+export const createAlertRule = (symbol: string, timeframe: string, preset: number = 0): AlertRule => ({
+    id: newAlertId(),
+    name: `${ALERT_PRESETS[preset].name} on ${symbol} ${timeframe}`,
+    enabled: true,
+    symbol,
+    timeframe,
+    condition: structuredClone(ALERT_PRESETS[preset].condition),
+    cooldownMinutes: 15,
+    notify: true,
+    sound: 'CHIME',
+    webhook: false
+});
+
+export const listAlertRules = async (): Promise<AlertRule[]> => {
+    const all = await withStore<AlertRule[]>(STORES.alertRules, 'readonly', s => s.getAll());
+    return all.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveAlertRule = (rule: AlertRule) =>
+    withStore(STORES.alertRules, 'readwrite', s => s.put(rule)).then(() => undefined);
+
+export const deleteAlertRule = (id: string) =>
+    withStore(STORES.alertRules, 'readwrite', s => s.delete(id)).then(() => undefined);
+
+export const loadAlertHistory = async (): Promise<AlertEvent[]> =>
+    (await withStore<AlertEvent[] | undefined>(STORES.meta, 'readonly', s => s.get(HISTORY_KEY))) ?? [];
+
+export const saveAlertHistory = (events: AlertEvent[]) =>
+    withStore(STORES.meta, 'readwrite', s => s.put(events.slice(0, HISTORY_LIMIT), HISTORY_KEY)).then(() => undefined);
+
+export const loadAlertSettings = async (): Promise<AlertSettings> =>
+    ({ ...DEFAULT_ALERT_SETTINGS, ...(await withStore<AlertSettings | undefined>(STORES.meta, 'readonly', s => s.get(SETTINGS_KEY))) });
+
+export const saveAlertSettings = (settings: AlertSettings) =>
+    withStore(STORES.meta, 'readwrite', s => s.put(settings, SETTINGS_KEY)).then(() => undefined);
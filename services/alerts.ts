@@ -0,0 +1,154 @@
+import { AlertCondition, AlertEvent, AlertRule, AlertSound, CandleData, EntrySignal, FVG, KeyLevel, KeyLevelKind, OrderBlock, SessionConfig } from '../types';
+import { sessionAt } from '../core/sessions';
+
+// --- ALERTS ---
+// Rules are matched against each newly closed candle of an analysed chart.
+// Matching only produces a message; delivery (desktop notification, sound,
+// webhook) is separate so the caller decides what actually goes out.
+
+export interface AlertContext {
+    symbol: string;
+    timeframe: string;
+    candle: CandleData;          // the candle that just closed
+    previous?: CandleData;
+    entries: EntrySignal[];
+    fvgs: FVG[];                 // zones live before the candle, on the chart timeframe
+    obs: OrderBlock[];
+    htfFvgs: FVG[];              // and on the nearest higher level of the stack
+    htfObs: OrderBlock[];
+    keyLevels: KeyLevel[];       // levels of the periods the candle is in
+    sessions: SessionConfig;
+}
+
+// What a rule starts with when its condition type is switched
+export const DEFAULT_CONDITIONS: { [key in AlertCondition['type']]: AlertCondition } = {
+    SETUP: { type: 'SETUP', minScore: 7 },
+    ZONE_ENTRY: { type: 'ZONE_ENTRY', zone: 'FVG', direction: 'Bullish', htf: true },
+    LEVEL_SWEEP: { type: 'LEVEL_SWEEP', level: 'PDL', session: 'NY_AM' },
+    PRICE_CROSS: { type: 'PRICE_CROSS', price: 0, direction: 'ABOVE' }
+};
+
+export const ALERT_PRESETS: { name: string, condition: AlertCondition }[] = [
+    { name: 'A+ setup', condition: DEFAULT_CONDITIONS.SETUP },
+    { name: 'Enters bullish HTF FVG', condition: DEFAULT_CONDITIONS.ZONE_ENTRY },
+    { name: 'PDL swept in NY AM', condition: DEFAULT_CONDITIONS.LEVEL_SWEEP }
+];
+
+const HIGH_LEVELS: KeyLevelKind[] = ['PDH', 'PWH', 'PMH'];
+const LOW_LEVELS: KeyLevelKind[] = ['PDL', 'PWL', 'PML'];
+
+export const describeCondition = (c: AlertCondition): string => {
+    switch (c.type) {
+        case 'SETUP': return `${c.side ?? 'Any'} setup with score ≥ ${c.minScore}`;
+        case 'ZONE_ENTRY': return `Price enters a ${c.htf ? 'HTF ' : ''}${c.direction.toLowerCase()} ${c.zone}`;
+        case 'LEVEL_SWEEP': return `${c.level} swept${c.session ? ` during ${c.session.replace('_', ' ')}` : ''}`;
+        case 'PRICE_CROSS': return `Close ${c.direction.toLowerCase()} ${c.price}`;
+    }
+};
+
+const overlaps = (c: CandleData, high: number, low: number) => c.high >= low && c.low <= high;
+
+// The alert message if `rule` matches the context, otherwise null
+export const matchRule = (rule: AlertRule, ctx: AlertContext): string | null => {
+    if (!rule.enabled || (rule.symbol && rule.symbol !== ctx.symbol) || (rule.timeframe && rule.timeframe !== ctx.timeframe)) return null;
+    const { candle, previous } = ctx;
+    const c = rule.condition;
+    switch (c.type) {
+        case 'SETUP': {
+            const signal = ctx.entries.find(e => e.time === candle.time && e.score >= c.minScore && (!c.side || e.type === c.side));
+            return signal ? `${signal.type} setup (score ${signal.score}) @ ${signal.price}: ${signal.confluences.join(', ')}` : null;
+        }
+        case 'ZONE_ENTRY': {
+            // Entering means this candle overlaps the zone and the one before did not
+            const zones: (FVG | OrderBlock)[] = c.zone === 'FVG' ? (c.htf ? ctx.htfFvgs : ctx.fvgs) : (c.htf ? ctx.htfObs : ctx.obs);
+            const zone = zones.find(z => z.direction === c.direction && overlaps(candle, z.priceHigh, z.priceLow) && !(previous && overlaps(previous, z.priceHigh, z.priceLow)));
+            return zone ? `Price entered ${zone.timeframe ?? ctx.timeframe} ${c.direction} ${c.zone} ${zone.priceLow}–${zone.priceHigh}` : null;
+        }
+        case 'LEVEL_SWEEP': {
+            if (c.session && sessionAt(candle.time as number, ctx.sessions)?.id !== c.session) return null;
+            // Only the first trade through a level counts
+            const level = ctx.keyLevels.find(l => l.kind === c.level && l.time <= candle.time && candle.time < l.endTime && (l.takenTime === undefined || l.takenTime >= candle.time));
+            if (!level) return null;
+            const above = candle.high > level.price && candle.close < level.price;
+            const below = candle.low < level.price && candle.close > level.price;
+            const swept = HIGH_LEVELS.includes(level.kind) ? above : LOW_LEVELS.includes(level.kind) ? below : above || below;
+            return swept ? `${level.label} ${level.price} swept, closed back at ${candle.close}` : null;
+        }
+        case 'PRICE_CROSS': {
+            if (!previous) return null;
+            const crossed = c.direction === 'ABOVE' ? previous.close <= c.price && candle.close > c.price : previous.close >= c.price && candle.close < c.price;
+            return crossed ? `Closed ${c.direction.toLowerCase()} ${c.price} at ${candle.close}` : null;
+        }
+    }
+};
+
+// Cooldown and once per candle: re-analysing the same candle never fires again
+export const canFire = (rule: AlertRule, barTime: number, now: number) =>
+    !(rule.lastBarTime !== undefined && (rule.lastBarTime as number) >= barTime) &&
+    !(rule.lastFiredAt !== undefined && now - rule.lastFiredAt < rule.cooldownMinutes * 60_000);
+
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "rule": "{{rule}}",
+  "symbol": "{{symbol}}",
+  "timeframe": "{{timeframe}}",
+  "price": {{price}},
+  "time": "{{time}}",
+  "message": "{{message}}"
+}`;
+
+export const TEMPLATE_FIELDS = ['rule', 'symbol', 'timeframe', 'price', 'time', 'barTime', 'firedAt', 'message'];
+
+const templateValues = (event: AlertEvent): { [key: string]: string | number } => ({
+    rule: event.ruleName,
+    symbol: event.symbol,
+    timeframe: event.timeframe,
+    price: event.price,
+    time: new Date((event.barTime as number) * 1000).toISOString(),
+    barTime: event.barTime,
+    firedAt: new Date(event.firedAt).toISOString(),
+    message: event.message
+});
+
+// Fills {{field}}s with JSON-escaped values (strings without their quotes, so
+// templates quote them) and checks the result is JSON.
+export const renderTemplate = (template: string, event: AlertEvent) => {
+    const values = templateValues(event);
+    const body = template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => key in values ? JSON.stringify(values[key]).replace(/^"|"$/g, '') : match);
+    JSON.parse(body);
+    return body;
+};
+
+export const postWebhook = async (url: string, template: string, event: AlertEvent) => {
+    const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: renderTemplate(template, event) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+};
+
+export const notificationsSupported = () => typeof Notification !== 'undefined';
+
+export const showNotification = (event: AlertEvent) => {
+    if (!notificationsSupported() || Notification.permission !== 'granted') return false;
+    new Notification(event.ruleName, { body: `${event.symbol} ${event.timeframe}: ${event.message}`, tag: event.ruleId });
+    return true;
+};
+
+// Short synthesized tones: [frequency Hz, start s, duration s]
+const SOUNDS: { [key in Exclude<AlertSound, 'NONE'>]: [number, number, number][] } = {
+    BEEP: [[800, 0, 0.2]],
+    CHIME: [[880, 0, 0.15], [1320, 0.15, 0.35]],
+    ALARM: [[1000, 0, 0.12], [700, 0.15, 0.12], [1000, 0.3, 0.12], [700, 0.45, 0.12]]
+};
+
+export const playSound = (sound: AlertSound) => {
+    if (sound === 'NONE') return;
+    const Ctx = window.AudioContext || (window as any).webkitAudioContext;
+    if (!Ctx) return;
+    const ctx: AudioContext = new Ctx();
+    for (const [freq, at, duration] of SOUNDS[sound]) {
+        const osc = ctx.createOscillator();
+        osc.frequency.value = freq;
+        osc.connect(ctx.destination);
+        osc.start(ctx.currentTime + at);
+        osc.stop(ctx.currentTime + at + duration);
+    }
+    setTimeout(() => ctx.close(), 1000);
+};
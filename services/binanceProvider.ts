@@ -0,0 +1,81 @@
+import { UTCTimestamp } from 'lightweight-charts';
+import { CandleData } from '../types';
+import { KlineStream, BINANCE_REST_URL, parseRestKline } from './klineStream';
+import { MarketDataProvider, SymbolInfo, CandleQuery, LiveHandlers } from './marketData';
+
+// --- BINANCE PROVIDER ---
+// Public spot market data, no API key. Gold is proxied through PAXG/USDT and
+// forex through stablecoin pairs, since Binance has no CME or FX feed.
+
+const SYMBOLS: SymbolInfo[] = [
+    { symbol: 'MGC (COMEX)', assetClass: 'Metals', tickSize: 0.01, pricePrecision: 2, feeRate: 0.001, proxyFor: 'PAXGUSDT' },
+    { symbol: 'BTCUSDT', assetClass: 'Crypto', tickSize: 0.01, pricePrecision: 2, feeRate: 0.001 },
+    { symbol: 'ETHUSDT', assetClass: 'Crypto', tickSize: 0.01, pricePrecision: 2, feeRate: 0.001 },
+    { symbol: 'SOLUSDT', assetClass: 'Crypto', tickSize: 0.01, pricePrecision: 2, feeRate: 0.001 },
+    { symbol: 'EURUSDT', assetClass: 'Forex', tickSize: 0.0001, pricePrecision: 4, feeRate: 0.001 }
+];
+
+// Maps the UI symbol to the pair actually requested from Binance.
+export const resolveBinanceSymbol = (symbol: string) => {
+    if (symbol === 'XAUUSD.P' || symbol === 'GOLD' || symbol.includes('MGC')) return 'PAXGUSDT';
+    return symbol;
+};
+
+// Binance allows 6000 request weight per minute per IP; a 1000-row klines call costs 5.
+// Stay well under it so paging long histories never earns a 429/418 ban.
+const WEIGHT_BUDGET = 4000;
+const MAX_RETRIES = 3;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class BinanceProvider implements MarketDataProvider {
+    readonly id = 'binance';
+    readonly name = 'Binance (Live)';
+    private usedWeight = 0;
+    private weightResetAt = 0;
+
+    constructor(private readonly restBaseUrl: string = BINANCE_REST_URL, private readonly wsBaseUrl?: string) {}
+
+    async listSymbols() {
+        return SYMBOLS;
+    }
+
+    async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+        return SYMBOLS.find(s => s.symbol === symbol) || { symbol, assetClass: 'Crypto', tickSize: 0.01, pricePrecision: 2, feeRate: 0.001 };
+    }
+
+    async getCandles(symbol: string, interval: string, query: CandleQuery = {}): Promise<CandleData[]> {
+        const params = new URLSearchParams({ symbol: resolveBinanceSymbol(symbol), interval, limit: String(Math.min(query.limit ?? 500, 1000)) });
+        if (query.startTime !== undefined) params.set('startTime', String((query.startTime as number) * 1000));
+        if (query.endTime !== undefined) params.set('endTime', String((query.endTime as number) * 1000));
+        const res = await this.request(`${this.restBaseUrl}/klines?${params}`);
+        const raw = await res.json();
+        if (!Array.isArray(raw)) throw new Error(`Invalid API Data${raw?.msg ? `: ${raw.msg}` : ''}`);
+        const now = Date.now();
+        return raw.filter((row: any[]) => row[6] < now).map(parseRestKline);
+    }
+
+    // Waits out the current minute when the reported weight nears the budget and
+    // honours Retry-After on 429 (rate limited) / 418 (temporarily banned).
+    private async request(url: string, attempt: number = 0): Promise<Response> {
+        const now = Date.now();
+        if (now >= this.weightResetAt) { this.usedWeight = 0; this.weightResetAt = Math.ceil((now + 1) / 60_000) * 60_000; }
+        if (this.usedWeight >= WEIGHT_BUDGET) await sleep(this.weightResetAt - now);
+
+        const res = await fetch(url);
+        const used = res.headers.get('x-mbx-used-weight-1m');
+        if (used !== null) this.usedWeight = parseInt(used, 10);
+        if ((res.status === 429 || res.status === 418) && attempt < MAX_RETRIES) {
+            const retryAfter = parseInt(res.headers.get('retry-after') || '', 10);
+            await sleep((isNaN(retryAfter) ? 60 : retryAfter) * 1000);
+            return this.request(url, attempt + 1);
+        }
+        return res;
+    }
+
+    subscribe(symbol: string, interval: string, handlers: LiveHandlers, lastKnownTime?: UTCTimestamp) {
+        const stream = new KlineStream({ symbol: resolveBinanceSymbol(symbol), interval, restBaseUrl: this.restBaseUrl, wsBaseUrl: this.wsBaseUrl, ...handlers });
+        stream.start(lastKnownTime);
+        return () => stream.stop();
+    }
+}
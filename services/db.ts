@@ -0,0 +1,53 @@
+// --- LOCAL DATABASE ---
+// One IndexedDB database for everything the terminal keeps between sessions.
+// Add new object stores by bumping DB_VERSION and extending upgrade().
+
+const DB_NAME = 'ict-terminal';
+const DB_VERSION = 5;
+
+export const STORES = {
+    accounts: 'accounts',
+    strategies: 'strategies',
+    alertRules: 'alertRules',
+    journal: 'journal',
+    drawings: 'drawings',
+    meta: 'meta'
+} as const;
+
+const upgrade = (db: IDBDatabase) => {
+    if (!db.objectStoreNames.contains(STORES.accounts)) db.createObjectStore(STORES.accounts, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(STORES.meta)) db.createObjectStore(STORES.meta);
+    if (!db.objectStoreNames.contains(STORES.strategies)) db.createObjectStore(STORES.strategies, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(STORES.alertRules)) db.createObjectStore(STORES.alertRules, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(STORES.journal)) db.createObjectStore(STORES.journal, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(STORES.drawings)) db.createObjectStore(STORES.drawings, { keyPath: 'id' }).createIndex('chart', ['symbol', 'timeframe']);
+};
+
+let opening: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+    if (!opening) {
+        opening = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') { reject(new Error('IndexedDB is not available')); return; }
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => upgrade(req.result);
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+            req.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+        });
+        opening.catch(() => { opening = null; });
+    }
+    return opening;
+};
+
+// Runs `fn` against one store and resolves once the transaction has committed.
+export const withStore = async <T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const req = fn(tx.objectStore(store));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
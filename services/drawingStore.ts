@@ -0,0 +1,14 @@
+import { Drawing } from '../types';
+import { STORES, withStore } from './db';
+
+// --- DRAWING STORE ---
+// Hand-drawn chart markup, indexed by the symbol and timeframe it was drawn on.
+
+export const listDrawings = (symbol: string, timeframe: string) =>
+    withStore<Drawing[]>(STORES.drawings, 'readonly', s => s.index('chart').getAll([symbol, timeframe]));
+
+export const saveDrawing = (drawing: Drawing) =>
+    withStore(STORES.drawings, 'readwrite', s => s.put(drawing)).then(() => undefined);
+
+export const deleteDrawing = (id: string) =>
+    withStore(STORES.drawings, 'readwrite', s => s.delete(id)).then(() => undefined);
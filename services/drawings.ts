@@ -0,0 +1,68 @@
+import { CandleData, Drawing, DrawingPoint, DrawingTool } from '../types';
+
+// --- DRAWINGS ---
+// Geometry for the hand-drawn chart tools. Points are stored in time and
+// price; the chart maps times through fractional bar indexes, which also
+// cover gaps between candles and the empty space right of the last one.
+
+export const DRAWING_TOOLS: { tool: DrawingTool, icon: string, title: string }[] = [
+    { tool: 'HLINE', icon: '―', title: 'Horizontal line' },
+    { tool: 'TREND', icon: '╱', title: 'Trend line' },
+    { tool: 'RECT', icon: '▭', title: 'Rectangle' },
+    { tool: 'FIB', icon: 'ℱ', title: 'Fib retracement' },
+    { tool: 'TEXT', icon: 'T', title: 'Text note' }
+];
+
+export const DRAWING_POINTS: { [key in DrawingTool]: number } = { HLINE: 1, TEXT: 1, TREND: 2, RECT: 2, FIB: 2 };
+
+export const DRAWING_COLORS: { [key in DrawingTool]: string } = { HLINE: '#FFB300', TREND: '#42A5F5', RECT: '#AB47BC', FIB: '#26A69A', TEXT: '#E0E0E0' };
+
+export const FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+export const newDrawingId = () => `drw-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Measured back from the second point (0) to the first (1), so a fib drawn
+// from a swing low to a swing high reads as retracements of that leg
+export const fibPrice = (d: Drawing, level: number) => d.points[1].price + (d.points[0].price - d.points[1].price) * level;
+
+// Fractional bar index of `time`. Outside the candles it extrapolates at
+// `step` seconds per bar.
+export const timeToLogical = (candles: CandleData[], time: number, step: number): number | null => {
+    if (candles.length === 0) return null;
+    const first = candles[0].time as number;
+    const last = candles[candles.length - 1].time as number;
+    if (time <= first) return (time - first) / step;
+    if (time >= last) return candles.length - 1 + (time - last) / step;
+    let lo = 0, hi = candles.length - 1;
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if ((candles[mid].time as number) <= time) lo = mid; else hi = mid;
+    }
+    const t0 = candles[lo].time as number, t1 = candles[hi].time as number;
+    return lo + (time - t0) / (t1 - t0);
+};
+
+export const logicalToTime = (candles: CandleData[], logical: number, step: number): number | null => {
+    if (candles.length === 0) return null;
+    const n = candles.length;
+    if (logical <= 0) return (candles[0].time as number) + logical * step;
+    if (logical >= n - 1) return (candles[n - 1].time as number) + (logical - (n - 1)) * step;
+    const i = Math.floor(logical);
+    const t0 = candles[i].time as number, t1 = candles[i + 1].time as number;
+    return t0 + (t1 - t0) * (logical - i);
+};
+
+// The nearest candle's time and its open, high, low or close closest to `price`
+export const snapToOhlc = (candles: CandleData[], logical: number, price: number): DrawingPoint | null => {
+    if (candles.length === 0) return null;
+    const c = candles[Math.min(candles.length - 1, Math.max(0, Math.round(logical)))];
+    const nearest = [c.open, c.high, c.low, c.close].reduce((a, b) => Math.abs(b - price) < Math.abs(a - price) ? b : a);
+    return { time: c.time, price: nearest };
+};
+
+export const distanceToSegment = (px: number, py: number, ax: number, ay: number, bx: number, by: number) => {
+    const dx = bx - ax, dy = by - ay;
+    const len = dx * dx + dy * dy;
+    const t = len === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / len));
+    return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
@@ -0,0 +1,146 @@
+import { UTCTimestamp } from 'lightweight-charts';
+import { CandleData } from '../types';
+import { intervalToMs } from '../core/time';
+import { MarketDataProvider, SymbolInfo, CandleQuery, LiveHandlers, resampleCandles, sliceCandles } from './marketData';
+
+// --- FILE PROVIDER ---
+// Serves candles exported from another feed as CSV or JSON. Each loaded file
+// becomes one symbol; higher timeframes are resampled from the file's own bars.
+
+interface LoadedSeries {
+    info: SymbolInfo;
+    candles: CandleData[];
+    intervalMs: number;
+}
+
+const TIME_KEYS = ['time', 'timestamp', 'datetime', 'date', 'open_time', 'opentime', 'ts'];
+const FIELD_KEYS: { [field: string]: string[] } = {
+    open: ['open', 'o'],
+    high: ['high', 'h'],
+    low: ['low', 'l'],
+    close: ['close', 'c', 'last']
+};
+// Read when present
+const OPTIONAL_KEYS: { [field: string]: string[] } = {
+    volume: ['volume', 'vol', 'v', 'tick_volume', 'tickvol', 'tickvolume'],
+    quoteVolume: ['quote_volume', 'quotevolume', 'quote_asset_volume', 'quoteassetvolume'],
+    trades: ['trades', 'number_of_trades', 'numberoftrades', 'count']
+};
+
+// Accepts epoch seconds/ms, ISO strings, MT4 style "2024.01.31 13:00" and
+// NinjaTrader style "20240131 130000". Timestamps without a zone are read as UTC.
+export const parseTimestamp = (value: unknown): number => {
+    if (typeof value === 'number') return value > 1e11 ? Math.floor(value / 1000) : value;
+    const s = String(value).trim();
+    if (/^\d+(\.\d+)?$/.test(s)) return parseTimestamp(parseFloat(s));
+    const nt = s.match(/^(\d{4})(\d{2})(\d{2})\s+(\d{2})(\d{2})(\d{2})?$/);
+    if (nt) return Date.UTC(+nt[1], +nt[2] - 1, +nt[3], +nt[4], +nt[5], +(nt[6] || 0)) / 1000;
+    let iso = s.replace(/^(\d{4})[./](\d{2})[./](\d{2})/, '$1-$2-$3').replace(' ', 'T');
+    if (!/(Z|[+-]\d{2}:?\d{2})$/.test(iso)) iso += iso.includes('T') ? 'Z' : 'T00:00:00Z';
+    const ms = Date.parse(iso);
+    if (isNaN(ms)) throw new Error(`Unrecognised timestamp: ${s}`);
+    return ms / 1000;
+};
+
+const findKey = (keys: string[], candidates: string[]) => keys.find(k => candidates.includes(k.toLowerCase().trim()));
+
+const rowToCandle = (row: { [key: string]: any }): CandleData => {
+    const keys = Object.keys(row);
+    const dateKey = findKey(keys, ['date']);
+    const timeKey = findKey(keys, ['time']);
+    // Separate "Date" and "Time" columns are common in platform exports
+    const rawTime = dateKey && timeKey && !/^\d+$/.test(String(row[timeKey]).trim())
+        ? `${row[dateKey]} ${row[timeKey]}`
+        : row[findKey(keys, TIME_KEYS)!];
+    const candle: any = { time: parseTimestamp(rawTime) as UTCTimestamp };
+    for (const field of Object.keys(FIELD_KEYS)) {
+        const key = findKey(keys, FIELD_KEYS[field]);
+        if (!key) throw new Error(`Missing "${field}" column`);
+        candle[field] = parseFloat(row[key]);
+    }
+    for (const field of Object.keys(OPTIONAL_KEYS)) {
+        const key = findKey(keys, OPTIONAL_KEYS[field]);
+        const value = key === undefined ? NaN : parseFloat(row[key]);
+        if (isFinite(value)) candle[field] = value;
+    }
+    return candle as CandleData;
+};
+
+export const parseCandleCsv = (text: string): CandleData[] => {
+    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+    if (lines.length === 0) return [];
+    const delimiter = [',', ';', '\t'].reduce((best, d) => lines[0].split(d).length > lines[0].split(best).length ? d : best, ',');
+    const first = lines[0].split(delimiter);
+    const hasHeader = first.some(cell => /[a-df-z]/i.test(cell) && isNaN(Date.parse(cell)));
+    const header = hasHeader ? first : ['time', 'open', 'high', 'low', 'close', 'volume'];
+    return lines.slice(hasHeader ? 1 : 0).map(line => {
+        const cells = line.split(delimiter);
+        const row: { [key: string]: string } = {};
+        header.forEach((h, i) => { row[h] = cells[i]; });
+        return rowToCandle(row);
+    });
+};
+
+export const parseCandleJson = (text: string): CandleData[] => {
+    const parsed = JSON.parse(text);
+    const rows: any[] = Array.isArray(parsed) ? parsed : parsed.candles || parsed.data;
+    if (!Array.isArray(rows)) throw new Error('Expected an array of candles');
+    return rows.map(r => Array.isArray(r)
+        // Binance-style kline rows
+        ? rowToCandle({ time: r[0], open: r[1], high: r[2], low: r[3], close: r[4], volume: r[5], quote_volume: r[7], trades: r[8] })
+        : rowToCandle(r));
+};
+
+const normalise = (candles: CandleData[]) => {
+    const sorted = candles.filter(c => isFinite(c.open) && isFinite(c.close)).sort((a, b) => (a.time as number) - (b.time as number));
+    return sorted.filter((c, i) => i === 0 || c.time !== sorted[i - 1].time);
+};
+
+// Median spacing of the first bars, so gaps (weekends, halts) don't skew it
+export const detectIntervalMs = (candles: CandleData[]) => {
+    const diffs = candles.slice(1, 200).map((c, i) => (c.time as number) - (candles[i].time as number)).sort((a, b) => a - b);
+    return (diffs[Math.floor(diffs.length / 2)] || 60) * 1000;
+};
+
+export class FileProvider implements MarketDataProvider {
+    readonly id = 'file';
+    readonly name = 'Local File (CSV/JSON)';
+    private series = new Map<string, LoadedSeries>();
+
+    // Registers a file's contents under a symbol derived from its name.
+    load(fileName: string, text: string): SymbolInfo {
+        const candles = normalise(/\.json$/i.test(fileName) ? parseCandleJson(text) : parseCandleCsv(text));
+        if (candles.length === 0) throw new Error(`No candles found in ${fileName}`);
+        const symbol = fileName.replace(/\.(csv|json|txt)$/i, '').toUpperCase();
+        const precision = Math.min(8, Math.max(...candles.slice(0, 50).map(c => (String(c.close).split('.')[1] || '').length)));
+        const info: SymbolInfo = { symbol, assetClass: 'Futures', tickSize: Math.pow(10, -precision), pricePrecision: precision };
+        this.series.set(symbol, { info, candles, intervalMs: detectIntervalMs(candles) });
+        return info;
+    }
+
+    async loadFile(file: File): Promise<SymbolInfo> {
+        return this.load(file.name, await file.text());
+    }
+
+    async listSymbols() {
+        return Array.from(this.series.values()).map(s => s.info);
+    }
+
+    async getSymbolInfo(symbol: string) {
+        const s = this.series.get(symbol);
+        if (!s) throw new Error(`No file loaded for ${symbol}`);
+        return s.info;
+    }
+
+    async getCandles(symbol: string, interval: string, query?: CandleQuery) {
+        const s = this.series.get(symbol);
+        if (!s) throw new Error(`No file loaded for ${symbol}`);
+        const candles = intervalToMs(interval) > s.intervalMs ? resampleCandles(s.candles, interval) : s.candles;
+        return sliceCandles(candles, query);
+    }
+
+    subscribe(_symbol: string, _interval: string, handlers: LiveHandlers) {
+        handlers.onStatus?.('CLOSED'); // files are static: no live updates
+        return () => {};
+    }
+}
@@ -0,0 +1,156 @@
+import { JournalEntry, JournalFilter, JournalMistake, TradeEntry } from '../types';
+import { enteredQuantity } from './paperBroker';
+
+// --- TRADE JOURNAL ---
+// Every paper trade gets a journal entry when it opens, completed when it
+// closes. Entries keep the signal's confluences and chart snapshots next to
+// the trader's notes, tags and mistakes, and export as Markdown or HTML.
+
+export const MISTAKE_LABELS: { [key in JournalMistake]: string } = {
+    NO_SETUP: 'No valid setup',
+    CHASED: 'Chased the entry',
+    AGAINST_HTF: 'Against HTF bias',
+    OUTSIDE_KILLZONE: 'Outside a killzone',
+    MOVED_STOP: 'Moved the stop',
+    EARLY_EXIT: 'Exited early',
+    OVERSIZED: 'Oversized',
+    REVENGE: 'Revenge trade'
+};
+
+export const SUGGESTED_TAGS = ['OB', 'FVG', 'Breaker', 'BPR', 'Silver Bullet', 'Judas Swing', 'Turtle Soup', 'Liquidity Sweep', 'PO3'];
+
+export const DEFAULT_JOURNAL_FILTER: JournalFilter = { query: '', result: 'ALL', side: 'ALL', tag: '', mistake: '', accountId: '' };
+
+export const journalFromTrade = (trade: TradeEntry, accountId: string, timeframe: string, snapshot?: string): JournalEntry => ({
+    id: trade.id,
+    accountId,
+    symbol: trade.symbol ?? '',
+    timeframe,
+    type: trade.type,
+    entryTime: trade.time,
+    entryPrice: trade.price,
+    stopLoss: trade.initialStop,
+    takeProfit: trade.takeProfit,
+    quantity: enteredQuantity(trade),
+    score: trade.score,
+    confluences: trade.confluences,
+    entrySnapshot: snapshot,
+    notes: '',
+    tags: [],
+    mistakes: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+});
+
+// Fills in the outcome of a closed trade
+export const closeJournalEntry = (entry: JournalEntry, trade: TradeEntry, snapshot?: string): JournalEntry => ({
+    ...entry,
+    entryPrice: trade.price,
+    quantity: enteredQuantity(trade),
+    result: trade.result === 'WIN' ? 'WIN' : 'LOSS',
+    exitTime: trade.exitTime,
+    exitPrice: trade.exitPrice,
+    pnl: trade.pnl,
+    rMultiple: trade.rMultiple,
+    exitSnapshot: snapshot ?? entry.exitSnapshot,
+    updatedAt: Date.now()
+});
+
+export const journalTags = (entries: JournalEntry[]) =>
+    Array.from(new Set(entries.flatMap(e => e.tags))).sort((a, b) => a.localeCompare(b));
+
+export const filterJournal = (entries: JournalEntry[], f: JournalFilter) => {
+    const words = f.query.toLowerCase().split(/\s+/).filter(Boolean);
+    return entries.filter(e => {
+        if (f.accountId && e.accountId !== f.accountId) return false;
+        if (f.side !== 'ALL' && e.type !== f.side) return false;
+        if (f.result !== 'ALL' && (e.result ?? 'OPEN') !== f.result) return false;
+        if (f.tag && !e.tags.includes(f.tag)) return false;
+        if (f.mistake && !e.mistakes.includes(f.mistake)) return false;
+        const text = [e.symbol, e.timeframe, e.type, e.notes, ...e.tags, ...e.confluences].join(' ').toLowerCase();
+        return words.every(w => text.includes(w));
+    });
+};
+
+export interface JournalSummary {
+    trades: number;
+    closed: number;
+    winRate: number;      // % of closed trades
+    netPnL: number;
+    averageR: number;
+}
+
+export const summariseJournal = (entries: JournalEntry[]): JournalSummary => {
+    const closed = entries.filter(e => e.result);
+    const rs = closed.filter(e => e.rMultiple !== undefined).map(e => e.rMultiple!);
+    return {
+        trades: entries.length,
+        closed: closed.length,
+        winRate: closed.length ? closed.filter(e => e.result === 'WIN').length / closed.length * 100 : 0,
+        netPnL: closed.reduce((sum, e) => sum + (e.pnl ?? 0), 0),
+        averageR: rs.length ? rs.reduce((a, b) => a + b, 0) / rs.length : 0
+    };
+};
+
+const when = (t?: number) => t === undefined ? '—' : new Date(t * 1000).toISOString().slice(0, 16).replace('T', ' ') + ' UTC';
+const money = (v?: number) => v === undefined ? '—' : `${v >= 0 ? '+' : '-'}$${Math.abs(v).toFixed(2)}`;
+const outcome = (e: JournalEntry) => e.result ? `${e.result} ${money(e.pnl)}${e.rMultiple !== undefined ? ` (${e.rMultiple.toFixed(2)}R)` : ''}` : 'OPEN';
+const summaryLine = (s: JournalSummary) =>
+    `${s.trades} trades, ${s.closed} closed · win rate ${s.winRate.toFixed(1)}% · net ${money(s.netPnL)} · average ${s.averageR.toFixed(2)}R`;
+
+// Markdown stays text only; the snapshots go into the HTML report
+export const journalMarkdown = (entries: JournalEntry[], title: string) => {
+    const lines = [`# ${title}`, '', summaryLine(summariseJournal(entries)), ''];
+    for (const e of entries) {
+        lines.push(
+            `## ${e.symbol} ${e.timeframe} ${e.type} · ${when(e.entryTime)}`, '',
+            `- **Entry** ${e.entryPrice} · **SL** ${e.stopLoss} · **TP** ${e.takeProfit} · **Qty** ${+e.quantity.toPrecision(4)}`,
+            `- **Exit** ${e.exitPrice ?? '—'} at ${when(e.exitTime)}`,
+            `- **Result** ${outcome(e)}`,
+            `- **Score** ${e.score}${e.confluences.length ? ` · ${e.confluences.join(', ')}` : ''}`
+        );
+        if (e.tags.length) lines.push(`- **Tags** ${e.tags.join(', ')}`);
+        if (e.mistakes.length) lines.push(`- **Mistakes** ${e.mistakes.map(m => MISTAKE_LABELS[m]).join(', ')}`);
+        if (e.notes.trim()) lines.push('', ...e.notes.trim().split('\n').map(l => `> ${l}`));
+        lines.push('');
+    }
+    return lines.join('\n');
+};
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+// A standalone page with the snapshots embedded
+export const journalHtml = (entries: JournalEntry[], title: string) => {
+    const rows = entries.map(e => `
+<section>
+  <h2>${escapeHtml(`${e.symbol} ${e.timeframe} ${e.type}`)} <small>${when(e.entryTime)}</small></h2>
+  <p class="${e.result === 'WIN' ? 'win' : e.result === 'LOSS' ? 'loss' : ''}"><b>${escapeHtml(outcome(e))}</b></p>
+  <table>
+    <tr><th>Entry</th><td>${e.entryPrice}</td><th>SL</th><td>${e.stopLoss}</td><th>TP</th><td>${e.takeProfit}</td></tr>
+    <tr><th>Exit</th><td>${e.exitPrice ?? '—'}</td><th>Exit time</th><td colspan="3">${when(e.exitTime)}</td></tr>
+  </table>
+  <p><b>Score ${e.score}</b>${e.confluences.length ? ` · ${escapeHtml(e.confluences.join(', '))}` : ''}</p>
+  ${e.tags.length ? `<p>${e.tags.map(t => `<span class="tag">${escapeHtml(t)}</span>`).join(' ')}</p>` : ''}
+  ${e.mistakes.length ? `<p class="loss">Mistakes: ${e.mistakes.map(m => MISTAKE_LABELS[m]).join(', ')}</p>` : ''}
+  ${e.notes.trim() ? `<blockquote>${escapeHtml(e.notes.trim()).replace(/\n/g, '<br>')}</blockquote>` : ''}
+  <div class="shots">${[['Entry', e.entrySnapshot], ['Exit', e.exitSnapshot]].filter(([, src]) => src).map(([label, src]) => `<figure><img src="${src}"><figcaption>${label}</figcaption></figure>`).join('')}</div>
+</section>`).join('\n');
+    return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>
+body { font-family: sans-serif; background: #131722; color: #d9d9d9; max-width: 1100px; margin: 2em auto; }
+section { background: #1e222d; border-radius: 6px; padding: 1em 1.5em; margin-bottom: 1.5em; }
+h2 small { color: #888; font-weight: normal; font-size: 0.6em; }
+th { color: #888; text-align: left; padding-right: 0.5em; } td { padding-right: 1.5em; }
+.win { color: #26a69a; } .loss { color: #ef5350; }
+.tag { background: #2a2e39; border-radius: 4px; padding: 2px 6px; font-size: 0.85em; }
+blockquote { border-left: 3px solid #2962ff; margin: 0; padding-left: 1em; }
+.shots { display: flex; gap: 1em; } figure { margin: 0; flex: 1; } img { width: 100%; border-radius: 4px; } figcaption { color: #888; font-size: 0.85em; }
+</style></head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(summaryLine(summariseJournal(entries)))}</p>
+${rows}
+</body></html>
+`;
+};
@@ -0,0 +1,19 @@
+import { JournalEntry } from '../types';
+import { STORES, withStore } from './db';
+
+// --- JOURNAL STORE ---
+// One record per trade, snapshots included, in its own object store.
+
+export const listJournal = async (): Promise<JournalEntry[]> => {
+    const all = await withStore<JournalEntry[]>(STORES.journal, 'readonly', s => s.getAll());
+    return all.sort((a, b) => (b.entryTime as number) - (a.entryTime as number));
+};
+
+export const getJournalEntry = (id: string) =>
+    withStore<JournalEntry | undefined>(STORES.journal, 'readonly', s => s.get(id));
+
+export const saveJournalEntry = (entry: JournalEntry) =>
+    withStore(STORES.journal, 'readwrite', s => s.put(entry)).then(() => undefined);
+
+export const deleteJournalEntry = (id: string) =>
+    withStore(STORES.journal, 'readwrite', s => s.delete(id)).then(() => undefined);
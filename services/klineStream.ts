@@ -0,0 +1,154 @@
+import { UTCTimestamp } from 'lightweight-charts';
+import { CandleData } from '../types';
+
+// --- BINANCE KLINE STREAM ---
+// Keeps one kline WebSocket open per symbol/interval, reconnects with exponential
+// backoff and backfills any candles missed while disconnected over REST.
+// URLs and the WebSocket implementation are injectable so the stream can be
+// pointed at a local mock server.
+
+export type StreamStatus = 'CONNECTING' | 'LIVE' | 'RECONNECTING' | 'CLOSED';
+
+export interface KlineStreamOptions {
+    symbol: string;
+    interval: string;
+    onCandle: (candle: CandleData, isClosed: boolean) => void;
+    onStatus?: (status: StreamStatus) => void;
+    onError?: (error: unknown) => void;
+    wsBaseUrl?: string;
+    restBaseUrl?: string;
+    initialBackoffMs?: number;
+    maxBackoffMs?: number;
+    WebSocketImpl?: typeof WebSocket;
+}
+
+export const BINANCE_WS_URL = 'wss://data-stream.binance.vision/ws';
+export const BINANCE_REST_URL = 'https://data-api.binance.vision/api/v3';
+// Most klines one REST request returns
+const BACKFILL_PAGE = 1000;
+
+// REST kline row: [openTime, open, high, low, close, volume, closeTime, quoteVolume, trades, ...]
+export const parseRestKline = (c: any[]): CandleData => ({
+    time: c[0] / 1000 as UTCTimestamp,
+    open: parseFloat(c[1]),
+    high: parseFloat(c[2]),
+    low: parseFloat(c[3]),
+    close: parseFloat(c[4]),
+    volume: parseFloat(c[5]),
+    quoteVolume: parseFloat(c[7]),
+    trades: c[8]
+});
+
+// WS kline payload: { e: 'kline', k: { t, o, h, l, c, v, q, n, x, ... } }
+const parseWsKline = (k: any): CandleData => ({
+    time: k.t / 1000 as UTCTimestamp,
+    open: parseFloat(k.o),
+    high: parseFloat(k.h),
+    low: parseFloat(k.l),
+    close: parseFloat(k.c),
+    volume: parseFloat(k.v),
+    quoteVolume: parseFloat(k.q),
+    trades: k.n
+});
+
+export class KlineStream {
+    private ws: WebSocket | null = null;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private attempts = 0;
+    private stopped = false;
+    private hasConnected = false;
+    private lastTime: number | null = null; // open time (sec) of the newest candle delivered
+
+    constructor(private readonly opts: KlineStreamOptions) {}
+
+    start(lastKnownTime?: UTCTimestamp) {
+        this.stopped = false;
+        if (lastKnownTime !== undefined) this.lastTime = lastKnownTime as number;
+        this.connect();
+    }
+
+    stop() {
+        this.stopped = true;
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+        if (this.ws) {
+            this.ws.onopen = this.ws.onmessage = this.ws.onclose = this.ws.onerror = null;
+            this.ws.close();
+            this.ws = null;
+        }
+        this.setStatus('CLOSED');
+    }
+
+    private setStatus(status: StreamStatus) {
+        this.opts.onStatus?.(status);
+    }
+
+    private connect() {
+        const { symbol, interval } = this.opts;
+        const WS = this.opts.WebSocketImpl || WebSocket;
+        const url = `${this.opts.wsBaseUrl || BINANCE_WS_URL}/${symbol.toLowerCase()}@kline_${interval}`;
+
+        this.setStatus(this.hasConnected ? 'RECONNECTING' : 'CONNECTING');
+        const ws = new WS(url);
+        this.ws = ws;
+
+        ws.onopen = () => {
+            this.hasConnected = true;
+            this.attempts = 0;
+            this.setStatus('LIVE');
+            this.backfill().catch(e => this.opts.onError?.(e));
+        };
+        ws.onmessage = (event: MessageEvent) => {
+            try {
+                const msg = JSON.parse(typeof event.data === 'string' ? event.data : String(event.data));
+                if (msg.e !== 'kline' || !msg.k) return;
+                this.deliver(parseWsKline(msg.k), !!msg.k.x);
+            } catch (e) { this.opts.onError?.(e); }
+        };
+        ws.onerror = (e) => this.opts.onError?.(e);
+        ws.onclose = () => {
+            this.ws = null;
+            if (!this.stopped) this.scheduleReconnect();
+        };
+    }
+
+    private scheduleReconnect() {
+        const base = this.opts.initialBackoffMs ?? 1000;
+        const max = this.opts.maxBackoffMs ?? 30_000;
+        const delay = Math.min(max, base * 2 ** this.attempts) * (0.75 + Math.random() * 0.5);
+        this.attempts++;
+        this.setStatus('RECONNECTING');
+        this.reconnectTimer = setTimeout(() => { this.reconnectTimer = null; if (!this.stopped) this.connect(); }, delay);
+    }
+
+    // Re-fetch everything from the last delivered candle onwards, on the first
+    // connect (closing the gap since the history load) and after every drop.
+    // The first row re-closes the last known candle; the last row is the one
+    // forming now. A gap longer than a page is fetched page by page, each
+    // starting after the last row of the one before.
+    private async backfill() {
+        if (this.lastTime === null) return;
+        const { symbol, interval } = this.opts;
+        let startTime = this.lastTime * 1000;
+        while (true) {
+            const res = await fetch(`${this.opts.restBaseUrl || BINANCE_REST_URL}/klines?symbol=${symbol}&interval=${interval}&startTime=${startTime}&limit=${BACKFILL_PAGE}`);
+            const raw = await res.json();
+            if (!Array.isArray(raw) || this.stopped) return;
+            const last = raw.length < BACKFILL_PAGE;
+            // Closed rows are delivered even if the socket already pushed a newer candle
+            raw.forEach((row, i) => {
+                const isClosed = i < raw.length - 1 || row[6] < Date.now();
+                this.deliver(parseRestKline(row), isClosed, isClosed);
+            });
+            if (last) return;
+            startTime = raw[raw.length - 1][0] + 1;
+        }
+    }
+
+    private deliver(candle: CandleData, isClosed: boolean, backfilled = false) {
+        const time = candle.time as number;
+        if (!backfilled && this.lastTime !== null && time < this.lastTime) return;
+        if (this.lastTime === null || time > this.lastTime) this.lastTime = time;
+        this.opts.onCandle(candle, isClosed);
+    }
+}
@@ -0,0 +1,120 @@
+import { UTCTimestamp } from 'lightweight-charts';
+import { CandleData } from '../types';
+import { StreamStatus } from './klineStream';
+import { intervalToMs } from '../core/time';
+
+// --- MARKET DATA PROVIDERS ---
+// Every data source (exchange, exported file, generator) sits behind this
+// interface so the detectors and the UI never know where candles come from.
+
+export interface SymbolInfo {
+    symbol: string;          // name shown in the UI and passed back to the provider
+    assetClass: 'Crypto' | 'Forex' | 'Metals' | 'Futures' | 'Synthetic';
+    tickSize: number;
+    pricePrecision: number;
+    feeRate?: number;        // commission as a fraction of notional, per side
+    spread?: number;         // typical bid/ask spread in price units
+    proxyFor?: string;       // set when the data is a stand-in for another instrument (e.g. PAXG for gold)
+}
+
+export interface CandleQuery {
+    limit?: number;
+    startTime?: UTCTimestamp;
+    endTime?: UTCTimestamp;
+}
+
+export interface LiveHandlers {
+    onCandle: (candle: CandleData, isClosed: boolean) => void;
+    onStatus?: (status: StreamStatus) => void;
+    onError?: (error: unknown) => void;
+}
+
+export interface MarketDataProvider {
+    readonly id: string;
+    readonly name: string;
+    listSymbols(): Promise<SymbolInfo[]>;
+    getSymbolInfo(symbol: string): Promise<SymbolInfo>;
+    // Closed candles only, oldest first. The forming candle arrives through subscribe().
+    getCandles(symbol: string, interval: string, query?: CandleQuery): Promise<CandleData[]>;
+    // Streams updates after lastKnownTime. Returns an unsubscribe function.
+    subscribe(symbol: string, interval: string, handlers: LiveHandlers, lastKnownTime?: UTCTimestamp): () => void;
+}
+
+export const decimalsOf = (tickSize: number) => Math.max(0, Math.ceil(-Math.log10(tickSize) - 1e-9));
+
+const VOLUME_FIELDS = ['volume', 'quoteVolume', 'trades'] as const;
+
+// Aggregates candles into a coarser interval aligned to UTC epoch boundaries.
+// Volumes and trade counts add up; a bucket only has them if its candles do.
+export const resampleCandles = (candles: CandleData[], interval: string): CandleData[] => {
+    const step = intervalToMs(interval) / 1000;
+    const out: CandleData[] = [];
+    for (const c of candles) {
+        const bucket = (Math.floor((c.time as number) / step) * step) as UTCTimestamp;
+        const last = out[out.length - 1];
+        if (last && last.time === bucket) {
+            last.high = Math.max(last.high, c.high);
+            last.low = Math.min(last.low, c.low);
+            last.close = c.close;
+            for (const f of VOLUME_FIELDS) if (c[f] !== undefined) last[f] = (last[f] ?? 0) + c[f]!;
+        } else {
+            const candle: CandleData = { time: bucket, open: c.open, high: c.high, low: c.low, close: c.close };
+            for (const f of VOLUME_FIELDS) if (c[f] !== undefined) candle[f] = c[f];
+            out.push(candle);
+        }
+    }
+    return out;
+};
+
+// Applies limit/startTime/endTime to an already loaded, sorted series.
+export const sliceCandles = (candles: CandleData[], query: CandleQuery = {}): CandleData[] => {
+    let result = candles;
+    if (query.startTime !== undefined) result = result.filter(c => c.time >= query.startTime!);
+    if (query.endTime !== undefined) result = result.filter(c => c.time <= query.endTime!);
+    if (query.limit !== undefined) result = query.startTime !== undefined ? result.slice(0, query.limit) : result.slice(-query.limit);
+    return result;
+};
+
+export interface HistoryProgress {
+    loaded: number;    // candles fetched so far
+    expected: number;  // candles the full range should contain
+    pages: number;
+}
+
+export interface HistoryOptions {
+    onProgress?: (progress: HistoryProgress) => void;
+    signal?: AbortSignal;
+    pageSize?: number;
+    pageDelayMs?: number; // pause between pages, on top of any provider-side rate limiting
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Loads an arbitrary date range by paging backwards from endTime with
+// getCandles({ endTime, limit }) until startTime is reached or the provider
+// runs out of history.
+export const loadHistoryRange = async (provider: MarketDataProvider, symbol: string, interval: string, startTime: UTCTimestamp, endTime: UTCTimestamp, opts: HistoryOptions = {}): Promise<CandleData[]> => {
+    const pageSize = opts.pageSize ?? 1000;
+    const step = intervalToMs(interval) / 1000;
+    const expected = Math.max(1, Math.ceil(((endTime as number) - (startTime as number)) / step));
+    const pages: CandleData[][] = [];
+    let loaded = 0;
+    let cursor = endTime as number;
+
+    while (true) {
+        if (opts.signal?.aborted) throw new DOMException('History load cancelled', 'AbortError');
+        const page = await provider.getCandles(symbol, interval, { endTime: cursor as UTCTimestamp, limit: pageSize });
+        const inRange = page.filter(c => c.time >= startTime && (c.time as number) <= cursor);
+        if (inRange.length) pages.unshift(inRange);
+        loaded += inRange.length;
+        opts.onProgress?.({ loaded, expected, pages: pages.length });
+
+        const oldest = page[0]?.time as number | undefined;
+        if (oldest === undefined || oldest <= (startTime as number) || oldest > cursor) break;
+        cursor = oldest - 1;
+        await sleep(opts.pageDelayMs ?? 250);
+    }
+
+    const candles = pages.flat();
+    return candles.filter((c, i) => i === 0 || c.time > candles[i - 1].time);
+};
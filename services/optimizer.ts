@@ -0,0 +1,179 @@
+import { BacktestStats } from '../types';
+
+// --- PARAMETER OPTIMIZER ---
+// Searches detector/entry settings by backtesting each candidate on an in-sample
+// window and re-checking it on the out-of-sample window that follows. The
+// optimizer knows nothing about the detectors: the caller supplies an evaluator
+// that runs them for one parameter set and backtests any window of bars.
+
+export interface ParamRange {
+    key: string;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+}
+
+export type ParamSet = { [key: string]: number };
+
+// Runs the detectors once for `params`; the returned function backtests only the
+// signals between bar indices [start, end), seeing no candle at or after `end`.
+export type Evaluator = (params: ParamSet) => (start: number, end: number) => BacktestStats;
+
+export type Objective = 'netPnL' | 'profitFactor' | 'winRate' | 'returnToDrawdown';
+
+export interface OptimizerOptions {
+    space: ParamRange[];
+    method: 'GRID' | 'RANDOM';
+    samples: number;        // RANDOM only
+    seed?: number;
+    objective: Objective;
+    minTrades: number;      // in-sample trades needed to be ranked ahead of thinner results
+    inSampleRatio: number;  // share of each window used for fitting, e.g. 0.7
+    folds: number;          // walk-forward windows
+    totalBars: number;
+    warmupBars?: number;    // bars before the first window, only used as detector history
+    onProgress?: (done: number, total: number) => void;
+    signal?: AbortSignal;
+}
+
+export interface RankedResult {
+    params: ParamSet;
+    inSample: BacktestStats;
+    outOfSample: BacktestStats;
+    score: number;          // objective on the in-sample window
+}
+
+export interface WalkForwardFold {
+    isStart: number;
+    isEnd: number;          // also the first out-of-sample bar
+    oosEnd: number;
+    best: ParamSet;
+    inSample: BacktestStats;
+    outOfSample: BacktestStats;
+}
+
+export interface OptimizerReport {
+    ranked: RankedResult[];
+    folds: WalkForwardFold[];
+    // Out-of-sample PnL per bar over in-sample PnL per bar of each fold's winner.
+    // Around 1 means the fitted edge held up; near 0 or negative means it was curve fitting.
+    efficiency: number | null;
+    evaluated: number;
+}
+
+export const objectiveValue = (stats: BacktestStats, objective: Objective) => {
+    switch (objective) {
+        case 'profitFactor': return stats.profitFactor;
+        case 'winRate': return stats.winRate;
+        case 'returnToDrawdown': return stats.maxDrawdown > 0 ? stats.netPnL / stats.maxDrawdown : stats.netPnL;
+        default: return stats.netPnL;
+    }
+};
+
+const countSteps = (r: ParamRange) => r.step > 0 && r.max >= r.min ? Math.floor((r.max - r.min) / r.step + 1e-9) + 1 : 1;
+
+// Rounds away float noise from min + k * step (0.1 + 0.2 ...)
+const valueAt = (r: ParamRange, k: number) => parseFloat((r.min + k * r.step).toFixed(10));
+
+export const gridSize = (space: ParamRange[]) => space.reduce((n, r) => n * countSteps(r), 1);
+
+export const gridCandidates = (space: ParamRange[]): ParamSet[] => {
+    let sets: ParamSet[] = [{}];
+    for (const r of space) {
+        const next: ParamSet[] = [];
+        for (const set of sets) for (let k = 0; k < countSteps(r); k++) next.push({ ...set, [r.key]: valueAt(r, k) });
+        sets = next;
+    }
+    return sets;
+};
+
+// mulberry32: small seeded PRNG so a random search can be repeated exactly
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Samples points on the same step grid, without repeats.
+export const randomCandidates = (space: ParamRange[], samples: number, seed: number = 1): ParamSet[] => {
+    const random = createRandom(seed);
+    const target = Math.min(samples, gridSize(space));
+    const seen = new Set<string>();
+    const sets: ParamSet[] = [];
+    for (let attempts = 0; sets.length < target && attempts < target * 50; attempts++) {
+        const set: ParamSet = {};
+        for (const r of space) set[r.key] = valueAt(r, Math.floor(random() * countSteps(r)));
+        const key = JSON.stringify(set);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        sets.push(set);
+    }
+    return sets;
+};
+
+// Thin results sort below anything that meets minTrades, then by objective.
+const rank = (a: { score: number, trades: number }, b: { score: number, trades: number }, minTrades: number) => {
+    const aOk = a.trades >= minTrades, bOk = b.trades >= minTrades;
+    if (aOk !== bOk) return aOk ? -1 : 1;
+    return b.score - a.score;
+};
+
+const pause = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const runOptimizer = async (evaluate: Evaluator, opts: OptimizerOptions): Promise<OptimizerReport> => {
+    const candidates = opts.method === 'GRID' ? gridCandidates(opts.space) : randomCandidates(opts.space, opts.samples, opts.seed);
+    const warmup = Math.max(0, Math.min(opts.warmupBars ?? 0, opts.totalBars - 1));
+    const usable = opts.totalBars - warmup;
+
+    // Single split over the whole range for the ranked table
+    const splitAt = warmup + Math.floor(usable * opts.inSampleRatio);
+
+    // Rolling walk-forward windows that tile the end of the range with out-of-sample
+    // segments. The first in-sample window starts at the warmup, taking the bars
+    // left over from rounding, so together they cover [warmup, totalBars).
+    const folds = Math.max(1, opts.folds);
+    const oosLen = Math.floor(usable / (folds + opts.inSampleRatio / (1 - opts.inSampleRatio)));
+    const isLen = Math.floor(oosLen * opts.inSampleRatio / (1 - opts.inSampleRatio));
+    const windows = oosLen > 0 && isLen > 0
+        ? Array.from({ length: folds }, (_, k) => {
+            const oosEnd = opts.totalBars - (folds - 1 - k) * oosLen;
+            return { isStart: k === 0 ? warmup : oosEnd - oosLen - isLen, isEnd: oosEnd - oosLen, oosEnd };
+        })
+        : [];
+
+    const ranked: RankedResult[] = [];
+    const perFold: { params: ParamSet, inSample: BacktestStats, score: number, test: (start: number, end: number) => BacktestStats }[][] = windows.map(() => []);
+
+    for (let i = 0; i < candidates.length; i++) {
+        if (opts.signal?.aborted) throw new DOMException('Optimization cancelled', 'AbortError');
+        const params = candidates[i];
+        const test = evaluate(params);
+        const inSample = test(warmup, splitAt);
+        ranked.push({ params, inSample, outOfSample: test(splitAt, opts.totalBars), score: objectiveValue(inSample, opts.objective) });
+        windows.forEach((w, k) => {
+            const stats = test(w.isStart, w.isEnd);
+            perFold[k].push({ params, inSample: stats, score: objectiveValue(stats, opts.objective), test });
+        });
+        opts.onProgress?.(i + 1, candidates.length);
+        if (i % 5 === 4) await pause(); // keep the UI responsive
+    }
+
+    ranked.sort((a, b) => rank({ score: a.score, trades: a.inSample.totalTrades }, { score: b.score, trades: b.inSample.totalTrades }, opts.minTrades));
+
+    const foldResults: WalkForwardFold[] = windows.flatMap((w, k) => {
+        const sorted = perFold[k].sort((a, b) => rank({ score: a.score, trades: a.inSample.totalTrades }, { score: b.score, trades: b.inSample.totalTrades }, opts.minTrades));
+        if (sorted.length === 0) return [];
+        const best = sorted[0];
+        return [{ ...w, best: best.params, inSample: best.inSample, outOfSample: best.test(w.isEnd, w.oosEnd) }];
+    });
+
+    const isPnL = foldResults.reduce((s, f) => s + f.inSample.netPnL, 0);
+    const oosPnL = foldResults.reduce((s, f) => s + f.outOfSample.netPnL, 0);
+    const isBars = foldResults.reduce((s, f) => s + f.isEnd - f.isStart, 0);
+    const oosBars = foldResults.reduce((s, f) => s + f.oosEnd - f.isEnd, 0);
+    const efficiency = foldResults.length > 0 && isPnL > 0 ? (oosPnL / oosBars) / (isPnL / isBars) : null;
+
+    return { ranked, folds: foldResults, efficiency, evaluated: candidates.length };
+};
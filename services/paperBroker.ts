@@ -0,0 +1,326 @@
+import { UTCTimestamp } from 'lightweight-charts';
+import { Fill, PendingOrder, Sizing, TradeEntry } from '../types';
+
+// --- PAPER BROKER ---
+// Pure state transitions for the paper trader: every function takes the broker
+// state and returns a new one, so the App can keep it in a single useState and
+// persist it as-is. Prices are evaluated on candle highs/lows; within one
+// candle the stop is always assumed to fill before any target, and pending
+// orders are filled before open positions are checked. Each position and order
+// records how far price has been run against it, so a closed candle is only
+// ever applied to it once.
+
+export interface BrokerState {
+    balance: number;
+    positions: TradeEntry[];
+    orders: PendingOrder[];
+    tradeHistory: TradeEntry[];   // newest first
+}
+
+export interface BrokerConfig {
+    feeRate: number;              // fraction of notional, per fill
+}
+
+export interface OrderRequest {
+    symbol: string;
+    type: 'LONG' | 'SHORT';
+    price: number;
+    stopLoss: number;
+    takeProfit?: number;          // defaults to 2R
+    time: UTCTimestamp;
+    sizing: Sizing;
+    partials?: { r: number, fraction: number }[];  // partial take-profits at R multiples
+    breakevenAtR?: number;
+    trailR?: number;
+    confluences?: string[];
+    score?: number;
+    processedUntil?: UTCTimestamp; // when the position was entered, if after the candle opened
+}
+
+export interface BrokerBar {
+    time: UTCTimestamp;
+    open?: number;
+    high: number;
+    low: number;
+    close: number;
+}
+
+// How far a candle given to processBar has run: to its end once it has closed,
+// or to the latest update while it is still forming
+export interface BarProgress {
+    through: number;
+    forming?: boolean;
+}
+
+export interface BrokerEvent {
+    position?: TradeEntry;
+    order?: PendingOrder;
+    kind: 'FILL' | 'EXPIRED' | 'REJECTED' | 'PARTIAL' | 'TP' | 'SL' | 'BREAKEVEN';
+    price: number;
+    pnl?: number;                 // realized by this event, net of its fee
+}
+
+const EPSILON = 1e-9;
+
+const dirOf = (p: { type: 'LONG' | 'SHORT' }) => p.type === 'LONG' ? 1 : -1;
+
+const newId = (prefix: string = 'pos') => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Price distance of 1R, from the first fill to the original stop
+export const riskPerUnit = (p: TradeEntry) => Math.abs((p.fills[0]?.price ?? p.price) - p.initialStop);
+
+export const enteredQuantity = (p: TradeEntry) =>
+    p.fills.filter(f => f.reason === 'ENTRY' || f.reason === 'ADD').reduce((s, f) => s + f.quantity, 0);
+
+export const unrealizedPnL = (p: TradeEntry, price: number) => dirOf(p) * (price - p.price) * p.quantity;
+
+export const positionSize = (balance: number, entry: number, stop: number, sizing: Sizing) => {
+    if (sizing.mode === 'QUANTITY') return sizing.value;
+    const risk = sizing.mode === 'RISK_PERCENT' ? balance * sizing.value / 100 : sizing.value;
+    const distance = Math.abs(entry - stop);
+    return distance > 0 ? risk / distance : 0;
+};
+
+const replacePosition = (state: BrokerState, updated: TradeEntry): BrokerState =>
+    ({ ...state, positions: state.positions.map(p => p.id === updated.id ? updated : p) });
+
+const findPosition = (state: BrokerState, id: string) => {
+    const p = state.positions.find(x => x.id === id);
+    if (!p) throw new Error(`No open position ${id}`);
+    return p;
+};
+
+export const openPosition = (state: BrokerState, req: OrderRequest, config: BrokerConfig): BrokerState => {
+    const dir = dirOf(req);
+    if ((req.price - req.stopLoss) * dir <= 0) throw new Error(`Stop must be ${dir === 1 ? 'below' : 'above'} the entry for a ${req.type}`);
+    const risk = Math.abs(req.price - req.stopLoss);
+    const takeProfit = req.takeProfit && isFinite(req.takeProfit) ? req.takeProfit : req.price + dir * risk * 2;
+    if ((takeProfit - req.price) * dir <= 0) throw new Error(`Target must be ${dir === 1 ? 'above' : 'below'} the entry for a ${req.type}`);
+    const quantity = positionSize(state.balance, req.price, req.stopLoss, req.sizing);
+    if (!(quantity > 0)) throw new Error('Position size is zero');
+
+    const fee = config.feeRate * req.price * quantity;
+    const position: TradeEntry = {
+        id: newId(),
+        time: req.time,
+        symbol: req.symbol,
+        type: req.type,
+        price: req.price,
+        quantity,
+        stopLoss: req.stopLoss,
+        initialStop: req.stopLoss,
+        takeProfit,
+        targets: (req.partials || [])
+            .filter(t => t.r > 0 && t.fraction > 0)
+            .sort((a, b) => a.r - b.r)
+            .map(t => ({ price: req.price + dir * risk * t.r, fraction: Math.min(1, t.fraction) })),
+        breakevenAtR: req.breakevenAtR || undefined,
+        trailR: req.trailR || undefined,
+        bestPrice: req.price,
+        processedUntil: req.processedUntil,
+        riskAmount: risk * quantity,
+        fills: [{ time: req.time, price: req.price, quantity, fee, reason: 'ENTRY' }],
+        fees: fee,
+        realizedPnL: -fee,
+        result: 'OPEN',
+        confluences: req.confluences || [],
+        score: req.score ?? 0
+    };
+    return { ...state, balance: state.balance - fee, positions: [...state.positions, position] };
+};
+
+// Adds to an open position at `price`; the entry becomes the average fill.
+export const scaleIn = (state: BrokerState, id: string, price: number, quantity: number, time: UTCTimestamp, config: BrokerConfig): BrokerState => {
+    const p = findPosition(state, id);
+    if (!(quantity > 0)) return state;
+    const fee = config.feeRate * price * quantity;
+    const total = p.quantity + quantity;
+    const updated: TradeEntry = {
+        ...p,
+        price: (p.price * p.quantity + price * quantity) / total,
+        quantity: total,
+        riskAmount: p.riskAmount + Math.max(0, dirOf(p) * (price - p.stopLoss)) * quantity,
+        fills: [...p.fills, { time, price, quantity, fee, reason: 'ADD' }],
+        fees: p.fees + fee,
+        realizedPnL: p.realizedPnL - fee
+    };
+    return { ...replacePosition(state, updated), balance: state.balance - fee };
+};
+
+// Closes `quantity` at `price`. A position with nothing left moves to the history.
+const reduce = (state: BrokerState, p: TradeEntry, price: number, quantity: number, time: UTCTimestamp, reason: Fill['reason'], config: BrokerConfig): { state: BrokerState, position: TradeEntry, pnl: number } => {
+    const qty = Math.min(quantity, p.quantity);
+    const fee = config.feeRate * price * qty;
+    const pnl = dirOf(p) * (price - p.price) * qty - fee;
+    const fills = [...p.fills, { time, price, quantity: qty, fee, reason }];
+    let position: TradeEntry = { ...p, quantity: p.quantity - qty, fills, fees: p.fees + fee, realizedPnL: p.realizedPnL + pnl };
+    const balance = state.balance + pnl;
+
+    if (position.quantity > EPSILON) return { state: { ...replacePosition(state, position), balance }, position, pnl };
+
+    const exits = fills.filter(f => f.reason !== 'ENTRY' && f.reason !== 'ADD');
+    const exitQty = exits.reduce((s, f) => s + f.quantity, 0);
+    position = {
+        ...position,
+        quantity: 0,
+        result: position.realizedPnL > 0 ? 'WIN' : 'LOSS',
+        pnl: position.realizedPnL,
+        rMultiple: position.riskAmount > 0 ? position.realizedPnL / position.riskAmount : undefined,
+        exitPrice: exitQty > 0 ? exits.reduce((s, f) => s + f.price * f.quantity, 0) / exitQty : price,
+        exitTime: time
+    };
+    return {
+        state: { ...state, balance, positions: state.positions.filter(x => x.id !== p.id), tradeHistory: [position, ...state.tradeHistory] },
+        position,
+        pnl
+    };
+};
+
+// Manual close of some or all of a position at market.
+export const closePosition = (state: BrokerState, id: string, price: number, time: UTCTimestamp, config: BrokerConfig, fraction: number = 1): BrokerState => {
+    const p = findPosition(state, id);
+    const qty = fraction >= 1 ? p.quantity : p.quantity * fraction;
+    return reduce(state, p, price, qty, time, 'MANUAL', config).state;
+};
+
+export const moveStop = (state: BrokerState, id: string, stopLoss: number): BrokerState =>
+    replacePosition(state, { ...findPosition(state, id), stopLoss });
+
+export const moveToBreakeven = (state: BrokerState, id: string): BrokerState => {
+    const p = findPosition(state, id);
+    return moveStop(state, id, p.price);
+};
+
+// Places a resting order. Whether it is a LIMIT or a STOP follows from where
+// its price sits relative to the market when it is placed.
+export const placeOrder = (state: BrokerState, order: Omit<PendingOrder, 'id' | 'kind'>, marketPrice: number): BrokerState => {
+    const dir = dirOf(order);
+    if ((order.price - order.stopLoss) * dir <= 0) throw new Error(`Stop must be ${dir === 1 ? 'below' : 'above'} the entry for a ${order.type}`);
+    if (order.takeProfit && isFinite(order.takeProfit) && (order.takeProfit - order.price) * dir <= 0) throw new Error(`Target must be ${dir === 1 ? 'above' : 'below'} the entry for a ${order.type}`);
+    const kind = (order.price - marketPrice) * dir < 0 ? 'LIMIT' : 'STOP';
+    return { ...state, orders: [...state.orders, { ...order, id: newId('ord'), kind }] };
+};
+
+export const cancelOrder = (state: BrokerState, id: string): BrokerState =>
+    ({ ...state, orders: state.orders.filter(o => o.id !== id) });
+
+// Moves an order's entry, stop or target (e.g. by dragging its line). Moving the
+// entry across the market flips LIMIT/STOP, as re-placing it would.
+export const modifyOrder = (state: BrokerState, id: string, field: 'price' | 'stopLoss' | 'takeProfit', value: number, marketPrice: number): BrokerState => {
+    const order = state.orders.find(o => o.id === id);
+    if (!order) throw new Error(`No pending order ${id}`);
+    const { id: _, kind: __, ...rest } = order;
+    const placed = placeOrder({ ...state, orders: [] }, { ...rest, [field]: value }, marketPrice).orders[0];
+    return { ...state, orders: state.orders.map(o => o.id === id ? { ...placed, id } : o) };
+};
+
+// Fills or expires the pending orders of `symbol` against one candle. Candles
+// before the order are ignored and the one it was placed in is only checked at
+// its close. Limits that gap through fill at the (better) open, stops at the
+// (worse) open.
+const processOrders = (state: BrokerState, symbol: string, bar: BrokerBar, config: BrokerConfig, progress: BarProgress, due: (o: PendingOrder) => boolean, events: BrokerEvent[]): BrokerState => {
+    for (const order of state.orders.filter(o => o.symbol === symbol && due(o))) {
+        if (order.expiresAt !== undefined && bar.time >= order.expiresAt) {
+            state = cancelOrder(state, order.id);
+            events.push({ order, kind: 'EXPIRED', price: order.price });
+            continue;
+        }
+        if (bar.time < order.createdAt) continue;
+        const dir = dirOf(order);
+        const sameBar = bar.time === order.createdAt;
+        const high = sameBar ? bar.close : bar.high;
+        const low = sameBar ? bar.close : bar.low;
+        const open = sameBar ? bar.close : bar.open ?? bar.close;
+        const buying = dir === 1;
+        const isLimit = order.kind === 'LIMIT';
+        const touched = buying === isLimit ? low <= order.price : high >= order.price;
+        if (!touched) {
+            if (!progress.forming) state = { ...state, orders: state.orders.map(o => o.id === order.id ? { ...o, processedUntil: progress.through as UTCTimestamp } : o) };
+            continue;
+        }
+        const fill = isLimit
+            ? (buying ? Math.min(order.price, open) : Math.max(order.price, open))
+            : (buying ? Math.max(order.price, open) : Math.min(order.price, open));
+
+        state = cancelOrder(state, order.id);
+        try {
+            state = openPosition(state, { ...order, price: fill, time: bar.time, processedUntil: progress.through as UTCTimestamp, confluences: [...order.confluences, ...(order.source ? [order.source] : [])] }, config);
+            events.push({ order, position: state.positions[state.positions.length - 1], kind: 'FILL', price: fill });
+        } catch {
+            // A gap beyond the stop leaves nothing to risk: the order is dropped
+            events.push({ order, kind: 'REJECTED', price: fill });
+        }
+    }
+    return state;
+};
+
+// Runs every open position of `symbol` against one candle. Candles that began at
+// or before the entry candle are only evaluated at their close: their high/low
+// may have printed before the position existed. A closed candle is skipped by
+// positions and orders that price has already been run past its open, so
+// re-running it (or replaying history that overlaps it) changes nothing. The
+// forming candle is checked for stops, targets, partials and order fills on
+// every update; stop management (breakeven, trailing) waits for its close and
+// applies from the next candle on.
+export const processBar = (state: BrokerState, symbol: string, bar: BrokerBar, config: BrokerConfig, progress: BarProgress): { state: BrokerState, events: BrokerEvent[] } => {
+    const events: BrokerEvent[] = [];
+    const through = progress.through as UTCTimestamp;
+    const due = (x: { processedUntil?: UTCTimestamp }) => progress.forming || x.processedUntil === undefined || x.processedUntil <= bar.time;
+    state = processOrders(state, symbol, bar, config, progress, due, events);
+    const filled = new Set(events.filter(e => e.kind === 'FILL').map(e => e.position!.id));
+    for (const initial of state.positions.filter(p => p.symbol === symbol && (filled.has(p.id) || due(p)))) {
+        let p = initial;
+        const dir = dirOf(p);
+        const sameBar = bar.time <= p.time;
+        const high = sameBar ? bar.close : bar.high;
+        const low = sameBar ? bar.close : bar.low;
+        const open = sameBar ? bar.close : bar.open ?? bar.close;
+        const favourable = dir === 1 ? high : low;
+        const adverse = dir === 1 ? low : high;
+
+        if ((adverse - p.stopLoss) * dir <= 0) {
+            // Gapped through the stop: filled at the open, not the stop price
+            const fill = dir === 1 ? Math.min(p.stopLoss, open) : Math.max(p.stopLoss, open);
+            const r = reduce(state, p, fill, p.quantity, bar.time, 'SL', config);
+            state = r.state;
+            events.push({ position: r.position, kind: 'SL', price: fill, pnl: r.pnl });
+            continue;
+        }
+
+        const entered = enteredQuantity(p);
+        let closed = false;
+        for (let i = 0; i < p.targets.length; i++) {
+            const target = p.targets[i];
+            if (target.filled || (favourable - target.price) * dir < 0) continue;
+            const targets = p.targets.map((t, j) => j === i ? { ...t, filled: true } : t);
+            const r = reduce(state, { ...p, targets }, target.price, entered * target.fraction, bar.time, 'PARTIAL', config);
+            state = r.state;
+            p = r.position;
+            events.push({ position: p, kind: 'PARTIAL', price: target.price, pnl: r.pnl });
+            if (p.result !== 'OPEN') { closed = true; break; }
+        }
+        if (closed) continue;
+
+        if ((favourable - p.takeProfit) * dir >= 0) {
+            const r = reduce(state, p, p.takeProfit, p.quantity, bar.time, 'TP', config);
+            state = r.state;
+            events.push({ position: r.position, kind: 'TP', price: p.takeProfit, pnl: r.pnl });
+            continue;
+        }
+        if (progress.forming) continue;
+
+        const best = (favourable - (p.bestPrice ?? p.price)) * dir > 0 ? favourable : p.bestPrice ?? p.price;
+        const unit = riskPerUnit(p);
+        let stop = p.stopLoss;
+        if (p.breakevenAtR && (stop - p.price) * dir < 0 && (best - p.price) * dir >= p.breakevenAtR * unit) {
+            stop = p.price;
+            events.push({ position: p, kind: 'BREAKEVEN', price: stop });
+        }
+        if (p.trailR) {
+            const trail = best - dir * p.trailR * unit;
+            if ((trail - stop) * dir > 0) stop = trail;
+        }
+        state = replacePosition(state, { ...p, stopLoss: stop, bestPrice: best, processedUntil: through });
+    }
+    return { state, events };
+};
@@ -0,0 +1,77 @@
+import { UTCTimestamp } from 'lightweight-charts';
+import { CandleData, EntrySignal, ScanResult, WatchlistItem } from '../types';
+import { MarketDataProvider, loadHistoryRange } from './marketData';
+import { intervalToMs } from '../core/time';
+
+// --- WATCHLIST SCANNER ---
+// Runs the detector pipeline over every symbol/timeframe of the watchlist, one
+// request at a time with a pause in between so a full pass stays well inside
+// the exchange's rate limits. Like the optimizer it knows nothing about the
+// detectors: the caller passes a function that analyses one market.
+
+export type MarketAnalyser = (candles: CandleData[], timeframe: string, higher: { timeframe: string, candles: CandleData[] }[], daily: CandleData[]) => EntrySignal[];
+
+export interface ScanOptions {
+    stack: string[];                  // timeframe stack; the levels above each item are loaded for HTF context
+    candles: number;                  // bars per item
+    gapMs: number;
+    signal?: AbortSignal;
+    onResult?: (result: ScanResult) => void;
+    onProgress?: (done: number, total: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) { reject(new DOMException('Scan cancelled', 'AbortError')); return; }
+    const onAbort = () => { clearTimeout(timer); reject(new DOMException('Scan cancelled', 'AbortError')); };
+    // Drop the listener once the wait is over, or a long scan piles them up on its signal
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const scanKey = (item: WatchlistItem) => `${item.symbol}|${item.timeframe}`;
+
+// Scans the items in order and resolves with every result. Higher-timeframe and
+// daily candles are shared between items of the same symbol within one pass.
+export const scanWatchlist = async (provider: MarketDataProvider, items: WatchlistItem[], analyse: MarketAnalyser, opts: ScanOptions): Promise<ScanResult[]> => {
+    const cache = new Map<string, Promise<CandleData[]>>();
+    let first = true;
+    const request = (symbol: string, interval: string, load: () => Promise<CandleData[]>) => {
+        const key = `${symbol}|${interval}`;
+        if (!cache.has(key)) {
+            const wait = first ? Promise.resolve() : sleep(opts.gapMs, opts.signal);
+            first = false;
+            cache.set(key, wait.then(load));
+        }
+        return cache.get(key)!;
+    };
+
+    const results: ScanResult[] = [];
+    for (const [i, item] of items.entries()) {
+        let result: ScanResult;
+        try {
+            const candles = await request(item.symbol, item.timeframe, () => provider.getCandles(item.symbol, item.timeframe, { limit: opts.candles }));
+            if (candles.length === 0) throw new Error('No candles returned');
+            const higher: { timeframe: string, candles: CandleData[] }[] = [];
+            for (const tf of opts.stack.filter(tf => intervalToMs(tf) > intervalToMs(item.timeframe)).sort((a, b) => intervalToMs(a) - intervalToMs(b))) {
+                higher.push({ timeframe: tf, candles: await request(item.symbol, tf, () => provider.getCandles(item.symbol, tf, { limit: 200 })).catch(() => []) });
+            }
+            // Daily candles back to the month before the first candle, for the previous day/week/month levels
+            const dailyFrom = ((candles[0].time as number) - 40 * 86_400) as UTCTimestamp;
+            const daily = item.timeframe === '1d' ? [] : await request(item.symbol, `1d@${dailyFrom}`, () => loadHistoryRange(provider, item.symbol, '1d', dailyFrom, candles[candles.length - 1].time, { signal: opts.signal, pageDelayMs: opts.gapMs })).catch(() => []);
+            const signals = analyse(candles, item.timeframe, higher, daily);
+            const signal = signals[signals.length - 1] ?? null;
+            const last = candles[candles.length - 1];
+            result = {
+                ...item, signal, lastClose: last.close, lastTime: last.time, scannedAt: Date.now(),
+                barsAgo: signal ? candles.length - 1 - candles.findIndex(c => c.time === signal.time) : 0
+            };
+        } catch (e) {
+            if (opts.signal?.aborted) throw e;
+            result = { ...item, signal: null, barsAgo: 0, lastClose: NaN, lastTime: 0 as UTCTimestamp, scannedAt: Date.now(), error: e instanceof Error ? e.message : String(e) };
+        }
+        results.push(result);
+        opts.onResult?.(result);
+        opts.onProgress?.(i + 1, items.length);
+    }
+    return results;
+};
@@ -0,0 +1,30 @@
+import { Strategy } from '../types';
+import { STORES, withStore } from './db';
+import { validateStrategy } from '../core/strategy';
+
+// --- STRATEGY STORE ---
+// Saved strategies live in IndexedDB with a version that goes up on every save.
+// The last used strategy id is kept in the meta store.
+
+const ACTIVE_KEY = 'activeStrategyId';
+
+export const listStrategies = async (): Promise<Strategy[]> => {
+    const all = await withStore<any[]>(STORES.strategies, 'readonly', s => s.getAll());
+    return all.flatMap(raw => { try { return [validateStrategy(raw)]; } catch { return []; } }).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Stores the strategy as its next version and returns what was written
+export const saveStrategy = async (strategy: Strategy): Promise<Strategy> => {
+    const saved = { ...strategy, version: strategy.version + 1, updatedAt: Date.now() };
+    await withStore(STORES.strategies, 'readwrite', s => s.put(saved));
+    return saved;
+};
+
+export const deleteStrategy = (id: string) =>
+    withStore(STORES.strategies, 'readwrite', s => s.delete(id)).then(() => undefined);
+
+export const getActiveStrategyId = () =>
+    withStore<string | undefined>(STORES.meta, 'readonly', s => s.get(ACTIVE_KEY));
+
+export const setActiveStrategyId = (id: string) =>
+    withStore(STORES.meta, 'readwrite', s => s.put(id, ACTIVE_KEY)).then(() => undefined);
@@ -0,0 +1,129 @@
+import { UTCTimestamp } from 'lightweight-charts';
+import { CandleData } from '../types';
+import { intervalToMs } from '../core/time';
+import { MarketDataProvider, SymbolInfo, CandleQuery, LiveHandlers, decimalsOf } from './marketData';
+
+// --- SYNTHETIC PROVIDER ---
+// Deterministic offline price series. Price is a pure function of (seed, symbol,
+// time): layered cycles plus hashed value noise sampled on a fixed one-minute
+// grid. Any window of any timeframe therefore always yields the same candles,
+// and a 1h bar's high/low equals the extremes of its sixty 1m bars. Volume is
+// likewise drawn per minute, heavier when price moves, so it sums across timeframes.
+
+const SAMPLE_SEC = 60;
+
+const SYMBOLS: (SymbolInfo & { basePrice: number })[] = [
+    { symbol: 'SYN-GOLD', assetClass: 'Synthetic', tickSize: 0.1, pricePrecision: 1, feeRate: 0.0002, spread: 0.3, basePrice: 2400 },
+    { symbol: 'SYN-BTC', assetClass: 'Synthetic', tickSize: 0.01, pricePrecision: 2, feeRate: 0.001, spread: 5, basePrice: 65000 },
+    { symbol: 'SYN-EUR', assetClass: 'Synthetic', tickSize: 0.00001, pricePrecision: 5, feeRate: 0.00005, spread: 0.00008, basePrice: 1.08 }
+];
+
+// Cycle periods (seconds) and relative amplitudes: intraday swings up to multi-week trends.
+const CYCLES = [
+    { period: 5_400, amp: 0.0015 },
+    { period: 32_400, amp: 0.004 },
+    { period: 259_200, amp: 0.012 },
+    { period: 1_468_800, amp: 0.03 },
+    { period: 7_776_000, amp: 0.08 }
+];
+
+// Value-noise octaves: [cell size in seconds, relative amplitude]
+const NOISE = [[60, 0.0006], [900, 0.0015], [14_400, 0.004]];
+
+const hashString = (s: string) => {
+    let h = 2166136261;
+    for (let i = 0; i < s.length; i++) { h ^= s.charCodeAt(i); h = Math.imul(h, 16777619); }
+    return h >>> 0;
+};
+
+// Integer hash -> [-1, 1)
+const hash01 = (seed: number, a: number, b: number) => {
+    let h = seed ^ Math.imul(a | 0, 0x27d4eb2d) ^ Math.imul(b | 0, 0x165667b1);
+    h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    h ^= h >>> 16;
+    return ((h >>> 0) / 4294967296) * 2 - 1;
+};
+
+export class SyntheticProvider implements MarketDataProvider {
+    readonly id = 'synthetic';
+    readonly name = 'Synthetic (Offline)';
+
+    constructor(private readonly seed: number = 42, private readonly tickMs: number = 1000) {}
+
+    private priceAt(symbol: string, t: number) {
+        const base = SYMBOLS.find(s => s.symbol === symbol)?.basePrice ?? 100;
+        const key = (this.seed ^ hashString(symbol)) >>> 0;
+        let rel = 0;
+        CYCLES.forEach((c, i) => { rel += c.amp * Math.sin((2 * Math.PI * t) / c.period + (hash01(key, i, 7) + 1) * Math.PI); });
+        NOISE.forEach(([cell, amp], i) => {
+            const k = Math.floor(t / cell);
+            const f = t / cell - k;
+            rel += amp * (hash01(key, k, 100 + i) * (1 - f) + hash01(key, k + 1, 100 + i) * f);
+        });
+        return base * (1 + rel);
+    }
+
+    private candleAt(symbol: string, open: number, intervalSec: number, until: number = open + intervalSec): CandleData {
+        const key = (this.seed ^ hashString(symbol)) >>> 0;
+        const first = this.priceAt(symbol, open);
+        let high = first, low = first, close = first;
+        let volume = 0, quoteVolume = 0, trades = 0;
+        for (let t = open; t < until; t += SAMPLE_SEC) {
+            const p = this.priceAt(symbol, t);
+            const next = this.priceAt(symbol, Math.min(t + SAMPLE_SEC, until));
+            // Per-minute wick noise, fixed to the sample so it aggregates across timeframes
+            const wick = Math.abs(hash01(key, t / SAMPLE_SEC, 999)) * 0.0004 * p;
+            high = Math.max(high, p, next + (hash01(key, t / SAMPLE_SEC, 998) > 0 ? wick : 0));
+            low = Math.min(low, p, next - (hash01(key, t / SAMPLE_SEC, 998) <= 0 ? wick : 0));
+            close = next;
+            // Busier and quieter quarter hours, each minute scaled by how far price moved in it
+            const minuteVolume = 100 * Math.exp(0.8 * hash01(key, Math.floor(t / 900), 996)) * (1 + hash01(key, t / SAMPLE_SEC, 997) * 0.5) * (1 + Math.abs(next - p) / (p * 0.0003));
+            volume += minuteVolume;
+            quoteVolume += minuteVolume * p;
+            trades += Math.round(minuteVolume / 4);
+        }
+        return { time: open as UTCTimestamp, open: first, high, low, close, volume, quoteVolume, trades };
+    }
+
+    async listSymbols(): Promise<SymbolInfo[]> {
+        return SYMBOLS.map(({ basePrice, ...info }) => info);
+    }
+
+    async getSymbolInfo(symbol: string): Promise<SymbolInfo> {
+        const s = SYMBOLS.find(x => x.symbol === symbol);
+        if (!s) return { symbol, assetClass: 'Synthetic', tickSize: 0.01, pricePrecision: decimalsOf(0.01) };
+        const { basePrice, ...info } = s;
+        return info;
+    }
+
+    async getCandles(symbol: string, interval: string, query: CandleQuery = {}): Promise<CandleData[]> {
+        const step = intervalToMs(interval) / 1000;
+        const limit = query.limit ?? 500;
+        // Only closed candles, as Binance returns them: opened by endTime and
+        // closed by now, so an endTime in the current candle does not include it
+        const lastClosed = Math.floor(Date.now() / 1000 / step) * step - step;
+        const end = query.endTime === undefined ? lastClosed : Math.min(lastClosed, Math.floor((query.endTime as number) / step) * step);
+        const start = query.startTime !== undefined ? Math.ceil((query.startTime as number) / step) * step : end - (limit - 1) * step;
+        const candles: CandleData[] = [];
+        for (let t = start; t <= end && candles.length < limit; t += step) candles.push(this.candleAt(symbol, t, step));
+        return candles;
+    }
+
+    // Replays the generator against the wall clock, as a live feed would.
+    subscribe(symbol: string, interval: string, handlers: LiveHandlers, lastKnownTime?: UTCTimestamp) {
+        const step = intervalToMs(interval) / 1000;
+        let last = (lastKnownTime as number | undefined) ?? Math.floor(Date.now() / 1000 / step) * step - step;
+        const tick = () => {
+            const now = Date.now() / 1000;
+            const current = Math.floor(now / step) * step;
+            for (let t = last + step; t < current; t += step) handlers.onCandle(this.candleAt(symbol, t, step), true);
+            last = Math.max(last, current - step);
+            handlers.onCandle(this.candleAt(symbol, current, step, Math.max(current + SAMPLE_SEC, Math.floor(now))), false);
+        };
+        handlers.onStatus?.('LIVE');
+        tick();
+        const timer = setInterval(tick, this.tickMs);
+        return () => { clearInterval(timer); handlers.onStatus?.('CLOSED'); };
+    }
+}
@@ -0,0 +1,24 @@
+import { WatchlistSettings } from '../types';
+import { STORES, withStore } from './db';
+
+// --- WATCHLIST STORE ---
+// The watchlist and its scan settings are one entry in the meta store.
+
+const WATCHLIST_KEY = 'watchlist';
+
+export const DEFAULT_WATCHLIST: WatchlistSettings = {
+    items: [
+        { symbol: 'BTCUSDT', timeframe: '5m' },
+        { symbol: 'BTCUSDT', timeframe: '15m' },
+        { symbol: 'ETHUSDT', timeframe: '15m' }
+    ],
+    autoScan: false,
+    intervalMinutes: 5,
+    requestGapMs: 500
+};
+
+export const loadWatchlist = async (): Promise<WatchlistSettings> =>
+    ({ ...DEFAULT_WATCHLIST, ...(await withStore<WatchlistSettings | undefined>(STORES.meta, 'readonly', s => s.get(WATCHLIST_KEY))) });
+
+export const saveWatchlist = (watchlist: WatchlistSettings) =>
+    withStore(STORES.meta, 'readwrite', s => s.put(watchlist, WATCHLIST_KEY)).then(() => undefined);
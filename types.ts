@@ -0,0 +1,231 @@
+// --- TYPES ---
+
+// The analysis types live with the core; the app's own types follow.
+import { EntrySignal, KeyLevelKind, PremiumDiscount, SessionId, Trend, UTCTimestamp } from './core/types';
+
+export * from './core/types';
+
+export interface Fill {
+    time: UTCTimestamp;
+    price: number;
+    quantity: number;             // always positive; the reason says which way it went
+    fee: number;
+    reason: 'ENTRY' | 'ADD' | 'TP' | 'PARTIAL' | 'SL' | 'MANUAL';
+}
+
+export interface ProfitTarget {
+    price: number;
+    fraction: number;             // of the total quantity entered
+    filled?: boolean;
+}
+
+export interface TradeEntry {
+    id: string;
+    time: UTCTimestamp;           // open time of the candle the position was entered in
+    symbol?: string;
+    type: 'LONG' | 'SHORT';
+    price: number;                // average entry
+    quantity: number;             // currently open
+    stopLoss: number;
+    initialStop: number;          // 1R is measured from here
+    takeProfit: number;           // final target, closes whatever is left
+    targets: ProfitTarget[];      // partial take-profits, nearest first
+    breakevenAtR?: number;        // move the stop to entry once price reaches this many R
+    trailR?: number;              // trail the stop this many R behind the best price
+    bestPrice?: number;           // most favourable price seen since entry
+    processedUntil?: UTCTimestamp; // price up to here has been run against it; candles opening before it are skipped
+    riskAmount: number;           // money lost if every unit entered were stopped at initialStop
+    fills: Fill[];
+    fees: number;
+    realizedPnL: number;          // net of fees
+    result?: 'WIN' | 'LOSS' | 'OPEN';
+    pnl?: number;
+    rMultiple?: number;
+    exitPrice?: number;           // average exit
+    exitTime?: UTCTimestamp;
+    confluences: string[];
+    score: number;
+}
+
+export type SizingMode = 'RISK_PERCENT' | 'RISK_AMOUNT' | 'QUANTITY';
+
+export interface Sizing {
+    mode: SizingMode;
+    value: number;
+}
+
+// Resting order in the paper trader. LIMIT buys below / sells above the market
+// at placement, STOP buys above / sells below it.
+export interface PendingOrder {
+    id: string;
+    symbol: string;
+    type: 'LONG' | 'SHORT';
+    kind: 'LIMIT' | 'STOP';
+    price: number;
+    stopLoss: number;
+    takeProfit?: number;          // defaults to 2R from the fill
+    sizing: Sizing;
+    partials?: { r: number, fraction: number }[];
+    breakevenAtR?: number;
+    trailR?: number;
+    timeInForce: 'GTC' | 'SESSION';
+    expiresAt?: UTCTimestamp;     // SESSION orders lapse at the end of the session they were placed in
+    createdAt: UTCTimestamp;      // open time of the candle the order was placed in
+    processedUntil?: UTCTimestamp; // as for TradeEntry
+    source?: string;              // e.g. "Bullish OB edge"
+    confluences: string[];
+}
+
+export interface PaperAccount {
+    id: string;
+    name: string;
+    startingBalance: number;
+    balance: number;              // cash: realized PnL net of fees
+    positions: TradeEntry[];
+    orders: PendingOrder[];
+    tradeHistory: TradeEntry[];   // newest first
+    createdAt: number;            // ms epoch
+    updatedAt: number;
+}
+
+// One row of the multi-timeframe bias matrix
+export interface TimeframeBias {
+    timeframe: string;
+    trend: Trend;
+    zone: PremiumDiscount | null; // last close within the latest swing high/low; null until both exist
+    rangeHigh?: number;
+    rangeLow?: number;
+    liveObs: number;
+    liveFvgs: number;
+}
+
+// --- ALERTS ---
+
+export type AlertCondition =
+    | { type: 'SETUP', minScore: number, side?: 'LONG' | 'SHORT' }                                 // a new entry signal on the last closed candle
+    | { type: 'ZONE_ENTRY', zone: 'FVG' | 'OB', direction: 'Bullish' | 'Bearish', htf: boolean }   // the last candle traded into a live zone
+    | { type: 'LEVEL_SWEEP', level: KeyLevelKind, session?: SessionId }                            // wicked through a key level and closed back
+    | { type: 'PRICE_CROSS', price: number, direction: 'ABOVE' | 'BELOW' };                        // closed across a price
+
+export type AlertSound = 'NONE' | 'BEEP' | 'CHIME' | 'ALARM';
+
+export interface AlertRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    symbol: string;             // '' = any symbol
+    timeframe: string;          // '' = any timeframe
+    condition: AlertCondition;
+    cooldownMinutes: number;    // quiet period after firing
+    notify: boolean;            // desktop notification
+    sound: AlertSound;
+    webhook: boolean;
+    lastFiredAt?: number;       // ms
+    lastBarTime?: UTCTimestamp; // candle it last fired on, so re-analysing a candle never fires twice
+}
+
+export interface AlertEvent {
+    id: string;
+    ruleId: string;
+    ruleName: string;
+    symbol: string;
+    timeframe: string;
+    barTime: UTCTimestamp;
+    price: number;
+    message: string;
+    firedAt: number;            // ms
+    webhook?: string;           // 'sent', or why delivery failed
+}
+
+export interface AlertSettings {
+    webhookUrl: string;
+    webhookTemplate: string;    // JSON with {{placeholders}}
+}
+
+// --- WATCHLIST ---
+
+export interface WatchlistItem {
+    symbol: string;
+    timeframe: string;
+}
+
+export interface WatchlistSettings {
+    items: WatchlistItem[];
+    autoScan: boolean;
+    intervalMinutes: number;    // pause between passes over the whole list
+    requestGapMs: number;       // pause between candle requests, to stay under API limits
+}
+
+export interface ScanResult {
+    symbol: string;
+    timeframe: string;
+    signal: EntrySignal | null; // the latest setup on the loaded candles
+    barsAgo: number;            // candles since the signal
+    lastClose: number;
+    lastTime: UTCTimestamp;
+    scannedAt: number;          // ms
+    error?: string;
+}
+
+// --- JOURNAL ---
+
+export type JournalMistake = 'NO_SETUP' | 'CHASED' | 'AGAINST_HTF' | 'OUTSIDE_KILLZONE' | 'MOVED_STOP' | 'EARLY_EXIT' | 'OVERSIZED' | 'REVENGE';
+
+// A paper trade and what the trader wrote about it. Shares the position's id,
+// so the entry follows it from open to close.
+export interface JournalEntry {
+    id: string;
+    accountId: string;
+    symbol: string;
+    timeframe: string;            // chart timeframe when the trade was entered
+    type: 'LONG' | 'SHORT';
+    entryTime: UTCTimestamp;
+    entryPrice: number;
+    stopLoss: number;             // initial stop
+    takeProfit: number;
+    quantity: number;             // total entered
+    score: number;
+    confluences: string[];        // of the signal the trade was taken from
+    result?: 'WIN' | 'LOSS';      // unset while open
+    exitTime?: UTCTimestamp;
+    exitPrice?: number;
+    pnl?: number;
+    rMultiple?: number;
+    entrySnapshot?: string;       // chart image as a data URL, when the chart showed the symbol
+    exitSnapshot?: string;
+    notes: string;
+    tags: string[];
+    mistakes: JournalMistake[];
+    createdAt: number;            // ms epoch
+    updatedAt: number;
+}
+
+export interface JournalFilter {
+    query: string;                // matched against symbol, notes, tags and confluences
+    result: 'ALL' | 'WIN' | 'LOSS' | 'OPEN';
+    side: 'ALL' | 'LONG' | 'SHORT';
+    tag: string;                  // '' for any
+    mistake: JournalMistake | ''; // '' for any
+    accountId: string;            // '' for every account
+}
+
+// --- DRAWINGS ---
+
+export type DrawingTool = 'HLINE' | 'TREND' | 'RECT' | 'FIB' | 'TEXT';
+
+// Anchored in time and price, so a drawing stays put across zoom, pan and reloads
+export interface DrawingPoint {
+    time: UTCTimestamp;           // may fall between candles or past the last one
+    price: number;
+}
+
+export interface Drawing {
+    id: string;
+    symbol: string;
+    timeframe: string;
+    tool: DrawingTool;
+    points: DrawingPoint[];       // HLINE and TEXT use one, the others two
+    color: string;
+    text?: string;                // TEXT only
+    createdAt: number;            // ms epoch
+}